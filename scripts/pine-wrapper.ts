@@ -0,0 +1,19 @@
+/**
+ * pine-wrapper: validate .pine files from the command line
+ * Run with: npm run pine-wrapper -- [options] <file...>  (--help for options)
+ *
+ * In-process runs need the server's environment (.env): TradingView
+ * credentials or session, browser settings and OPENROUTER_API_KEY for --fix.
+ */
+
+import 'dotenv/config'
+import { runPineWrapper } from '../src/cli/pine-wrapper'
+
+runPineWrapper(process.argv.slice(2)).then(
+  // Exit explicitly: browser sessions and the KV client would keep the process alive
+  (code) => process.exit(code),
+  (error) => {
+    console.error(error)
+    process.exit(2)
+  }
+)
@@ -0,0 +1,15 @@
+/**
+ * Job Queue Plugin
+ *
+ * Starts the validation worker when the server boots, so jobs queued before a
+ * restart or machine suspend are picked up without waiting for a client poll.
+ *
+ * Runs automatically via Nitro's plugin system.
+ */
+
+import { startValidationWorker } from '../../src/server/job-queue'
+
+export default function jobQueuePlugin() {
+  console.log('[Plugin:job-queue] Starting validation worker...')
+  startValidationWorker()
+}
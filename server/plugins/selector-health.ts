@@ -0,0 +1,21 @@
+/**
+ * Selector Health Plugin
+ *
+ * Schedules the TradingView selector health check, so a UI change that breaks
+ * TV_SELECTORS shows up in the logs and the admin report before a customer
+ * publish fails on it.
+ *
+ * Runs automatically via Nitro's plugin system.
+ */
+
+import { startSelectorHealthSchedule } from '../../src/server/selector-health'
+
+export default function selectorHealthPlugin() {
+  if (!process.env.TV_USERNAME || !process.env.TV_PASSWORD) {
+    console.log('[Plugin:selector-health] No service account configured, skipping scheduled checks')
+    return
+  }
+
+  console.log('[Plugin:selector-health] Scheduling selector health checks...')
+  startSelectorHealthSchedule()
+}
@@ -0,0 +1,97 @@
+/**
+ * pine-wrapper Backends
+ *
+ * Where pine-wrapper sends scripts: a running instance's /api/v1 routes, or
+ * runValidationLoop in this process (needs the same TradingView, browser and
+ * OpenRouter environment as the server).
+ */
+
+import type { ApiJob, ApiValidationResult } from '../server/public-api'
+
+export interface ValidationBackend {
+  validate(script: string, options: { fix: boolean }): Promise<ApiValidationResult>
+}
+
+// ============ API ============
+
+const API_POLL_INTERVAL_MS = 2000
+
+// Job statuses after which a validate-only job will not change again
+const FINAL_JOB_STATUSES: ApiJob['status'][] = ['validated', 'completed', 'failed', 'cancelled']
+
+export interface ApiBackendOptions {
+  baseUrl: string
+  apiKey: string
+  /** Give up on a job after this long, in ms */
+  timeoutMs: number
+  pollIntervalMs?: number
+  fetch?: typeof fetch
+}
+
+async function readApiResponse(response: Response): Promise<ApiJob> {
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    // A used-up daily quota comes with X-RateLimit-Reset, short-term throttling with Retry-After
+    const reset = response.headers.get('X-RateLimit-Reset')
+    const retryAfter = response.headers.get('Retry-After')
+    const detail =
+      response.status !== 429 ? ''
+      : reset ? ` (quota resets ${new Date(parseInt(reset) * 1000).toISOString()})`
+      : retryAfter ? ` (retry in ${retryAfter}s)`
+      : ''
+    throw new Error(`${body.error ?? `HTTP ${response.status}`}${detail}`)
+  }
+  return body
+}
+
+/**
+ * Validate through POST /api/v1/validate, polling the job until it finishes
+ */
+export function createApiBackend(options: ApiBackendOptions): ValidationBackend {
+  const request = options.fetch ?? fetch
+  const baseUrl = options.baseUrl.replace(/\/+$/, '')
+  const headers = { Authorization: `Bearer ${options.apiKey}`, 'Content-Type': 'application/json' }
+  const pollIntervalMs = options.pollIntervalMs ?? API_POLL_INTERVAL_MS
+
+  return {
+    async validate(script, { fix }) {
+      let job = await readApiResponse(
+        await request(`${baseUrl}/api/v1/validate`, { method: 'POST', headers, body: JSON.stringify({ script, fix }) })
+      )
+
+      const deadline = Date.now() + options.timeoutMs
+      while (!FINAL_JOB_STATUSES.includes(job.status)) {
+        if (Date.now() > deadline) {
+          throw new Error(`Timed out waiting for job ${job.jobId} (last status: ${job.status})`)
+        }
+        await new Promise(resolve => setTimeout(resolve, pollIntervalMs))
+        job = await readApiResponse(await request(`${baseUrl}/api/v1/jobs/${job.jobId}`, { headers }))
+      }
+
+      if (!job.result) {
+        throw new Error(job.error ?? `Job ${job.jobId} ended as ${job.status}`)
+      }
+      return job.result
+    },
+  }
+}
+
+// ============ In-process ============
+
+/**
+ * Validate with runValidationLoop in this process. The validation loop is
+ * loaded on first use, so API-only runs do not need its environment.
+ */
+export function createLocalBackend(): ValidationBackend {
+  return {
+    async validate(script, { fix }) {
+      const { runValidationLoop, DEFAULT_MAX_FIX_ATTEMPTS } = await import('../server/validation-loop')
+      const { toApiValidationResult } = await import('../server/public-api')
+      const result = await runValidationLoop(script, fix ? DEFAULT_MAX_FIX_ATTEMPTS : 0)
+      if (result.stopReason === 'error') {
+        throw new Error(result.finalErrors[0]?.message ?? 'Validation failed')
+      }
+      return toApiValidationResult(result)
+    },
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * pine-wrapper CLI
+ *
+ * Validates .pine files against TradingView's compiler, optionally lets the
+ * AI fix them, and reports diagnostics as text, JSON or SARIF. Runs in-process
+ * by default; with --api it goes through a running instance's /api/v1 routes.
+ *
+ * Exit code: 0 when every file is valid, 1 when any is invalid or could not
+ * be validated, 2 on bad usage.
+ */
+
+import fs from 'fs'
+import path from 'path'
+import { parseArgs } from 'util'
+import { createApiBackend, createLocalBackend, type ValidationBackend } from './backends'
+import { formatReports, REPORT_FORMATS, type FileReport, type ReportFormat } from './report'
+
+const DEFAULT_TIMEOUT_SECONDS = 600
+
+export const USAGE = `Usage: pine-wrapper [options] <file or directory...>
+
+Validate Pine Script files against TradingView's compiler.
+Directories are searched for .pine files (skipping .fixed.pine).
+
+Options:
+  --fix                Let the AI fix errors and write the result to <name>.fixed.pine
+  --in-place           With --fix, overwrite the file instead
+  --format <format>    human, json or sarif (default: human)
+  --api <url>          Validate through a running instance instead of in-process
+  --api-key <key>      API key for --api (default: PINE_WRAPPER_API_KEY)
+  --timeout <seconds>  Give up on a file after this long with --api (default: ${DEFAULT_TIMEOUT_SECONDS})
+  -h, --help           Show this help`
+
+export interface CliIo {
+  stdout: (text: string) => void
+  stderr: (text: string) => void
+  env: Record<string, string | undefined>
+  /** Replaces the backend chosen from the options, for tests */
+  backend?: ValidationBackend
+}
+
+const defaultIo: CliIo = {
+  stdout: text => process.stdout.write(`${text}\n`),
+  stderr: text => process.stderr.write(`${text}\n`),
+  env: process.env,
+}
+
+/**
+ * The .pine files named by the arguments, expanding directories
+ */
+export function collectPineFiles(inputs: string[]): string[] {
+  const files: string[] = []
+  for (const input of inputs) {
+    if (!fs.statSync(input, { throwIfNoEntry: false })?.isDirectory()) {
+      files.push(input)
+      continue
+    }
+    for (const entry of fs.readdirSync(input, { recursive: true, withFileTypes: true })) {
+      if (entry.isFile() && entry.name.endsWith('.pine') && !entry.name.endsWith('.fixed.pine')) {
+        files.push(path.join(entry.parentPath, entry.name))
+      }
+    }
+  }
+  return files
+}
+
+export function fixedFilePath(file: string): string {
+  return file.replace(/(\.pine)?$/, '.fixed.pine')
+}
+
+async function validateFile(
+  file: string,
+  backend: ValidationBackend,
+  options: { fix: boolean; inPlace: boolean }
+): Promise<FileReport> {
+  try {
+    const script = fs.readFileSync(file, 'utf8')
+    const result = await backend.validate(script, { fix: options.fix })
+
+    if (!result.fixApplied || result.finalScript === script) {
+      return { file, result }
+    }
+    const fixedFile = options.inPlace ? file : fixedFilePath(file)
+    fs.writeFileSync(fixedFile, result.finalScript)
+    return { file, result, fixedFile }
+  } catch (error) {
+    return { file, error: error instanceof Error ? error.message : String(error) }
+  }
+}
+
+/**
+ * Run the CLI with the arguments after the command name; resolves to the exit code
+ */
+export async function runPineWrapper(argv: string[], io: CliIo = defaultIo): Promise<number> {
+  let parsed: ReturnType<typeof parseCliArgs>
+  try {
+    parsed = parseCliArgs(argv)
+  } catch (error) {
+    io.stderr(`${error instanceof Error ? error.message : error}\n\n${USAGE}`)
+    return 2
+  }
+
+  const { values, positionals } = parsed
+  if (values.help) {
+    io.stdout(USAGE)
+    return 0
+  }
+
+  const format = values.format as ReportFormat
+  const timeoutSeconds = Number(values.timeout)
+  const apiKey = values['api-key'] ?? io.env.PINE_WRAPPER_API_KEY
+  const usageError =
+    positionals.length === 0 ? 'No files given'
+    : !REPORT_FORMATS.includes(format) ? `Unknown format "${format}"`
+    : values['in-place'] && !values.fix ? '--in-place needs --fix'
+    : values.api && !apiKey ? '--api needs an API key (--api-key or PINE_WRAPPER_API_KEY)'
+    : !(timeoutSeconds > 0) ? '--timeout must be a positive number of seconds'
+    : null
+  if (usageError) {
+    io.stderr(`${usageError}\n\n${USAGE}`)
+    return 2
+  }
+
+  const backend = io.backend ?? (values.api
+    ? createApiBackend({ baseUrl: values.api, apiKey: apiKey!, timeoutMs: timeoutSeconds * 1000 })
+    : createLocalBackend())
+
+  const files = collectPineFiles(positionals)
+  if (files.length === 0) {
+    io.stderr('No .pine files found')
+    return 2
+  }
+
+  // One file at a time: validations share one TradingView session either way
+  const reports: FileReport[] = []
+  for (const file of files) {
+    if (format === 'human' && files.length > 1) io.stderr(`Validating ${file}...`)
+    reports.push(await validateFile(file, backend, { fix: !!values.fix, inPlace: !!values['in-place'] }))
+  }
+
+  io.stdout(formatReports(reports, format))
+  return reports.every(report => report.result?.isValid) ? 0 : 1
+}
+
+function parseCliArgs(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      fix: { type: 'boolean' },
+      'in-place': { type: 'boolean' },
+      format: { type: 'string', default: 'human' },
+      api: { type: 'string' },
+      'api-key': { type: 'string' },
+      timeout: { type: 'string', default: String(DEFAULT_TIMEOUT_SECONDS) },
+      help: { type: 'boolean', short: 'h' },
+    },
+  })
+}
@@ -0,0 +1,143 @@
+/**
+ * pine-wrapper Reports
+ *
+ * Prints the outcome of a pine-wrapper run as text for a terminal, as JSON,
+ * or as SARIF 2.1.0 so CI systems (e.g. GitHub code scanning) can annotate
+ * the offending lines.
+ */
+
+import type { ApiValidationResult } from '../server/public-api'
+
+export type ReportFormat = 'human' | 'json' | 'sarif'
+
+export const REPORT_FORMATS: ReportFormat[] = ['human', 'json', 'sarif']
+
+export interface FileReport {
+  /** The .pine file as given on the command line */
+  file: string
+  result?: ApiValidationResult
+  /** Where the fixed script was written, when the AI fixed it */
+  fixedFile?: string
+  /** Validation could not run (unreadable file, API or browser failure) */
+  error?: string
+}
+
+type Diagnostic = ApiValidationResult['errors'][number]
+
+/**
+ * The file a report's diagnostics point into: once a fix has been written,
+ * the errors left refer to the fixed script's lines
+ */
+function diagnosticsFile(report: FileReport): string {
+  return report.fixedFile ?? report.file
+}
+
+function countLabel(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`
+}
+
+// ============ Human ============
+
+function formatDiagnostic(file: string, diagnostic: Diagnostic): string {
+  const position = diagnostic.column ? `${diagnostic.line}:${diagnostic.column}` : `${diagnostic.line}`
+  const category = diagnostic.category && diagnostic.category !== 'unknown' ? ` [${diagnostic.category}]` : ''
+  return `  ${file}:${position} ${diagnostic.type}${category} ${diagnostic.message}`
+}
+
+function formatHuman(reports: FileReport[]): string {
+  const lines: string[] = []
+  for (const report of reports) {
+    if (report.error) {
+      lines.push(`${report.file}: failed - ${report.error}`)
+      continue
+    }
+
+    const result = report.result!
+    const errors = result.errors.filter(d => d.type === 'error').length
+    const warnings = result.errors.length - errors
+    const counts = [errors && countLabel(errors, 'error'), warnings && countLabel(warnings, 'warning')].filter(Boolean)
+    lines.push(`${report.file}: ${result.isValid ? 'valid' : 'invalid'}${counts.length ? ` (${counts.join(', ')})` : ''}`)
+
+    if (report.fixedFile) {
+      lines.push(`  AI fix written to ${report.fixedFile}`)
+    }
+    for (const diagnostic of result.errors) {
+      lines.push(formatDiagnostic(diagnosticsFile(report), diagnostic))
+    }
+  }
+
+  const valid = reports.filter(r => r.result?.isValid).length
+  lines.push('', `${valid} of ${countLabel(reports.length, 'file')} valid`)
+  return lines.join('\n')
+}
+
+// ============ JSON ============
+
+function formatJson(reports: FileReport[]): string {
+  return JSON.stringify({ valid: reports.every(r => r.result?.isValid), files: reports }, null, 2)
+}
+
+// ============ SARIF ============
+
+function formatSarif(reports: FileReport[]): string {
+  const ruleIds = new Set<string>()
+  const results: object[] = []
+
+  for (const report of reports) {
+    if (report.error) {
+      ruleIds.add('validation-failed')
+      results.push({
+        ruleId: 'validation-failed',
+        level: 'error',
+        message: { text: report.error },
+        locations: [{ physicalLocation: { artifactLocation: { uri: report.file } } }],
+      })
+      continue
+    }
+
+    for (const diagnostic of report.result!.errors) {
+      const ruleId = diagnostic.category ?? 'unknown'
+      ruleIds.add(ruleId)
+      results.push({
+        ruleId,
+        level: diagnostic.type,
+        message: { text: diagnostic.message },
+        locations: [{
+          physicalLocation: {
+            artifactLocation: { uri: diagnosticsFile(report) },
+            // SARIF lines start at 1; messages without a line point at the top of the file
+            region: {
+              startLine: Math.max(diagnostic.line, 1),
+              ...(diagnostic.column && { startColumn: diagnostic.column }),
+            },
+          },
+        }],
+      })
+    }
+  }
+
+  return JSON.stringify({
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'pine-wrapper',
+          rules: Array.from(ruleIds, id => ({ id, shortDescription: { text: `Pine Script ${id.replace(/-/g, ' ')}` } })),
+        },
+      },
+      results,
+    }],
+  }, null, 2)
+}
+
+export function formatReports(reports: FileReport[], format: ReportFormat): string {
+  switch (format) {
+    case 'json':
+      return formatJson(reports)
+    case 'sarif':
+      return formatSarif(reports)
+    default:
+      return formatHuman(reports)
+  }
+}
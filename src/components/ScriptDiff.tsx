@@ -0,0 +1,208 @@
+import { useMemo, useState, type ReactNode } from 'react'
+import {
+  applyHunks,
+  diffHunks,
+  diffWords,
+  hunkErrors,
+  type DiffErrorSource,
+  type DiffLine,
+} from '../server/script-diff'
+
+type DiffMode = 'unified' | 'split'
+
+interface ScriptDiffProps {
+  before: string
+  after: string
+  /** Scripts and errors of the fix loop, to explain each hunk */
+  sources?: DiffErrorSource[]
+  /** Lets the user reject hunks and validate the script with the rest applied */
+  onRevalidate?: (script: string) => void
+}
+
+/**
+ * A change row: the old and new line side by side, either missing for a pure add or remove
+ */
+interface DiffRow {
+  old?: DiffLine
+  new?: DiffLine
+}
+
+/**
+ * Line- and word-level diff of an AI fix, hunk by hunk, with the errors each hunk fixes
+ */
+export function ScriptDiff({ before, after, sources = [], onRevalidate }: ScriptDiffProps) {
+  const [mode, setMode] = useState<DiffMode>('unified')
+  const [rejected, setRejected] = useState<Set<number>>(new Set())
+
+  const hunks = useMemo(() => diffHunks(before, after), [before, after])
+  const explanations = useMemo(() => hunkErrors(before, hunks, sources), [before, hunks, sources])
+
+  if (hunks.length === 0) {
+    return null
+  }
+
+  const toggleHunk = (index: number) => {
+    setRejected((current) => {
+      const next = new Set(current)
+      if (!next.delete(index)) next.add(index)
+      return next
+    })
+  }
+
+  return (
+    <div className="script-diff">
+      <div className="diff-toolbar">
+        <span>
+          {hunks.length} change{hunks.length === 1 ? '' : 's'}
+          {rejected.size > 0 && `, ${rejected.size} rejected`}
+        </span>
+        <div className="diff-mode">
+          <button
+            className={`btn btn-small ${mode === 'unified' ? 'btn-primary' : 'btn-secondary'}`}
+            onClick={() => setMode('unified')}
+          >
+            Unified
+          </button>
+          <button
+            className={`btn btn-small ${mode === 'split' ? 'btn-primary' : 'btn-secondary'}`}
+            onClick={() => setMode('split')}
+          >
+            Side by side
+          </button>
+        </div>
+      </div>
+
+      {hunks.map((hunk) => (
+        <div key={hunk.index} className={`diff-hunk ${rejected.has(hunk.index) ? 'diff-hunk-rejected' : ''}`}>
+          <div className="diff-hunk-header">
+            <span>
+              @@ -{hunk.oldStart},{hunk.oldCount} +{hunk.newStart},{hunk.newCount} @@
+            </span>
+            {onRevalidate && (
+              <label>
+                <input
+                  type="checkbox"
+                  checked={!rejected.has(hunk.index)}
+                  onChange={() => toggleHunk(hunk.index)}
+                />{' '}
+                Keep this change
+              </label>
+            )}
+          </div>
+
+          <div className="diff-explanation">
+            {explanations[hunk.index].length === 0 ? (
+              <span>Not tied to a reported error - check this change is one you want.</span>
+            ) : (
+              explanations[hunk.index].map((error, i) => (
+                <div key={i}>
+                  Fixes: <span className={error.type}>{error.message}</span>
+                </div>
+              ))
+            )}
+          </div>
+
+          <pre className={`diff-body diff-${mode}`}>
+            {toRows(hunk.lines).map((row, i) =>
+              mode === 'split' ? <SplitRow key={i} row={row} /> : <UnifiedRow key={i} row={row} />
+            )}
+          </pre>
+        </div>
+      ))}
+
+      {onRevalidate && (
+        <div className="button-group">
+          <button
+            className="btn btn-primary"
+            disabled={rejected.size === 0}
+            onClick={() => onRevalidate(applyHunks(before, after, rejected))}
+          >
+            {rejected.size === 0
+              ? 'Uncheck a change to reject it'
+              : `Re-validate without ${rejected.size} rejected change${rejected.size === 1 ? '' : 's'}`}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function UnifiedRow({ row }: { row: DiffRow }) {
+  if (row.old && row.new && row.old.type === 'equal') {
+    return <DiffLineView line={row.old} side="old" />
+  }
+  return (
+    <>
+      {row.old && <DiffLineView line={row.old} side="old" pair={row.new} />}
+      {row.new && <DiffLineView line={row.new} side="new" pair={row.old} />}
+    </>
+  )
+}
+
+function SplitRow({ row }: { row: DiffRow }) {
+  return (
+    <div className="diff-split-row">
+      {row.old ? <DiffLineView line={row.old} side="old" pair={row.new} /> : <div className="diff-line diff-line-empty" />}
+      {row.new ? <DiffLineView line={row.new} side="new" pair={row.old} /> : <div className="diff-line diff-line-empty" />}
+    </div>
+  )
+}
+
+/**
+ * One line; a changed line paired with its replacement highlights the changed words
+ */
+function DiffLineView({ line, side, pair }: { line: DiffLine; side: 'old' | 'new'; pair?: DiffLine }) {
+  const marker = line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' '
+  const lineNumber = side === 'old' ? line.oldLine : line.newLine
+
+  let content: ReactNode = line.text || ' '
+  if (line.type !== 'equal' && pair && pair.type !== 'equal') {
+    const [oldText, newText] = side === 'old' ? [line.text, pair.text] : [pair.text, line.text]
+    const hidden = side === 'old' ? 'add' : 'remove'
+    content = diffWords(oldText, newText)
+      .filter((part) => part.type !== hidden)
+      .map((part, i) => (
+        <span key={i} className={part.type === 'equal' ? undefined : `diff-word-${part.type}`}>
+          {part.text}
+        </span>
+      ))
+  }
+
+  return (
+    <div className={`diff-line diff-line-${line.type}`}>
+      <span className="diff-line-number">{lineNumber ?? ''}</span>
+      <span className="diff-marker">{marker}</span>
+      <span>{content}</span>
+    </div>
+  )
+}
+
+// Unchanged lines become one row; each run of removes and adds is paired up line by line
+function toRows(lines: DiffLine[]): DiffRow[] {
+  const rows: DiffRow[] = []
+  let removed: DiffLine[] = []
+  let added: DiffLine[] = []
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push({ old: removed[i], new: added[i] })
+    }
+    removed = []
+    added = []
+  }
+
+  for (const line of lines) {
+    if (line.type === 'equal') {
+      flush()
+      rows.push({ old: line, new: line })
+    } else if (line.type === 'remove') {
+      // A remove after adds starts a new change run
+      if (added.length > 0) flush()
+      removed.push(line)
+    } else {
+      added.push(line)
+    }
+  }
+  flush()
+  return rows
+}
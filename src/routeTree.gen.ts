@@ -11,13 +11,30 @@
 import { Route as rootRouteImport } from './routes/__root'
 import { Route as ValidateRouteImport } from './routes/validate'
 import { Route as SuccessRouteImport } from './routes/success'
+import { Route as HistoryRouteImport } from './routes/history'
 import { Route as IndexRouteImport } from './routes/index'
+import { Route as ApiV1ValidateRouteImport } from './routes/api/v1/validate'
+import { Route as ApiV1PublishRouteImport } from './routes/api/v1/publish'
+import { Route as ApiV1OpenapiRouteImport } from './routes/api/v1/openapi'
 import { Route as ApiStripeWebhookRouteImport } from './routes/api/stripe/webhook'
+import { Route as ApiAuthVerifyRouteImport } from './routes/api/auth/verify'
+import { Route as ApiAdminSelectorHealthRouteImport } from './routes/api/admin/selector-health'
+import { Route as ApiAdminRateLimitsRouteImport } from './routes/api/admin/rate-limits'
+import { Route as ApiAdminPricingRouteImport } from './routes/api/admin/pricing'
+import { Route as ApiAdminValidationCacheIndexRouteImport } from './routes/api/admin/validation-cache/index'
 import { Route as ApiAdminTvSessionIndexRouteImport } from './routes/api/admin/tv-session/index'
+import { Route as ApiAdminStripeEventsIndexRouteImport } from './routes/api/admin/stripe-events/index'
+import { Route as ApiAdminApiKeysIndexRouteImport } from './routes/api/admin/api-keys/index'
+import { Route as ApiV1JobsJobIdRouteImport } from './routes/api/v1/jobs/$jobId'
+import { Route as ApiMockPaymentsCheckoutSessionIdRouteImport } from './routes/api/mock-payments/checkout/$sessionId'
+import { Route as ApiJobsJobIdEventsRouteImport } from './routes/api/jobs/$jobId/events'
+import { Route as ApiJobsJobIdCancelRouteImport } from './routes/api/jobs/$jobId/cancel'
 import { Route as ApiAdminTvSessionUploadRouteImport } from './routes/api/admin/tv-session/upload'
 import { Route as ApiAdminTvSessionStatusRouteImport } from './routes/api/admin/tv-session/status'
 import { Route as ApiAdminTvSessionLiveRouteImport } from './routes/api/admin/tv-session/live'
 import { Route as ApiAdminTvSessionFinalizeRouteImport } from './routes/api/admin/tv-session/finalize'
+import { Route as ApiAdminStripeEventsEventIdRouteImport } from './routes/api/admin/stripe-events/$eventId'
+import { Route as ApiAdminApiKeysKeyIdRouteImport } from './routes/api/admin/api-keys/$keyId'
 
 const ValidateRoute = ValidateRouteImport.update({
   id: '/validate',
@@ -29,21 +46,99 @@ const SuccessRoute = SuccessRouteImport.update({
   path: '/success',
   getParentRoute: () => rootRouteImport,
 } as any)
+const HistoryRoute = HistoryRouteImport.update({
+  id: '/history',
+  path: '/history',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const IndexRoute = IndexRouteImport.update({
   id: '/',
   path: '/',
   getParentRoute: () => rootRouteImport,
 } as any)
+const ApiV1ValidateRoute = ApiV1ValidateRouteImport.update({
+  id: '/api/v1/validate',
+  path: '/api/v1/validate',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiV1PublishRoute = ApiV1PublishRouteImport.update({
+  id: '/api/v1/publish',
+  path: '/api/v1/publish',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiV1OpenapiRoute = ApiV1OpenapiRouteImport.update({
+  id: '/api/v1/openapi',
+  path: '/api/v1/openapi',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const ApiStripeWebhookRoute = ApiStripeWebhookRouteImport.update({
   id: '/api/stripe/webhook',
   path: '/api/stripe/webhook',
   getParentRoute: () => rootRouteImport,
 } as any)
+const ApiAuthVerifyRoute = ApiAuthVerifyRouteImport.update({
+  id: '/api/auth/verify',
+  path: '/api/auth/verify',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiAdminSelectorHealthRoute = ApiAdminSelectorHealthRouteImport.update({
+  id: '/api/admin/selector-health',
+  path: '/api/admin/selector-health',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiAdminRateLimitsRoute = ApiAdminRateLimitsRouteImport.update({
+  id: '/api/admin/rate-limits',
+  path: '/api/admin/rate-limits',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiAdminPricingRoute = ApiAdminPricingRouteImport.update({
+  id: '/api/admin/pricing',
+  path: '/api/admin/pricing',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiAdminValidationCacheIndexRoute =
+  ApiAdminValidationCacheIndexRouteImport.update({
+    id: '/api/admin/validation-cache/',
+    path: '/api/admin/validation-cache/',
+    getParentRoute: () => rootRouteImport,
+  } as any)
 const ApiAdminTvSessionIndexRoute = ApiAdminTvSessionIndexRouteImport.update({
   id: '/api/admin/tv-session/',
   path: '/api/admin/tv-session/',
   getParentRoute: () => rootRouteImport,
 } as any)
+const ApiAdminStripeEventsIndexRoute =
+  ApiAdminStripeEventsIndexRouteImport.update({
+    id: '/api/admin/stripe-events/',
+    path: '/api/admin/stripe-events/',
+    getParentRoute: () => rootRouteImport,
+  } as any)
+const ApiAdminApiKeysIndexRoute = ApiAdminApiKeysIndexRouteImport.update({
+  id: '/api/admin/api-keys/',
+  path: '/api/admin/api-keys/',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiV1JobsJobIdRoute = ApiV1JobsJobIdRouteImport.update({
+  id: '/api/v1/jobs/$jobId',
+  path: '/api/v1/jobs/$jobId',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiMockPaymentsCheckoutSessionIdRoute =
+  ApiMockPaymentsCheckoutSessionIdRouteImport.update({
+    id: '/api/mock-payments/checkout/$sessionId',
+    path: '/api/mock-payments/checkout/$sessionId',
+    getParentRoute: () => rootRouteImport,
+  } as any)
+const ApiJobsJobIdEventsRoute = ApiJobsJobIdEventsRouteImport.update({
+  id: '/api/jobs/$jobId/events',
+  path: '/api/jobs/$jobId/events',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiJobsJobIdCancelRoute = ApiJobsJobIdCancelRouteImport.update({
+  id: '/api/jobs/$jobId/cancel',
+  path: '/api/jobs/$jobId/cancel',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const ApiAdminTvSessionUploadRoute = ApiAdminTvSessionUploadRouteImport.update({
   id: '/api/admin/tv-session/upload',
   path: '/api/admin/tv-session/upload',
@@ -65,87 +160,217 @@ const ApiAdminTvSessionFinalizeRoute =
     path: '/api/admin/tv-session/finalize',
     getParentRoute: () => rootRouteImport,
   } as any)
+const ApiAdminStripeEventsEventIdRoute =
+  ApiAdminStripeEventsEventIdRouteImport.update({
+    id: '/api/admin/stripe-events/$eventId',
+    path: '/api/admin/stripe-events/$eventId',
+    getParentRoute: () => rootRouteImport,
+  } as any)
+const ApiAdminApiKeysKeyIdRoute = ApiAdminApiKeysKeyIdRouteImport.update({
+  id: '/api/admin/api-keys/$keyId',
+  path: '/api/admin/api-keys/$keyId',
+  getParentRoute: () => rootRouteImport,
+} as any)
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
+  '/history': typeof HistoryRoute
   '/success': typeof SuccessRoute
   '/validate': typeof ValidateRoute
+  '/api/admin/pricing': typeof ApiAdminPricingRoute
+  '/api/admin/rate-limits': typeof ApiAdminRateLimitsRoute
+  '/api/admin/selector-health': typeof ApiAdminSelectorHealthRoute
+  '/api/auth/verify': typeof ApiAuthVerifyRoute
   '/api/stripe/webhook': typeof ApiStripeWebhookRoute
+  '/api/v1/openapi': typeof ApiV1OpenapiRoute
+  '/api/v1/publish': typeof ApiV1PublishRoute
+  '/api/v1/validate': typeof ApiV1ValidateRoute
+  '/api/admin/api-keys/$keyId': typeof ApiAdminApiKeysKeyIdRoute
+  '/api/admin/stripe-events/$eventId': typeof ApiAdminStripeEventsEventIdRoute
   '/api/admin/tv-session/finalize': typeof ApiAdminTvSessionFinalizeRoute
   '/api/admin/tv-session/live': typeof ApiAdminTvSessionLiveRoute
   '/api/admin/tv-session/status': typeof ApiAdminTvSessionStatusRoute
   '/api/admin/tv-session/upload': typeof ApiAdminTvSessionUploadRoute
+  '/api/jobs/$jobId/cancel': typeof ApiJobsJobIdCancelRoute
+  '/api/jobs/$jobId/events': typeof ApiJobsJobIdEventsRoute
+  '/api/mock-payments/checkout/$sessionId': typeof ApiMockPaymentsCheckoutSessionIdRoute
+  '/api/v1/jobs/$jobId': typeof ApiV1JobsJobIdRoute
+  '/api/admin/api-keys': typeof ApiAdminApiKeysIndexRoute
+  '/api/admin/stripe-events': typeof ApiAdminStripeEventsIndexRoute
   '/api/admin/tv-session': typeof ApiAdminTvSessionIndexRoute
+  '/api/admin/validation-cache': typeof ApiAdminValidationCacheIndexRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
+  '/history': typeof HistoryRoute
   '/success': typeof SuccessRoute
   '/validate': typeof ValidateRoute
+  '/api/admin/pricing': typeof ApiAdminPricingRoute
+  '/api/admin/rate-limits': typeof ApiAdminRateLimitsRoute
+  '/api/admin/selector-health': typeof ApiAdminSelectorHealthRoute
+  '/api/auth/verify': typeof ApiAuthVerifyRoute
   '/api/stripe/webhook': typeof ApiStripeWebhookRoute
+  '/api/v1/openapi': typeof ApiV1OpenapiRoute
+  '/api/v1/publish': typeof ApiV1PublishRoute
+  '/api/v1/validate': typeof ApiV1ValidateRoute
+  '/api/admin/api-keys/$keyId': typeof ApiAdminApiKeysKeyIdRoute
+  '/api/admin/stripe-events/$eventId': typeof ApiAdminStripeEventsEventIdRoute
   '/api/admin/tv-session/finalize': typeof ApiAdminTvSessionFinalizeRoute
   '/api/admin/tv-session/live': typeof ApiAdminTvSessionLiveRoute
   '/api/admin/tv-session/status': typeof ApiAdminTvSessionStatusRoute
   '/api/admin/tv-session/upload': typeof ApiAdminTvSessionUploadRoute
+  '/api/jobs/$jobId/cancel': typeof ApiJobsJobIdCancelRoute
+  '/api/jobs/$jobId/events': typeof ApiJobsJobIdEventsRoute
+  '/api/mock-payments/checkout/$sessionId': typeof ApiMockPaymentsCheckoutSessionIdRoute
+  '/api/v1/jobs/$jobId': typeof ApiV1JobsJobIdRoute
+  '/api/admin/api-keys': typeof ApiAdminApiKeysIndexRoute
+  '/api/admin/stripe-events': typeof ApiAdminStripeEventsIndexRoute
   '/api/admin/tv-session': typeof ApiAdminTvSessionIndexRoute
+  '/api/admin/validation-cache': typeof ApiAdminValidationCacheIndexRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
   '/': typeof IndexRoute
+  '/history': typeof HistoryRoute
   '/success': typeof SuccessRoute
   '/validate': typeof ValidateRoute
+  '/api/admin/pricing': typeof ApiAdminPricingRoute
+  '/api/admin/rate-limits': typeof ApiAdminRateLimitsRoute
+  '/api/admin/selector-health': typeof ApiAdminSelectorHealthRoute
+  '/api/auth/verify': typeof ApiAuthVerifyRoute
   '/api/stripe/webhook': typeof ApiStripeWebhookRoute
+  '/api/v1/openapi': typeof ApiV1OpenapiRoute
+  '/api/v1/publish': typeof ApiV1PublishRoute
+  '/api/v1/validate': typeof ApiV1ValidateRoute
+  '/api/admin/api-keys/$keyId': typeof ApiAdminApiKeysKeyIdRoute
+  '/api/admin/stripe-events/$eventId': typeof ApiAdminStripeEventsEventIdRoute
   '/api/admin/tv-session/finalize': typeof ApiAdminTvSessionFinalizeRoute
   '/api/admin/tv-session/live': typeof ApiAdminTvSessionLiveRoute
   '/api/admin/tv-session/status': typeof ApiAdminTvSessionStatusRoute
   '/api/admin/tv-session/upload': typeof ApiAdminTvSessionUploadRoute
+  '/api/jobs/$jobId/cancel': typeof ApiJobsJobIdCancelRoute
+  '/api/jobs/$jobId/events': typeof ApiJobsJobIdEventsRoute
+  '/api/mock-payments/checkout/$sessionId': typeof ApiMockPaymentsCheckoutSessionIdRoute
+  '/api/v1/jobs/$jobId': typeof ApiV1JobsJobIdRoute
+  '/api/admin/api-keys/': typeof ApiAdminApiKeysIndexRoute
+  '/api/admin/stripe-events/': typeof ApiAdminStripeEventsIndexRoute
   '/api/admin/tv-session/': typeof ApiAdminTvSessionIndexRoute
+  '/api/admin/validation-cache/': typeof ApiAdminValidationCacheIndexRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
   fullPaths:
     | '/'
+    | '/history'
     | '/success'
     | '/validate'
+    | '/api/admin/pricing'
+    | '/api/admin/rate-limits'
+    | '/api/admin/selector-health'
+    | '/api/auth/verify'
     | '/api/stripe/webhook'
+    | '/api/v1/openapi'
+    | '/api/v1/publish'
+    | '/api/v1/validate'
+    | '/api/admin/api-keys/$keyId'
+    | '/api/admin/stripe-events/$eventId'
     | '/api/admin/tv-session/finalize'
     | '/api/admin/tv-session/live'
     | '/api/admin/tv-session/status'
     | '/api/admin/tv-session/upload'
+    | '/api/jobs/$jobId/cancel'
+    | '/api/jobs/$jobId/events'
+    | '/api/mock-payments/checkout/$sessionId'
+    | '/api/v1/jobs/$jobId'
+    | '/api/admin/api-keys'
+    | '/api/admin/stripe-events'
     | '/api/admin/tv-session'
+    | '/api/admin/validation-cache'
   fileRoutesByTo: FileRoutesByTo
   to:
     | '/'
+    | '/history'
     | '/success'
     | '/validate'
+    | '/api/admin/pricing'
+    | '/api/admin/rate-limits'
+    | '/api/admin/selector-health'
+    | '/api/auth/verify'
     | '/api/stripe/webhook'
+    | '/api/v1/openapi'
+    | '/api/v1/publish'
+    | '/api/v1/validate'
+    | '/api/admin/api-keys/$keyId'
+    | '/api/admin/stripe-events/$eventId'
     | '/api/admin/tv-session/finalize'
     | '/api/admin/tv-session/live'
     | '/api/admin/tv-session/status'
     | '/api/admin/tv-session/upload'
+    | '/api/jobs/$jobId/cancel'
+    | '/api/jobs/$jobId/events'
+    | '/api/mock-payments/checkout/$sessionId'
+    | '/api/v1/jobs/$jobId'
+    | '/api/admin/api-keys'
+    | '/api/admin/stripe-events'
     | '/api/admin/tv-session'
+    | '/api/admin/validation-cache'
   id:
     | '__root__'
     | '/'
+    | '/history'
     | '/success'
     | '/validate'
+    | '/api/admin/pricing'
+    | '/api/admin/rate-limits'
+    | '/api/admin/selector-health'
+    | '/api/auth/verify'
     | '/api/stripe/webhook'
+    | '/api/v1/openapi'
+    | '/api/v1/publish'
+    | '/api/v1/validate'
+    | '/api/admin/api-keys/$keyId'
+    | '/api/admin/stripe-events/$eventId'
     | '/api/admin/tv-session/finalize'
     | '/api/admin/tv-session/live'
     | '/api/admin/tv-session/status'
     | '/api/admin/tv-session/upload'
+    | '/api/jobs/$jobId/cancel'
+    | '/api/jobs/$jobId/events'
+    | '/api/mock-payments/checkout/$sessionId'
+    | '/api/v1/jobs/$jobId'
+    | '/api/admin/api-keys/'
+    | '/api/admin/stripe-events/'
     | '/api/admin/tv-session/'
+    | '/api/admin/validation-cache/'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute
+  HistoryRoute: typeof HistoryRoute
   SuccessRoute: typeof SuccessRoute
   ValidateRoute: typeof ValidateRoute
+  ApiAdminPricingRoute: typeof ApiAdminPricingRoute
+  ApiAdminRateLimitsRoute: typeof ApiAdminRateLimitsRoute
+  ApiAdminSelectorHealthRoute: typeof ApiAdminSelectorHealthRoute
+  ApiAuthVerifyRoute: typeof ApiAuthVerifyRoute
   ApiStripeWebhookRoute: typeof ApiStripeWebhookRoute
+  ApiV1OpenapiRoute: typeof ApiV1OpenapiRoute
+  ApiV1PublishRoute: typeof ApiV1PublishRoute
+  ApiV1ValidateRoute: typeof ApiV1ValidateRoute
+  ApiAdminApiKeysKeyIdRoute: typeof ApiAdminApiKeysKeyIdRoute
+  ApiAdminStripeEventsEventIdRoute: typeof ApiAdminStripeEventsEventIdRoute
   ApiAdminTvSessionFinalizeRoute: typeof ApiAdminTvSessionFinalizeRoute
   ApiAdminTvSessionLiveRoute: typeof ApiAdminTvSessionLiveRoute
   ApiAdminTvSessionStatusRoute: typeof ApiAdminTvSessionStatusRoute
   ApiAdminTvSessionUploadRoute: typeof ApiAdminTvSessionUploadRoute
+  ApiJobsJobIdCancelRoute: typeof ApiJobsJobIdCancelRoute
+  ApiJobsJobIdEventsRoute: typeof ApiJobsJobIdEventsRoute
+  ApiMockPaymentsCheckoutSessionIdRoute: typeof ApiMockPaymentsCheckoutSessionIdRoute
+  ApiV1JobsJobIdRoute: typeof ApiV1JobsJobIdRoute
+  ApiAdminApiKeysIndexRoute: typeof ApiAdminApiKeysIndexRoute
+  ApiAdminStripeEventsIndexRoute: typeof ApiAdminStripeEventsIndexRoute
   ApiAdminTvSessionIndexRoute: typeof ApiAdminTvSessionIndexRoute
+  ApiAdminValidationCacheIndexRoute: typeof ApiAdminValidationCacheIndexRoute
 }
 
 declare module '@tanstack/react-router' {
@@ -164,6 +389,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof SuccessRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/history': {
+      id: '/history'
+      path: '/history'
+      fullPath: '/history'
+      preLoaderRoute: typeof HistoryRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/': {
       id: '/'
       path: '/'
@@ -171,6 +403,27 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof IndexRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/api/v1/validate': {
+      id: '/api/v1/validate'
+      path: '/api/v1/validate'
+      fullPath: '/api/v1/validate'
+      preLoaderRoute: typeof ApiV1ValidateRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/v1/publish': {
+      id: '/api/v1/publish'
+      path: '/api/v1/publish'
+      fullPath: '/api/v1/publish'
+      preLoaderRoute: typeof ApiV1PublishRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/v1/openapi': {
+      id: '/api/v1/openapi'
+      path: '/api/v1/openapi'
+      fullPath: '/api/v1/openapi'
+      preLoaderRoute: typeof ApiV1OpenapiRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/api/stripe/webhook': {
       id: '/api/stripe/webhook'
       path: '/api/stripe/webhook'
@@ -178,6 +431,41 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ApiStripeWebhookRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/api/auth/verify': {
+      id: '/api/auth/verify'
+      path: '/api/auth/verify'
+      fullPath: '/api/auth/verify'
+      preLoaderRoute: typeof ApiAuthVerifyRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/admin/selector-health': {
+      id: '/api/admin/selector-health'
+      path: '/api/admin/selector-health'
+      fullPath: '/api/admin/selector-health'
+      preLoaderRoute: typeof ApiAdminSelectorHealthRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/admin/rate-limits': {
+      id: '/api/admin/rate-limits'
+      path: '/api/admin/rate-limits'
+      fullPath: '/api/admin/rate-limits'
+      preLoaderRoute: typeof ApiAdminRateLimitsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/admin/pricing': {
+      id: '/api/admin/pricing'
+      path: '/api/admin/pricing'
+      fullPath: '/api/admin/pricing'
+      preLoaderRoute: typeof ApiAdminPricingRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/admin/validation-cache/': {
+      id: '/api/admin/validation-cache/'
+      path: '/api/admin/validation-cache'
+      fullPath: '/api/admin/validation-cache'
+      preLoaderRoute: typeof ApiAdminValidationCacheIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/api/admin/tv-session/': {
       id: '/api/admin/tv-session/'
       path: '/api/admin/tv-session'
@@ -185,6 +473,48 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ApiAdminTvSessionIndexRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/api/admin/stripe-events/': {
+      id: '/api/admin/stripe-events/'
+      path: '/api/admin/stripe-events'
+      fullPath: '/api/admin/stripe-events'
+      preLoaderRoute: typeof ApiAdminStripeEventsIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/admin/api-keys/': {
+      id: '/api/admin/api-keys/'
+      path: '/api/admin/api-keys'
+      fullPath: '/api/admin/api-keys'
+      preLoaderRoute: typeof ApiAdminApiKeysIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/v1/jobs/$jobId': {
+      id: '/api/v1/jobs/$jobId'
+      path: '/api/v1/jobs/$jobId'
+      fullPath: '/api/v1/jobs/$jobId'
+      preLoaderRoute: typeof ApiV1JobsJobIdRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/mock-payments/checkout/$sessionId': {
+      id: '/api/mock-payments/checkout/$sessionId'
+      path: '/api/mock-payments/checkout/$sessionId'
+      fullPath: '/api/mock-payments/checkout/$sessionId'
+      preLoaderRoute: typeof ApiMockPaymentsCheckoutSessionIdRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/jobs/$jobId/events': {
+      id: '/api/jobs/$jobId/events'
+      path: '/api/jobs/$jobId/events'
+      fullPath: '/api/jobs/$jobId/events'
+      preLoaderRoute: typeof ApiJobsJobIdEventsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/jobs/$jobId/cancel': {
+      id: '/api/jobs/$jobId/cancel'
+      path: '/api/jobs/$jobId/cancel'
+      fullPath: '/api/jobs/$jobId/cancel'
+      preLoaderRoute: typeof ApiJobsJobIdCancelRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/api/admin/tv-session/upload': {
       id: '/api/admin/tv-session/upload'
       path: '/api/admin/tv-session/upload'
@@ -213,19 +543,50 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ApiAdminTvSessionFinalizeRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/api/admin/stripe-events/$eventId': {
+      id: '/api/admin/stripe-events/$eventId'
+      path: '/api/admin/stripe-events/$eventId'
+      fullPath: '/api/admin/stripe-events/$eventId'
+      preLoaderRoute: typeof ApiAdminStripeEventsEventIdRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/admin/api-keys/$keyId': {
+      id: '/api/admin/api-keys/$keyId'
+      path: '/api/admin/api-keys/$keyId'
+      fullPath: '/api/admin/api-keys/$keyId'
+      preLoaderRoute: typeof ApiAdminApiKeysKeyIdRouteImport
+      parentRoute: typeof rootRouteImport
+    }
   }
 }
 
 const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
+  HistoryRoute: HistoryRoute,
   SuccessRoute: SuccessRoute,
   ValidateRoute: ValidateRoute,
+  ApiAdminPricingRoute: ApiAdminPricingRoute,
+  ApiAdminRateLimitsRoute: ApiAdminRateLimitsRoute,
+  ApiAdminSelectorHealthRoute: ApiAdminSelectorHealthRoute,
+  ApiAuthVerifyRoute: ApiAuthVerifyRoute,
   ApiStripeWebhookRoute: ApiStripeWebhookRoute,
+  ApiV1OpenapiRoute: ApiV1OpenapiRoute,
+  ApiV1PublishRoute: ApiV1PublishRoute,
+  ApiV1ValidateRoute: ApiV1ValidateRoute,
+  ApiAdminApiKeysKeyIdRoute: ApiAdminApiKeysKeyIdRoute,
+  ApiAdminStripeEventsEventIdRoute: ApiAdminStripeEventsEventIdRoute,
   ApiAdminTvSessionFinalizeRoute: ApiAdminTvSessionFinalizeRoute,
   ApiAdminTvSessionLiveRoute: ApiAdminTvSessionLiveRoute,
   ApiAdminTvSessionStatusRoute: ApiAdminTvSessionStatusRoute,
   ApiAdminTvSessionUploadRoute: ApiAdminTvSessionUploadRoute,
+  ApiJobsJobIdCancelRoute: ApiJobsJobIdCancelRoute,
+  ApiJobsJobIdEventsRoute: ApiJobsJobIdEventsRoute,
+  ApiMockPaymentsCheckoutSessionIdRoute: ApiMockPaymentsCheckoutSessionIdRoute,
+  ApiV1JobsJobIdRoute: ApiV1JobsJobIdRoute,
+  ApiAdminApiKeysIndexRoute: ApiAdminApiKeysIndexRoute,
+  ApiAdminStripeEventsIndexRoute: ApiAdminStripeEventsIndexRoute,
   ApiAdminTvSessionIndexRoute: ApiAdminTvSessionIndexRoute,
+  ApiAdminValidationCacheIndexRoute: ApiAdminValidationCacheIndexRoute,
 }
 export const routeTree = rootRouteImport
   ._addFileChildren(rootRouteChildren)
@@ -44,6 +44,7 @@ function RootDocument({ children }: { children: React.ReactNode }) {
           </a>
           <div className="nav-links">
             <a href="/">Home</a>
+            <a href="/history">My Scripts</a>
           </div>
         </nav>
         <main>{children}</main>
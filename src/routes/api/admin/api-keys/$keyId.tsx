@@ -0,0 +1,44 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { verifyAdminAuth, unauthorizedResponse } from '../../../../server/admin-auth'
+import { rateLimitAdminRequest } from '../../../../server/rate-limit'
+import { revokeApiKey } from '../../../../server/api-keys'
+
+export const Route = createFileRoute('/api/admin/api-keys/$keyId')({
+  server: {
+    handlers: {
+      /**
+       * DELETE /api/admin/api-keys/:keyId
+       *
+       * Revoke an API key. Its requests are refused from now on; jobs it
+       * already queued still run.
+       *
+       * Headers:
+       * - x-admin-key: Admin API key for authentication
+       */
+      DELETE: async ({ request, params }) => {
+        const limited = await rateLimitAdminRequest(request)
+        if (limited) {
+          return limited
+        }
+
+        if (!verifyAdminAuth(request)) {
+          return unauthorizedResponse()
+        }
+
+        try {
+          const apiKey = await revokeApiKey(params.keyId)
+          if (!apiKey) {
+            return Response.json({ error: 'Key not found' }, { status: 404 })
+          }
+          return Response.json({ success: true, apiKey })
+        } catch (error) {
+          console.error('[Admin API Keys] Error:', error)
+          return Response.json(
+            { error: error instanceof Error ? error.message : 'Failed to revoke key' },
+            { status: 500 }
+          )
+        }
+      },
+    },
+  },
+})
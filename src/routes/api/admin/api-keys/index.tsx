@@ -0,0 +1,96 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { verifyAdminAuth, unauthorizedResponse } from '../../../../server/admin-auth'
+import { rateLimitAdminRequest } from '../../../../server/rate-limit'
+import { listApiKeys, type ApiKeyQuotas } from '../../../../server/kv'
+import { createApiKey } from '../../../../server/api-keys'
+
+export const Route = createFileRoute('/api/admin/api-keys/')({
+  server: {
+    handlers: {
+      /**
+       * GET /api/admin/api-keys
+       *
+       * List API keys for /api/v1, newest first, including revoked ones
+       *
+       * Headers:
+       * - x-admin-key: Admin API key for authentication
+       *
+       * Response:
+       * - keys: ApiKey[] - keyId, name, prefix, quotas, createdAt, revokedAt
+       */
+      GET: async ({ request }) => {
+        const limited = await rateLimitAdminRequest(request)
+        if (limited) {
+          return limited
+        }
+
+        if (!verifyAdminAuth(request)) {
+          return unauthorizedResponse()
+        }
+
+        try {
+          return Response.json({ keys: await listApiKeys() })
+        } catch (error) {
+          console.error('[Admin API Keys] Error:', error)
+          return Response.json(
+            { error: error instanceof Error ? error.message : 'Failed to list keys' },
+            { status: 500 }
+          )
+        }
+      },
+
+      /**
+       * POST /api/admin/api-keys
+       *
+       * Create an API key. The key itself is only in this response.
+       *
+       * Headers:
+       * - x-admin-key: Admin API key for authentication
+       *
+       * Body:
+       * - name: string - Who or what uses the key (e.g. "CI")
+       * - validationsPerDay: number (optional) - Default: API_DEFAULT_VALIDATIONS_PER_DAY
+       * - publishesPerDay: number (optional) - Default: API_DEFAULT_PUBLISHES_PER_DAY
+       *
+       * Response:
+       * - key: string - Send as `Authorization: Bearer <key>`
+       * - apiKey: ApiKey
+       */
+      POST: async ({ request }) => {
+        const limited = await rateLimitAdminRequest(request)
+        if (limited) {
+          return limited
+        }
+
+        if (!verifyAdminAuth(request)) {
+          return unauthorizedResponse()
+        }
+
+        try {
+          const body = (await request.json()) as { name?: string } & Partial<ApiKeyQuotas>
+          if (!body.name?.trim()) {
+            return Response.json({ error: 'Missing name' }, { status: 400 })
+          }
+
+          const quotas: Partial<ApiKeyQuotas> = {}
+          for (const field of ['validationsPerDay', 'publishesPerDay'] as const) {
+            if (body[field] === undefined) continue
+            if (!Number.isInteger(body[field]) || body[field]! < 0) {
+              return Response.json({ error: `${field} must be a non-negative integer` }, { status: 400 })
+            }
+            quotas[field] = body[field]
+          }
+
+          const { apiKey, key } = await createApiKey(body.name.trim(), quotas)
+          return Response.json({ key, apiKey }, { status: 201 })
+        } catch (error) {
+          console.error('[Admin API Keys] Error:', error)
+          return Response.json(
+            { error: error instanceof Error ? error.message : 'Failed to create key' },
+            { status: 500 }
+          )
+        }
+      },
+    },
+  },
+})
@@ -0,0 +1,119 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { z } from 'zod'
+import { verifyAdminAuth, unauthorizedResponse } from '../../../server/admin-auth'
+import { rateLimitAdminRequest } from '../../../server/rate-limit'
+import { deletePricingCatalog, getStoredPricingCatalog, savePricingCatalog } from '../../../server/kv'
+import { getPricingCatalog, PricingCatalogSchema } from '../../../server/pricing'
+
+export const Route = createFileRoute('/api/admin/pricing')({
+  server: {
+    handlers: {
+      /**
+       * GET /api/admin/pricing
+       *
+       * The pricing catalog checkouts are charged from
+       *
+       * Headers:
+       * - x-admin-key: Admin API key for authentication
+       *
+       * Response:
+       * - catalog: PricingCatalog - currencies, products and promos
+       * - saved: boolean - false when the defaults apply
+       */
+      GET: async ({ request }) => {
+        const limited = await rateLimitAdminRequest(request)
+        if (limited) {
+          return limited
+        }
+
+        if (!verifyAdminAuth(request)) {
+          return unauthorizedResponse()
+        }
+
+        try {
+          const [catalog, stored] = await Promise.all([getPricingCatalog(), getStoredPricingCatalog()])
+          return Response.json({ catalog, saved: stored !== null })
+        } catch (error) {
+          console.error('[Admin Pricing] Error:', error)
+          return Response.json(
+            { error: error instanceof Error ? error.message : 'Failed to load pricing' },
+            { status: 500 }
+          )
+        }
+      },
+
+      /**
+       * PUT /api/admin/pricing
+       *
+       * Replace the pricing catalog; new checkouts and price quotes use it
+       * straight away, checkouts already open keep their prices
+       *
+       * Headers:
+       * - x-admin-key: Admin API key for authentication
+       *
+       * Body: PricingCatalog (see src/server/pricing.ts)
+       * - currencies: string[] - Lowercase ISO codes, the default first
+       * - products: one entry per product with name, prices per currency and optional stripeProductId
+       * - promos: PromoRule[] (optional) - percentOff or amountOff, optional products, startsAt and endsAt
+       */
+      PUT: async ({ request }) => {
+        const limited = await rateLimitAdminRequest(request)
+        if (limited) {
+          return limited
+        }
+
+        if (!verifyAdminAuth(request)) {
+          return unauthorizedResponse()
+        }
+
+        try {
+          const parsed = PricingCatalogSchema.safeParse(await request.json())
+          if (!parsed.success) {
+            return Response.json({ error: z.prettifyError(parsed.error) }, { status: 400 })
+          }
+
+          await savePricingCatalog(parsed.data)
+          console.log(`[Admin Pricing] Catalog saved (${parsed.data.currencies.join(', ')}, ${parsed.data.promos.length} promo(s))`)
+          return Response.json({ catalog: parsed.data, saved: true })
+        } catch (error) {
+          console.error('[Admin Pricing] Error:', error)
+          return Response.json(
+            { error: error instanceof Error ? error.message : 'Failed to save pricing' },
+            { status: 500 }
+          )
+        }
+      },
+
+      /**
+       * DELETE /api/admin/pricing
+       *
+       * Drop the saved catalog and go back to the defaults
+       *
+       * Headers:
+       * - x-admin-key: Admin API key for authentication
+       */
+      DELETE: async ({ request }) => {
+        const limited = await rateLimitAdminRequest(request)
+        if (limited) {
+          return limited
+        }
+
+        if (!verifyAdminAuth(request)) {
+          return unauthorizedResponse()
+        }
+
+        try {
+          await deletePricingCatalog()
+          console.log('[Admin Pricing] Catalog reset to the defaults')
+          return Response.json({ catalog: await getPricingCatalog(), saved: false })
+        } catch (error) {
+          console.error('[Admin Pricing] Error:', error)
+          return Response.json(
+            { error: error instanceof Error ? error.message : 'Failed to reset pricing' },
+            { status: 500 }
+          )
+        }
+      },
+    },
+  },
+})
@@ -0,0 +1,44 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { verifyAdminAuth, unauthorizedResponse } from '../../../server/admin-auth'
+import { rateLimitAdminRequest, getRateLimits } from '../../../server/rate-limit'
+import { getThrottledClients } from '../../../server/kv'
+
+export const Route = createFileRoute('/api/admin/rate-limits')({
+  server: {
+    handlers: {
+      /**
+       * GET /api/admin/rate-limits
+       *
+       * Configured rate limits and the clients throttled in the last day
+       *
+       * Headers:
+       * - x-admin-key: Admin API key for authentication
+       *
+       * Response:
+       * - limits: Record<string, { burst, perHour }> - Per limiter (validation, checkout, admin, api)
+       * - throttled: ThrottledClient[] - limiter, clientId (IP, API key ID or admin-key), count,
+       *   firstThrottledAt, lastThrottledAt; most recent first
+       */
+      GET: async ({ request }) => {
+        const limited = await rateLimitAdminRequest(request)
+        if (limited) {
+          return limited
+        }
+
+        if (!verifyAdminAuth(request)) {
+          return unauthorizedResponse()
+        }
+
+        try {
+          return Response.json({ limits: getRateLimits(), throttled: await getThrottledClients() })
+        } catch (error) {
+          console.error('[Admin Rate Limits] Error:', error)
+          return Response.json(
+            { error: error instanceof Error ? error.message : 'Failed to load rate limits' },
+            { status: 500 }
+          )
+        }
+      },
+    },
+  },
+})
@@ -0,0 +1,77 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { verifyAdminAuth, unauthorizedResponse } from '../../../server/admin-auth'
+import { rateLimitAdminRequest } from '../../../server/rate-limit'
+import { getSelectorHealthReport } from '../../../server/kv'
+import { checkSelectorHealth } from '../../../server/selector-health'
+
+export const Route = createFileRoute('/api/admin/selector-health')({
+  server: {
+    handlers: {
+      /**
+       * GET /api/admin/selector-health
+       *
+       * Latest TradingView selector health report, from the scheduled check
+       * or the last POST
+       *
+       * Headers:
+       * - x-admin-key: Admin API key for authentication
+       *
+       * Response:
+       * - report: SelectorHealthReport | null - null if no check has run yet
+       */
+      GET: async ({ request }) => {
+        const limited = await rateLimitAdminRequest(request)
+        if (limited) {
+          return limited
+        }
+
+        if (!verifyAdminAuth(request)) {
+          return unauthorizedResponse()
+        }
+
+        try {
+          const report = await getSelectorHealthReport()
+          return Response.json({ report })
+        } catch (error) {
+          console.error('[Admin Selector Health] Error:', error)
+          return Response.json(
+            { error: error instanceof Error ? error.message : 'Failed to load report' },
+            { status: 500 }
+          )
+        }
+      },
+
+      /**
+       * POST /api/admin/selector-health
+       *
+       * Run the selector health check now with the service account and return
+       * its report. Takes about a minute; joins a check that is already running.
+       *
+       * Headers:
+       * - x-admin-key: Admin API key for authentication
+       */
+      POST: async ({ request }) => {
+        const limited = await rateLimitAdminRequest(request)
+        if (limited) {
+          return limited
+        }
+
+        if (!verifyAdminAuth(request)) {
+          return unauthorizedResponse()
+        }
+
+        try {
+          console.log('[Admin Selector Health] Running check...')
+          const report = await checkSelectorHealth()
+          return Response.json({ report })
+        } catch (error) {
+          console.error('[Admin Selector Health] Error:', error)
+          return Response.json(
+            { error: error instanceof Error ? error.message : 'Selector health check failed' },
+            { status: 500 }
+          )
+        }
+      },
+    },
+  },
+})
@@ -0,0 +1,48 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { verifyAdminAuth, unauthorizedResponse } from '../../../../server/admin-auth'
+import { rateLimitAdminRequest } from '../../../../server/rate-limit'
+import { reprocessStripeEvent } from '../../../../server/stripe-webhooks'
+
+export const Route = createFileRoute('/api/admin/stripe-events/$eventId')({
+  server: {
+    handlers: {
+      /**
+       * POST /api/admin/stripe-events/:eventId
+       *
+       * Handle a stored webhook event again, e.g. one that failed or that
+       * arrived before its job was fixed up by hand
+       *
+       * Headers:
+       * - x-admin-key: Admin API key for authentication
+       *
+       * Response:
+       * - event: The event's record after the run (status, attempts, outcome or error)
+       */
+      POST: async ({ request, params }) => {
+        const limited = await rateLimitAdminRequest(request)
+        if (limited) {
+          return limited
+        }
+
+        if (!verifyAdminAuth(request)) {
+          return unauthorizedResponse()
+        }
+
+        try {
+          const record = await reprocessStripeEvent(params.eventId)
+          if (!record) {
+            return Response.json({ error: 'Event not found' }, { status: 404 })
+          }
+          const { payload: _payload, ...event } = record
+          return Response.json({ success: true, event })
+        } catch (error) {
+          console.error('[Admin Stripe Events] Error:', error)
+          return Response.json(
+            { error: error instanceof Error ? error.message : 'Failed to re-process event' },
+            { status: 500 }
+          )
+        }
+      },
+    },
+  },
+})
@@ -0,0 +1,48 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { verifyAdminAuth, unauthorizedResponse } from '../../../../server/admin-auth'
+import { rateLimitAdminRequest } from '../../../../server/rate-limit'
+import { listStripeWebhookEvents } from '../../../../server/kv'
+
+const DEFAULT_EVENT_LIMIT = 50
+
+export const Route = createFileRoute('/api/admin/stripe-events/')({
+  server: {
+    handlers: {
+      /**
+       * GET /api/admin/stripe-events?limit=50
+       *
+       * Stripe webhook events received in the last week, newest first
+       *
+       * Headers:
+       * - x-admin-key: Admin API key for authentication
+       *
+       * Response:
+       * - events: Array<{ eventId, type, status, attempts, outcome?, error?, createdAt, updatedAt }>
+       *   status is processing, processed or failed
+       */
+      GET: async ({ request }) => {
+        const limited = await rateLimitAdminRequest(request)
+        if (limited) {
+          return limited
+        }
+
+        if (!verifyAdminAuth(request)) {
+          return unauthorizedResponse()
+        }
+
+        try {
+          const limit = parseInt(new URL(request.url).searchParams.get('limit') || String(DEFAULT_EVENT_LIMIT))
+          const events = await listStripeWebhookEvents(limit > 0 ? limit : DEFAULT_EVENT_LIMIT)
+          // The payloads are only needed for re-processing
+          return Response.json({ events: events.map(({ payload: _payload, ...event }) => event) })
+        } catch (error) {
+          console.error('[Admin Stripe Events] Error:', error)
+          return Response.json(
+            { error: error instanceof Error ? error.message : 'Failed to list events' },
+            { status: 500 }
+          )
+        }
+      },
+    },
+  },
+})
@@ -1,5 +1,6 @@
 import { createFileRoute } from '@tanstack/react-router'
 import { verifyAdminAuth, unauthorizedResponse } from '../../../../server/admin-auth'
+import { rateLimitAdminRequest } from '../../../../server/rate-limit'
 import { clearServiceAccountSession } from '../../../../server/kv'
 import { clearServiceAccountCache } from '../../../../server/service-validation'
 
@@ -16,6 +17,11 @@ export const Route = createFileRoute('/api/admin/tv-session/')({
        * - x-admin-key: Admin API key for authentication
        */
       DELETE: async ({ request }) => {
+        const limited = await rateLimitAdminRequest(request)
+        if (limited) {
+          return limited
+        }
+
         // Verify admin authentication
         if (!verifyAdminAuth(request)) {
           return unauthorizedResponse()
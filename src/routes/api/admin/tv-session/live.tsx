@@ -1,5 +1,6 @@
 import { createFileRoute } from '@tanstack/react-router'
 import { verifyAdminAuth, unauthorizedResponse } from '../../../../server/admin-auth'
+import { rateLimitAdminRequest } from '../../../../server/rate-limit'
 import { createLiveSession, navigateTo, closeLiveSession } from '../../../../server/browserless'
 
 export const Route = createFileRoute('/api/admin/tv-session/live')({
@@ -27,6 +28,11 @@ export const Route = createFileRoute('/api/admin/tv-session/live')({
        * 3. Call POST /api/admin/tv-session/finalize with the sessionId
        */
       POST: async ({ request }) => {
+        const limited = await rateLimitAdminRequest(request)
+        if (limited) {
+          return limited
+        }
+
         // Verify admin authentication
         if (!verifyAdminAuth(request)) {
           return unauthorizedResponse()
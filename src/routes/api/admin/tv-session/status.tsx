@@ -1,5 +1,6 @@
 import { createFileRoute } from '@tanstack/react-router'
 import { verifyAdminAuth, unauthorizedResponse } from '../../../../server/admin-auth'
+import { rateLimitAdminRequest } from '../../../../server/rate-limit'
 import { verifyTVSession } from '../../../../server/tradingview'
 import { getServiceAccountSession } from '../../../../server/kv'
 
@@ -24,6 +25,11 @@ export const Route = createFileRoute('/api/admin/tv-session/status')({
        * - age: string | null - Human-readable age of the session
        */
       GET: async ({ request }) => {
+        const limited = await rateLimitAdminRequest(request)
+        if (limited) {
+          return limited
+        }
+
         // Verify admin authentication
         if (!verifyAdminAuth(request)) {
           return unauthorizedResponse()
@@ -1,5 +1,6 @@
 import { createFileRoute } from '@tanstack/react-router'
 import { verifyAdminAuth, unauthorizedResponse } from '../../../../server/admin-auth'
+import { rateLimitAdminRequest } from '../../../../server/rate-limit'
 import { verifyTVSession } from '../../../../server/tradingview'
 import { saveServiceAccountSession } from '../../../../server/kv'
 
@@ -21,6 +22,11 @@ export const Route = createFileRoute('/api/admin/tv-session/upload')({
        * - x-admin-key: Admin API key for authentication
        */
       POST: async ({ request }) => {
+        const limited = await rateLimitAdminRequest(request)
+        if (limited) {
+          return limited
+        }
+
         // Verify admin authentication
         if (!verifyAdminAuth(request)) {
           return unauthorizedResponse()
@@ -0,0 +1,60 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { verifyAdminAuth, unauthorizedResponse } from '../../../../server/admin-auth'
+import { rateLimitAdminRequest } from '../../../../server/rate-limit'
+import { purgeValidationCache } from '../../../../server/kv'
+import { invalidateValidationResult } from '../../../../server/validation-cache'
+
+export const Route = createFileRoute('/api/admin/validation-cache/')({
+  server: {
+    handlers: {
+      /**
+       * DELETE /api/admin/validation-cache
+       *
+       * Purge cached validation results and AI fixes
+       * With a JSON body `{ "script": "..." }` only that script's entries are removed
+       *
+       * Headers:
+       * - x-admin-key: Admin API key for authentication
+       */
+      DELETE: async ({ request }) => {
+        const limited = await rateLimitAdminRequest(request)
+        if (limited) {
+          return limited
+        }
+
+        // Verify admin authentication
+        if (!verifyAdminAuth(request)) {
+          return unauthorizedResponse()
+        }
+
+        try {
+          const body = await request.text()
+          const { script } = body ? (JSON.parse(body) as { script?: string }) : {}
+
+          if (script) {
+            await invalidateValidationResult(script)
+            console.log('[Admin Cache] Cleared cached validation for one script')
+            return Response.json({
+              success: true,
+              message: 'Cached validation cleared for script',
+            })
+          }
+
+          const generation = await purgeValidationCache()
+          console.log(`[Admin Cache] Validation cache purged (generation ${generation})`)
+          return Response.json({
+            success: true,
+            message: 'Validation cache purged',
+            generation,
+          })
+        } catch (error) {
+          console.error('[Admin Cache] Error:', error)
+          return Response.json(
+            { error: error instanceof Error ? error.message : 'Purge failed' },
+            { status: 500 }
+          )
+        }
+      },
+    },
+  },
+})
@@ -0,0 +1,37 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { setCookie } from '@tanstack/react-start/server'
+import { signInWithToken, sessionCookieOptions, SESSION_COOKIE } from '../../../server/accounts'
+
+export const Route = createFileRoute('/api/auth/verify')({
+  server: {
+    handlers: {
+      /**
+       * GET /api/auth/verify
+       *
+       * Target of the emailed sign-in link. Starts a session and redirects to
+       * /history; an invalid or expired link redirects to /history?signin=expired.
+       *
+       * Query params:
+       * - token: string - One-time token from the sign-in email
+       */
+      GET: async ({ request }) => {
+        try {
+          const token = new URL(request.url).searchParams.get('token')
+          const signIn = token ? await signInWithToken(token) : null
+          if (!signIn) {
+            return new Response(null, { status: 302, headers: { Location: '/history?signin=expired' } })
+          }
+
+          setCookie(SESSION_COOKIE, signIn.sessionToken, sessionCookieOptions())
+          return new Response(null, { status: 302, headers: { Location: '/history' } })
+        } catch (error) {
+          console.error('[Auth Verify] Error:', error)
+          return Response.json(
+            { error: error instanceof Error ? error.message : 'Sign-in failed' },
+            { status: 500 }
+          )
+        }
+      },
+    },
+  },
+})
@@ -0,0 +1,42 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { cancelValidationJob } from '../../../../server/job-queue'
+
+export const Route = createFileRoute('/api/jobs/$jobId/cancel')({
+  server: {
+    handlers: {
+      /**
+       * POST /api/jobs/:jobId/cancel
+       *
+       * Cancel a queued or running validation job. A running job stops at its
+       * next step and its browser session is released for the next request.
+       *
+       * Query params:
+       * - abandoned: boolean (optional) - Sent when the page is closed. The job is
+       *   only cancelled if no page reconnects to its event stream within the grace period.
+       *
+       * Response:
+       * - status: string - Job status after the request (unchanged if it had already finished)
+       * - cancelAt: number | null - When the running job will be stopped
+       */
+      POST: async ({ request, params }) => {
+        try {
+          const url = new URL(request.url)
+          const abandoned = url.searchParams.get('abandoned') === 'true'
+
+          const job = await cancelValidationJob(params.jobId, { abandoned })
+          if (!job) {
+            return Response.json({ error: 'Job not found' }, { status: 404 })
+          }
+
+          return Response.json({ status: job.status, cancelAt: job.cancelAt ?? null })
+        } catch (error) {
+          console.error('[Job Cancel] Error:', error)
+          return Response.json(
+            { error: error instanceof Error ? error.message : 'Failed to cancel job' },
+            { status: 500 }
+          )
+        }
+      },
+    },
+  },
+})
@@ -0,0 +1,87 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { getPublishJob, getJobEvents } from '../../../../server/kv'
+import { clearAbandonedCancellation } from '../../../../server/job-queue'
+
+// How often the stream checks the job's event log
+const POLL_INTERVAL_MS = 500
+// Comment line sent when nothing happened for a while, so proxies keep the connection open
+const KEEPALIVE_INTERVAL_MS = 15_000
+
+export const Route = createFileRoute('/api/jobs/$jobId/events')({
+  server: {
+    handlers: {
+      /**
+       * GET /api/jobs/:jobId/events
+       *
+       * Server-sent event stream of a validation job's progress (session acquired,
+       * editor ready, compile result, AI fixes, publish steps). Ends once the job
+       * has left the queue and every event has been sent. Connecting withdraws a
+       * pending cancel from a page that was closed (e.g. the page reloaded).
+       *
+       * Headers:
+       * - Last-Event-ID: number (optional) - Resume after this event (sent by EventSource on reconnect)
+       *
+       * Events:
+       * - progress: { stage, message, at } - id is the event's index in the job's log
+       * - end: { status } - Final job status; the stream closes after it
+       */
+      GET: async ({ request, params }) => {
+        const { jobId } = params
+        const job = await getPublishJob(jobId)
+        if (!job) {
+          return Response.json({ error: 'Job not found' }, { status: 404 })
+        }
+        await clearAbandonedCancellation(jobId)
+
+        const lastEventId = parseInt(request.headers.get('last-event-id') || '')
+        let nextIndex = Number.isNaN(lastEventId) ? 0 : lastEventId + 1
+        const encoder = new TextEncoder()
+
+        const stream = new ReadableStream<Uint8Array>({
+          async start(controller) {
+            const send = (text: string) => controller.enqueue(encoder.encode(text))
+            let lastSentAt = Date.now()
+
+            try {
+              while (!request.signal.aborted) {
+                // Read the status before the events, so no event written before the job finished is missed
+                const current = await getPublishJob(jobId)
+                const events = await getJobEvents(jobId, nextIndex)
+
+                for (const event of events) {
+                  send(`id: ${nextIndex}\nevent: progress\ndata: ${JSON.stringify(event)}\n\n`)
+                  nextIndex++
+                  lastSentAt = Date.now()
+                }
+
+                if (!current || (current.status !== 'queued' && current.status !== 'validating')) {
+                  send(`event: end\ndata: ${JSON.stringify({ status: current?.status ?? 'missing' })}\n\n`)
+                  break
+                }
+
+                if (Date.now() - lastSentAt >= KEEPALIVE_INTERVAL_MS) {
+                  send(': keepalive\n\n')
+                  lastSentAt = Date.now()
+                }
+
+                await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS))
+              }
+            } catch (error) {
+              console.error(`[Job Events] ${jobId}: stream failed:`, error)
+            } finally {
+              try { controller.close() } catch (_e) { /* client already gone */ }
+            }
+          },
+        })
+
+        return new Response(stream, {
+          headers: {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache, no-transform',
+            Connection: 'keep-alive',
+          },
+        })
+      },
+    },
+  },
+})
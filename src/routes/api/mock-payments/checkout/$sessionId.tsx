@@ -0,0 +1,100 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { getPaymentsProvider } from '../../../../server/payments'
+import type { MockPaymentsProvider } from '../../../../server/mock-payments'
+import { formatPrice } from '../../../../server/pricing'
+
+// Only the mock provider has a checkout page here; with Stripe the route does not exist
+function getMockPayments(): MockPaymentsProvider | null {
+  const payments = getPaymentsProvider()
+  return payments?.name === 'mock' ? (payments as MockPaymentsProvider) : null
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`)
+}
+
+export const Route = createFileRoute('/api/mock-payments/checkout/$sessionId')({
+  server: {
+    handlers: {
+      /**
+       * GET /api/mock-payments/checkout/:sessionId
+       *
+       * Checkout page of the mock payments provider: what the checkout is for,
+       * with buttons to pay, cancel or let it expire.
+       */
+      GET: async ({ params }) => {
+        const payments = getMockPayments()
+        if (!payments) {
+          return Response.json({ error: 'Not found' }, { status: 404 })
+        }
+
+        try {
+          const session = await payments.retrieveCheckoutSession(params.sessionId)
+          const amount = formatPrice(session.amount_total ?? 0, session.currency ?? 'usd')
+          const action = `/api/mock-payments/checkout/${encodeURIComponent(session.id)}`
+          const html = `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <title>Mock Checkout</title>
+  </head>
+  <body style="font-family: system-ui, sans-serif; max-width: 32rem; margin: 4rem auto;">
+    <h1>Mock Checkout</h1>
+    <p>Local stand-in for Stripe Checkout - no money moves.</p>
+    <p><strong>${escapeHtml(amount)}</strong>${session.mode === 'subscription' ? ' per month' : ''}</p>
+    ${session.customer_email ? `<p>${escapeHtml(session.customer_email)}</p>` : ''}
+    ${session.status === 'open'
+      ? `<form method="post" action="${action}">
+      <button name="action" value="pay">Pay</button>
+      <button name="action" value="cancel">Cancel</button>
+      <button name="action" value="expire">Let it expire</button>
+    </form>`
+      : `<p>This checkout is ${escapeHtml(session.status ?? 'closed')}.</p>`}
+  </body>
+</html>`
+          return new Response(html, { headers: { 'Content-Type': 'text/html; charset=utf-8' } })
+        } catch (error) {
+          return Response.json(
+            { error: error instanceof Error ? error.message : 'Checkout not found' },
+            { status: 404 }
+          )
+        }
+      },
+
+      /**
+       * POST /api/mock-payments/checkout/:sessionId
+       *
+       * Pay, cancel or expire the checkout, then redirect like Stripe does:
+       * to the success URL once paid, to the cancel URL otherwise. Paying and
+       * expiring send their webhook events before redirecting.
+       *
+       * Form fields:
+       * - action: 'pay' | 'cancel' | 'expire'
+       */
+      POST: async ({ request, params }) => {
+        const payments = getMockPayments()
+        if (!payments) {
+          return Response.json({ error: 'Not found' }, { status: 404 })
+        }
+
+        try {
+          const action = (await request.formData()).get('action')
+          const session = action === 'pay'
+            ? await payments.payCheckout(params.sessionId)
+            : action === 'expire'
+              ? await payments.expireCheckoutSession(params.sessionId)
+              : await payments.retrieveCheckoutSession(params.sessionId)
+
+          const location = action === 'pay' ? session.success_url : session.cancel_url
+          return new Response(null, { status: 303, headers: { Location: location ?? '/' } })
+        } catch (error) {
+          console.error('[Mock Checkout] Error:', error)
+          return Response.json(
+            { error: error instanceof Error ? error.message : 'Mock checkout failed' },
+            { status: 500 }
+          )
+        }
+      },
+    },
+  },
+})
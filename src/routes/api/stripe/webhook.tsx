@@ -1,6 +1,7 @@
 import { createFileRoute } from '@tanstack/react-router'
+import type Stripe from 'stripe'
 import { verifyWebhookEvent } from '../../../server/stripe'
-import { getJobByStripeSession, updatePublishJob } from '../../../server/kv'
+import { receiveStripeEvent } from '../../../server/stripe-webhooks'
 
 export const Route = createFileRoute('/api/stripe/webhook')({
   server: {
@@ -16,49 +17,30 @@ export const Route = createFileRoute('/api/stripe/webhook')({
           return Response.json({ error: 'Missing request body' }, { status: 400 })
         }
 
+        let stripeEvent: Stripe.Event
         try {
           // Verify the webhook signature
-          const stripeEvent = await verifyWebhookEvent(rawBody, signature)
-
-          // Handle checkout.session.completed event
-          if (stripeEvent.type === 'checkout.session.completed') {
-            const session = stripeEvent.data.object as {
-              id: string
-              payment_status: string
-              metadata?: { scriptHash?: string; userId?: string }
-            }
-
-            console.log(`[Webhook] checkout.session.completed: ${session.id}`)
-
-            // Only process if payment was successful
-            if (session.payment_status === 'paid') {
-              // Find the job associated with this session
-              const job = await getJobByStripeSession(session.id)
-
-              if (job) {
-                console.log(`[Webhook] Found job ${job.jobId} for session ${session.id}`)
+          stripeEvent = await verifyWebhookEvent(rawBody, signature)
+        } catch (error) {
+          console.error('[Webhook] Invalid event:', error)
+          return Response.json(
+            { error: error instanceof Error ? error.message : 'Webhook verification failed' },
+            { status: 400 }
+          )
+        }
 
-                // Just mark as completed - URL is already stored from validation+publish step
-                // NO BROWSER AUTOMATION NEEDED
-                if (job.status === 'pending') {
-                  await updatePublishJob(job.jobId, { status: 'completed' })
-                  console.log(`[Webhook] Job ${job.jobId} marked complete, URL: ${job.indicatorUrl}`)
-                } else {
-                  console.log(`[Webhook] Job ${job.jobId} already ${job.status}, skipping update`)
-                }
-              } else {
-                console.warn(`[Webhook] No job found for session ${session.id}`)
-              }
-            }
-          }
+        try {
+          // Redeliveries of an event already handled are only acknowledged
+          const record = await receiveStripeEvent(stripeEvent)
 
           // Return 200 to acknowledge receipt
-          return Response.json({ received: true })
+          return Response.json({ received: true, duplicate: record === null })
         } catch (error) {
+          // Stripe retries the delivery, which can claim the failed event again
           console.error('[Webhook] Error:', error)
           return Response.json(
             { error: error instanceof Error ? error.message : 'Webhook processing failed' },
-            { status: 400 }
+            { status: 500 }
           )
         }
       },
@@ -0,0 +1,42 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { authenticateApiKey } from '../../../../server/api-keys'
+import { apiErrorResponse, toApiJob } from '../../../../server/public-api'
+import { getValidationJob, getQueuePosition } from '../../../../server/job-queue'
+
+export const Route = createFileRoute('/api/v1/jobs/$jobId')({
+  server: {
+    handlers: {
+      /**
+       * GET /api/v1/jobs/:jobId
+       *
+       * Status and result of a job queued with the same API key. Jobs expire
+       * an hour after their last update.
+       *
+       * Headers:
+       * - Authorization: Bearer <API key>
+       *
+       * Response: Job
+       */
+      GET: async ({ request, params }) => {
+        try {
+          const apiKey = await authenticateApiKey(request)
+          if (!apiKey) {
+            return apiErrorResponse(401, 'Missing or invalid API key')
+          }
+
+          const job = await getValidationJob(params.jobId)
+          // Jobs of other keys and of the web page look the same as missing ones
+          if (!job || job.apiKeyId !== apiKey.keyId) {
+            return apiErrorResponse(404, 'Job not found')
+          }
+
+          const queuePosition = job.status === 'queued' ? await getQueuePosition(job.jobId) : null
+          return Response.json(toApiJob(job, queuePosition))
+        } catch (error) {
+          console.error('[API v1 Job] Error:', error)
+          return apiErrorResponse(500, error instanceof Error ? error.message : 'Failed to load job')
+        }
+      },
+    },
+  },
+})
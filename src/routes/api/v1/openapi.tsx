@@ -0,0 +1,19 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { buildOpenApiDocument } from '../../../server/public-api'
+
+const APP_URL = process.env.APP_URL || 'http://localhost:3000'
+
+export const Route = createFileRoute('/api/v1/openapi')({
+  server: {
+    handlers: {
+      /**
+       * GET /api/v1/openapi
+       *
+       * OpenAPI 3 document describing the /api/v1 routes. No API key needed.
+       */
+      GET: async () => {
+        return Response.json(buildOpenApiDocument(APP_URL))
+      },
+    },
+  },
+})
@@ -0,0 +1,80 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { authenticateApiKey, consumeApiQuotas, refundApiQuota, quotaHeaders } from '../../../server/api-keys'
+import { rateLimitRequest } from '../../../server/rate-limit'
+import { PublishRequestSchema, readApiRequest, apiErrorResponse, toApiJob } from '../../../server/public-api'
+import { submitValidationJob, getQueuePosition } from '../../../server/job-queue'
+
+export const Route = createFileRoute('/api/v1/publish')({
+  server: {
+    handlers: {
+      /**
+       * POST /api/v1/publish
+       *
+       * Queue a script for validation (with AI fixes) and publishing on the
+       * service account once it is valid. API keys are trusted clients, so
+       * there is no checkout; the key's daily quotas limit use instead. A
+       * publish is validated first, so it counts against both the validation
+       * and the publish quota.
+       *
+       * Headers:
+       * - Authorization: Bearer <API key>
+       *
+       * Body (PublishRequest):
+       * - script: string - Pine Script source
+       * - title: string
+       * - description: string
+       * - visibilityLevel: 'open' | 'protected' | 'invite-only' (optional, default 'open')
+       * - updateScript: string (optional) - Publish a new version of this script (URL or ID)
+       * - releaseNotes: string (required with updateScript)
+       *
+       * Response (202): Job - result.indicatorUrl is set once published
+       */
+      POST: async ({ request }) => {
+        try {
+          const apiKey = await authenticateApiKey(request)
+          if (!apiKey) {
+            return apiErrorResponse(401, 'Missing or invalid API key')
+          }
+
+          // Quotas cap a key's day; the rate limit stops it spending the quota in one burst
+          const limited = await rateLimitRequest('api', request, apiKey.keyId)
+          if (limited) {
+            return limited
+          }
+
+          const body = await readApiRequest(request, PublishRequestSchema)
+          if (body.response) {
+            return body.response
+          }
+
+          const now = Date.now()
+          const quota = await consumeApiQuotas(apiKey, ['validations', 'publishes'], now)
+          if (!quota.allowed) {
+            const message = quota.kind === 'publishes' ? 'Daily publish quota used up' : 'Daily validation quota used up'
+            return apiErrorResponse(429, message, { headers: quotaHeaders(quota) })
+          }
+
+          const { script, ...publishOptions } = body.data
+          let job
+          try {
+            // The service account publishes public scripts only
+            job = await submitValidationJob(script, { ...publishOptions, visibility: 'public' }, {
+              apiKeyId: apiKey.keyId,
+            })
+          } catch (error) {
+            await refundApiQuota(apiKey, 'validations', now)
+            await refundApiQuota(apiKey, 'publishes', now)
+            throw error
+          }
+          return Response.json(toApiJob(job, await getQueuePosition(job.jobId)), {
+            status: 202,
+            headers: quotaHeaders(quota),
+          })
+        } catch (error) {
+          console.error('[API v1 Publish] Error:', error)
+          return apiErrorResponse(500, error instanceof Error ? error.message : 'Failed to queue publish')
+        }
+      },
+    },
+  },
+})
@@ -0,0 +1,64 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { authenticateApiKey, consumeApiQuota, quotaHeaders } from '../../../server/api-keys'
+import { rateLimitRequest } from '../../../server/rate-limit'
+import { ValidateRequestSchema, readApiRequest, apiErrorResponse, toApiJob } from '../../../server/public-api'
+import { submitValidationJob, getQueuePosition } from '../../../server/job-queue'
+
+export const Route = createFileRoute('/api/v1/validate')({
+  server: {
+    handlers: {
+      /**
+       * POST /api/v1/validate
+       *
+       * Queue a script for validation against TradingView's compiler, with AI
+       * fixes unless `fix` is false. Nothing is published. Counts against the
+       * key's daily validation quota.
+       *
+       * Headers:
+       * - Authorization: Bearer <API key>
+       *
+       * Body (ValidateRequest):
+       * - script: string - Pine Script source
+       * - fix: boolean (optional, default true)
+       *
+       * Response (202): Job - poll GET /api/v1/jobs/:jobId until it leaves the queue
+       */
+      POST: async ({ request }) => {
+        try {
+          const apiKey = await authenticateApiKey(request)
+          if (!apiKey) {
+            return apiErrorResponse(401, 'Missing or invalid API key')
+          }
+
+          // Quotas cap a key's day; the rate limit stops it spending the quota in one burst
+          const limited = await rateLimitRequest('api', request, apiKey.keyId)
+          if (limited) {
+            return limited
+          }
+
+          const body = await readApiRequest(request, ValidateRequestSchema)
+          if (body.response) {
+            return body.response
+          }
+
+          const quota = await consumeApiQuota(apiKey, 'validations')
+          if (!quota.allowed) {
+            return apiErrorResponse(429, 'Daily validation quota used up', { headers: quotaHeaders(quota) })
+          }
+
+          const job = await submitValidationJob(body.data.script, null, {
+            apiKeyId: apiKey.keyId,
+            maxFixAttempts: body.data.fix ? undefined : 0,
+          })
+          return Response.json(toApiJob(job, await getQueuePosition(job.jobId)), {
+            status: 202,
+            headers: quotaHeaders(quota),
+          })
+        } catch (error) {
+          console.error('[API v1 Validate] Error:', error)
+          return apiErrorResponse(500, error instanceof Error ? error.message : 'Failed to queue validation')
+        }
+      },
+    },
+  },
+})
@@ -0,0 +1,467 @@
+import { createFileRoute, useNavigate, useSearch } from '@tanstack/react-router'
+import { useEffect, useState } from 'react'
+import { createServerFn } from '@tanstack/react-start'
+import { getCookie, deleteCookie } from '@tanstack/react-start/server'
+import { getScriptHistory, type ScriptHistoryEntry, type PublishJobStatus, type CreditEntryKind } from '../server/kv'
+import {
+  getSessionAccount,
+  requestSignInLink,
+  normalizeEmail,
+  endSession,
+  sessionCookieOptions,
+  SESSION_COOKIE,
+} from '../server/accounts'
+import {
+  getCreditSummary,
+  getCreditPacks,
+  getCreditPack,
+  getSubscriptionPlan,
+  settleCreditPackCheckout,
+  type CreditSummary,
+} from '../server/credits'
+import {
+  createCreditPackCheckoutSession,
+  createSubscriptionCheckoutSession,
+  createBillingPortalSession,
+  getCheckoutSession,
+  getSubscriptionPriceDetails,
+} from '../server/stripe'
+import { formatPrice } from '../server/pricing'
+import { enforceRateLimit } from '../server/rate-limit'
+
+interface HistoryState {
+  status: 'loading' | 'signed-out' | 'ready' | 'error'
+  email?: string
+  entries?: ScriptHistoryEntry[]
+  credits?: CreditSummary
+  error?: string
+}
+
+interface CreditOffers {
+  packs: Array<{ packId: string; credits: number; priceFormatted: string }>
+  /** The monthly plan, if one is on sale */
+  plan: { priceFormatted: string; interval: string; monthlyCredits: number } | null
+}
+
+const CREDIT_ENTRY_LABELS: Record<CreditEntryKind, string> = {
+  pack: 'Credit pack',
+  subscription: 'Monthly plan',
+  publish: 'Published a script',
+}
+
+const STATUS_LABELS: Record<PublishJobStatus, string> = {
+  queued: 'Queued',
+  validating: 'Validating',
+  validated: 'Validated',
+  pending: 'Awaiting payment',
+  processing: 'Publishing',
+  completed: 'Published',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+}
+
+// Server function to load the signed-in user's history; no account means signed out
+const fetchHistory = createServerFn()
+  .handler(async () => {
+    const account = await getSessionAccount(getCookie(SESSION_COOKIE))
+    if (!account) {
+      return { signedIn: false as const }
+    }
+    return {
+      signedIn: true as const,
+      email: account.email,
+      entries: await getScriptHistory(account.userId),
+      credits: await getCreditSummary(account.userId),
+    }
+  })
+
+// Server function to list the credit packs and monthly plan on sale
+const fetchCreditOffers = createServerFn()
+  .handler(async (): Promise<CreditOffers> => {
+    const plan = getSubscriptionPlan()
+    const price = plan ? await getSubscriptionPriceDetails(plan.priceId) : null
+    return {
+      packs: getCreditPacks().map((pack) => ({ ...pack, priceFormatted: formatPrice(pack.priceInCents, 'usd') })),
+      plan: plan && price && { priceFormatted: price.priceFormatted, interval: price.interval, monthlyCredits: plan.monthlyCredits },
+    }
+  })
+
+// Server function to add a pack's credits when the customer is back from checkout
+// The webhook adds them too; whichever comes first does, the other finds them added
+const confirmCreditPurchase = createServerFn()
+  .handler(async (ctx: { data: { sessionId: string } }) => {
+    const account = await getSessionAccount(getCookie(SESSION_COOKIE))
+    const session = await getCheckoutSession(ctx.data.sessionId)
+    if (!account || session.metadata?.accountId !== account.userId) {
+      return { confirmed: false }
+    }
+    await settleCreditPackCheckout(session)
+    return { confirmed: session.payment_status !== 'unpaid' }
+  })
+
+// Server function to start the checkout of a credit pack
+const buyCreditPack = createServerFn()
+  .handler(async (ctx: { data: { packId: string } }) => {
+    await enforceRateLimit('checkout')
+    const account = await getSessionAccount(getCookie(SESSION_COOKIE))
+    const pack = getCreditPack(ctx.data.packId)
+    if (!account) {
+      throw new Error('Sign in to buy credits')
+    }
+    if (!pack) {
+      throw new Error('Unknown credit pack')
+    }
+
+    const checkout = await createCreditPackCheckoutSession({ accountId: account.userId, email: account.email, ...pack })
+    return { checkoutUrl: checkout.url }
+  })
+
+// Server function to start the checkout of the monthly plan, or open Stripe's portal to manage a running one
+const manageSubscription = createServerFn()
+  .handler(async () => {
+    await enforceRateLimit('checkout')
+    const account = await getSessionAccount(getCookie(SESSION_COOKIE))
+    if (!account) {
+      throw new Error('Sign in to subscribe')
+    }
+
+    const { subscription } = await getCreditSummary(account.userId)
+    if (subscription && subscription.status !== 'canceled') {
+      return { url: await createBillingPortalSession(subscription.customerId) }
+    }
+
+    const plan = getSubscriptionPlan()
+    if (!plan) {
+      throw new Error('The monthly plan is not available')
+    }
+    const checkout = await createSubscriptionCheckoutSession({ accountId: account.userId, email: account.email, priceId: plan.priceId })
+    return { url: checkout.url }
+  })
+
+// Server function to email a sign-in link
+const sendSignInLink = createServerFn()
+  .handler(async (ctx: { data: { email: string } }) => {
+    const email = normalizeEmail(ctx.data.email)
+    if (!email) {
+      throw new Error('Enter a valid email address')
+    }
+    // Per sender and per recipient, so no one inbox can be flooded from many addresses
+    await enforceRateLimit('sign-in')
+    await enforceRateLimit('sign-in', `email:${email}`)
+    await requestSignInLink(email)
+    return { sent: true }
+  })
+
+// Server function to end the session and clear its cookie
+const signOut = createServerFn()
+  .handler(async () => {
+    await endSession(getCookie(SESSION_COOKIE))
+    deleteCookie(SESSION_COOKIE, sessionCookieOptions(0))
+    return { signedOut: true }
+  })
+
+export const Route = createFileRoute('/history')({
+  component: HistoryPage,
+})
+
+/**
+ * Download script as .pine file
+ */
+function downloadScript(script: string, title: string) {
+  const filename = `${title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.pine`
+  const blob = new Blob([script], { type: 'text/plain' })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
+
+function HistoryPage() {
+  const navigate = useNavigate()
+  const searchParams = useSearch({ from: '/history' }) as { signin?: string; credit_session?: string; subscribed?: string }
+  const [state, setState] = useState<HistoryState>({ status: 'loading' })
+  const [email, setEmail] = useState('')
+  const [linkSent, setLinkSent] = useState(false)
+  const [isSending, setIsSending] = useState(false)
+  const [signInError, setSignInError] = useState(
+    searchParams.signin === 'expired' ? 'That sign-in link is invalid or has expired. Request a new one below.' : ''
+  )
+  const [expandedJobId, setExpandedJobId] = useState<string | null>(null)
+  const [offers, setOffers] = useState<CreditOffers | null>(null)
+  const [isBuying, setIsBuying] = useState(false)
+  const [purchaseNotice, setPurchaseNotice] = useState(
+    searchParams.subscribed ? 'Thanks for subscribing! Your monthly credits are added as soon as Stripe confirms the payment.' : ''
+  )
+
+  useEffect(() => {
+    const load = async () => {
+      // Back from a credit pack checkout: add its credits before showing the balance
+      if (searchParams.credit_session) {
+        const { confirmed } = await confirmCreditPurchase({ data: { sessionId: searchParams.credit_session } })
+        setPurchaseNotice(confirmed
+          ? 'Thanks for your purchase! Your credits have been added.'
+          : 'Your credits are added as soon as Stripe confirms the payment.')
+      }
+      return fetchHistory()
+    }
+
+    load()
+      .then((history) => {
+        setState(history.signedIn
+          ? { status: 'ready', email: history.email, entries: history.entries, credits: history.credits }
+          : { status: 'signed-out' })
+      })
+      .catch((error) => {
+        setState({ status: 'error', error: error instanceof Error ? error.message : 'Failed to load history' })
+      })
+    fetchCreditOffers().then(setOffers).catch(console.error)
+  }, [searchParams.credit_session])
+
+  const handleSendLink = async () => {
+    setIsSending(true)
+    setSignInError('')
+    try {
+      await sendSignInLink({ data: { email } })
+      setLinkSent(true)
+    } catch (error) {
+      setSignInError(error instanceof Error ? error.message : 'Failed to send sign-in link')
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  const handleSignOut = async () => {
+    await signOut()
+    setState({ status: 'signed-out' })
+  }
+
+  // Both go to Stripe: checkout for a pack or the plan, the customer portal for a running plan
+  const handleBuyPack = async (packId: string) => {
+    setIsBuying(true)
+    try {
+      const { checkoutUrl } = await buyCreditPack({ data: { packId } })
+      window.location.href = checkoutUrl
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to create checkout session')
+      setIsBuying(false)
+    }
+  }
+
+  const handleManageSubscription = async () => {
+    setIsBuying(true)
+    try {
+      const { url } = await manageSubscription()
+      window.location.href = url
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to open the plan')
+      setIsBuying(false)
+    }
+  }
+
+  // Hand the script to the validate page, as the home page does; `asUpdate` publishes a new version of the same script
+  const handleRepublish = (entry: ScriptHistoryEntry, asUpdate: boolean) => {
+    sessionStorage.removeItem('validationJobId')
+    sessionStorage.setItem('pendingScript', entry.script)
+    sessionStorage.setItem(
+      'pendingPublishDetails',
+      JSON.stringify({
+        title: entry.title,
+        description: entry.description,
+        visibilityLevel: entry.visibilityLevel ?? 'open',
+        ...(asUpdate && { updateScript: entry.indicatorUrl }),
+      })
+    )
+    navigate({ to: '/validate' })
+  }
+
+  return (
+    <div className="container">
+      {state.status === 'loading' && (
+        <div className="card loading-card">
+          <div className="spinner" />
+          <h2>Loading Your Scripts...</h2>
+        </div>
+      )}
+
+      {state.status === 'error' && (
+        <div className="card error-card">
+          <h2>Could Not Load History</h2>
+          <p>{state.error}</p>
+        </div>
+      )}
+
+      {state.status === 'signed-out' && (
+        <div className="card">
+          <div className="card-header">
+            <h2>Sign In</h2>
+          </div>
+          <p className="help-text">
+            Sign in to keep your validated scripts and published URLs. We email you a link - no password needed.
+          </p>
+
+          {linkSent ? (
+            <p>Check your inbox: we sent a sign-in link to <strong>{email}</strong>.</p>
+          ) : (
+            <>
+              <div className="form-group">
+                <label htmlFor="email">Email</label>
+                <input
+                  id="email"
+                  type="email"
+                  className="input"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="you@example.com"
+                />
+              </div>
+              {signInError && <p className="error-message">{signInError}</p>}
+              <div className="button-group">
+                <button className="btn btn-primary" onClick={handleSendLink} disabled={isSending || !email.trim()}>
+                  {isSending ? 'Sending...' : 'Email Me a Sign-in Link'}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      {state.status === 'ready' && (
+        <>
+          <div className="card">
+            <div className="card-header">
+              <h2>Your Scripts</h2>
+              <button className="btn btn-secondary btn-small" onClick={handleSignOut}>
+                Sign Out
+              </button>
+            </div>
+            <p className="help-text">Signed in as {state.email}</p>
+            {state.entries!.length === 0 && (
+              <div className="button-group">
+                <p>Scripts you validate while signed in show up here.</p>
+                <button className="btn btn-primary" onClick={() => navigate({ to: '/' })}>
+                  Validate a Script
+                </button>
+              </div>
+            )}
+          </div>
+
+          <div className="card">
+            <div className="card-header">
+              <h2>Credits</h2>
+              <span className={`badge ${state.credits!.balance > 0 ? 'badge-success' : 'badge-warning'}`}>
+                {state.credits!.balance} credit{state.credits!.balance === 1 ? '' : 's'} left
+              </span>
+            </div>
+            {purchaseNotice && <p className="fix-success">{purchaseNotice}</p>}
+            <p className="help-text">
+              A credit pays for one publish, instead of checking out for each script. Credits do not expire.
+            </p>
+
+            {state.credits!.subscription && state.credits!.subscription.status !== 'canceled' && (
+              <p>
+                Monthly plan: {state.credits!.subscription.status}
+                {state.credits!.subscription.currentPeriodEnd &&
+                  (state.credits!.subscription.cancelAtPeriodEnd
+                    ? ` · ends ${new Date(state.credits!.subscription.currentPeriodEnd).toLocaleDateString()}`
+                    : ` · renews ${new Date(state.credits!.subscription.currentPeriodEnd).toLocaleDateString()}`)}
+              </p>
+            )}
+
+            <div className="button-group">
+              {offers?.packs.map((pack) => (
+                <button
+                  key={pack.packId}
+                  className="btn btn-secondary"
+                  onClick={() => handleBuyPack(pack.packId)}
+                  disabled={isBuying}
+                >
+                  {pack.credits} credits · {pack.priceFormatted}
+                </button>
+              ))}
+              {state.credits!.subscription && state.credits!.subscription.status !== 'canceled' ? (
+                <button className="btn btn-secondary" onClick={handleManageSubscription} disabled={isBuying}>
+                  Manage Plan
+                </button>
+              ) : (
+                offers?.plan && (
+                  <button className="btn btn-primary" onClick={handleManageSubscription} disabled={isBuying}>
+                    {offers.plan.monthlyCredits} credits every {offers.plan.interval} · {offers.plan.priceFormatted}
+                  </button>
+                )
+              )}
+            </div>
+
+            {state.credits!.ledger.length > 0 && (
+              <details>
+                <summary>Recent credit changes</summary>
+                {state.credits!.ledger.map((entry) => (
+                  <div key={entry.reference} className="correction-item">
+                    <div className="correction-header">
+                      {entry.amount > 0 ? `+${entry.amount}` : entry.amount} · {CREDIT_ENTRY_LABELS[entry.kind]} ·{' '}
+                      {new Date(entry.createdAt).toLocaleString()} · balance {entry.balance}
+                    </div>
+                  </div>
+                ))}
+              </details>
+            )}
+          </div>
+
+          {state.entries!.map((entry) => (
+            <div className="card" key={entry.jobId}>
+              <div className="card-header">
+                <h2>{entry.title}</h2>
+                <span className={`badge ${entry.status === 'failed' ? 'badge-error' : entry.status === 'completed' ? 'badge-success' : 'badge-warning'}`}>
+                  {STATUS_LABELS[entry.status]}
+                </span>
+              </div>
+              <p className="help-text">
+                {new Date(entry.createdAt).toLocaleString()}
+                {entry.fixApplied && ' · AI fixed'}
+                {entry.updateScriptId && ` · update of ${entry.updateScriptId}`}
+              </p>
+              {entry.error && <p className="error-message">{entry.error}</p>}
+
+              {entry.indicatorUrl && (
+                <div className="indicator-url">
+                  <a href={entry.indicatorUrl} target="_blank" rel="noopener noreferrer">
+                    {entry.indicatorUrl}
+                  </a>
+                </div>
+              )}
+
+              {expandedJobId === entry.jobId && (
+                <div className="script-preview-container">
+                  <pre className="script-preview">{entry.script}</pre>
+                </div>
+              )}
+
+              <div className="button-group" style={{ marginTop: '1rem' }}>
+                <button
+                  className="btn btn-secondary btn-small"
+                  onClick={() => setExpandedJobId(expandedJobId === entry.jobId ? null : entry.jobId)}
+                >
+                  {expandedJobId === entry.jobId ? 'Hide Script' : 'View Script'}
+                </button>
+                <button className="btn btn-secondary btn-small" onClick={() => downloadScript(entry.script, entry.title)}>
+                  Download (.pine)
+                </button>
+                <button className="btn btn-secondary btn-small" onClick={() => handleRepublish(entry, false)}>
+                  Publish Again
+                </button>
+                {entry.indicatorUrl && (
+                  <button className="btn btn-secondary btn-small" onClick={() => handleRepublish(entry, true)}>
+                    Publish New Version
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  )
+}
@@ -1,7 +1,7 @@
 import { createFileRoute, useNavigate } from '@tanstack/react-router'
 import { useState } from 'react'
 import { createServerFn } from '@tanstack/react-start'
-import { quickSyntaxCheck } from '../server/ai'
+import { quickSyntaxCheck } from '../server/pine/syntax-check'
 
 // Test scripts for dev mode
 import COMPLEX_VALID_SCRIPT from '../test-scripts/complex-valid.pine?raw'
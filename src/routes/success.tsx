@@ -1,9 +1,14 @@
 import { createFileRoute, useNavigate, useSearch } from '@tanstack/react-router'
 import { useEffect, useState } from 'react'
 import { createServerFn } from '@tanstack/react-start'
-import { getJobByStripeSession, updatePublishJob } from '../server/kv'
+import { getCookie } from '@tanstack/react-start/server'
+import { getJobByStripeSession, getPublishJob, getCreditBalance, type PublishJob } from '../server/kv'
 import { getCheckoutSession } from '../server/stripe'
+import { getSessionAccount, SESSION_COOKIE } from '../server/accounts'
+import { settlePaidCheckout, applyRefundPolicy, describeRefund, type RefundStatus } from '../server/refund-policy'
 import { startTimer } from '../server/timing'
+import { diffLines, type DiffErrorSource } from '../server/script-diff'
+import { ScriptDiff } from '../components/ScriptDiff'
 
 interface JobStatus {
   status: 'loading' | 'publishing' | 'success' | 'failed'
@@ -12,11 +17,18 @@ interface JobStatus {
   script?: string
   originalScript?: string
   fixApplied?: boolean
+  /** Iterations of the AI fix, to explain its changes */
+  fixSources?: DiffErrorSource[]
   title?: string
+  /** Set when the payment was refunded because the script could not be delivered */
+  refund?: { status: RefundStatus; message: string }
+  /** Credits left after paying for the job with credits */
+  creditBalance?: number
 }
 
 // Server function to check payment status and return stored URL
 // NO BROWSER AUTOMATION - URL was stored during validation+publish step
+// A paid job that cannot be delivered is refunded (see refund-policy.ts)
 const checkJobStatus = createServerFn()
   .handler(async (ctx: { data: { sessionId: string } }) => {
     const timer = startTimer('Success', 'check job status')
@@ -24,79 +36,90 @@ const checkJobStatus = createServerFn()
 
     // Get the job for this Stripe session
     const job = await getJobByStripeSession(sessionId)
-    if (!job) {
-      timer.end()
-      return { status: 'failed' as const, error: 'Job not found' }
-    }
-
-    timer.mark('job found')
-
-    // If already completed, return the result with script data
-    if (job.status === 'completed') {
-      timer.end()
-      return {
-        status: 'success' as const,
-        indicatorUrl: job.indicatorUrl,
-        script: job.script,
-        originalScript: job.originalScript,
-        fixApplied: job.fixApplied,
-        title: job.title,
-      }
-    }
+    timer.mark(job ? 'job found' : 'job missing')
 
-    if (job.status === 'failed') {
+    // If already completed (webhook got here first), return the result with script data
+    // The policy runs again in case the webhook's refund attempt failed
+    if (job?.status === 'completed') {
+      const checkedJob = await applyRefundPolicy(job)
       timer.end()
-      return { status: 'failed' as const, error: job.error }
+      return paidJobStatus(checkedJob)
     }
 
     // Check if payment was successful
     const checkout = await getCheckoutSession(sessionId)
     timer.mark('checkout checked')
 
-    if (checkout.payment_status !== 'paid') {
+    // no_payment_required is a checkout fully covered by a promotion code
+    if (checkout.payment_status === 'unpaid') {
       timer.end()
-      return { status: 'failed' as const, error: 'Payment not completed' }
+      // Delayed payment methods (e.g. bank debits) complete the checkout before the payment clears
+      if (job?.status === 'processing') {
+        return { status: 'loading' as const }
+      }
+      return {
+        status: 'failed' as const,
+        // A failed job, or a delayed payment that failed, carries its own error
+        error: !job ? 'Job not found' : (job.error ?? 'Payment not completed'),
+      }
     }
 
-    // Payment successful - just mark as completed and return stored URL
+    // Payment successful - mark as completed and return stored URL, or refund if there is none
     // NO BROWSER AUTOMATION NEEDED - URL was stored during validation+publish step
-    console.log(`[Success] Payment confirmed for job ${job.jobId}, returning stored URL: ${job.indicatorUrl}`)
+    // A paid checkout without its job is never refunded from here: it may have been delivered
+    const paidJob = await settlePaidCheckout(checkout)
+    timer.mark('payment settled')
+    timer.end()
 
-    await updatePublishJob(job.jobId, { status: 'completed' })
-    timer.mark('job marked complete')
+    if (!paidJob) {
+      return { status: 'failed' as const, error: 'Job not found' }
+    }
 
-    timer.end()
-    return {
-      status: 'success' as const,
-      indicatorUrl: job.indicatorUrl,
-      script: job.script,
-      originalScript: job.originalScript,
-      fixApplied: job.fixApplied,
-      title: job.title,
+    console.log(`[Success] Payment confirmed for job ${paidJob.jobId}, returning stored URL: ${paidJob.indicatorUrl}`)
+    return paidJobStatus(paidJob)
+  })
+
+// Server function for a job paid with credits, which was completed before this page loaded
+const checkCreditJobStatus = createServerFn()
+  .handler(async (ctx: { data: { jobId: string } }) => {
+    const account = await getSessionAccount(getCookie(SESSION_COOKIE))
+    const job = await getPublishJob(ctx.data.jobId)
+    // Only the account that paid may see the job; anyone else gets the same answer as for no job
+    if (!account || !job?.creditsSpent || job.accountId !== account.userId) {
+      return { status: 'failed' as const, error: 'Job not found' }
     }
+    return { ...paidJobStatus(job), creditBalance: await getCreditBalance(account.userId) }
   })
 
+function paidJobStatus(job: PublishJob) {
+  const refund = job.refundReason && job.refundStatus
+    ? { status: job.refundStatus, message: describeRefund(job.refundReason, job.refundStatus) }
+    : undefined
+
+  if (job.status === 'failed') {
+    return { status: 'failed' as const, error: job.error, refund }
+  }
+  return {
+    status: 'success' as const,
+    indicatorUrl: job.indicatorUrl,
+    script: job.script,
+    originalScript: job.originalScript,
+    fixApplied: job.fixApplied,
+    fixSources: job.validationResult?.history.filter((iteration) => iteration.script !== job.script),
+    title: job.title,
+    refund,
+  }
+}
+
 export const Route = createFileRoute('/success')({
   component: SuccessPage,
 })
 
 /**
- * Compute which lines were changed between original and fixed script
+ * Lines of the fixed script that the AI added or changed
  */
 function getChangedLines(original: string, fixed: string): Set<number> {
-  const originalLines = original.split('\n')
-  const fixedLines = fixed.split('\n')
-  const changedLines = new Set<number>()
-
-  // Simple line-by-line comparison
-  const maxLen = Math.max(originalLines.length, fixedLines.length)
-  for (let i = 0; i < maxLen; i++) {
-    if (originalLines[i] !== fixedLines[i]) {
-      changedLines.add(i + 1) // 1-indexed line numbers
-    }
-  }
-
-  return changedLines
+  return new Set(diffLines(original, fixed).flatMap((line) => (line.type === 'add' ? [line.newLine!] : [])))
 }
 
 /**
@@ -117,12 +140,13 @@ function downloadScript(script: string, title: string) {
 
 function SuccessPage() {
   const navigate = useNavigate()
-  const searchParams = useSearch({ from: '/success' }) as { session_id?: string }
-  const session_id = searchParams.session_id
+  // A checkout returns with session_id, a job paid with credits comes with job_id
+  const searchParams = useSearch({ from: '/success' }) as { session_id?: string; job_id?: string }
+  const { session_id, job_id } = searchParams
   const [jobStatus, setJobStatus] = useState<JobStatus>({ status: 'loading' })
 
   useEffect(() => {
-    if (!session_id) {
+    if (!session_id && !job_id) {
       navigate({ to: '/' })
       return
     }
@@ -130,7 +154,9 @@ function SuccessPage() {
     // Poll for job status
     const checkStatus = async () => {
       try {
-        const result = await checkJobStatus({ data: { sessionId: session_id } })
+        const result = session_id
+          ? await checkJobStatus({ data: { sessionId: session_id } })
+          : await checkCreditJobStatus({ data: { jobId: job_id! } })
         setJobStatus(result)
 
         // If still publishing, poll again
@@ -146,7 +172,7 @@ function SuccessPage() {
     }
 
     checkStatus()
-  }, [session_id, navigate])
+  }, [session_id, job_id, navigate])
 
   return (
     <div className="container">
@@ -172,6 +198,11 @@ function SuccessPage() {
             <div className="success-icon">&#10003;</div>
             <h2>Published Successfully!</h2>
             <p>Your Pine Script indicator is now live on TradingView.</p>
+            {jobStatus.creditBalance !== undefined && (
+              <p className="help-text">
+                Paid with 1 credit · {jobStatus.creditBalance} credit{jobStatus.creditBalance === 1 ? '' : 's'} left
+              </p>
+            )}
 
             {jobStatus.indicatorUrl ? (
               <div className="indicator-url">
@@ -189,6 +220,7 @@ function SuccessPage() {
             ) : (
               <div className="indicator-url">
                 <p>Your script has been published as a private indicator.</p>
+                {jobStatus.refund && <p className="help-text">{jobStatus.refund.message}</p>}
                 <p>
                   <a
                     href="https://www.tradingview.com/u/#published-scripts"
@@ -224,6 +256,17 @@ function SuccessPage() {
                 </p>
               )}
 
+              {jobStatus.fixApplied && jobStatus.originalScript && (
+                <details style={{ marginBottom: '1rem' }}>
+                  <summary>Show what the AI changed</summary>
+                  <ScriptDiff
+                    before={jobStatus.originalScript}
+                    after={jobStatus.script}
+                    sources={jobStatus.fixSources}
+                  />
+                </details>
+              )}
+
               <div className="script-preview-container">
                 <pre className="script-preview">
                   {(() => {
@@ -283,9 +326,13 @@ function SuccessPage() {
           <div className="error-icon">&#10007;</div>
           <h2>Publishing Failed</h2>
           <p>{jobStatus.error || 'An error occurred while publishing your indicator.'}</p>
-          <p className="help-text">
-            If your payment was processed, please contact support for assistance.
-          </p>
+          {jobStatus.refund ? (
+            <p className="help-text">{jobStatus.refund.message}</p>
+          ) : (
+            <p className="help-text">
+              If your payment was processed, please contact support for assistance.
+            </p>
+          )}
 
           <div className="button-group">
             <button className="btn btn-primary" onClick={() => navigate({ to: '/' })}>
@@ -1,68 +1,128 @@
 import { createFileRoute, useNavigate } from '@tanstack/react-router'
 import { useState, useEffect, useRef } from 'react'
 import { createServerFn } from '@tanstack/react-start'
-import { runValidationLoop, type ValidationLoopResult, type PublishAfterValidationOptions } from '../server/validation-loop'
-import { hashScript, createPublishJob, generateUserId } from '../server/kv'
-import { createCheckoutSession, getProductDetails, type ProductDetails } from '../server/stripe'
+import { getCookie } from '@tanstack/react-start/server'
+import type { ValidationLoopResult, PublishAfterValidationOptions } from '../server/validation-loop'
+import { getCreditBalance, type PublishJobStatus } from '../server/kv'
+import { submitValidationJob, getValidationJob, getQueuePosition } from '../server/job-queue'
+import { createJobCheckout, getProductDetails, type ProductDetails } from '../server/stripe'
+import { getPriceQuote, type PriceQuote, type PriceQuoteOptions } from '../server/pricing'
+import type { ProgressEvent } from '../server/progress'
+import type { VisibilityLevel } from '../server/tradingview'
+import { getSessionAccount, SESSION_COOKIE } from '../server/accounts'
+import { publishWithCredits } from '../server/credits'
+import { enforceRateLimit } from '../server/rate-limit'
+import type { DiffErrorSource } from '../server/script-diff'
+import { ScriptDiff } from '../components/ScriptDiff'
 
 interface ValidationState {
   script: string
   originalScript: string // Keep original for diff comparison
   status: 'idle' | 'validating' | 'done' | 'error'
+  /** Queued validation job, polled until it finishes */
+  jobId?: string
+  queuePosition?: number | null
+  /** Live progress events streamed from the job */
+  progress?: ProgressEvent[]
   result?: ValidationLoopResult
+  /** Iterations of the last AI fix run, kept to explain its changes after a re-validation */
+  fixSources?: DiffErrorSource[]
   error?: string
 }
 
+// How often the page polls a queued validation job
+const JOB_POLL_INTERVAL_MS = 2000
+
+// Job statuses that mean the validation loop has finished and stored its result
+const FINISHED_JOB_STATUSES: PublishJobStatus[] = ['validated', 'pending', 'processing', 'completed']
+
 interface PublishFormData {
   title: string
   description: string
   visibility: 'public' | 'private'
+  visibilityLevel: VisibilityLevel
 }
 
-// Server function to validate script AND publish in one step
-// This combines validation + publish for better performance (single browser session)
-const validateAndPublishScript = createServerFn()
-  .handler(async (ctx: { data: { script: string; publishOptions: PublishAfterValidationOptions } }) => {
-    return runValidationLoop(ctx.data.script, 1, ctx.data.publishOptions)
+const VISIBILITY_LEVEL_OPTIONS: Array<{ value: VisibilityLevel; label: string }> = [
+  { value: 'open', label: 'Open - anyone can see the source code' },
+  { value: 'protected', label: 'Protected - anyone can use it, the source code stays hidden' },
+  { value: 'invite-only', label: 'Invite-only - only people you invite can use it' },
+]
+
+// Server function to queue validation AND publish in one step
+// Returns a job ID immediately; the background worker runs the validation loop
+// Jobs of a signed-in user are also kept in their script history
+// fix: false validates the script as it is, for a fix the user rejected parts of
+const submitValidationAndPublish = createServerFn()
+  .handler(async (ctx: { data: { script: string; publishOptions: PublishAfterValidationOptions; fix?: boolean } }) => {
+    await enforceRateLimit('validation')
+    const account = await getSessionAccount(getCookie(SESSION_COOKIE))
+    const job = await submitValidationJob(ctx.data.script, ctx.data.publishOptions, {
+      accountId: account?.userId,
+      ...(ctx.data.fix === false && { maxFixAttempts: 0 }),
+    })
+    return { jobId: job.jobId }
   })
 
-// Server function to fetch product details from Stripe
+// Server function to poll a queued validation job
+const fetchValidationJob = createServerFn()
+  .handler(async (ctx: { data: { jobId: string } }) => {
+    const job = await getValidationJob(ctx.data.jobId)
+    if (!job) {
+      return { status: 'missing' as const }
+    }
+
+    return {
+      status: job.status,
+      title: job.title,
+      description: job.description,
+      visibilityLevel: job.visibilityLevel ?? 'open',
+      updateScriptId: job.updateScriptId,
+      releaseNotes: job.releaseNotes,
+      queuePosition: job.status === 'queued' ? await getQueuePosition(job.jobId) : null,
+      result: job.validationResult,
+      error: job.error,
+    }
+  })
+
+// Server function to fetch product details from the pricing catalog
 const fetchProductDetails = createServerFn()
-  .handler(async () => {
-    return getProductDetails()
+  .handler(async (ctx: { data: { currency?: string } }) => {
+    return getProductDetails(ctx.data.currency)
+  })
+
+// Server function to price the selected publish options, line by line
+const fetchPriceQuote = createServerFn()
+  .handler(async (ctx: { data: PriceQuoteOptions }) => {
+    return getPriceQuote(ctx.data)
   })
 
 // Server function to create checkout session
-// Note: Script is already published at this point, we just store the indicatorUrl
+// Note: Script is already published at this point; the validated job already holds the indicatorUrl
 const createCheckout = createServerFn()
-  .handler(async (ctx: { data: { script: string; originalScript: string; fixApplied: boolean; title: string; description: string; visibility: 'public' | 'private'; indicatorUrl?: string } }) => {
-    const { script, originalScript, fixApplied, title, description, visibility, indicatorUrl } = ctx.data
-    const scriptHash = hashScript(script)
-
-    // Generate a userId for this transaction (no login required)
-    const userId = generateUserId()
-
-    // Create checkout session
-    const checkout = await createCheckoutSession({
-      scriptHash,
-      userId,
-    })
+  .handler(async (ctx: { data: { jobId: string; currency?: string } }) => {
+    await enforceRateLimit('checkout')
+    const checkout = await createJobCheckout(ctx.data.jobId, ctx.data.currency)
+    return { checkoutUrl: checkout.url }
+  })
 
-    // Create pending job with indicatorUrl already populated (script was published during validation)
-    await createPublishJob({
-      userId,
-      scriptHash,
-      script,
-      originalScript: fixApplied ? originalScript : undefined,
-      fixApplied,
-      title,
-      description,
-      visibility,
-      stripeSessionId: checkout.sessionId,
-      indicatorUrl, // URL from validation+publish step
-    })
+// Server function to fetch the signed-in user's credit balance; null when signed out
+const fetchCreditBalance = createServerFn()
+  .handler(async () => {
+    const account = await getSessionAccount(getCookie(SESSION_COOKIE))
+    return { balance: account ? await getCreditBalance(account.userId) : null }
+  })
 
-    return { checkoutUrl: checkout.url }
+// Server function to pay for the published job with a credit instead of a checkout
+const payWithCredits = createServerFn()
+  .handler(async (ctx: { data: { jobId: string } }) => {
+    await enforceRateLimit('checkout')
+    const account = await getSessionAccount(getCookie(SESSION_COOKIE))
+    if (!account) {
+      throw new Error('Sign in to publish with credits')
+    }
+    const job = await publishWithCredits(ctx.data.jobId, account.userId)
+    return { jobId: job.jobId }
   })
 
 export const Route = createFileRoute('/validate')({
@@ -78,10 +138,22 @@ function ValidatePage() {
   })
   const [title, setTitle] = useState('')
   const [description, setDescription] = useState('')
-  // Visibility is always public when using service account
+  // Visibility is always public when using service account; vendors pick the level
   const visibility = 'public' as const
+  const [visibilityLevel, setVisibilityLevel] = useState<VisibilityLevel>('open')
+  // Publish a new script, or a new version of one the user published before
+  const [publishMode, setPublishMode] = useState<'new' | 'update'>('new')
+  const [updateScript, setUpdateScript] = useState('')
+  const [releaseNotes, setReleaseNotes] = useState('')
+  const missingUpdateDetails = publishMode === 'update' && (!updateScript.trim() || !releaseNotes.trim())
   const [isCreatingCheckout, setIsCreatingCheckout] = useState(false)
   const [productDetails, setProductDetails] = useState<ProductDetails | null>(null)
+  // Currency picked on the page; unset uses the catalog's default
+  const [currency, setCurrency] = useState<string | undefined>()
+  const [priceQuote, setPriceQuote] = useState<PriceQuote | null>(null)
+  const fixApplied = state.result?.fixSuccessful ?? false
+  // Credits of a signed-in user; null when signed out
+  const [creditBalance, setCreditBalance] = useState<number | null>(null)
 
   // Track if we've loaded the script from session storage
   const scriptLoadedRef = useRef(false)
@@ -95,20 +167,159 @@ function ValidatePage() {
     const pendingScript = sessionStorage.getItem('pendingScript')
     if (pendingScript) {
       scriptLoadedRef.current = true
-      setState((s) => ({ ...s, script: pendingScript, originalScript: pendingScript }))
-      // Don't auto-validate - wait for user to fill in title first
+      // Resume polling a job submitted before a reload; otherwise wait for the user to fill in title first
+      const jobId = sessionStorage.getItem('validationJobId') ?? undefined
+      setState((s) => ({
+        ...s,
+        script: pendingScript,
+        originalScript: pendingScript,
+        ...(jobId && { status: 'validating' as const, jobId }),
+      }))
+
+      // Republishing from the history page brings the details it was published with
+      const pendingDetails = sessionStorage.getItem('pendingPublishDetails')
+      if (pendingDetails) {
+        sessionStorage.removeItem('pendingPublishDetails')
+        const details = JSON.parse(pendingDetails)
+        setTitle(details.title)
+        setDescription(details.description)
+        setVisibilityLevel(details.visibilityLevel)
+        if (details.updateScript) {
+          setPublishMode('update')
+          setUpdateScript(details.updateScript)
+        }
+      }
     } else {
       navigate({ to: '/' })
     }
   }, [navigate])
 
-  // Fetch product details from Stripe on mount
+  // Poll the queued job until the worker finishes it
+  useEffect(() => {
+    if (state.status !== 'validating' || !state.jobId) {
+      return
+    }
+
+    const jobId = state.jobId
+    let cancelled = false
+
+    const poll = async () => {
+      try {
+        const job = await fetchValidationJob({ data: { jobId } })
+        if (cancelled) return
+
+        if (job.status === 'cancelled') {
+          // Cancelled from another tab, or the cancel from this page landed after a reload
+          sessionStorage.removeItem('validationJobId')
+          setState((s) => ({ ...s, status: 'idle', jobId: undefined, queuePosition: undefined, progress: undefined }))
+          return
+        }
+
+        if (job.status === 'missing' || job.status === 'failed') {
+          sessionStorage.removeItem('validationJobId')
+          setState((s) => ({
+            ...s,
+            status: 'error',
+            jobId: undefined,
+            error: job.status === 'missing' ? 'Validation job expired' : (job.error ?? 'Validation failed'),
+          }))
+          return
+        }
+
+        // Restore the form values when resuming after a reload
+        setTitle((t) => t || job.title)
+        setDescription((d) => d || job.description)
+        setVisibilityLevel(job.visibilityLevel)
+        if (job.updateScriptId) {
+          setPublishMode('update')
+          setUpdateScript((u) => u || job.updateScriptId!)
+          setReleaseNotes((n) => n || job.releaseNotes || '')
+        }
+
+        if (FINISHED_JOB_STATUSES.includes(job.status) && job.result) {
+          const result = job.result
+          setState((s) => ({
+            ...s,
+            script: result.finalScript, // Use the (possibly fixed) script
+            result,
+            fixSources: result.fixAttempted
+              ? result.history.filter((iteration) => iteration.script !== result.finalScript)
+              : s.fixSources,
+            status: 'done',
+          }))
+          return
+        }
+
+        setState((s) => ({ ...s, queuePosition: job.queuePosition }))
+      } catch (error) {
+        // Transient network errors - keep polling
+        console.error('Failed to poll validation job:', error)
+      }
+    }
+
+    void poll()
+    const interval = setInterval(poll, JOB_POLL_INTERVAL_MS)
+    return () => {
+      cancelled = true
+      clearInterval(interval)
+    }
+  }, [state.status, state.jobId])
+
+  // Stream progress events for the timeline; polling above still decides when the job is done
+  useEffect(() => {
+    if (state.status !== 'validating' || !state.jobId) {
+      return
+    }
+
+    const events = new EventSource(`/api/jobs/${encodeURIComponent(state.jobId)}/events`)
+    events.addEventListener('progress', (message) => {
+      const event = JSON.parse((message as MessageEvent<string>).data) as ProgressEvent
+      setState((s) => ({ ...s, progress: [...(s.progress ?? []), event] }))
+    })
+    // Close on the final event, otherwise EventSource reconnects and replays nothing forever
+    events.addEventListener('end', () => events.close())
+
+    return () => events.close()
+  }, [state.status, state.jobId])
+
+  // Closing the tab cancels the job unless the page comes back (a reload) within the grace period
   useEffect(() => {
-    fetchProductDetails().then(setProductDetails).catch(console.error)
+    if (state.status !== 'validating' || !state.jobId) {
+      return
+    }
+
+    const jobId = state.jobId
+    const onPageHide = () => {
+      navigator.sendBeacon(`/api/jobs/${encodeURIComponent(jobId)}/cancel?abandoned=true`)
+    }
+    window.addEventListener('pagehide', onPageHide)
+    return () => window.removeEventListener('pagehide', onPageHide)
+  }, [state.status, state.jobId])
+
+  // Fetch the credit balance on mount
+  useEffect(() => {
+    fetchCreditBalance().then(({ balance }) => setCreditBalance(balance)).catch(console.error)
   }, [])
 
+  // Fetch product details in the selected currency
+  useEffect(() => {
+    fetchProductDetails({ data: { currency } }).then(setProductDetails).catch(console.error)
+  }, [currency])
+
+  // Re-price whenever an option that changes the price does; the fix is only known after validation
+  useEffect(() => {
+    let cancelled = false
+    fetchPriceQuote({ data: { publishMode, visibilityLevel, fixApplied, currency } })
+      .then((quote) => !cancelled && setPriceQuote(quote))
+      .catch(console.error)
+    return () => {
+      cancelled = true
+    }
+  }, [publishMode, visibilityLevel, fixApplied, currency])
+
   // Validate AND publish in one step (after user fills in title and description)
-  const runValidationAndPublish = async () => {
+  // A partially applied AI fix is validated as it is, without further fixes
+  const runValidationAndPublish = async (partialFix?: { script: string }) => {
     if (!title.trim()) {
       alert('Please enter a title for your indicator')
       return
@@ -117,27 +328,33 @@ function ValidatePage() {
       alert('Please enter a description for your indicator (required by TradingView)')
       return
     }
+    if (missingUpdateDetails) {
+      alert('Please enter the URL of the script to update and the release notes for this version')
+      return
+    }
 
-    setState((s) => ({ ...s, status: 'validating' }))
+    const script = partialFix?.script ?? state.script
+    setState((s) => ({ ...s, script, status: 'validating' }))
 
     try {
-      const result = await validateAndPublishScript({
+      const { jobId } = await submitValidationAndPublish({
         data: {
-          script: state.script,
+          script,
+          fix: !partialFix,
           publishOptions: {
             title: title.trim(),
             description: description.trim(),
             visibility,
+            ...(publishMode === 'update'
+              ? { updateScript: updateScript.trim(), releaseNotes: releaseNotes.trim() }
+              : { visibilityLevel }),
           },
         },
       })
 
-      setState((s) => ({
-        ...s,
-        script: result.finalScript, // Use the (possibly fixed) script
-        result,
-        status: 'done',
-      }))
+      // Remember the job so a reload keeps following it
+      sessionStorage.setItem('validationJobId', jobId)
+      setState((s) => ({ ...s, jobId, queuePosition: null, progress: [] }))
     } catch (error) {
       setState((s) => ({
         ...s,
@@ -148,41 +365,80 @@ function ValidatePage() {
   }
 
   const handleProceedToPayment = async () => {
-    if (!state.result?.indicatorUrl) {
+    if (!state.result?.indicatorUrl || !state.jobId) {
       alert('Script must be validated and published first')
       return
     }
 
     setIsCreatingCheckout(true)
     try {
-      const fixApplied = state.result?.fixAttempted && state.result?.fixSuccessful
-      const result = await createCheckout({
-        data: {
-          script: state.script,
-          originalScript: state.originalScript,
-          fixApplied: !!fixApplied,
-          title: title.trim(),
-          description: description.trim(),
-          visibility,
-          indicatorUrl: state.result.indicatorUrl, // Include URL from validation+publish
-        },
-      })
+      const result = await createCheckout({ data: { jobId: state.jobId, currency } })
 
       // Redirect to Stripe checkout
       window.location.href = result.checkoutUrl
     } catch (error) {
       console.error('Checkout error:', error)
-      alert('Failed to create checkout session')
+      alert(error instanceof Error ? error.message : 'Failed to create checkout session')
     } finally {
       setIsCreatingCheckout(false)
     }
   }
 
+  const handlePayWithCredits = async () => {
+    if (!state.jobId) {
+      return
+    }
+
+    setIsCreatingCheckout(true)
+    try {
+      const { jobId } = await payWithCredits({ data: { jobId: state.jobId } })
+      sessionStorage.removeItem('validationJobId')
+      window.location.href = `/success?job_id=${encodeURIComponent(jobId)}`
+    } catch (error) {
+      console.error('Credit payment error:', error)
+      alert(error instanceof Error ? error.message : 'Failed to pay with credits')
+      setIsCreatingCheckout(false)
+    }
+  }
+
+  // Stop the queued or running job so it frees the TradingView session for others
+  const cancelJob = (jobId: string) => {
+    sessionStorage.removeItem('validationJobId')
+    fetch(`/api/jobs/${encodeURIComponent(jobId)}/cancel`, { method: 'POST' }).catch((error) =>
+      console.error('Failed to cancel validation job:', error)
+    )
+  }
+
+  const handleCancelValidation = () => {
+    if (state.jobId) {
+      cancelJob(state.jobId)
+    }
+    setState((s) => ({
+      ...s,
+      status: 'idle',
+      jobId: undefined,
+      queuePosition: undefined,
+      progress: undefined,
+    }))
+  }
+
+  const handleStartOver = () => {
+    if (state.status === 'validating' && state.jobId) {
+      cancelJob(state.jobId)
+    }
+    navigate({ to: '/' })
+  }
+
   const handleRetryValidation = () => {
+    sessionStorage.removeItem('validationJobId')
     setState((s) => ({
       ...s,
       status: 'idle',
+      jobId: undefined,
+      queuePosition: undefined,
+      progress: undefined,
       result: undefined,
+      fixSources: undefined,
       error: undefined,
     }))
   }
@@ -228,8 +484,30 @@ function ValidatePage() {
         <div className="card loading-card">
           <div className="spinner" />
           <h2>Validating & Publishing...</h2>
-          <p>Your script is being validated and published to TradingView.</p>
-          <small>This may take up to a minute</small>
+          <p>
+            {state.queuePosition
+              ? `Waiting for a validation slot (position ${state.queuePosition} in queue).`
+              : 'Your script is being validated and published to TradingView.'}
+          </p>
+          <small>This may take up to a minute. You can reload this page without losing your place.</small>
+          {state.progress && state.progress.length > 0 && (
+            <ol className="progress-timeline">
+              {state.progress.map((event, i) => (
+                <li
+                  key={i}
+                  className={`progress-event progress-${event.stage} ${i === state.progress!.length - 1 ? 'current' : ''}`}
+                >
+                  <span className="progress-time">+{formatElapsed(event.at - state.progress![0].at)}</span>
+                  <span>{event.message}</span>
+                </li>
+              ))}
+            </ol>
+          )}
+          <div className="button-group">
+            <button className="btn btn-secondary" onClick={handleCancelValidation}>
+              Cancel
+            </button>
+          </div>
         </div>
       )}
 
@@ -265,17 +543,97 @@ function ValidatePage() {
             />
           </div>
 
-          <div className="price-info">
-            <span className="price">{productDetails?.priceFormatted ?? '...'}</span>
-            <span className="price-desc">One-time payment to publish</span>
+          <div className="form-group">
+            <label htmlFor="publish-mode">Publish as</label>
+            <select
+              id="publish-mode"
+              className="input"
+              value={publishMode}
+              onChange={(e) => setPublishMode(e.target.value as 'new' | 'update')}
+            >
+              <option value="new">A new script</option>
+              <option value="update">A new version of a script published before</option>
+            </select>
           </div>
 
+          {publishMode === 'update' ? (
+            <>
+              <div className="form-group">
+                <label htmlFor="update-script">Script URL *</label>
+                <input
+                  id="update-script"
+                  type="text"
+                  className="input"
+                  value={updateScript}
+                  onChange={(e) => setUpdateScript(e.target.value)}
+                  placeholder="https://www.tradingview.com/script/AbC123xy/"
+                />
+              </div>
+
+              <div className="form-group">
+                <label htmlFor="release-notes">Release Notes *</label>
+                <textarea
+                  id="release-notes"
+                  className="input"
+                  value={releaseNotes}
+                  onChange={(e) => setReleaseNotes(e.target.value)}
+                  placeholder="What changed in this version..."
+                  rows={2}
+                />
+              </div>
+            </>
+          ) : (
+            <div className="form-group">
+              <label htmlFor="visibility-level">Visibility</label>
+              <select
+                id="visibility-level"
+                className="input"
+                value={visibilityLevel}
+                onChange={(e) => setVisibilityLevel(e.target.value as VisibilityLevel)}
+              >
+                {VISIBILITY_LEVEL_OPTIONS.map((option) => {
+                  const addon = productDetails?.visibilityLevelAddons[option.value]
+                  return (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                      {addon && addon.priceInCents > 0 ? ` (+${addon.priceFormatted})` : ''}
+                    </option>
+                  )
+                })}
+              </select>
+            </div>
+          )}
+
+          {productDetails && productDetails.currencies.length > 1 && (
+            <div className="form-group">
+              <label htmlFor="currency">Currency</label>
+              <select
+                id="currency"
+                className="input"
+                value={productDetails.currency}
+                onChange={(e) => setCurrency(e.target.value)}
+              >
+                {productDetails.currencies.map((option) => (
+                  <option key={option} value={option}>{option.toUpperCase()}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <PriceBreakdown quote={priceQuote} description="One-time payment to publish" />
+
           <button
             className="btn btn-primary btn-large"
-            onClick={runValidationAndPublish}
-            disabled={!title.trim() || !description.trim()}
+            onClick={() => runValidationAndPublish()}
+            disabled={!title.trim() || !description.trim() || missingUpdateDetails}
           >
-            {!title.trim() ? 'Enter title to continue' : !description.trim() ? 'Enter description to continue' : 'Validate & Publish'}
+            {!title.trim()
+              ? 'Enter title to continue'
+              : !description.trim()
+                ? 'Enter description to continue'
+                : missingUpdateDetails
+                  ? 'Enter script URL and release notes to continue'
+                  : publishMode === 'update' ? 'Validate & Publish Update' : 'Validate & Publish'}
           </button>
         </div>
       )}
@@ -311,6 +669,13 @@ function ValidatePage() {
               </div>
             )}
 
+            {/* Show when an earlier validation of the same script was reused */}
+            {state.result.fromCache && (
+              <div className="fix-info">
+                <p>This script was validated before, so the earlier result was reused.</p>
+              </div>
+            )}
+
             {/* Show publish error if any */}
             {state.result.isValid && state.result.publishError && (
               <div className="fix-info">
@@ -325,12 +690,75 @@ function ValidatePage() {
               <div className="errors-list">
                 {state.result.finalErrors.map((error, i) => (
                   <div key={i} className={`error-item ${error.type}`}>
-                    {error.line > 0 && <span className="line-number">Line {error.line}:</span>}
+                    {error.line > 0 && (
+                      <span className="line-number">
+                        Line {error.line}{error.column ? `:${error.column}` : ''}:
+                      </span>
+                    )}
                     <span className="error-message">{error.message}</span>
                   </div>
                 ))}
               </div>
             )}
+
+            {/* Show behavior changes the AI fix made beyond the reported errors */}
+            {state.result.semanticFindings && state.result.semanticFindings.length > 0 && (
+              <div className="errors-list">
+                <p className="fix-failed">
+                  {state.result.stopReason === 'behavior-changed'
+                    ? 'The AI fix was rejected because it changed how your script behaves:'
+                    : 'Please review these changes the AI fix made to your script:'}
+                </p>
+                {state.result.semanticFindings.map((finding, i) => (
+                  <div key={i} className={`error-item ${finding.severity}`}>
+                    <span className="error-message">{finding.message}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Review the AI's changes to the submitted script; rejected hunks are re-validated without them */}
+            {state.originalScript && state.originalScript !== state.result.finalScript && (
+              <div className="corrections-list">
+                <h3>Review AI changes</h3>
+                <ScriptDiff
+                  before={state.originalScript}
+                  after={state.result.finalScript}
+                  sources={state.fixSources}
+                  onRevalidate={(script) => runValidationAndPublish({ script })}
+                />
+              </div>
+            )}
+
+            {/* Show how the script changed across fix iterations */}
+            {state.result.history.length > 1 && (
+              <div className="corrections-list">
+                <h3>Fix history</h3>
+                {state.result.history.map((iteration) => (
+                  <div key={iteration.iteration} className="correction-item">
+                    <div className="correction-header">
+                      Iteration {iteration.iteration} ({iteration.source === 'local' ? 'syntax check' : 'TradingView'}):{' '}
+                      {iteration.errors.length === 0 ? 'no errors' : `${iteration.errors.length} error(s)`}
+                    </div>
+                    {iteration.diff && (
+                      <details>
+                        <summary>Changes from iteration {iteration.iteration - 1}</summary>
+                        <pre className="correction-diff">
+                          {iteration.diff.split('\n').map((line, i) => (
+                            <div
+                              key={i}
+                              className={line.startsWith('+') ? 'diff-add' : line.startsWith('-') ? 'diff-remove' : undefined}
+                            >
+                              {line}
+                            </div>
+                          ))}
+                        </pre>
+                      </details>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
 
           {/* Payment button - only show if valid and published */}
@@ -342,18 +770,40 @@ function ValidatePage() {
 
               <p>Your script "{title}" has been validated and published. Complete payment to receive your indicator URL.</p>
 
-              <div className="price-info">
-                <span className="price">{productDetails?.priceFormatted ?? '...'}</span>
-                <span className="price-desc">One-time payment</span>
-              </div>
+              <PriceBreakdown quote={priceQuote} description="One-time payment" />
 
-              <button
-                className="btn btn-primary btn-large"
-                onClick={handleProceedToPayment}
-                disabled={isCreatingCheckout}
-              >
-                {isCreatingCheckout ? 'Creating checkout...' : 'Proceed to Payment'}
-              </button>
+              {creditBalance !== null && creditBalance > 0 ? (
+                <>
+                  <p className="help-text">
+                    You have {creditBalance} credit{creditBalance === 1 ? '' : 's'}; publishing uses one.
+                  </p>
+                  <div className="button-group">
+                    <button
+                      className="btn btn-primary btn-large"
+                      onClick={handlePayWithCredits}
+                      disabled={isCreatingCheckout}
+                    >
+                      Publish with 1 Credit
+                    </button>
+                    <button className="btn btn-secondary" onClick={handleProceedToPayment} disabled={isCreatingCheckout}>
+                      Pay by Card Instead
+                    </button>
+                  </div>
+                </>
+              ) : (
+                <button
+                  className="btn btn-primary btn-large"
+                  onClick={handleProceedToPayment}
+                  disabled={isCreatingCheckout}
+                >
+                  {isCreatingCheckout ? 'Creating checkout...' : 'Proceed to Payment'}
+                </button>
+              )}
+              {creditBalance === 0 && (
+                <p className="help-text">
+                  Publishing often? <a href="/history">Buy credits or a monthly plan</a> to skip checkout.
+                </p>
+              )}
             </div>
           )}
 
@@ -369,10 +819,47 @@ function ValidatePage() {
       )}
 
       <div className="button-group">
-        <button className="btn btn-secondary" onClick={() => navigate({ to: '/' })}>
+        <button className="btn btn-secondary" onClick={handleStartOver}>
           Start Over
         </button>
       </div>
     </div>
   )
 }
+
+// What the publish is charged for, line by line, with any promo, then the total
+function PriceBreakdown({ quote, description }: { quote: PriceQuote | null; description: string }) {
+  if (!quote) {
+    return (
+      <div className="price-info">
+        <span className="price">...</span>
+      </div>
+    )
+  }
+
+  return (
+    <>
+      <ul className="price-breakdown">
+        {quote.lines.map((line) => (
+          <li key={line.productId}>
+            <span>{line.name}</span>
+            <span>
+              {line.discountInCents > 0 && <s>{line.listPriceFormatted}</s>}
+              {line.listPriceInCents === 0 ? 'Free' : line.priceFormatted}
+            </span>
+            {line.promo && <span className="price-promo">{line.promo}</span>}
+          </li>
+        ))}
+      </ul>
+      <div className="price-info">
+        <span className="price">{quote.totalFormatted}</span>
+        <span className="price-desc">{description}</span>
+      </div>
+    </>
+  )
+}
+
+function formatElapsed(ms: number): string {
+  const seconds = Math.max(0, Math.round(ms / 1000))
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+}
@@ -0,0 +1,125 @@
+/**
+ * User Accounts
+ *
+ * Passwordless accounts: the user enters an email, gets a one-time sign-in
+ * link, and following it starts a session kept in an HTTP-only cookie.
+ * An account is created the first time an email signs in.
+ */
+
+import crypto from 'crypto'
+import {
+  consumeSignInToken,
+  deleteUserSession,
+  generateUserId,
+  getUserAccount,
+  getUserAccountByEmail,
+  getUserSession,
+  saveSignInToken,
+  saveUserAccount,
+  saveUserSession,
+  type UserAccount,
+} from './kv'
+import { getMailer } from './mailer'
+import { readIntEnv } from './env'
+
+const APP_URL = process.env.APP_URL || 'http://localhost:3000'
+const SIGN_IN_LINK_TTL_MINUTES = readIntEnv('SIGN_IN_LINK_TTL_MINUTES', 15, 1)
+const SESSION_TTL_DAYS = readIntEnv('SESSION_TTL_DAYS', 30, 1)
+
+export const SESSION_COOKIE = 'pine_session'
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+function createToken(): string {
+  return crypto.randomBytes(32).toString('base64url')
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Lower-case and trim an email; null if it does not look like one
+ */
+export function normalizeEmail(email: string): string | null {
+  const normalized = email.trim().toLowerCase()
+  return EMAIL_PATTERN.test(normalized) ? normalized : null
+}
+
+// ============ Sign-in Links ============
+
+/**
+ * Email a one-time sign-in link. The link leads to /api/auth/verify, which
+ * starts the session and redirects to /history.
+ */
+export async function requestSignInLink(email: string): Promise<void> {
+  const normalized = normalizeEmail(email)
+  if (!normalized) {
+    throw new Error('Enter a valid email address')
+  }
+
+  const token = createToken()
+  await saveSignInToken(hashToken(token), normalized, SIGN_IN_LINK_TTL_MINUTES * 60)
+
+  const link = `${APP_URL}/api/auth/verify?token=${encodeURIComponent(token)}`
+  await getMailer().send({
+    to: normalized,
+    subject: 'Your Pine Script Publisher sign-in link',
+    text: [
+      'Follow this link to sign in to Pine Script Publisher:',
+      '',
+      link,
+      '',
+      `The link works once and expires in ${SIGN_IN_LINK_TTL_MINUTES} minutes.`,
+      'If you did not ask to sign in, you can ignore this email.',
+    ].join('\n'),
+  })
+  console.log(`[Accounts] Sent sign-in link to ${normalized}`)
+}
+
+/**
+ * Exchange a sign-in link token for a session, creating the account on first
+ * sign-in. Returns null if the token is unknown, used or expired.
+ */
+export async function signInWithToken(token: string): Promise<{ account: UserAccount; sessionToken: string } | null> {
+  const email = await consumeSignInToken(hashToken(token))
+  if (!email) return null
+
+  const now = Date.now()
+  const existing = await getUserAccountByEmail(email)
+  const account: UserAccount = existing
+    ? { ...existing, lastSignInAt: now }
+    : { userId: generateUserId(), email, createdAt: now, lastSignInAt: now }
+  await saveUserAccount(account)
+
+  const sessionToken = createToken()
+  await saveUserSession(hashToken(sessionToken), account.userId, SESSION_TTL_DAYS * 24 * 60 * 60)
+  console.log(`[Accounts] ${existing ? 'Signed in' : 'Created account for'} ${email}`)
+  return { account, sessionToken }
+}
+
+// ============ Sessions ============
+
+export async function getSessionAccount(sessionToken: string | undefined): Promise<UserAccount | null> {
+  if (!sessionToken) return null
+  const userId = await getUserSession(hashToken(sessionToken))
+  return userId ? getUserAccount(userId) : null
+}
+
+export async function endSession(sessionToken: string | undefined): Promise<void> {
+  if (!sessionToken) return
+  await deleteUserSession(hashToken(sessionToken))
+}
+
+/**
+ * Cookie options for the session cookie; maxAge 0 clears it
+ */
+export function sessionCookieOptions(maxAge: number = SESSION_TTL_DAYS * 24 * 60 * 60) {
+  return {
+    httpOnly: true,
+    secure: APP_URL.startsWith('https://'),
+    sameSite: 'lax' as const,
+    path: '/',
+    maxAge,
+  }
+}
@@ -116,53 +116,3 @@ Provide specific corrections for each error and the full corrected script.`,
 
   return object
 }
-
-/**
- * Quick syntax check without full AI analysis
- * Uses pattern matching for common Pine Script issues
- */
-export function quickSyntaxCheck(script: string): string[] {
-  const issues: string[] = []
-
-  // Check for version declaration
-  if (!script.includes('//@version=')) {
-    issues.push('Missing version declaration. Add //@version=5 at the top.')
-  }
-
-  // Check for unclosed brackets
-  const openParens = (script.match(/\(/g) || []).length
-  const closeParens = (script.match(/\)/g) || []).length
-  if (openParens !== closeParens) {
-    issues.push(`Mismatched parentheses: ${openParens} open, ${closeParens} close`)
-  }
-
-  const openBrackets = (script.match(/\[/g) || []).length
-  const closeBrackets = (script.match(/\]/g) || []).length
-  if (openBrackets !== closeBrackets) {
-    issues.push(`Mismatched square brackets: ${openBrackets} open, ${closeBrackets} close`)
-  }
-
-  // Check for common v4 to v5 migration issues
-  if (script.includes('//@version=5')) {
-    if (script.includes('study(')) {
-      issues.push('In v5, use indicator() instead of study()')
-    }
-    if (script.includes('security(')) {
-      issues.push('In v5, use request.security() instead of security()')
-    }
-    if (script.match(/\bcolor\./)) {
-      // This is fine in v5
-    } else if (script.match(/\bcolor\s*=\s*[a-z]+\b/)) {
-      issues.push('In v5, use color.red, color.blue, etc. instead of bare color names')
-    }
-  }
-
-  // Check for indicator/strategy declaration
-  if (!script.includes('indicator(') && !script.includes('strategy(') && !script.includes('library(')) {
-    if (!script.includes('study(')) {
-      issues.push('Missing indicator(), strategy(), or library() declaration')
-    }
-  }
-
-  return issues
-}
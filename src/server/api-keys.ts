@@ -0,0 +1,151 @@
+/**
+ * API Keys
+ *
+ * Authentication and daily quotas for the public /api/v1 routes. Admins
+ * create keys through /api/admin/api-keys; clients send them as
+ * `Authorization: Bearer <key>` (or `x-api-key`). Each key has its own
+ * quotas, counted per UTC day in KV so every machine sees the same usage.
+ */
+
+import crypto from 'crypto'
+import {
+  createApiKeyRecord,
+  getApiKeyByHash,
+  updateApiKey,
+  incrementApiUsage,
+  type ApiKey,
+  type ApiKeyQuotas,
+  type ApiUsageKind,
+} from './kv'
+import { readIntEnv } from './env'
+
+const DEFAULT_QUOTAS: ApiKeyQuotas = {
+  validationsPerDay: readIntEnv('API_DEFAULT_VALIDATIONS_PER_DAY', 100),
+  publishesPerDay: readIntEnv('API_DEFAULT_PUBLISHES_PER_DAY', 10),
+}
+
+const KEY_PREFIX = 'pk_'
+
+function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex')
+}
+
+// ============ Keys ============
+
+/**
+ * Create a key; the plain key is returned here only, the store keeps its hash
+ */
+export async function createApiKey(
+  name: string,
+  quotas: Partial<ApiKeyQuotas> = {}
+): Promise<{ apiKey: ApiKey; key: string }> {
+  const key = `${KEY_PREFIX}${crypto.randomBytes(24).toString('base64url')}`
+  const apiKey: ApiKey = {
+    keyId: `key_${crypto.randomUUID()}`,
+    name,
+    prefix: key.slice(0, KEY_PREFIX.length + 6),
+    quotas: { ...DEFAULT_QUOTAS, ...quotas },
+    createdAt: Date.now(),
+  }
+  await createApiKeyRecord(hashApiKey(key), apiKey)
+  console.log(`[API Keys] Created ${apiKey.keyId} (${name})`)
+  return { apiKey, key }
+}
+
+export async function revokeApiKey(keyId: string): Promise<ApiKey | null> {
+  const apiKey = await updateApiKey(keyId, { revokedAt: Date.now() })
+  if (apiKey) console.log(`[API Keys] Revoked ${keyId}`)
+  return apiKey
+}
+
+/**
+ * The key a request authenticates with, or null if it has none or it is unknown or revoked
+ */
+export async function authenticateApiKey(request: Request): Promise<ApiKey | null> {
+  const authorization = request.headers.get('authorization')
+  const key = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1] ?? request.headers.get('x-api-key')
+  if (!key || !key.startsWith(KEY_PREFIX)) return null
+
+  const apiKey = await getApiKeyByHash(hashApiKey(key))
+  return apiKey && !apiKey.revokedAt ? apiKey : null
+}
+
+// ============ Quotas ============
+
+export interface QuotaStatus {
+  allowed: boolean
+  limit: number
+  remaining: number
+  /** When the daily quota resets (next UTC midnight), in ms */
+  resetAt: number
+}
+
+const QUOTA_LIMITS: Record<ApiUsageKind, keyof ApiKeyQuotas> = {
+  validations: 'validationsPerDay',
+  publishes: 'publishesPerDay',
+}
+
+function utcDay(now: number): string {
+  return new Date(now).toISOString().slice(0, 10)
+}
+
+/**
+ * Count one use against the key's daily quota. A use over the quota is not
+ * counted, so rejected requests do not eat into the next ones.
+ */
+export async function consumeApiQuota(apiKey: ApiKey, kind: ApiUsageKind, now: number = Date.now()): Promise<QuotaStatus> {
+  const limit = apiKey.quotas[QUOTA_LIMITS[kind]]
+  const day = utcDay(now)
+  const resetAt = Date.parse(`${day}T00:00:00.000Z`) + 24 * 60 * 60 * 1000
+
+  const used = await incrementApiUsage(apiKey.keyId, kind, day)
+  if (used > limit) {
+    await incrementApiUsage(apiKey.keyId, kind, day, -1)
+    return { allowed: false, limit, remaining: 0, resetAt }
+  }
+  return { allowed: true, limit, remaining: limit - used, resetAt }
+}
+
+/**
+ * Count one use against each quota in turn, or against none: once one is used
+ * up, the uses already counted are given back. Returns the refused quota's
+ * status, or the last quota's when all allow the request.
+ */
+export async function consumeApiQuotas(
+  apiKey: ApiKey,
+  kinds: ApiUsageKind[],
+  now: number = Date.now()
+): Promise<QuotaStatus & { kind: ApiUsageKind }> {
+  const counted: ApiUsageKind[] = []
+  let status: (QuotaStatus & { kind: ApiUsageKind }) | null = null
+  for (const kind of kinds) {
+    status = { ...(await consumeApiQuota(apiKey, kind, now)), kind }
+    if (!status.allowed) {
+      for (const done of counted) await refundApiQuota(apiKey, done, now)
+      return status
+    }
+    counted.push(kind)
+  }
+  if (!status) {
+    throw new Error('No quota to consume')
+  }
+  return status
+}
+
+/**
+ * Give back a use counted at `now`, for a request that failed after all
+ */
+export async function refundApiQuota(apiKey: ApiKey, kind: ApiUsageKind, now: number = Date.now()): Promise<void> {
+  await incrementApiUsage(apiKey.keyId, kind, utcDay(now), -1)
+}
+
+/**
+ * Rate limit headers describing a quota, for /api/v1 responses
+ */
+export function quotaHeaders(quota: QuotaStatus): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': String(quota.limit),
+    'X-RateLimit-Remaining': String(quota.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(quota.resetAt / 1000)),
+  }
+}
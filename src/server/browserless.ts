@@ -80,6 +80,37 @@ function getChromePath(): string {
   )
 }
 
+/**
+ * Chrome for headless launches: the Dockerfile's Chromium in production, else the local install
+ */
+function getHeadlessChromePath(): string {
+  if (PUPPETEER_EXECUTABLE_PATH) {
+    if (fs.existsSync(PUPPETEER_EXECUTABLE_PATH)) {
+      return PUPPETEER_EXECUTABLE_PATH
+    }
+    throw new Error(`PUPPETEER_EXECUTABLE_PATH set to ${PUPPETEER_EXECUTABLE_PATH} but file does not exist`)
+  }
+  return getChromePath()
+}
+
+// Flags for headless Chrome in the production container (low memory, no GPU)
+const HEADLESS_CHROME_ARGS = [
+  '--no-sandbox',
+  '--disable-setuid-sandbox',
+  '--disable-dev-shm-usage',
+  '--disable-gpu',
+  '--disable-software-rasterizer',
+  '--disable-extensions',
+  '--disable-background-networking',
+  '--disable-default-apps',
+  '--disable-sync',
+  '--no-first-run',
+  '--disable-accelerated-2d-canvas',
+  '--disable-canvas-aa',
+  '--disable-2d-canvas-clip-aa',
+  '--disable-gl-drawing-for-tests',
+]
+
 /**
  * Build Browserless.io WebSocket endpoint URL with stealth and proxy options
  */
@@ -125,6 +156,58 @@ export interface BrowserSessionOptions {
   forceVisible?: boolean
 }
 
+export interface BrowserCookie {
+  name: string
+  value: string
+  domain: string
+  path?: string
+  httpOnly?: boolean
+  secure?: boolean
+}
+
+export interface NavigateOptions {
+  waitUntil?: 'load' | 'domcontentloaded' | 'networkidle0' | 'networkidle2'
+  timeout?: number
+}
+
+// ============ Browser Driver ============
+
+/**
+ * Where browser sessions come from and how they reach TradingView.
+ * The default driver uses puppeteer with local Chrome or Browserless; tests
+ * install one that serves a fake TradingView instead.
+ */
+export interface BrowserDriver {
+  /** Open a browser with one page ready for automation */
+  createSession(options?: BrowserSessionOptions): Promise<ReconnectableBrowserSession>
+  /** Launch a headless browser whose contexts and pages the caller manages */
+  launchBrowser(): Promise<Browser>
+  injectCookies(page: Page, cookies: BrowserCookie[]): Promise<void>
+  navigateTo(page: Page, url: string, options?: NavigateOptions): Promise<boolean>
+}
+
+const puppeteerDriver: BrowserDriver = {
+  createSession: createPuppeteerSession,
+  launchBrowser: launchPuppeteerBrowser,
+  injectCookies: async (page, cookies) => {
+    await page.setCookie(...cookies)
+  },
+  navigateTo: navigateWithRetry,
+}
+
+let activeDriver: BrowserDriver = puppeteerDriver
+
+/**
+ * Replace the browser driver; pass null to go back to puppeteer
+ */
+export function setBrowserDriver(driver: BrowserDriver | null): void {
+  activeDriver = driver || puppeteerDriver
+}
+
+export function getBrowserDriver(): BrowserDriver {
+  return activeDriver
+}
+
 /**
  * Create a browser session
  * - Uses visible Chrome window in dev (USE_LOCAL_BROWSER=true)
@@ -133,6 +216,29 @@ export interface BrowserSessionOptions {
  * @param options.forceVisible - Force visible browser for CAPTCHA solving
  */
 export async function createBrowserSession(options?: BrowserSessionOptions): Promise<ReconnectableBrowserSession> {
+  return activeDriver.createSession(options)
+}
+
+/**
+ * Launch a headless browser without opening a page, e.g. to share between warm sessions
+ */
+export async function launchHeadlessBrowser(): Promise<Browser> {
+  return activeDriver.launchBrowser()
+}
+
+async function launchPuppeteerBrowser(): Promise<Browser> {
+  const chromePath = getHeadlessChromePath()
+  console.log(`🌐 Launching headless Chrome: ${chromePath}`)
+
+  return puppeteer.launch({
+    headless: true,
+    executablePath: chromePath,
+    args: HEADLESS_CHROME_ARGS,
+    defaultViewport: { width: 1920, height: 1080 },
+  })
+}
+
+async function createPuppeteerSession(options?: BrowserSessionOptions): Promise<ReconnectableBrowserSession> {
   const forceVisible = options?.forceVisible ?? false
   let browser: Browser
 
@@ -188,27 +294,10 @@ export async function createBrowserSession(options?: BrowserSessionOptions): Pro
     // This is set in Dockerfile: PUPPETEER_EXECUTABLE_PATH=/usr/bin/chromium
     console.log(`🌐 Launching headless Chromium: ${PUPPETEER_EXECUTABLE_PATH}`)
 
-    const args = [
-      '--no-sandbox',
-      '--disable-setuid-sandbox',
-      '--disable-dev-shm-usage',
-      '--disable-gpu',
-      '--disable-software-rasterizer',
-      '--disable-extensions',
-      '--disable-background-networking',
-      '--disable-default-apps',
-      '--disable-sync',
-      '--no-first-run',
-      '--disable-accelerated-2d-canvas',
-      '--disable-canvas-aa',
-      '--disable-2d-canvas-clip-aa',
-      '--disable-gl-drawing-for-tests',
-    ]
-
     browser = await puppeteer.launch({
       headless: true,
       executablePath: PUPPETEER_EXECUTABLE_PATH,
-      args,
+      args: HEADLESS_CHROME_ARGS,
       defaultViewport: { width: 1920, height: 1080 },
     })
   } else if (BROWSERLESS_API_KEY) {
@@ -250,6 +339,8 @@ export async function createBrowserSession(options?: BrowserSessionOptions): Pro
  * Close a browser session
  */
 export async function closeBrowserSession(session: BrowserlessSession): Promise<void> {
+  // Already closed, e.g. by a cancelled request
+  if (!session.browser.isConnected()) return
   await session.browser.close()
 }
 
@@ -376,18 +467,8 @@ export async function withBrowserlessReconnect<T>(
 /**
  * Inject cookies into a page for authentication
  */
-export async function injectCookies(
-  page: Page,
-  cookies: Array<{
-    name: string
-    value: string
-    domain: string
-    path?: string
-    httpOnly?: boolean
-    secure?: boolean
-  }>
-): Promise<void> {
-  await page.setCookie(...cookies)
+export async function injectCookies(page: Page, cookies: BrowserCookie[]): Promise<void> {
+  await activeDriver.injectCookies(page, cookies)
 }
 
 /**
@@ -411,11 +492,11 @@ export async function waitForElement(
  * Defaults to 'domcontentloaded' because TradingView's live data feeds
  * (websockets, streaming quotes) prevent networkidle from ever resolving.
  */
-export async function navigateTo(
-  page: Page,
-  url: string,
-  options?: { waitUntil?: 'load' | 'domcontentloaded' | 'networkidle0' | 'networkidle2'; timeout?: number }
-): Promise<boolean> {
+export async function navigateTo(page: Page, url: string, options?: NavigateOptions): Promise<boolean> {
+  return activeDriver.navigateTo(page, url, options)
+}
+
+async function navigateWithRetry(page: Page, url: string, options?: NavigateOptions): Promise<boolean> {
   const waitUntil = options?.waitUntil || 'domcontentloaded'
   const timeout = options?.timeout || 90000
 
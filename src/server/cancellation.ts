@@ -0,0 +1,48 @@
+/**
+ * Cancellation Helpers
+ *
+ * Utilities for threading an AbortSignal through the validation loop and the
+ * browser automation. A Puppeteer step cannot be interrupted halfway, so long
+ * runs check the signal between steps (signal.throwIfAborted()) and sleep with
+ * abortableDelay so a cancelled run stops at the next wait.
+ *
+ * Once a signal is aborted, any error raised afterwards is treated as the
+ * cancellation itself: closing a browser to stop a run makes the pending page
+ * calls fail with protocol errors, and those must not be mistaken for a
+ * TradingView or credentials problem.
+ */
+
+/**
+ * Sleep for `ms`, rejecting with the signal's reason as soon as it is aborted
+ */
+export function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  if (!signal) return new Promise((resolve) => setTimeout(resolve, ms))
+  if (signal.aborted) return Promise.reject(signal.reason)
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timeout)
+      reject(signal.reason)
+    }
+    const timeout = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * Run `listener` once when the signal aborts (immediately if it already has)
+ *
+ * @returns A function that removes the listener
+ */
+export function onAbort(signal: AbortSignal | undefined, listener: () => void): () => void {
+  if (!signal) return () => {}
+  if (signal.aborted) {
+    listener()
+    return () => {}
+  }
+  signal.addEventListener('abort', listener, { once: true })
+  return () => signal.removeEventListener('abort', listener)
+}
@@ -0,0 +1,193 @@
+/**
+ * Credits
+ *
+ * Prepaid publishes for signed-in users, as an alternative to paying for each
+ * script at checkout. Credits come from packs bought once (CREDIT_PACKS) or
+ * from the monthly plan (SUBSCRIPTION_PRICE_ID), which adds its credits every
+ * time Stripe reports its invoice paid. Credits do not expire.
+ *
+ * A publish costs one credit, whatever its visibility level, and the credit is
+ * only spent on a job that was published, i.e. one with its indicator URL.
+ */
+
+import type Stripe from 'stripe'
+import {
+  applyCreditEntry,
+  getCreditBalance,
+  getCreditLedger,
+  getAccountSubscription,
+  getAccountIdBySubscription,
+  saveAccountSubscription,
+  getPublishJob,
+  updatePublishJobIf,
+  type AccountSubscription,
+  type CreditLedgerEntry,
+  type PublishJob,
+} from './kv'
+import { readIntEnv } from './env'
+
+const PUBLISH_CREDIT_COST = 1
+const SUBSCRIPTION_MONTHLY_CREDITS = readIntEnv('SUBSCRIPTION_MONTHLY_CREDITS', 30)
+const LEDGER_ENTRIES_SHOWN = 20
+
+export interface CreditPack {
+  packId: string
+  credits: number
+  priceInCents: number
+}
+
+/**
+ * Packs on sale, from CREDIT_PACKS: comma-separated `credits:priceInCents`
+ */
+export function getCreditPacks(): CreditPack[] {
+  return (process.env.CREDIT_PACKS || '10:900,50:4000')
+    .split(',')
+    .map(pack => pack.trim().split(':').map(value => parseInt(value)))
+    .filter(([credits, priceInCents]) => credits > 0 && priceInCents > 0)
+    .map(([credits, priceInCents]) => ({ packId: `pack-${credits}`, credits, priceInCents }))
+}
+
+export function getCreditPack(packId: string): CreditPack | null {
+  return getCreditPacks().find(pack => pack.packId === packId) ?? null
+}
+
+export interface SubscriptionPlan {
+  /** Stripe Billing price of the plan */
+  priceId: string
+  /** Credits each paid invoice adds */
+  monthlyCredits: number
+}
+
+/**
+ * The monthly plan, or null when no plan is on sale
+ */
+export function getSubscriptionPlan(): SubscriptionPlan | null {
+  const priceId = process.env.SUBSCRIPTION_PRICE_ID
+  return priceId ? { priceId, monthlyCredits: SUBSCRIPTION_MONTHLY_CREDITS } : null
+}
+
+export interface CreditSummary {
+  balance: number
+  subscription: AccountSubscription | null
+  /** Latest changes to the balance, newest first */
+  ledger: CreditLedgerEntry[]
+}
+
+export async function getCreditSummary(accountId: string): Promise<CreditSummary> {
+  const [balance, subscription, ledger] = await Promise.all([
+    getCreditBalance(accountId),
+    getAccountSubscription(accountId),
+    getCreditLedger(accountId, LEDGER_ENTRIES_SHOWN),
+  ])
+  return { balance, subscription, ledger }
+}
+
+// ============ Buying Credits ============
+
+/**
+ * Add a paid pack checkout's credits to its account. Runs for the webhook and
+ * for the page the customer returns to; the credits are added once.
+ *
+ * @returns The ledger entry, or null when the checkout is not a paid pack or was settled before
+ */
+export async function settleCreditPackCheckout(session: Stripe.Checkout.Session): Promise<CreditLedgerEntry | null> {
+  const accountId = session.metadata?.accountId
+  const credits = parseInt(session.metadata?.credits ?? '')
+  if (session.metadata?.purpose !== 'credit-pack' || !accountId || !credits || session.payment_status === 'unpaid') {
+    return null
+  }
+
+  const entry = await applyCreditEntry(accountId, credits, 'pack', `checkout:${session.id}`)
+  if (entry) console.log(`[Credits] ${accountId}: ${credits} credits bought, balance ${entry.balance}`)
+  return entry
+}
+
+/**
+ * Add the monthly plan's credits for a paid subscription invoice
+ *
+ * @returns The ledger entry, or null when the invoice is not for a known subscription or was settled before
+ */
+export async function settleSubscriptionInvoice(invoice: Stripe.Invoice): Promise<CreditLedgerEntry | null> {
+  const details = invoice.parent?.subscription_details
+  if (!details) return null
+
+  const subscriptionId = typeof details.subscription === 'string' ? details.subscription : details.subscription.id
+  const accountId = details.metadata?.accountId ?? await getAccountIdBySubscription(subscriptionId)
+  if (!accountId) {
+    console.warn(`[Credits] Invoice ${invoice.id} paid for unknown subscription ${subscriptionId}`)
+    return null
+  }
+
+  const entry = await applyCreditEntry(accountId, SUBSCRIPTION_MONTHLY_CREDITS, 'subscription', `invoice:${invoice.id}`)
+  if (entry) console.log(`[Credits] ${accountId}: ${SUBSCRIPTION_MONTHLY_CREDITS} plan credits added, balance ${entry.balance}`)
+  return entry
+}
+
+/**
+ * Keep an account's plan in step with Stripe (customer.subscription.* webhooks)
+ *
+ * @returns The saved plan, or null when the subscription belongs to no account
+ */
+export async function recordSubscription(subscription: Stripe.Subscription): Promise<AccountSubscription | null> {
+  const accountId = subscription.metadata?.accountId ?? await getAccountIdBySubscription(subscription.id)
+  if (!accountId) return null
+
+  const periodEnd = subscription.items.data[0]?.current_period_end
+  const saved: AccountSubscription = {
+    accountId,
+    subscriptionId: subscription.id,
+    customerId: typeof subscription.customer === 'string' ? subscription.customer : subscription.customer.id,
+    status: subscription.status,
+    currentPeriodEnd: periodEnd ? periodEnd * 1000 : undefined,
+    cancelAtPeriodEnd: subscription.cancel_at_period_end,
+    updatedAt: Date.now(),
+  }
+  await saveAccountSubscription(saved)
+  return saved
+}
+
+// ============ Spending Credits ============
+
+/**
+ * Pay for a published job with credits instead of a checkout
+ *
+ * @returns The completed job
+ * @throws When the job is not the account's, not published yet, already checked out, or the balance is too low
+ */
+export async function publishWithCredits(jobId: string, accountId: string): Promise<PublishJob> {
+  const job = await getPublishJob(jobId)
+  if (!job || job.accountId !== accountId) {
+    throw new Error('Job not found')
+  }
+  if (job.creditsSpent) {
+    return job
+  }
+  if (!job.validationResult?.isValid || !job.indicatorUrl) {
+    throw new Error('Script must be validated and published first')
+  }
+  if (job.status !== 'validated') {
+    throw new Error('This script is already being paid for at checkout')
+  }
+
+  const entry = await applyCreditEntry(accountId, -PUBLISH_CREDIT_COST, 'publish', `publish:${jobId}`)
+  if (!entry) {
+    // A second click while the first one is completing the job also lands here
+    const current = await getPublishJob(jobId)
+    if (current?.creditsSpent) return current
+    throw new Error('Not enough credits - buy a credit pack or subscribe to publish with credits')
+  }
+
+  // Only a job still waiting for payment is completed; it may have gone to checkout meanwhile
+  const completed = await updatePublishJobIf(
+    jobId,
+    (current) => current.status === 'validated' && !current.paymentIntentId,
+    { status: 'completed', creditsSpent: PUBLISH_CREDIT_COST }
+  )
+  if (!completed) {
+    await applyCreditEntry(accountId, PUBLISH_CREDIT_COST, 'publish', `publish-undo:${jobId}`)
+    throw new Error('This script is already being paid for at checkout')
+  }
+
+  console.log(`[Credits] ${accountId}: job ${jobId} paid with ${PUBLISH_CREDIT_COST} credit, balance ${entry.balance}`)
+  return completed
+}
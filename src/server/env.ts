@@ -0,0 +1,23 @@
+/**
+ * Environment Settings
+ *
+ * Numeric settings are read once at startup. A value that is not a whole
+ * number (a typo, `3x`, an empty string) falls back to the default with a
+ * warning instead of turning into NaN, which makes every comparison false
+ * and silently switches the feature off.
+ */
+
+/**
+ * Read a whole-number setting, falling back to `fallback` when it is unset or invalid
+ */
+export function readIntEnv(name: string, fallback: number, min = 0): number {
+  const raw = process.env[name]?.trim()
+  if (!raw) return fallback
+
+  const value = /^-?\d+$/.test(raw) ? parseInt(raw, 10) : NaN
+  if (Number.isNaN(value) || value < min) {
+    console.warn(`[Env] Ignoring ${name}=${JSON.stringify(raw)}: expected a whole number >= ${min}; using ${fallback}`)
+    return fallback
+  }
+  return value
+}
@@ -0,0 +1,489 @@
+/**
+ * Validation Job Queue
+ *
+ * Runs validate-and-publish requests in the background. Submitting a script
+ * creates a PublishJob and returns its ID straight away; a worker claims jobs
+ * from the KV-backed queue, runs the validation loop (warm session or
+ * Browserless, whichever runValidationLoop picks) and persists every status
+ * change on the job, so the client only has to poll.
+ *
+ * Jobs survive a server restart or a Fly machine suspend: a claimed job stays
+ * on the processing list while its worker heartbeats, and a worker that finds
+ * a job whose heartbeat has gone stale puts it back on the queue. A run that
+ * fails is retried after a backoff that doubles with each attempt, until the
+ * job runs out of attempts and fails.
+ *
+ * Progress events reported during the run are appended to the job's event log,
+ * which the SSE endpoint streams to the client.
+ *
+ * Cancelling a job sets cancelAt on it. The worker running the job watches for
+ * that and aborts the validation loop, which releases its browser session. A
+ * page that was closed asks for a deferred cancel instead, so a reload that
+ * reconnects within the grace period keeps the job.
+ */
+
+import { randomUUID } from 'crypto'
+import {
+  createPublishJob,
+  getPublishJob,
+  updatePublishJobIf,
+  recordJobHeartbeat,
+  getJobHeartbeat,
+  generateUserId,
+  hashScript,
+  enqueueValidationJob,
+  claimValidationJob,
+  finishValidationJob,
+  requeueValidationJob,
+  getQueuedValidationJobs,
+  getProcessingValidationJobs,
+  removeQueuedValidationJob,
+  appendJobEvent,
+  type PublishJob,
+} from './kv'
+import {
+  runValidationLoop,
+  DEFAULT_MAX_FIX_ATTEMPTS,
+  type PublishAfterValidationOptions,
+} from './validation-loop'
+import { runWithProgress, createProgressEvent, type ProgressStage } from './progress'
+import { resolveScriptId } from './tradingview'
+import { readIntEnv } from './env'
+
+// One job at a time by default: validations share the warm session / Browserless lock anyway
+const WORKER_CONCURRENCY = readIntEnv('VALIDATION_WORKER_CONCURRENCY', 1, 1)
+const POLL_INTERVAL_MS = readIntEnv('VALIDATION_QUEUE_POLL_MS', 2000, 1)
+const HEARTBEAT_INTERVAL_MS = 15_000
+// A job whose worker has missed this many ms of heartbeats is presumed orphaned
+const STALE_JOB_MS = readIntEnv('VALIDATION_JOB_STALE_MS', 90000)
+const RECOVERY_INTERVAL_MS = 60_000
+const MAX_JOB_ATTEMPTS = readIntEnv('VALIDATION_JOB_MAX_ATTEMPTS', 2, 1)
+// Wait before a failed run is retried, doubling with each attempt
+const RETRY_BACKOFF_MS = readIntEnv('VALIDATION_JOB_RETRY_BACKOFF_MS', 5000)
+// How long a closed page has to reconnect before its job is cancelled
+const ABANDON_GRACE_MS = readIntEnv('VALIDATION_ABANDON_GRACE_MS', 10000)
+// How often a running job re-reads itself for a cancellation made on another machine
+const CANCEL_CHECK_INTERVAL_MS = 2000
+
+const WORKER_ID = `worker_${randomUUID().slice(0, 8)}`
+
+let workerStarted = false
+let activeJobs = 0
+let lastRecoveryAt = 0
+const idleWaiters = new Set<() => void>()
+// Jobs running in this process, for cancelling them without waiting for the next check
+const activeRuns = new Map<string, AbortController>()
+
+// ============ Public API ============
+
+export interface SubmitValidationJobOptions {
+  /** Signed-in user submitting the job, whose script history records it */
+  accountId?: string
+  /** API key submitting the job */
+  apiKeyId?: string
+  /** AI fix attempts (0 only validates); defaults to VALIDATION_MAX_FIX_ATTEMPTS */
+  maxFixAttempts?: number
+}
+
+/**
+ * Queue a script for validation and publishing
+ *
+ * @param publishOptions - How to publish the script once valid; null only validates it
+ * @returns The queued job; poll getValidationJob with its jobId for progress
+ * @throws If publishOptions.updateScript is not a TradingView script URL or ID
+ */
+export async function submitValidationJob(
+  script: string,
+  publishOptions: PublishAfterValidationOptions | null,
+  options: SubmitValidationJobOptions = {}
+): Promise<PublishJob> {
+  const updateScriptId = publishOptions?.updateScript ? resolveScriptId(publishOptions.updateScript) : undefined
+  if (updateScriptId === null) {
+    throw new Error(`Not a TradingView script URL or ID: ${publishOptions?.updateScript}`)
+  }
+
+  const job = await createPublishJob({
+    userId: options.accountId ?? generateUserId(),
+    accountId: options.accountId,
+    apiKeyId: options.apiKeyId,
+    scriptHash: hashScript(script),
+    script,
+    title: publishOptions?.title ?? '',
+    description: publishOptions?.description ?? '',
+    visibility: publishOptions?.visibility ?? 'public',
+    visibilityLevel: publishOptions?.visibilityLevel,
+    updateScriptId,
+    releaseNotes: publishOptions?.releaseNotes,
+    ...(publishOptions === null && { validateOnly: true }),
+    maxFixAttempts: options.maxFixAttempts,
+    status: 'queued',
+    attempts: 0,
+  })
+
+  await recordJobEvent(job.jobId, 'queued', 'Waiting for a validation worker')
+  await enqueueValidationJob(job.jobId)
+  console.log(`[JobQueue] Queued ${job.jobId}`)
+
+  startValidationWorker()
+  wakeWorkers()
+  return job
+}
+
+/**
+ * Get a validation job, starting the worker if this process has not yet
+ * (so jobs left over from before a restart are picked up on the first poll)
+ */
+export async function getValidationJob(jobId: string): Promise<PublishJob | null> {
+  startValidationWorker()
+  return getPublishJob(jobId)
+}
+
+/**
+ * Cancel a queued or running job
+ *
+ * @param options.abandoned - The page was closed; cancel only if it does not
+ *   reconnect to the job within the grace period (it may just be reloading)
+ * @returns The job as it stands after the request, or null if it does not exist
+ */
+export async function cancelValidationJob(
+  jobId: string,
+  options: { abandoned?: boolean } = {}
+): Promise<PublishJob | null> {
+  const job = await getPublishJob(jobId)
+  if (!job) return null
+  // Already finished: nothing left to stop
+  if (!isUnfinished(job)) return job
+
+  if (options.abandoned) {
+    console.log(`[JobQueue] ${jobId}: page closed, cancelling in ${ABANDON_GRACE_MS}ms unless it reconnects`)
+    const updated = await updatePublishJobIf(jobId, isUnfinished, {
+      cancelAt: Date.now() + ABANDON_GRACE_MS,
+      cancelReason: 'abandoned',
+    })
+    return updated ?? getPublishJob(jobId)
+  }
+
+  console.log(`[JobQueue] ${jobId}: cancel requested`)
+  if (job.status === 'queued' && (await removeQueuedValidationJob(jobId))) {
+    return (await markCancelled(jobId)) ?? getPublishJob(jobId)
+  }
+
+  // Running (here or on another worker): the worker finishes the job once the loop stops
+  const updated = await updatePublishJobIf(jobId, isUnfinished, { cancelAt: Date.now(), cancelReason: 'requested' })
+  activeRuns.get(jobId)?.abort()
+  return updated ?? getPublishJob(jobId)
+}
+
+/**
+ * Withdraw a deferred cancel after the page that left came back to follow the job
+ */
+export async function clearAbandonedCancellation(jobId: string): Promise<void> {
+  const cleared = await updatePublishJobIf(
+    jobId,
+    (job) => job.cancelReason === 'abandoned' && isUnfinished(job),
+    { cancelAt: undefined, cancelReason: undefined }
+  )
+  if (cleared) {
+    console.log(`[JobQueue] ${jobId}: page reconnected, keeping job`)
+  }
+}
+
+/**
+ * Queue depth and worker activity, for status displays and admin checks
+ */
+export async function getValidationQueueStats(): Promise<{
+  workerId: string
+  queued: number
+  processing: number
+  activeJobs: number
+}> {
+  const [queued, processing] = await Promise.all([getQueuedValidationJobs(), getProcessingValidationJobs()])
+  return { workerId: WORKER_ID, queued: queued.length, processing: processing.length, activeJobs }
+}
+
+/**
+ * 1-based position of a queued job, or null if it is no longer waiting
+ */
+export async function getQueuePosition(jobId: string): Promise<number | null> {
+  // Jobs are pushed at the head and claimed from the tail
+  const queued = await getQueuedValidationJobs()
+  const index = queued.lastIndexOf(jobId)
+  return index === -1 ? null : queued.length - index
+}
+
+/**
+ * Start the background worker loops (idempotent)
+ */
+export function startValidationWorker(): void {
+  if (workerStarted) return
+  workerStarted = true
+
+  console.log(`[JobQueue] Starting ${WORKER_CONCURRENCY} worker loop(s) as ${WORKER_ID}`)
+  for (let i = 0; i < WORKER_CONCURRENCY; i++) {
+    void runWorkerLoop()
+  }
+}
+
+// ============ Worker ============
+
+async function runWorkerLoop(): Promise<void> {
+  while (true) {
+    try {
+      if (Date.now() - lastRecoveryAt >= RECOVERY_INTERVAL_MS) {
+        lastRecoveryAt = Date.now()
+        await recoverStaleJobs()
+      }
+
+      const jobId = await claimValidationJob()
+      if (!jobId) {
+        await waitForWork()
+        continue
+      }
+
+      if (!(await processJob(jobId))) {
+        // Put back to wait out its retry backoff; don't spin on it
+        await waitForWork()
+      }
+    } catch (error) {
+      // Queue storage errors (e.g. Redis unreachable) - back off and try again
+      console.error('[JobQueue] Worker error:', error)
+      await waitForWork()
+    }
+  }
+}
+
+/**
+ * Run a claimed job
+ *
+ * @returns false when the job was put back on the queue to wait out its retry backoff
+ */
+async function processJob(jobId: string): Promise<boolean> {
+  const job = await getPublishJob(jobId)
+  if (!job || job.status !== 'queued') {
+    // Expired, or a duplicate entry for a job another worker already handled
+    console.log(`[JobQueue] Skipping ${jobId} (${job ? job.status : 'expired'})`)
+    await finishValidationJob(jobId)
+    return true
+  }
+
+  if (isCancelDue(job)) {
+    await markCancelled(jobId)
+    await finishValidationJob(jobId)
+    return true
+  }
+
+  if (job.retryAt && job.retryAt > Date.now()) {
+    await requeueValidationJob(jobId)
+    return false
+  }
+
+  const attempts = (job.attempts ?? 0) + 1
+  const run = await updatePublishJobIf(jobId, (current) => current.status === 'queued', {
+    status: 'validating',
+    attempts,
+    workerId: WORKER_ID,
+    error: undefined,
+    retryAt: undefined,
+  })
+  if (!run) {
+    console.log(`[JobQueue] Skipping ${jobId} (changed before it started)`)
+    await finishValidationJob(jobId)
+    return true
+  }
+  await recordJobHeartbeat(jobId)
+  console.log(`[JobQueue] ${jobId}: validating (attempt ${attempts}/${MAX_JOB_ATTEMPTS})`)
+  await recordJobEvent(
+    jobId,
+    'started',
+    attempts > 1 ? `Validation started (attempt ${attempts}/${MAX_JOB_ATTEMPTS})` : 'Validation started'
+  )
+
+  activeJobs++
+  const heartbeat = setInterval(() => {
+    recordJobHeartbeat(jobId).catch((error) =>
+      console.error(`[JobQueue] ${jobId}: heartbeat failed:`, error)
+    )
+  }, HEARTBEAT_INTERVAL_MS)
+
+  const controller = new AbortController()
+  activeRuns.set(jobId, controller)
+  const cancelWatch = setInterval(() => {
+    getPublishJob(jobId)
+      .then((current) => {
+        if (current && isCancelDue(current)) controller.abort()
+      })
+      .catch((error) => console.error(`[JobQueue] ${jobId}: cancel check failed:`, error))
+  }, CANCEL_CHECK_INTERVAL_MS)
+
+  try {
+    const result = await runWithProgress(
+      (event) => {
+        appendJobEvent(jobId, event).catch((error) =>
+          console.error(`[JobQueue] ${jobId}: failed to record progress:`, error)
+        )
+      },
+      () => runValidationLoop(job.script, job.maxFixAttempts ?? DEFAULT_MAX_FIX_ATTEMPTS, job.validateOnly ? undefined : {
+        title: job.title,
+        description: job.description,
+        visibility: job.visibility,
+        visibilityLevel: job.visibilityLevel,
+        updateScript: job.updateScriptId,
+        releaseNotes: job.releaseNotes,
+      }, controller.signal)
+    )
+
+    if (!isSameRun(run, await getPublishJob(jobId))) {
+      console.log(`[JobQueue] ${jobId}: taken over by another worker, dropping result`)
+      return true
+    }
+
+    if (result.stopReason === 'cancelled') {
+      await markCancelled(jobId)
+      await finishValidationJob(jobId)
+      return true
+    }
+
+    if (result.stopReason === 'error') {
+      // Browser or auth failure rather than a verdict on the script - worth another run
+      await retryOrFail(run, result.finalErrors[0]?.message ?? 'Validation failed')
+      return true
+    }
+
+    // Log the final event before the status change, which is what ends the event stream
+    await recordJobEvent(jobId, 'done', result.isValid ? 'Script is valid' : 'Validation finished with errors')
+    const validated = await updatePublishJobIf(jobId, (current) => isSameRun(run, current), {
+      status: 'validated',
+      script: result.finalScript,
+      scriptHash: hashScript(result.finalScript),
+      originalScript: result.fixSuccessful ? job.script : undefined,
+      fixApplied: result.fixSuccessful,
+      indicatorUrl: result.indicatorUrl,
+      validationResult: result,
+    })
+    if (!validated) {
+      console.log(`[JobQueue] ${jobId}: taken over by another worker, dropping result`)
+      return true
+    }
+    await finishValidationJob(jobId)
+    console.log(`[JobQueue] ${jobId}: validated (valid=${result.isValid})`)
+    return true
+  } catch (error) {
+    if (controller.signal.aborted) {
+      await markCancelled(jobId)
+      await finishValidationJob(jobId)
+      return true
+    }
+    console.error(`[JobQueue] ${jobId}: validation run failed:`, error)
+    const message = error instanceof Error ? error.message : 'Validation failed'
+    await retryOrFail(run, message)
+    return true
+  } finally {
+    clearInterval(heartbeat)
+    clearInterval(cancelWatch)
+    activeRuns.delete(jobId)
+    activeJobs--
+  }
+}
+
+/**
+ * Requeue a job that has attempts left, otherwise mark it failed. `run` is the
+ * job as read by the caller; nothing changes if the job has moved on since
+ * (e.g. another worker recovered it, or it was cancelled).
+ */
+async function retryOrFail(run: PublishJob, error: string): Promise<void> {
+  const { jobId } = run
+  const attempts = run.attempts ?? 0
+  if (attempts < MAX_JOB_ATTEMPTS) {
+    const backoff = RETRY_BACKOFF_MS * 2 ** Math.max(0, attempts - 1)
+    const requeued = await updatePublishJobIf(jobId, (current) => isSameRun(run, current), {
+      status: 'queued',
+      error,
+      retryAt: Date.now() + backoff,
+    })
+    if (!requeued) return
+    if (await requeueValidationJob(jobId)) {
+      await recordJobEvent(jobId, 'queued', `Attempt ${attempts} failed (${error}), retrying in ${Math.round(backoff / 1000)}s`)
+      console.log(`[JobQueue] ${jobId}: requeued after attempt ${attempts}`)
+      wakeWorkers()
+    }
+    return
+  }
+
+  if (!isSameRun(run, await getPublishJob(jobId))) return
+  await recordJobEvent(jobId, 'failed', error)
+  if (!(await updatePublishJobIf(jobId, (current) => isSameRun(run, current), { status: 'failed', error }))) return
+  await finishValidationJob(jobId)
+  console.log(`[JobQueue] ${jobId}: failed after ${attempts} attempt(s)`)
+}
+
+function isCancelDue(job: PublishJob): boolean {
+  return job.cancelAt !== undefined && job.cancelAt <= Date.now()
+}
+
+function isUnfinished(job: PublishJob): boolean {
+  return job.status === 'queued' || job.status === 'validating'
+}
+
+// Whether the job is still in the state a run read it in, with no other worker or status change since
+function isSameRun(run: PublishJob, job: PublishJob | null): boolean {
+  return job?.status === run.status && job.workerId === run.workerId && job.attempts === run.attempts
+}
+
+/**
+ * Cancel a job that has not finished; null if it finished in the meantime
+ */
+async function markCancelled(jobId: string): Promise<PublishJob | null> {
+  // Log the final event before the status change, which is what ends the event stream
+  await recordJobEvent(jobId, 'cancelled', 'Validation cancelled')
+  const job = await updatePublishJobIf(jobId, isUnfinished, { status: 'cancelled' })
+  if (job) console.log(`[JobQueue] ${jobId}: cancelled`)
+  return job
+}
+
+/**
+ * Requeue claimed jobs whose worker stopped heartbeating (crash, restart or suspend)
+ */
+async function recoverStaleJobs(): Promise<void> {
+  const processing = await getProcessingValidationJobs()
+
+  for (const jobId of processing) {
+    const job = await getPublishJob(jobId)
+    if (!job || !isUnfinished(job)) {
+      await finishValidationJob(jobId)
+      continue
+    }
+
+    const lastSeen = (await getJobHeartbeat(jobId)) ?? job.updatedAt
+    if (Date.now() - lastSeen < STALE_JOB_MS) continue
+
+    console.log(`[JobQueue] ${jobId}: worker ${job.workerId ?? 'unknown'} stopped responding`)
+    await retryOrFail(job, 'Validation was interrupted')
+  }
+}
+
+/**
+ * Append a queue-level event; losing one is not worth failing the job over
+ */
+async function recordJobEvent(jobId: string, stage: ProgressStage, message: string): Promise<void> {
+  try {
+    await appendJobEvent(jobId, createProgressEvent(stage, message))
+  } catch (error) {
+    console.error(`[JobQueue] ${jobId}: failed to record progress:`, error)
+  }
+}
+
+function waitForWork(): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timeout)
+      idleWaiters.delete(done)
+      resolve()
+    }
+    const timeout = setTimeout(done, POLL_INTERVAL_MS)
+    idleWaiters.add(done)
+  })
+}
+
+function wakeWorkers(): void {
+  for (const wake of [...idleWaiters]) wake()
+}
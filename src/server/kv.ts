@@ -1,8 +1,20 @@
 import crypto from 'crypto'
 import Redis from 'ioredis'
+import type { ValidationLoopResult } from './validation-loop'
+import type { PineRewrite } from './pine/migrate'
+import type { ProgressEvent } from './progress'
+import type { SelectorHealthReport } from './selector-health'
+import type { VisibilityLevel } from './tradingview'
+import type Stripe from 'stripe'
+import type { RefundReason, RefundStatus } from './refund-policy'
+import type { PricingCatalog } from './pricing'
 
 // Job TTL: 1 hour (for pending publish jobs)
 const JOB_TTL = 60 * 60
+// Jobs that went to checkout, and their session and payment indexes, are kept for 30 days:
+// a checkout stays open for 24 hours, delayed payment methods settle days later, and
+// refunds and disputes still need the job after that
+const CHECKOUT_JOB_TTL = 30 * 24 * 60 * 60
 
 // ============ In-Memory Store (for local development) ============
 
@@ -12,6 +24,9 @@ interface StoreEntry {
 }
 
 const memoryStore = new Map<string, StoreEntry>()
+const memoryLists = new Map<string, string[]>()
+// Expiry for lists written with a TTL (queue lists have none)
+const memoryListExpiry = new Map<string, number>()
 
 // Check if we have Redis configured
 const REDIS_URL = process.env.REDIS_URL
@@ -70,6 +85,64 @@ const store = {
     memoryStore.set(key, entry)
   },
 
+  /** Set `key` only if it does not exist yet; false when it already did */
+  async setIfAbsent(key: string, value: string, options?: { ex?: number }): Promise<boolean> {
+    const redis = getRedis()
+    if (redis) {
+      const result = options?.ex
+        ? await redis.set(key, value, 'EX', options.ex, 'NX')
+        : await redis.set(key, value, 'NX')
+      return result === 'OK'
+    }
+
+    // In-memory fallback
+    if ((await store.get(key)) !== null) return false
+    await store.set(key, value, options)
+    return true
+  },
+
+  /** Replace `key`'s value only if it is still `expected`; false, with nothing written, when it changed */
+  async setIfEqual(key: string, expected: string, value: string, options?: { ex?: number }): Promise<boolean> {
+    const redis = getRedis()
+    if (redis) {
+      const replaced = await redis.eval(
+        `if redis.call('GET', KEYS[1]) ~= ARGV[1] then return 0 end
+        if tonumber(ARGV[3]) > 0 then
+          redis.call('SET', KEYS[1], ARGV[2], 'EX', ARGV[3])
+        else
+          redis.call('SET', KEYS[1], ARGV[2])
+        end
+        return 1`,
+        1,
+        key,
+        expected,
+        value,
+        options?.ex ?? 0
+      )
+      return replaced === 1
+    }
+
+    // In-memory fallback, without awaiting between the read and the write
+    const entry = memoryStore.get(key)
+    if (!entry || (entry.expiresAt && Date.now() > entry.expiresAt) || entry.value !== expected) return false
+    memoryStore.set(key, { value, expiresAt: options?.ex ? Date.now() + options.ex * 1000 : undefined })
+    return true
+  },
+
+  /** Read `key` and delete it in one step, so only one caller gets the value */
+  async getDel(key: string): Promise<string | null> {
+    const redis = getRedis()
+    if (redis) {
+      return redis.getdel(key)
+    }
+
+    // In-memory fallback, without awaiting between the read and the delete
+    const entry = memoryStore.get(key)
+    memoryStore.delete(key)
+    if (!entry || (entry.expiresAt && Date.now() > entry.expiresAt)) return null
+    return entry.value
+  },
+
   async del(key: string): Promise<void> {
     const redis = getRedis()
     if (redis) {
@@ -80,6 +153,242 @@ const store = {
     // In-memory fallback
     memoryStore.delete(key)
   },
+
+  /** Add `amount` to a counter and return the new value; `ex` (seconds) is set when the counter is created */
+  async incrby(key: string, amount: number, options?: { ex?: number }): Promise<number> {
+    const redis = getRedis()
+    if (redis) {
+      const value = await redis.incrby(key, amount)
+      if (options?.ex && value === amount) await redis.expire(key, options.ex)
+      return value
+    }
+
+    // In-memory fallback
+    const current = await store.get<string>(key)
+    const value = (current ? parseInt(current) : 0) + amount
+    const entry = memoryStore.get(key)
+    memoryStore.set(key, {
+      value: String(value),
+      expiresAt: current ? entry?.expiresAt : options?.ex ? Date.now() + options.ex * 1000 : undefined,
+    })
+    return value
+  },
+
+  /**
+   * Change a counter by `amount` and log the change, at most once per `onceKey`:
+   * the key is set, the counter changed and `entry` (with the new value as
+   * `valueField`) pushed onto `logKey` in one step. Returns the new value; null,
+   * with nothing written, when `onceKey` exists or the counter would go below zero.
+   */
+  async incrbyOnce(params: {
+    onceKey: string
+    onceValue: string
+    counterKey: string
+    amount: number
+    logKey: string
+    entry: Record<string, unknown>
+    valueField: string
+  }): Promise<number | null> {
+    const redis = getRedis()
+    if (redis) {
+      const value = (await redis.eval(
+        `if redis.call('EXISTS', KEYS[1]) == 1 then return -1 end
+        local value = tonumber(redis.call('GET', KEYS[2]) or '0') + tonumber(ARGV[2])
+        if value < 0 then return -1 end
+        redis.call('SET', KEYS[1], ARGV[1])
+        redis.call('SET', KEYS[2], value)
+        local entry = cjson.decode(ARGV[3])
+        entry[ARGV[4]] = value
+        redis.call('LPUSH', KEYS[3], cjson.encode(entry))
+        return value`,
+        3,
+        params.onceKey,
+        params.counterKey,
+        params.logKey,
+        params.onceValue,
+        params.amount,
+        JSON.stringify(params.entry),
+        params.valueField
+      )) as number
+      return value < 0 ? null : value
+    }
+
+    // In-memory fallback, without awaiting between the steps
+    if (memoryStore.has(params.onceKey)) return null
+    const current = memoryStore.get(params.counterKey)?.value
+    const value = (current ? parseInt(current) : 0) + params.amount
+    if (value < 0) return null
+    memoryStore.set(params.onceKey, { value: params.onceValue })
+    memoryStore.set(params.counterKey, { value: String(value) })
+    const log = memoryLists.get(params.logKey) ?? []
+    log.unshift(JSON.stringify({ ...params.entry, [params.valueField]: value }))
+    memoryLists.set(params.logKey, log)
+    return value
+  },
+
+  /**
+   * Refill a token bucket for the time since it was last used, then take one
+   * token if there is one; the read, refill and write happen in one step
+   */
+  async takeToken(
+    key: string,
+    bucket: { capacity: number; refillPerMs: number; now: number; ttlSeconds: number }
+  ): Promise<{ allowed: boolean; tokens: number }> {
+    const redis = getRedis()
+    if (redis) {
+      const [allowed, tokens] = (await redis.eval(
+        `local tokens = tonumber(ARGV[1])
+        local state = redis.call('GET', KEYS[1])
+        if state then
+          local saved = cjson.decode(state)
+          tokens = math.min(tokens, saved.tokens + (tonumber(ARGV[3]) - saved.updatedAt) * tonumber(ARGV[2]))
+        end
+        local allowed = 0
+        if tokens >= 1 then
+          tokens = tokens - 1
+          allowed = 1
+        end
+        redis.call('SET', KEYS[1], cjson.encode({ tokens = tokens, updatedAt = tonumber(ARGV[3]) }), 'EX', ARGV[4])
+        return { allowed, tostring(tokens) }`,
+        1,
+        key,
+        bucket.capacity,
+        bucket.refillPerMs,
+        bucket.now,
+        bucket.ttlSeconds
+      )) as [number, string]
+      return { allowed: allowed === 1, tokens: parseFloat(tokens) }
+    }
+
+    // In-memory fallback, without awaiting between the read and the write
+    const entry = memoryStore.get(key)
+    let tokens = bucket.capacity
+    if (entry && !(entry.expiresAt && Date.now() > entry.expiresAt)) {
+      const saved: { tokens: number; updatedAt: number } = JSON.parse(entry.value)
+      tokens = Math.min(tokens, saved.tokens + (bucket.now - saved.updatedAt) * bucket.refillPerMs)
+    }
+    const allowed = tokens >= 1
+    if (allowed) tokens -= 1
+    memoryStore.set(key, {
+      value: JSON.stringify({ tokens, updatedAt: bucket.now }),
+      expiresAt: Date.now() + bucket.ttlSeconds * 1000,
+    })
+    return { allowed, tokens }
+  },
+
+  // List operations back the job queue; lists are pushed at the head and popped from the tail
+
+  async lpush(key: string, value: string): Promise<void> {
+    const redis = getRedis()
+    if (redis) {
+      await redis.lpush(key, value)
+      return
+    }
+
+    // In-memory fallback
+    const list = memoryLists.get(key) ?? []
+    list.unshift(value)
+    memoryLists.set(key, list)
+  },
+
+  /** Append to the tail, e.g. for logs read in order; `ex` (seconds) refreshes the list's TTL */
+  async rpush(key: string, value: string, options?: { ex?: number }): Promise<number> {
+    const redis = getRedis()
+    if (redis) {
+      const length = await redis.rpush(key, value)
+      if (options?.ex) await redis.expire(key, options.ex)
+      return length
+    }
+
+    // In-memory fallback
+    const list = readMemoryList(key) ?? []
+    list.push(value)
+    memoryLists.set(key, list)
+    if (options?.ex) memoryListExpiry.set(key, Date.now() + options.ex * 1000)
+    return list.length
+  },
+
+  /** Pop the oldest value from `source` and push it onto `destination` in one step */
+  async rpoplpush(source: string, destination: string): Promise<string | null> {
+    const redis = getRedis()
+    if (redis) {
+      return redis.rpoplpush(source, destination)
+    }
+
+    // In-memory fallback
+    const value = memoryLists.get(source)?.pop()
+    if (value === undefined) return null
+    await store.lpush(destination, value)
+    return value
+  },
+
+  /** Move one occurrence of `value` from `source` to the head of `destination`; false if it was not in `source` */
+  async lmoveValue(source: string, destination: string, value: string): Promise<boolean> {
+    const redis = getRedis()
+    if (redis) {
+      const moved = await redis.eval(
+        "if redis.call('LREM', KEYS[1], 1, ARGV[1]) > 0 then redis.call('LPUSH', KEYS[2], ARGV[1]) return 1 end return 0",
+        2,
+        source,
+        destination,
+        value
+      )
+      return moved === 1
+    }
+
+    // In-memory fallback
+    if (!(await store.lrem(source, value))) return false
+    await store.lpush(destination, value)
+    return true
+  },
+
+  /** Remove one occurrence of `value`; false if it was not in the list */
+  async lrem(key: string, value: string): Promise<boolean> {
+    const redis = getRedis()
+    if (redis) {
+      return (await redis.lrem(key, 1, value)) > 0
+    }
+
+    // In-memory fallback
+    const list = memoryLists.get(key)
+    const index = list?.indexOf(value) ?? -1
+    if (!list || index === -1) return false
+    list.splice(index, 1)
+    return true
+  },
+
+  /** Values from index `start` (head first) to the end of the list */
+  async lrange(key: string, start: number = 0): Promise<string[]> {
+    const redis = getRedis()
+    if (redis) {
+      return redis.lrange(key, start, -1)
+    }
+
+    // In-memory fallback
+    return (readMemoryList(key) ?? []).slice(start)
+  },
+
+  /** Keep only the first `length` values (head first) */
+  async ltrim(key: string, length: number): Promise<void> {
+    const redis = getRedis()
+    if (redis) {
+      await redis.ltrim(key, 0, length - 1)
+      return
+    }
+
+    // In-memory fallback
+    memoryLists.get(key)?.splice(length)
+  },
+}
+
+function readMemoryList(key: string): string[] | undefined {
+  const expiresAt = memoryListExpiry.get(key)
+  if (expiresAt && Date.now() > expiresAt) {
+    memoryLists.delete(key)
+    memoryListExpiry.delete(key)
+    return undefined
+  }
+  return memoryLists.get(key)
 }
 
 // Log which store we're using
@@ -89,6 +398,27 @@ if (!REDIS_URL) {
   console.log('📦 Using Redis for KV storage')
 }
 
+/**
+ * Job lifecycle:
+ * queued → validating → validated (validation loop finished) → pending (checkout created) → completed
+ * A job that cannot be validated after its retries ends as failed; one the user
+ * cancels while queued or validating ends as cancelled.
+ * A checkout paid by a delayed method (e.g. bank debit) holds the job in
+ * processing until the payment clears; an expired checkout or failed payment
+ * returns it to validated, ready for another checkout.
+ * A signed-in user can pay with credits instead, which takes a validated job
+ * straight to completed.
+ */
+export type PublishJobStatus =
+  | 'queued'
+  | 'validating'
+  | 'validated'
+  | 'pending'
+  | 'processing'
+  | 'completed'
+  | 'failed'
+  | 'cancelled'
+
 export interface PublishJob {
   jobId: string
   userId: string
@@ -99,10 +429,46 @@ export interface PublishJob {
   title: string
   description: string
   visibility: 'public' | 'private'
-  stripeSessionId: string
-  status: 'pending' | 'processing' | 'completed' | 'failed'
+  visibilityLevel?: VisibilityLevel
+  /** Script this job publishes a new version of, instead of publishing a new script */
+  updateScriptId?: string
+  releaseNotes?: string
+  stripeSessionId?: string // Set when checkout is created
+  status: PublishJobStatus
   indicatorUrl?: string
   error?: string
+  /** Validation runs started for this job (a run interrupted by a restart is retried) */
+  attempts?: number
+  /** A job queued for a retry is not started again before this time */
+  retryAt?: number
+  /** Worker running the validation, for recovering jobs from a dead worker (its heartbeat is kept apart, see recordJobHeartbeat) */
+  workerId?: string
+  /** Outcome of the validation loop, set when status becomes validated */
+  validationResult?: ValidationLoopResult
+  /** Cancellation requested: the worker stops the run once this time has passed */
+  cancelAt?: number
+  /** `abandoned` (page closed) is withdrawn if the page reconnects before cancelAt */
+  cancelReason?: 'requested' | 'abandoned'
+  /** Signed-in user who submitted the job; their script history outlives the job */
+  accountId?: string
+  /** API key that submitted the job; only that key can read it through /api/v1 */
+  apiKeyId?: string
+  /** Validate (and fix) without publishing, for API clients */
+  validateOnly?: boolean
+  /** AI fix attempts for this job; unset uses VALIDATION_MAX_FIX_ATTEMPTS */
+  maxFixAttempts?: number
+  /** Payment for the job, recorded once its checkout is paid */
+  paymentIntentId?: string
+  /** Refund of a paid job that could not be delivered (see refund-policy.ts) */
+  refundId?: string
+  refundReason?: RefundReason
+  refundStatus?: RefundStatus
+  /** Chargeback opened by the customer's bank */
+  disputeId?: string
+  disputeReason?: string
+  disputedAt?: number
+  /** Credits the job was paid with instead of a checkout (see credits.ts) */
+  creditsSpent?: number
   createdAt: number
   updatedAt: number
 }
@@ -131,51 +497,299 @@ export function hashScript(script: string): string {
 // ============ Publish Jobs ============
 
 export async function createPublishJob(
-  params: Omit<PublishJob, 'jobId' | 'status' | 'createdAt' | 'updatedAt'> & { indicatorUrl?: string }
+  params: Omit<PublishJob, 'jobId' | 'status' | 'createdAt' | 'updatedAt'> & { status?: PublishJobStatus }
 ): Promise<PublishJob> {
   const job: PublishJob = {
+    status: 'pending',
     ...params,
     jobId: generateJobId(),
-    status: 'pending',
     createdAt: Date.now(),
     updatedAt: Date.now(),
   }
 
-  await store.set(`job:${job.jobId}`, JSON.stringify(job), { ex: JOB_TTL })
+  await store.set(`job:${job.jobId}`, JSON.stringify(job), { ex: getJobTtl(job) })
 
   // Also index by stripe session for webhook lookup
-  await store.set(`stripe-job:${params.stripeSessionId}`, job.jobId, { ex: JOB_TTL })
+  if (params.stripeSessionId) {
+    await store.set(`stripe-job:${params.stripeSessionId}`, job.jobId, { ex: CHECKOUT_JOB_TTL })
+  }
+
+  if (job.accountId) {
+    await store.lpush(`history:${job.accountId}`, job.jobId)
+    await saveScriptHistoryEntry(job)
+  }
 
   return job
 }
 
+function getJobTtl(job: PublishJob): number {
+  return job.stripeSessionId || job.paymentIntentId ? CHECKOUT_JOB_TTL : JOB_TTL
+}
+
 export async function getPublishJob(jobId: string): Promise<PublishJob | null> {
   const data = await store.get<string>(`job:${jobId}`)
   if (!data) return null
   return JSON.parse(data)
 }
 
+/**
+ * Record the payment of a job's checkout and index the job for charge and dispute webhooks
+ */
+export async function recordJobPayment(jobId: string, paymentIntentId: string): Promise<PublishJob> {
+  const job = await updatePublishJob(jobId, { paymentIntentId })
+  await store.set(`payment-job:${paymentIntentId}`, jobId, { ex: CHECKOUT_JOB_TTL })
+  return job
+}
+
+export async function getJobByPaymentIntent(paymentIntentId: string): Promise<PublishJob | null> {
+  const jobId = await store.get<string>(`payment-job:${paymentIntentId}`)
+  if (!jobId) return null
+  return getPublishJob(jobId)
+}
+
 export async function getJobByStripeSession(stripeSessionId: string): Promise<PublishJob | null> {
   const jobId = await store.get<string>(`stripe-job:${stripeSessionId}`)
   if (!jobId) return null
   return getPublishJob(jobId)
 }
 
+// Writes retried when the job keeps changing under them before one gets through
+const MAX_JOB_WRITE_ATTEMPTS = 10
+
+/**
+ * Read, change and write a job without losing a write made in between: the
+ * write only goes through if the job is still as it was read, otherwise
+ * `update` runs again on the newer version. `update` returns null to leave the
+ * job as it is.
+ *
+ * @returns The job as written (or as found, when `update` declined); null if it does not exist
+ */
+async function writePublishJob(
+  jobId: string,
+  update: (job: PublishJob) => Partial<PublishJob> | null
+): Promise<{ job: PublishJob; written: boolean } | null> {
+  for (let attempt = 0; attempt < MAX_JOB_WRITE_ATTEMPTS; attempt++) {
+    const data = await store.get<string>(`job:${jobId}`)
+    if (!data) return null
+
+    const job: PublishJob = JSON.parse(data)
+    const updates = update(job)
+    if (!updates) return { job, written: false }
+
+    const updated: PublishJob = {
+      ...job,
+      ...updates,
+      updatedAt: Date.now(),
+    }
+    if (await store.setIfEqual(`job:${jobId}`, data, JSON.stringify(updated), { ex: getJobTtl(updated) })) {
+      if (updated.accountId) {
+        await saveScriptHistoryEntry(updated)
+      }
+      return { job: updated, written: true }
+    }
+  }
+  throw new Error(`Job ${jobId} kept changing, update not saved`)
+}
+
 export async function updatePublishJob(
   jobId: string,
   updates: Partial<PublishJob>
 ): Promise<PublishJob> {
-  const job = await getPublishJob(jobId)
-  if (!job) throw new Error('Job not found')
+  const result = await writePublishJob(jobId, () => updates)
+  if (!result) throw new Error('Job not found')
+  return result.job
+}
 
-  const updated: PublishJob = {
-    ...job,
-    ...updates,
-    updatedAt: Date.now(),
-  }
+/**
+ * Update a job only if `canUpdate` holds for its latest version, e.g. to move
+ * it on from the status it was read in; a compare-and-set, so of two racing
+ * status changes only one goes through
+ *
+ * @returns The updated job, or null when `canUpdate` did not hold or the job does not exist
+ */
+export async function updatePublishJobIf(
+  jobId: string,
+  canUpdate: (job: PublishJob) => boolean,
+  updates: Partial<PublishJob>
+): Promise<PublishJob | null> {
+  const result = await writePublishJob(jobId, (job) => (canUpdate(job) ? updates : null))
+  return result?.written ? result.job : null
+}
 
-  await store.set(`job:${jobId}`, JSON.stringify(updated), { ex: JOB_TTL })
-  return updated
+/**
+ * Whether a job can go to a new checkout: when validated, or when pending on
+ * `expiredSessionId`, an earlier checkout that can no longer be paid. Never
+ * once it was paid, by card or with credits.
+ */
+export function canCheckOut(job: PublishJob, expiredSessionId?: string): boolean {
+  if (job.paymentIntentId || job.creditsSpent) return false
+  return job.status === 'validated'
+    || (job.status === 'pending' && expiredSessionId !== undefined && job.stripeSessionId === expiredSessionId)
+}
+
+/**
+ * Attach a checkout session to a job that can go to checkout (see canCheckOut)
+ * and index it for webhook lookup. The check and the change are one
+ * compare-and-set, so a job paid in the meantime is left alone.
+ *
+ * @returns The job, or null when it cannot go to checkout
+ */
+export async function attachStripeSession(
+  jobId: string,
+  stripeSessionId: string,
+  expiredSessionId?: string
+): Promise<PublishJob | null> {
+  const job = await updatePublishJobIf(jobId, (current) => canCheckOut(current, expiredSessionId), {
+    stripeSessionId,
+    status: 'pending',
+  })
+  if (!job) return null
+  await store.set(`stripe-job:${stripeSessionId}`, jobId, { ex: CHECKOUT_JOB_TTL })
+  return job
+}
+
+// ============ Validation Job Queue ============
+// Reliable queue: claiming a job moves its ID onto a processing list in the same
+// step, so a job whose worker dies mid-run is still listed and can be requeued.
+
+const VALIDATION_QUEUE_KEY = 'queue:validation'
+const VALIDATION_PROCESSING_KEY = 'queue:validation:processing'
+
+export async function enqueueValidationJob(jobId: string): Promise<void> {
+  await store.lpush(VALIDATION_QUEUE_KEY, jobId)
+}
+
+/**
+ * Claim the oldest queued job, or null if the queue is empty
+ */
+export async function claimValidationJob(): Promise<string | null> {
+  return store.rpoplpush(VALIDATION_QUEUE_KEY, VALIDATION_PROCESSING_KEY)
+}
+
+/**
+ * Drop a claimed job from the processing list once it is done
+ */
+export async function finishValidationJob(jobId: string): Promise<void> {
+  await store.lrem(VALIDATION_PROCESSING_KEY, jobId)
+}
+
+/**
+ * Put a claimed job back on the queue. Returns false if another worker already did.
+ */
+export async function requeueValidationJob(jobId: string): Promise<boolean> {
+  return store.lmoveValue(VALIDATION_PROCESSING_KEY, VALIDATION_QUEUE_KEY, jobId)
+}
+
+/**
+ * Take a job off the queue before any worker claims it. Returns false if it was not queued.
+ */
+export async function removeQueuedValidationJob(jobId: string): Promise<boolean> {
+  return store.lrem(VALIDATION_QUEUE_KEY, jobId)
+}
+
+export async function getQueuedValidationJobs(): Promise<string[]> {
+  return store.lrange(VALIDATION_QUEUE_KEY)
+}
+
+export async function getProcessingValidationJobs(): Promise<string[]> {
+  return store.lrange(VALIDATION_PROCESSING_KEY)
+}
+
+// ============ Job Heartbeats ============
+// Kept apart from the job, so a worker heartbeating every few seconds never
+// writes over a change made to the job in the meantime
+
+export async function recordJobHeartbeat(jobId: string, at: number = Date.now()): Promise<void> {
+  await store.set(`job-heartbeat:${jobId}`, String(at), { ex: JOB_TTL })
+}
+
+/**
+ * When the worker running the job last heartbeated, or null if none has yet
+ */
+export async function getJobHeartbeat(jobId: string): Promise<number | null> {
+  const at = await store.get<string>(`job-heartbeat:${jobId}`)
+  return at ? Number(at) : null
+}
+
+// ============ Job Progress Events ============
+// Append-only log per job, read by the progress stream. Kept as long as the job itself.
+
+export async function appendJobEvent(jobId: string, event: ProgressEvent): Promise<void> {
+  await store.rpush(`job-events:${jobId}`, JSON.stringify(event), { ex: JOB_TTL })
+}
+
+/**
+ * Progress events of a job, starting at `fromIndex` (the number of events already seen)
+ */
+export async function getJobEvents(jobId: string, fromIndex: number = 0): Promise<ProgressEvent[]> {
+  const values = await store.lrange(`job-events:${jobId}`, fromIndex)
+  return values.map((value) => JSON.parse(value))
+}
+
+// ============ Validation Result Cache ============
+// Keys carry a generation number; purging bumps it, which orphans every entry
+// at once without scanning for keys. Orphaned entries expire on their own TTL.
+
+const VALIDATION_CACHE_GENERATION_KEY = 'validation-cache:generation'
+
+export interface CachedValidationResult {
+  /** Result of the run, without anything specific to its publish */
+  result: ValidationLoopResult
+  /** Fix attempts the run was allowed */
+  maxRetries: number
+  cachedAt: number
+}
+
+export interface CachedFix {
+  script: string
+  migrations: PineRewrite[]
+  cachedAt: number
+}
+
+async function validationCacheKey(kind: 'result' | 'fix', cacheId: string): Promise<string> {
+  const generation = (await store.get(VALIDATION_CACHE_GENERATION_KEY)) ?? '0'
+  return `validation-cache:${generation}:${kind}:${cacheId}`
+}
+
+export async function getCachedValidationResult(cacheId: string): Promise<CachedValidationResult | null> {
+  const data = await store.get<string>(await validationCacheKey('result', cacheId))
+  return data ? JSON.parse(data) : null
+}
+
+export async function saveCachedValidationResult(
+  cacheId: string,
+  entry: CachedValidationResult,
+  ttlSeconds: number
+): Promise<void> {
+  await store.set(await validationCacheKey('result', cacheId), JSON.stringify(entry), { ex: ttlSeconds })
+}
+
+export async function deleteCachedValidationResult(cacheId: string): Promise<void> {
+  await store.del(await validationCacheKey('result', cacheId))
+}
+
+export async function getCachedFix(cacheId: string): Promise<CachedFix | null> {
+  const data = await store.get<string>(await validationCacheKey('fix', cacheId))
+  return data ? JSON.parse(data) : null
+}
+
+export async function saveCachedFix(cacheId: string, fix: CachedFix, ttlSeconds: number): Promise<void> {
+  await store.set(await validationCacheKey('fix', cacheId), JSON.stringify(fix), { ex: ttlSeconds })
+}
+
+export async function deleteCachedFix(cacheId: string): Promise<void> {
+  await store.del(await validationCacheKey('fix', cacheId))
+}
+
+/**
+ * Drop every cached validation result and fix
+ *
+ * @returns The new cache generation
+ */
+export async function purgeValidationCache(): Promise<number> {
+  const generation = parseInt((await store.get(VALIDATION_CACHE_GENERATION_KEY)) ?? '0') + 1
+  await store.set(VALIDATION_CACHE_GENERATION_KEY, String(generation))
+  return generation
 }
 
 // ============ Service Account Session Storage ============
@@ -228,3 +842,453 @@ export async function clearServiceAccountSession(): Promise<void> {
   await store.del(SERVICE_ACCOUNT_KEY)
   console.log('[KV] Service account session cleared from Redis')
 }
+
+// ============ Selector Health Reports ============
+
+const SELECTOR_HEALTH_KEY = 'selector-health:last'
+
+/**
+ * Keep the latest selector health report; earlier ones are only in the logs
+ */
+export async function saveSelectorHealthReport(report: SelectorHealthReport): Promise<void> {
+  await store.set(SELECTOR_HEALTH_KEY, JSON.stringify(report))
+}
+
+export async function getSelectorHealthReport(): Promise<SelectorHealthReport | null> {
+  const data = await store.get<string>(SELECTOR_HEALTH_KEY)
+  return data ? JSON.parse(data) : null
+}
+
+// ============ Accounts ============
+// Tokens are stored by their SHA-256 hash, so the store never holds a usable sign-in link or session
+
+export interface UserAccount {
+  userId: string
+  email: string
+  createdAt: number
+  lastSignInAt: number
+}
+
+export async function getUserAccount(userId: string): Promise<UserAccount | null> {
+  const data = await store.get<string>(`user:${userId}`)
+  return data ? JSON.parse(data) : null
+}
+
+export async function getUserAccountByEmail(email: string): Promise<UserAccount | null> {
+  const userId = await store.get<string>(`user-email:${email}`)
+  return userId ? getUserAccount(userId) : null
+}
+
+export async function saveUserAccount(account: UserAccount): Promise<void> {
+  await store.set(`user:${account.userId}`, JSON.stringify(account))
+  await store.set(`user-email:${account.email}`, account.userId)
+}
+
+export async function saveSignInToken(tokenHash: string, email: string, ttlSeconds: number): Promise<void> {
+  await store.set(`sign-in-token:${tokenHash}`, email, { ex: ttlSeconds })
+}
+
+/**
+ * Look up a sign-in token's email and delete the token, so each link works once
+ */
+export async function consumeSignInToken(tokenHash: string): Promise<string | null> {
+  return store.getDel(`sign-in-token:${tokenHash}`)
+}
+
+export async function saveUserSession(sessionHash: string, userId: string, ttlSeconds: number): Promise<void> {
+  await store.set(`session:${sessionHash}`, userId, { ex: ttlSeconds })
+}
+
+export async function getUserSession(sessionHash: string): Promise<string | null> {
+  return store.get<string>(`session:${sessionHash}`)
+}
+
+export async function deleteUserSession(sessionHash: string): Promise<void> {
+  await store.del(`session:${sessionHash}`)
+}
+
+// ============ Script History ============
+// A signed-in user's jobs, kept without a TTL: the job itself expires after JOB_TTL,
+// its history entry is rewritten on every job update and stays
+
+export interface ScriptHistoryEntry {
+  jobId: string
+  userId: string
+  status: PublishJobStatus
+  title: string
+  description: string
+  /** Final script: the fixed one once validation applied a fix */
+  script: string
+  originalScript?: string
+  fixApplied?: boolean
+  isValid?: boolean
+  indicatorUrl?: string
+  visibility: 'public' | 'private'
+  visibilityLevel?: VisibilityLevel
+  updateScriptId?: string
+  error?: string
+  createdAt: number
+  updatedAt: number
+}
+
+async function saveScriptHistoryEntry(job: PublishJob): Promise<void> {
+  const entry: ScriptHistoryEntry = {
+    jobId: job.jobId,
+    userId: job.accountId!,
+    status: job.status,
+    title: job.title,
+    description: job.description,
+    script: job.script,
+    originalScript: job.originalScript,
+    fixApplied: job.fixApplied,
+    isValid: job.validationResult?.isValid,
+    indicatorUrl: job.indicatorUrl,
+    visibility: job.visibility,
+    visibilityLevel: job.visibilityLevel,
+    updateScriptId: job.updateScriptId,
+    error: job.error,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+  }
+  await store.set(`history-entry:${job.jobId}`, JSON.stringify(entry))
+}
+
+/**
+ * A user's history, newest first
+ */
+export async function getScriptHistory(userId: string): Promise<ScriptHistoryEntry[]> {
+  const jobIds = await store.lrange(`history:${userId}`)
+  const entries = await Promise.all(jobIds.map(jobId => getScriptHistoryEntry(userId, jobId)))
+  return entries.filter((entry): entry is ScriptHistoryEntry => entry !== null)
+}
+
+/**
+ * One history entry, or null if it does not exist or belongs to another user
+ */
+export async function getScriptHistoryEntry(userId: string, jobId: string): Promise<ScriptHistoryEntry | null> {
+  const data = await store.get<string>(`history-entry:${jobId}`)
+  if (!data) return null
+  const entry: ScriptHistoryEntry = JSON.parse(data)
+  return entry.userId === userId ? entry : null
+}
+
+// ============ API Keys ============
+// Like sessions, keys are stored by hash; the plain key is only shown when it is created
+
+export interface ApiKeyQuotas {
+  /** Validation jobs per UTC day, including those that publish */
+  validationsPerDay: number
+  /** Publishing jobs per UTC day */
+  publishesPerDay: number
+}
+
+export interface ApiKey {
+  keyId: string
+  name: string
+  /** First characters of the key, to tell keys apart in listings */
+  prefix: string
+  quotas: ApiKeyQuotas
+  createdAt: number
+  revokedAt?: number
+}
+
+const API_KEYS_KEY = 'api-keys'
+
+export async function createApiKeyRecord(keyHash: string, apiKey: ApiKey): Promise<void> {
+  await store.set(`api-key:${apiKey.keyId}`, JSON.stringify(apiKey))
+  await store.set(`api-key-hash:${keyHash}`, apiKey.keyId)
+  await store.lpush(API_KEYS_KEY, apiKey.keyId)
+}
+
+export async function getApiKey(keyId: string): Promise<ApiKey | null> {
+  const data = await store.get<string>(`api-key:${keyId}`)
+  return data ? JSON.parse(data) : null
+}
+
+export async function getApiKeyByHash(keyHash: string): Promise<ApiKey | null> {
+  const keyId = await store.get<string>(`api-key-hash:${keyHash}`)
+  return keyId ? getApiKey(keyId) : null
+}
+
+export async function updateApiKey(keyId: string, updates: Partial<ApiKey>): Promise<ApiKey | null> {
+  const apiKey = await getApiKey(keyId)
+  if (!apiKey) return null
+  const updated = { ...apiKey, ...updates, keyId }
+  await store.set(`api-key:${keyId}`, JSON.stringify(updated))
+  return updated
+}
+
+/**
+ * Every key, newest first, including revoked ones
+ */
+export async function listApiKeys(): Promise<ApiKey[]> {
+  const keyIds = await store.lrange(API_KEYS_KEY)
+  const keys = await Promise.all(keyIds.map(getApiKey))
+  return keys.filter((key): key is ApiKey => key !== null)
+}
+
+// ============ API Usage ============
+// Daily counters per key; they expire a day after the day they count
+
+export type ApiUsageKind = 'validations' | 'publishes'
+
+const API_USAGE_TTL = 2 * 24 * 60 * 60
+
+function apiUsageKey(keyId: string, kind: ApiUsageKind, day: string): string {
+  return `api-usage:${keyId}:${kind}:${day}`
+}
+
+/**
+ * Add to a key's usage for `day` (YYYY-MM-DD, UTC) and return the new count
+ */
+export async function incrementApiUsage(keyId: string, kind: ApiUsageKind, day: string, amount: number = 1): Promise<number> {
+  return store.incrby(apiUsageKey(keyId, kind, day), amount, { ex: API_USAGE_TTL })
+}
+
+export async function getApiUsage(keyId: string, kind: ApiUsageKind, day: string): Promise<number> {
+  const value = await store.get<string>(apiUsageKey(keyId, kind, day))
+  return value ? parseInt(value) : 0
+}
+
+// ============ Rate Limiting ============
+
+/**
+ * Take a token from a client's bucket for one limiter
+ *
+ * @param capacity - Bucket size, i.e. the burst a client may send at once
+ * @param refillPerMs - Tokens added per ms
+ */
+export async function takeRateLimitToken(
+  limiter: string,
+  clientId: string,
+  capacity: number,
+  refillPerMs: number,
+  now: number
+): Promise<{ allowed: boolean; tokens: number }> {
+  // A bucket left alone until it is full again carries no state worth keeping
+  const ttlSeconds = Math.ceil(capacity / refillPerMs / 1000) + 60
+  return store.takeToken(`rate-limit:${limiter}:${clientId}`, { capacity, refillPerMs, now, ttlSeconds })
+}
+
+export interface ThrottledClient {
+  limiter: string
+  clientId: string
+  /** Requests refused since firstThrottledAt */
+  count: number
+  firstThrottledAt: number
+  lastThrottledAt: number
+}
+
+const THROTTLED_CLIENTS_KEY = 'rate-limit:throttled'
+// The admin view covers the last day, and at most this many clients
+const THROTTLED_CLIENTS_WINDOW_MS = 24 * 60 * 60 * 1000
+const MAX_THROTTLED_CLIENTS = 200
+
+/**
+ * Note a refused request for the admin view. The list is one value rewritten
+ * on each refusal, so concurrent refusals can lose a count; it is a view of
+ * who is being throttled, not an audit log.
+ */
+export async function recordThrottledClient(limiter: string, clientId: string, now: number): Promise<void> {
+  const clients = await getThrottledClients(now)
+  const existing = clients.find(client => client.limiter === limiter && client.clientId === clientId)
+  const others = clients.filter(client => client !== existing)
+  others.unshift({
+    limiter,
+    clientId,
+    count: (existing?.count ?? 0) + 1,
+    firstThrottledAt: existing?.firstThrottledAt ?? now,
+    lastThrottledAt: now,
+  })
+  await store.set(THROTTLED_CLIENTS_KEY, JSON.stringify(others.slice(0, MAX_THROTTLED_CLIENTS)), {
+    ex: THROTTLED_CLIENTS_WINDOW_MS / 1000,
+  })
+}
+
+/**
+ * Clients refused in the last day, most recently throttled first
+ */
+export async function getThrottledClients(now: number = Date.now()): Promise<ThrottledClient[]> {
+  const data = await store.get<string>(THROTTLED_CLIENTS_KEY)
+  const clients: ThrottledClient[] = data ? JSON.parse(data) : []
+  return clients.filter(client => now - client.lastThrottledAt < THROTTLED_CLIENTS_WINDOW_MS)
+}
+
+// ============ Stripe Webhook Events ============
+// Every verified event is kept for a week under its ID: a redelivery of an
+// event that was handled is skipped, and admins can re-process any of them.
+
+export type StripeWebhookEventStatus = 'processing' | 'processed' | 'failed'
+
+export interface StripeWebhookEventRecord {
+  eventId: string
+  type: string
+  status: StripeWebhookEventStatus
+  /** Deliveries handled plus admin re-processing runs */
+  attempts: number
+  /** What handling the event did, e.g. which job it moved */
+  outcome?: string
+  error?: string
+  /** The verified event as JSON, for re-processing */
+  payload: string
+  /** When Stripe created the event */
+  createdAt: number
+  updatedAt: number
+}
+
+const STRIPE_EVENT_TTL = 7 * 24 * 60 * 60
+const STRIPE_EVENTS_KEY = 'stripe-events'
+const MAX_LISTED_STRIPE_EVENTS = 500
+// A run that has not finished after this long is taken to have died with its machine
+const STRIPE_EVENT_STALE_MS = 5 * 60 * 1000
+
+/**
+ * Claim an event for handling. Returns null when it was already handled or is
+ * being handled right now; an event whose last run failed can be claimed again.
+ */
+export async function claimStripeWebhookEvent(
+  event: Pick<StripeWebhookEventRecord, 'eventId' | 'type' | 'payload' | 'createdAt'>
+): Promise<StripeWebhookEventRecord | null> {
+  const record: StripeWebhookEventRecord = { ...event, status: 'processing', attempts: 1, updatedAt: Date.now() }
+  const key = `stripe-event:${event.eventId}`
+  if (await store.setIfAbsent(key, JSON.stringify(record), { ex: STRIPE_EVENT_TTL })) {
+    await store.lpush(STRIPE_EVENTS_KEY, event.eventId)
+    await store.ltrim(STRIPE_EVENTS_KEY, MAX_LISTED_STRIPE_EVENTS)
+    return record
+  }
+
+  const existing = await getStripeWebhookEvent(event.eventId)
+  const retryable = existing && (
+    existing.status === 'failed' ||
+    (existing.status === 'processing' && Date.now() - existing.updatedAt > STRIPE_EVENT_STALE_MS)
+  )
+  if (!retryable) return null
+  return saveStripeWebhookEvent({ ...existing, status: 'processing', attempts: existing.attempts + 1, error: undefined })
+}
+
+export async function saveStripeWebhookEvent(record: StripeWebhookEventRecord): Promise<StripeWebhookEventRecord> {
+  const updated = { ...record, updatedAt: Date.now() }
+  await store.set(`stripe-event:${record.eventId}`, JSON.stringify(updated), { ex: STRIPE_EVENT_TTL })
+  return updated
+}
+
+export async function getStripeWebhookEvent(eventId: string): Promise<StripeWebhookEventRecord | null> {
+  const data = await store.get<string>(`stripe-event:${eventId}`)
+  return data ? JSON.parse(data) : null
+}
+
+/**
+ * Recently received events, newest first
+ */
+export async function listStripeWebhookEvents(limit: number): Promise<StripeWebhookEventRecord[]> {
+  const eventIds = (await store.lrange(STRIPE_EVENTS_KEY)).slice(0, limit)
+  const records = await Promise.all(eventIds.map(getStripeWebhookEvent))
+  return records.filter((record): record is StripeWebhookEventRecord => record !== null)
+}
+
+// ============ Credits ============
+// Prepaid publishes of a signed-in user. The balance is a counter; every change
+// to it is also added to the account's ledger, newest first. Changes are made
+// once per reference (a checkout, an invoice, a job), so the webhook and the
+// page a customer returns to can both apply a purchase.
+
+export type CreditEntryKind = 'pack' | 'subscription' | 'publish'
+
+export interface CreditLedgerEntry {
+  accountId: string
+  /** Positive for credits bought, negative for credits spent */
+  amount: number
+  kind: CreditEntryKind
+  /** What the change was for, e.g. `checkout:<sessionId>` or `publish:<jobId>` */
+  reference: string
+  /** Balance after the change */
+  balance: number
+  createdAt: number
+}
+
+export async function getCreditBalance(accountId: string): Promise<number> {
+  const value = await store.get<string>(`credits:${accountId}`)
+  return value ? parseInt(value) : 0
+}
+
+/**
+ * Add credits to an account, or spend them with a negative amount
+ *
+ * @returns The ledger entry, or null when the reference was applied before or
+ * the balance does not cover the credits spent
+ */
+export async function applyCreditEntry(
+  accountId: string,
+  amount: number,
+  kind: CreditEntryKind,
+  reference: string
+): Promise<CreditLedgerEntry | null> {
+  const entry: Omit<CreditLedgerEntry, 'balance'> = { accountId, amount, kind, reference, createdAt: Date.now() }
+  // The reference, balance and ledger are written together, so a crash or a refused
+  // spend never leaves a reference behind that would make a retry skip the entry
+  const balance = await store.incrbyOnce({
+    onceKey: `credit-reference:${reference}`,
+    onceValue: accountId,
+    counterKey: `credits:${accountId}`,
+    amount,
+    logKey: `credit-ledger:${accountId}`,
+    entry,
+    valueField: 'balance',
+  })
+  return balance === null ? null : { ...entry, balance }
+}
+
+/**
+ * An account's latest credit changes, newest first
+ */
+export async function getCreditLedger(accountId: string, limit: number): Promise<CreditLedgerEntry[]> {
+  const entries = await store.lrange(`credit-ledger:${accountId}`)
+  return entries.slice(0, limit).map(entry => JSON.parse(entry))
+}
+
+// ============ Subscriptions ============
+// The monthly plan of an account, as last reported by Stripe's subscription webhooks
+
+export interface AccountSubscription {
+  accountId: string
+  subscriptionId: string
+  customerId: string
+  status: Stripe.Subscription.Status
+  /** End of the period paid for */
+  currentPeriodEnd?: number
+  /** Cancelled by the customer; the plan runs until currentPeriodEnd */
+  cancelAtPeriodEnd: boolean
+  updatedAt: number
+}
+
+export async function saveAccountSubscription(subscription: AccountSubscription): Promise<void> {
+  await store.set(`subscription:${subscription.accountId}`, JSON.stringify(subscription))
+  await store.set(`stripe-subscription:${subscription.subscriptionId}`, subscription.accountId)
+}
+
+export async function getAccountSubscription(accountId: string): Promise<AccountSubscription | null> {
+  const data = await store.get<string>(`subscription:${accountId}`)
+  return data ? JSON.parse(data) : null
+}
+
+export async function getAccountIdBySubscription(subscriptionId: string): Promise<string | null> {
+  return store.get<string>(`stripe-subscription:${subscriptionId}`)
+}
+
+// ============ Pricing Catalog ============
+// Validated by pricing.ts when saved and again when read
+
+const PRICING_CATALOG_KEY = 'pricing:catalog'
+
+export async function savePricingCatalog(catalog: PricingCatalog): Promise<void> {
+  await store.set(PRICING_CATALOG_KEY, JSON.stringify(catalog))
+}
+
+export async function getStoredPricingCatalog(): Promise<unknown> {
+  const data = await store.get<string>(PRICING_CATALOG_KEY)
+  return data ? JSON.parse(data) : null
+}
+
+export async function deletePricingCatalog(): Promise<void> {
+  await store.del(PRICING_CATALOG_KEY)
+}
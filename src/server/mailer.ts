@@ -0,0 +1,94 @@
+/**
+ * Mailer
+ *
+ * Sends the app's emails (sign-in links) through a pluggable transport.
+ * MAIL_TRANSPORT picks a built-in one: `console` logs each message, `file`
+ * writes it to MAIL_FILE_DIR as a .eml file for local testing. Production
+ * deployments register their provider with setMailer(); without one, sending
+ * fails there rather than leaving live sign-in links in logs or on disk.
+ */
+
+import fs from 'fs'
+import path from 'path'
+
+const MAIL_TRANSPORT = process.env.MAIL_TRANSPORT || 'console'
+const MAIL_FILE_DIR = process.env.MAIL_FILE_DIR || '.mail'
+const MAIL_FROM = process.env.MAIL_FROM || 'Pine Script Publisher <no-reply@localhost>'
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>
+}
+
+// ============ Transports ============
+
+export const consoleMailer: Mailer = {
+  async send(message) {
+    console.log(`[Mailer] To: ${message.to}\n[Mailer] Subject: ${message.subject}\n${message.text}`)
+  },
+}
+
+/**
+ * Write each message to `dir` as a .eml file (opens in any mail client)
+ */
+export function createFileMailer(dir: string): Mailer {
+  return {
+    async send(message) {
+      await fs.promises.mkdir(dir, { recursive: true })
+      const safeRecipient = message.to.replace(/[^a-z0-9@._-]/gi, '_')
+      const file = path.join(dir, `${Date.now()}-${safeRecipient}.eml`)
+      const content = [
+        `From: ${MAIL_FROM}`,
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        `Date: ${new Date().toUTCString()}`,
+        'Content-Type: text/plain; charset=utf-8',
+        '',
+        message.text,
+      ].join('\r\n')
+      await fs.promises.writeFile(file, content)
+      console.log(`[Mailer] Wrote message for ${message.to} to ${file}`)
+    },
+  }
+}
+
+// Stands in for the built-in transports in production until a real mailer is registered
+const unconfiguredMailer: Mailer = {
+  async send() {
+    throw new Error('Email is not set up on this server')
+  },
+}
+
+function createDefaultMailer(): Mailer {
+  if (process.env.NODE_ENV === 'production') {
+    console.error('[Mailer] No mailer registered with setMailer(), emails cannot be sent')
+    return unconfiguredMailer
+  }
+  if (MAIL_TRANSPORT === 'file') return createFileMailer(MAIL_FILE_DIR)
+  if (MAIL_TRANSPORT !== 'console') {
+    console.warn(`[Mailer] Unknown MAIL_TRANSPORT "${MAIL_TRANSPORT}", logging messages instead`)
+  }
+  return consoleMailer
+}
+
+// ============ Active Mailer ============
+
+let activeMailer: Mailer | null = null
+
+/**
+ * Replace the mailer; pass null to go back to the MAIL_TRANSPORT default
+ * (none in production)
+ */
+export function setMailer(mailer: Mailer | null): void {
+  activeMailer = mailer
+}
+
+export function getMailer(): Mailer {
+  if (!activeMailer) activeMailer = createDefaultMailer()
+  return activeMailer
+}
@@ -0,0 +1,228 @@
+/**
+ * Mock Payments
+ *
+ * A local stand-in for Stripe, for development without a Stripe account and
+ * for tests without network access. Checkout sessions are kept in memory and
+ * point at /api/mock-payments/checkout/:sessionId, a page with buttons to pay,
+ * cancel or let the checkout expire. Paying sends the webhook events Stripe
+ * would send, signed with a secret made up for each process, so they go
+ * through the same verification and handlers as real ones.
+ *
+ * Publishing and credit pack checkouts carry their own amounts; any price ID
+ * is taken to be a monthly plan of $19.00.
+ */
+
+import crypto from 'crypto'
+import Stripe from 'stripe'
+import type { PaymentsProvider } from './payments'
+
+const APP_URL = process.env.APP_URL || 'http://localhost:3000'
+// The mock both signs and verifies its events, so nothing outside needs the secret
+const MOCK_WEBHOOK_SECRET = `whsec_${crypto.randomBytes(24).toString('hex')}`
+const MOCK_PLAN_PRICE_CENTS = 1900
+const MOCK_PLAN_PERIOD_SECONDS = 30 * 24 * 60 * 60
+
+/**
+ * Sends a signed webhook event; the default posts it to the app's webhook route
+ */
+export type MockWebhookDelivery = (payload: string, signature: string) => Promise<void>
+
+export interface MockPaymentsProvider extends PaymentsProvider {
+  name: 'mock'
+  /** Pay an open checkout and send its webhook events; a checkout that is not open is returned as it is */
+  payCheckout(sessionId: string): Promise<Stripe.Checkout.Session>
+}
+
+export function createMockPaymentsProvider(
+  options: { deliver?: MockWebhookDelivery; webhookSecret?: string } = {}
+): MockPaymentsProvider {
+  const webhookSecret = options.webhookSecret ?? MOCK_WEBHOOK_SECRET
+  const deliver = options.deliver ?? postToWebhookRoute
+  const sessions = new Map<string, Stripe.Checkout.Session>()
+  const refunds = new Map<string, Stripe.Refund>()
+  // Metadata for the subscription a plan checkout creates once it is paid
+  const subscriptionMetadata = new Map<string, Stripe.Metadata>()
+
+  const getSession = (sessionId: string): Stripe.Checkout.Session => {
+    const session = sessions.get(sessionId)
+    if (!session) {
+      throw new Error(`No such checkout.session: '${sessionId}'`)
+    }
+    return session
+  }
+
+  // Events are sent one at a time, in the order Stripe sends them
+  const send = async (events: Array<[Stripe.Event['type'], object]>) => {
+    for (const [type, object] of events) {
+      const payload = JSON.stringify(mockEvent(type, object))
+      await deliver(payload, Stripe.webhooks.generateTestHeaderString({ payload, secret: webhookSecret }))
+    }
+  }
+
+  return {
+    name: 'mock',
+
+    async createCheckoutSession(params) {
+      const sessionId = mockId('cs_mock')
+      const session = {
+        id: sessionId,
+        object: 'checkout.session',
+        mode: params.mode ?? 'payment',
+        status: 'open',
+        payment_status: 'unpaid',
+        amount_total: (params.line_items ?? []).reduce((total, item) => total + lineItemAmount(item), 0),
+        currency: params.line_items?.[0]?.price_data?.currency ?? 'usd',
+        customer: null,
+        customer_email: params.customer_email ?? null,
+        payment_intent: null,
+        subscription: null,
+        metadata: params.metadata ?? {},
+        success_url: params.success_url?.replace('{CHECKOUT_SESSION_ID}', sessionId) ?? null,
+        cancel_url: params.cancel_url ?? null,
+        url: `${APP_URL}/api/mock-payments/checkout/${sessionId}`,
+        created: Math.floor(Date.now() / 1000),
+      } as unknown as Stripe.Checkout.Session
+      sessions.set(sessionId, session)
+      subscriptionMetadata.set(sessionId, (params.subscription_data?.metadata ?? {}) as Stripe.Metadata)
+      return session
+    },
+
+    async retrieveCheckoutSession(sessionId) {
+      return getSession(sessionId)
+    },
+
+    async createRefund(params, idempotencyKey) {
+      const existing = idempotencyKey ? refunds.get(idempotencyKey) : undefined
+      if (existing) return existing
+
+      const refund = {
+        id: mockId('re_mock'),
+        object: 'refund',
+        status: 'succeeded',
+        payment_intent: params.payment_intent ?? null,
+        metadata: params.metadata ?? {},
+        created: Math.floor(Date.now() / 1000),
+      } as unknown as Stripe.Refund
+      if (idempotencyKey) refunds.set(idempotencyKey, refund)
+      return refund
+    },
+
+    async retrievePrice(priceId) {
+      return mockPrice(priceId)
+    },
+
+    // There is no portal locally; the customer goes straight back
+    async createBillingPortalSession(params) {
+      return { url: params.return_url ?? APP_URL }
+    },
+
+    constructWebhookEvent(payload, signature) {
+      return Stripe.webhooks.constructEvent(payload, signature, webhookSecret)
+    },
+
+    async payCheckout(sessionId) {
+      const session = getSession(sessionId)
+      if (session.status !== 'open') return session
+
+      const paid = { ...session, status: 'complete', payment_status: 'paid' } as Stripe.Checkout.Session
+      const events: Array<[Stripe.Event['type'], object]> = []
+
+      if (session.mode === 'subscription') {
+        const subscription = mockSubscription(subscriptionMetadata.get(sessionId) ?? {})
+        paid.customer = subscription.customer
+        paid.subscription = subscription.id
+        events.push(
+          ['customer.subscription.created', subscription],
+          ['invoice.paid', mockInvoice(subscription, session.amount_total ?? 0)]
+        )
+      } else {
+        paid.payment_intent = mockId('pi_mock')
+      }
+
+      sessions.set(sessionId, paid)
+      events.push(['checkout.session.completed', paid])
+      await send(events)
+      return paid
+    },
+
+    // Sends checkout.session.expired; a checkout that is not open is returned as it is
+    async expireCheckoutSession(sessionId) {
+      const session = getSession(sessionId)
+      if (session.status !== 'open') return session
+
+      const expired = { ...session, status: 'expired' } as Stripe.Checkout.Session
+      sessions.set(sessionId, expired)
+      await send([['checkout.session.expired', expired]])
+      return expired
+    },
+  }
+}
+
+async function postToWebhookRoute(payload: string, signature: string): Promise<void> {
+  const response = await fetch(`${APP_URL}/api/stripe/webhook`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'stripe-signature': signature },
+    body: payload,
+  })
+  if (!response.ok) {
+    console.error(`[MockPayments] Webhook delivery failed (${response.status}): ${await response.text()}`)
+  }
+}
+
+function mockId(prefix: string): string {
+  return `${prefix}_${crypto.randomUUID().replace(/-/g, '')}`
+}
+
+function mockEvent(type: Stripe.Event['type'], object: object): Stripe.Event {
+  return {
+    id: mockId('evt_mock'),
+    object: 'event',
+    type,
+    created: Math.floor(Date.now() / 1000),
+    livemode: false,
+    data: { object },
+  } as unknown as Stripe.Event
+}
+
+function mockPrice(priceId: string): Stripe.Price {
+  return {
+    id: priceId,
+    object: 'price',
+    currency: 'usd',
+    unit_amount: MOCK_PLAN_PRICE_CENTS,
+    recurring: { interval: 'month', interval_count: 1 },
+  } as unknown as Stripe.Price
+}
+
+function lineItemAmount(item: Stripe.Checkout.SessionCreateParams.LineItem): number {
+  const unitAmount = item.price_data?.unit_amount ?? (item.price ? mockPrice(item.price).unit_amount! : 0)
+  return unitAmount * (item.quantity ?? 1)
+}
+
+function mockSubscription(metadata: Stripe.Metadata): Stripe.Subscription {
+  const now = Math.floor(Date.now() / 1000)
+  return {
+    id: mockId('sub_mock'),
+    object: 'subscription',
+    customer: mockId('cus_mock'),
+    status: 'active',
+    cancel_at_period_end: false,
+    metadata,
+    items: { data: [{ current_period_start: now, current_period_end: now + MOCK_PLAN_PERIOD_SECONDS }] },
+  } as unknown as Stripe.Subscription
+}
+
+function mockInvoice(subscription: Stripe.Subscription, amountPaid: number): Stripe.Invoice {
+  return {
+    id: mockId('in_mock'),
+    object: 'invoice',
+    status: 'paid',
+    amount_paid: amountPaid,
+    customer: subscription.customer,
+    billing_reason: 'subscription_create',
+    parent: {
+      type: 'subscription_details',
+      subscription_details: { subscription: subscription.id, metadata: subscription.metadata },
+    },
+  } as unknown as Stripe.Invoice
+}
@@ -0,0 +1,93 @@
+/**
+ * Payments Provider
+ *
+ * The Stripe API calls the app makes, behind one interface so a local stand-in
+ * can take Stripe's place. PAYMENTS_PROVIDER picks one: `stripe` talks to
+ * Stripe with STRIPE_PROD_SECRET_KEY, `mock` is the stand-in in
+ * mock-payments.ts, which serves its own checkout page and sends signed
+ * webhook events to /api/stripe/webhook. Unset, Stripe is used; without its
+ * key payments are unavailable rather than free, so the mock is never picked
+ * by accident.
+ */
+
+import Stripe from 'stripe'
+import { createMockPaymentsProvider } from './mock-payments'
+
+export interface PaymentsProvider {
+  name: 'stripe' | 'mock'
+  createCheckoutSession(params: Stripe.Checkout.SessionCreateParams): Promise<Stripe.Checkout.Session>
+  retrieveCheckoutSession(sessionId: string): Promise<Stripe.Checkout.Session>
+  /** Expire an open checkout, so it can no longer be paid */
+  expireCheckoutSession(sessionId: string): Promise<Stripe.Checkout.Session>
+  /** A repeated idempotency key returns the first refund instead of refunding twice */
+  createRefund(params: Stripe.RefundCreateParams, idempotencyKey?: string): Promise<Stripe.Refund>
+  retrievePrice(priceId: string): Promise<Stripe.Price>
+  createBillingPortalSession(params: Stripe.BillingPortal.SessionCreateParams): Promise<{ url: string }>
+  /** Verify a webhook request's signature and parse its event */
+  constructWebhookEvent(payload: string | Buffer, signature: string): Stripe.Event
+}
+
+// ============ Providers ============
+
+export function createStripePaymentsProvider(secretKey: string): PaymentsProvider {
+  const stripe = new Stripe(secretKey)
+  return {
+    name: 'stripe',
+    createCheckoutSession: (params) => stripe.checkout.sessions.create(params),
+    retrieveCheckoutSession: (sessionId) => stripe.checkout.sessions.retrieve(sessionId),
+    expireCheckoutSession: (sessionId) => stripe.checkout.sessions.expire(sessionId),
+    createRefund: (params, idempotencyKey) =>
+      stripe.refunds.create(params, idempotencyKey ? { idempotencyKey } : undefined),
+    retrievePrice: (priceId) => stripe.prices.retrieve(priceId),
+    createBillingPortalSession: (params) => stripe.billingPortal.sessions.create(params),
+    constructWebhookEvent(payload, signature) {
+      const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET
+      if (!webhookSecret) {
+        throw new Error('STRIPE_WEBHOOK_SECRET is not set')
+      }
+      return stripe.webhooks.constructEvent(payload, signature, webhookSecret)
+    },
+  }
+}
+
+function createDefaultPaymentsProvider(): PaymentsProvider | null {
+  const secretKey = process.env.STRIPE_PROD_SECRET_KEY
+  const requested = process.env.PAYMENTS_PROVIDER || 'stripe'
+
+  if (requested === 'mock') {
+    console.warn([
+      '[Payments] ==========================================================',
+      '[Payments] PAYMENTS_PROVIDER=mock: checkouts are paid on a local page',
+      '[Payments] and NO MONEY MOVES. Never run this setting in production.',
+      '[Payments] ==========================================================',
+    ].join('\n'))
+    return createMockPaymentsProvider()
+  }
+  if (requested !== 'stripe') {
+    console.warn(`[Payments] Unknown PAYMENTS_PROVIDER "${requested}", using Stripe instead`)
+  }
+  if (!secretKey) {
+    console.warn('STRIPE_PROD_SECRET_KEY is not set - Stripe functionality will not work')
+    return null
+  }
+  return createStripePaymentsProvider(secretKey)
+}
+
+// ============ Active Provider ============
+
+let activeProvider: PaymentsProvider | null | undefined
+
+/**
+ * Replace the provider; pass undefined to go back to the PAYMENTS_PROVIDER default
+ */
+export function setPaymentsProvider(provider: PaymentsProvider | undefined): void {
+  activeProvider = provider
+}
+
+/**
+ * The active provider, or null when payments are not configured
+ */
+export function getPaymentsProvider(): PaymentsProvider | null {
+  if (activeProvider === undefined) activeProvider = createDefaultPaymentsProvider()
+  return activeProvider
+}
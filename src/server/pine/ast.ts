@@ -0,0 +1,330 @@
+/**
+ * Pine Script AST
+ *
+ * Node types produced by the Pine Script parser (parser.ts).
+ * Every node carries a source span with 1-based line/column positions so
+ * diagnostics can point at the exact location in the user's script.
+ */
+
+export interface SourceSpan {
+  line: number
+  column: number
+  endLine: number
+  endColumn: number
+}
+
+/**
+ * Diagnostic reported by the lexer, parser or local checkers.
+ * Superset of the `{ line, message, type }` shape used by ValidationResult.errors,
+ * so it can be shown in the UI and passed to formatErrorsForLLM unchanged.
+ */
+export interface PineDiagnostic {
+  line: number
+  column: number
+  endLine?: number
+  endColumn?: number
+  message: string
+  type: 'error' | 'warning'
+  /** Stable identifier for the rule that produced the diagnostic */
+  code: string
+}
+
+export type TypeQualifier = 'const' | 'input' | 'simple' | 'series'
+
+export interface TypeAnnotation {
+  kind: 'Type'
+  qualifier?: TypeQualifier
+  /** Type name, possibly dotted for library/UDT types (e.g. `chart.point`) */
+  name: string
+  typeArguments?: TypeAnnotation[]
+  /** v4-style array shorthand (`float[]`) */
+  isArray?: boolean
+  span: SourceSpan
+}
+
+// ============ Expressions ============
+
+export interface NumberLiteral {
+  kind: 'Number'
+  value: number
+  raw: string
+  isFloat: boolean
+  span: SourceSpan
+}
+
+export interface StringLiteral {
+  kind: 'String'
+  value: string
+  span: SourceSpan
+}
+
+export interface BooleanLiteral {
+  kind: 'Boolean'
+  value: boolean
+  span: SourceSpan
+}
+
+export interface ColorLiteral {
+  kind: 'Color'
+  value: string
+  span: SourceSpan
+}
+
+export interface Identifier {
+  kind: 'Identifier'
+  name: string
+  span: SourceSpan
+}
+
+export interface MemberExpression {
+  kind: 'Member'
+  object: Expression
+  property: Identifier
+  span: SourceSpan
+}
+
+export interface Argument {
+  /** Present for named arguments (`color=color.red`) */
+  name?: Identifier
+  value: Expression
+  span: SourceSpan
+}
+
+export interface CallExpression {
+  kind: 'Call'
+  callee: Expression
+  typeArguments?: TypeAnnotation[]
+  args: Argument[]
+  span: SourceSpan
+}
+
+export interface HistoryExpression {
+  kind: 'History'
+  target: Expression
+  offset: Expression
+  span: SourceSpan
+}
+
+export interface UnaryExpression {
+  kind: 'Unary'
+  operator: '-' | '+' | 'not'
+  operand: Expression
+  span: SourceSpan
+}
+
+export interface BinaryExpression {
+  kind: 'Binary'
+  operator: string
+  left: Expression
+  right: Expression
+  span: SourceSpan
+}
+
+export interface TernaryExpression {
+  kind: 'Ternary'
+  test: Expression
+  consequent: Expression
+  alternate: Expression
+  span: SourceSpan
+}
+
+export interface TupleExpression {
+  kind: 'Tuple'
+  elements: Expression[]
+  span: SourceSpan
+}
+
+export interface IfExpression {
+  kind: 'If'
+  test: Expression
+  consequent: Statement[]
+  /** `else` block, or a nested IfExpression for `else if` */
+  alternate?: Statement[] | IfExpression
+  span: SourceSpan
+}
+
+export interface SwitchCase {
+  /** Missing for the default (`=>`) case */
+  test?: Expression
+  body: Statement[]
+  span: SourceSpan
+}
+
+export interface SwitchExpression {
+  kind: 'Switch'
+  discriminant?: Expression
+  cases: SwitchCase[]
+  span: SourceSpan
+}
+
+export interface ForExpression {
+  kind: 'For'
+  counter: Identifier
+  from: Expression
+  to: Expression
+  step?: Expression
+  body: Statement[]
+  span: SourceSpan
+}
+
+export interface ForInExpression {
+  kind: 'ForIn'
+  /** `for x in arr` binds one identifier, `for [i, x] in arr` binds two */
+  bindings: Identifier[]
+  iterable: Expression
+  body: Statement[]
+  span: SourceSpan
+}
+
+export interface WhileExpression {
+  kind: 'While'
+  test: Expression
+  body: Statement[]
+  span: SourceSpan
+}
+
+export type Expression =
+  | NumberLiteral
+  | StringLiteral
+  | BooleanLiteral
+  | ColorLiteral
+  | Identifier
+  | MemberExpression
+  | CallExpression
+  | HistoryExpression
+  | UnaryExpression
+  | BinaryExpression
+  | TernaryExpression
+  | TupleExpression
+  | IfExpression
+  | SwitchExpression
+  | ForExpression
+  | ForInExpression
+  | WhileExpression
+
+// ============ Statements ============
+
+export interface VariableDeclaration {
+  kind: 'VariableDeclaration'
+  /** `var` / `varip` persistence modifier */
+  modifier?: 'var' | 'varip'
+  type?: TypeAnnotation
+  name: Identifier
+  init: Expression
+  span: SourceSpan
+}
+
+export interface TupleDeclaration {
+  kind: 'TupleDeclaration'
+  names: Identifier[]
+  init: Expression
+  span: SourceSpan
+}
+
+export interface Assignment {
+  kind: 'Assignment'
+  /** `:=` or a compound operator (`+=`, `-=`, ...) */
+  operator: string
+  target: Expression
+  value: Expression
+  span: SourceSpan
+}
+
+export interface Parameter {
+  name: Identifier
+  type?: TypeAnnotation
+  defaultValue?: Expression
+  span: SourceSpan
+}
+
+export interface FunctionDeclaration {
+  kind: 'FunctionDeclaration'
+  name: Identifier
+  params: Parameter[]
+  body: Statement[]
+  isMethod: boolean
+  isExport: boolean
+  span: SourceSpan
+}
+
+export interface TypeField {
+  type: TypeAnnotation
+  name: Identifier
+  defaultValue?: Expression
+  span: SourceSpan
+}
+
+export interface TypeDeclaration {
+  kind: 'TypeDeclaration'
+  name: Identifier
+  fields: TypeField[]
+  isExport: boolean
+  span: SourceSpan
+}
+
+export interface EnumField {
+  name: Identifier
+  /** Display title (`buy = "Buy signal"`), shown by input.enum() */
+  title?: Expression
+  span: SourceSpan
+}
+
+export interface EnumDeclaration {
+  kind: 'EnumDeclaration'
+  name: Identifier
+  fields: EnumField[]
+  isExport: boolean
+  span: SourceSpan
+}
+
+export interface ImportStatement {
+  kind: 'Import'
+  path: string
+  alias?: Identifier
+  span: SourceSpan
+}
+
+export interface BreakStatement {
+  kind: 'Break'
+  span: SourceSpan
+}
+
+export interface ContinueStatement {
+  kind: 'Continue'
+  span: SourceSpan
+}
+
+export interface ExpressionStatement {
+  kind: 'ExpressionStatement'
+  expression: Expression
+  span: SourceSpan
+}
+
+export type Statement =
+  | VariableDeclaration
+  | TupleDeclaration
+  | Assignment
+  | FunctionDeclaration
+  | TypeDeclaration
+  | EnumDeclaration
+  | ImportStatement
+  | BreakStatement
+  | ContinueStatement
+  | ExpressionStatement
+
+/**
+ * Compiler annotation comment (`//@version=5`, `//@description ...`)
+ */
+export interface Annotation {
+  name: string
+  value: string
+  line: number
+}
+
+export interface Program {
+  kind: 'Program'
+  /** Pine version from `//@version=N`, or null when missing */
+  version: number | null
+  annotations: Annotation[]
+  body: Statement[]
+}
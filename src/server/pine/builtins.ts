@@ -0,0 +1,571 @@
+/**
+ * Pine Script Built-in Catalog
+ *
+ * Signatures of the Pine v5/v6 built-in functions and variables used by the
+ * local call checker (signature-check.ts). Signatures are written in the same
+ * notation as the Pine reference manual:
+ *
+ *   'series float source, simple int length, simple bool floor?'
+ *
+ * A trailing `?` marks an optional parameter and a leading `...` a variadic one.
+ * Types that are not primitives (plot_style, hline, tuple, ...) are kept as
+ * names; only primitive types take part in type checking.
+ */
+
+import type { TypeQualifier } from './ast'
+
+export const QUALIFIER_RANK: Record<TypeQualifier, number> = {
+  const: 0,
+  input: 1,
+  simple: 2,
+  series: 3,
+}
+
+export const PRIMITIVE_TYPES = new Set(['int', 'float', 'bool', 'string', 'color'])
+
+export interface BuiltinParam {
+  name: string
+  qualifier: TypeQualifier
+  /** Primitive type name, `number` (int or float), `any`, or an opaque type name */
+  type: string
+  optional: boolean
+  variadic: boolean
+  /** Last Pine version that accepts this parameter */
+  until?: number
+}
+
+export interface BuiltinReturn {
+  /** `propagate` takes the strongest qualifier among the arguments */
+  qualifier: TypeQualifier | 'propagate'
+  /** Omitted when the type depends on the arguments */
+  type?: string
+}
+
+export interface BuiltinSignature {
+  name: string
+  params: BuiltinParam[]
+  returns: BuiltinReturn
+}
+
+export interface BuiltinFunction {
+  name: string
+  overloads: BuiltinSignature[]
+  /** First Pine version that has this function */
+  since: number
+}
+
+export interface BuiltinVariable {
+  qualifier: TypeQualifier
+  type?: string
+}
+
+/**
+ * Namespaces whose function list is complete, so an unknown member is an error
+ * (`ta.smaa`) rather than a gap in the catalog
+ */
+export const COMPLETE_NAMESPACES = new Set(['ta', 'math', 'str', 'request', 'input', 'color'])
+
+interface FunctionOptions {
+  since?: number
+  /** Parameters removed after the given version (e.g. `when` was removed in v6) */
+  paramsUntil?: Record<string, number>
+}
+
+const functions = new Map<string, BuiltinFunction>()
+
+function parseParams(signature: string, options: FunctionOptions): BuiltinParam[] {
+  if (!signature.trim()) return []
+  return signature.split(',').map((raw) => {
+    let text = raw.trim()
+    const variadic = text.startsWith('...')
+    if (variadic) text = text.slice(3)
+    const optional = text.endsWith('?')
+    if (optional) text = text.slice(0, -1)
+
+    const [qualifier, type, name] = text.split(/\s+/)
+    if (!(qualifier in QUALIFIER_RANK) || !type || !name) {
+      throw new Error(`Invalid built-in parameter: "${raw}"`)
+    }
+    return {
+      name,
+      qualifier: qualifier as TypeQualifier,
+      type,
+      optional: optional || variadic,
+      variadic,
+      until: options.paramsUntil?.[name],
+    }
+  })
+}
+
+function parseReturn(spec: string): BuiltinReturn {
+  const [qualifier, type] = spec.split(/\s+/)
+  return { qualifier: qualifier as BuiltinReturn['qualifier'], type }
+}
+
+/**
+ * Register a built-in. Calling it again for the same name adds an overload.
+ */
+function fn(name: string, params: string, returns: string, options: FunctionOptions = {}): void {
+  const signature: BuiltinSignature = {
+    name,
+    params: parseParams(params, options),
+    returns: parseReturn(returns),
+  }
+  const existing = functions.get(name)
+  if (existing) {
+    existing.overloads.push(signature)
+  } else {
+    functions.set(name, { name, overloads: [signature], since: options.since ?? 5 })
+  }
+}
+
+// ============ Declarations ============
+
+fn('indicator',
+  'const string title, const string shorttitle?, const bool overlay?, const string format?, const int precision?, ' +
+  'const scale_type scale?, const int max_bars_back?, const string timeframe?, const bool timeframe_gaps?, ' +
+  'const bool explicit_plot_zorder?, const int max_lines_count?, const int max_labels_count?, const int max_boxes_count?, ' +
+  'const int calc_bars_count?, const int max_polylines_count?, const bool dynamic_requests?, const bool behind_chart?',
+  'const void')
+fn('strategy',
+  'const string title, const string shorttitle?, const bool overlay?, const string format?, const int precision?, ' +
+  'const scale_type scale?, const int pyramiding?, const bool calc_on_order_fills?, const bool calc_on_every_tick?, ' +
+  'const int max_bars_back?, const int backtest_fill_limits_assumption?, const string default_qty_type?, ' +
+  'const float default_qty_value?, const float initial_capital?, const string currency?, const int slippage?, ' +
+  'const string commission_type?, const float commission_value?, const bool process_orders_on_close?, ' +
+  'const string close_entries_rule?, const float margin_long?, const float margin_short?, const bool explicit_plot_zorder?, ' +
+  'const int max_lines_count?, const int max_labels_count?, const int max_boxes_count?, const int calc_bars_count?, ' +
+  'const float risk_free_rate?, const bool use_bar_magnifier?, const bool fill_orders_on_standard_ohlc?, ' +
+  'const int max_polylines_count?, const bool dynamic_requests?, const bool behind_chart?',
+  'const void')
+fn('library', 'const string title, const bool overlay?, const bool dynamic_requests?', 'const void')
+
+// ============ Plotting ============
+
+fn('plot',
+  'series float series, const string title?, series color color?, input int linewidth?, input plot_style style?, ' +
+  'input bool trackprice?, input float histbase?, series int offset?, input bool join?, input bool editable?, ' +
+  'input int show_last?, input plot_display display?, input string format?, input int precision?, const bool force_overlay?',
+  'series plot')
+fn('plotshape',
+  'series bool series, const string title?, input string style?, input string location?, series color color?, ' +
+  'series int offset?, const string text?, series color textcolor?, input bool editable?, input string size?, ' +
+  'input int show_last?, input plot_display display?, input string format?, input int precision?, const bool force_overlay?',
+  'series void')
+fn('plotchar',
+  'series bool series, const string title?, input string char?, input string location?, series color color?, ' +
+  'series int offset?, const string text?, series color textcolor?, input bool editable?, const string size?, ' +
+  'input int show_last?, input plot_display display?, input string format?, input int precision?, const bool force_overlay?',
+  'series void')
+fn('plotarrow',
+  'series float series, const string title?, series color colorup?, series color colordown?, series int offset?, ' +
+  'input int minheight?, input int maxheight?, input bool editable?, input int show_last?, input plot_display display?, ' +
+  'input string format?, input int precision?, const bool force_overlay?',
+  'series void')
+fn('plotcandle',
+  'series float open, series float high, series float low, series float close, const string title?, series color color?, ' +
+  'series color wickcolor?, input bool editable?, input int show_last?, series color bordercolor?, input plot_display display?, ' +
+  'input string format?, input int precision?, const bool force_overlay?',
+  'series void')
+fn('plotbar',
+  'series float open, series float high, series float low, series float close, const string title?, series color color?, ' +
+  'input bool editable?, input int show_last?, input plot_display display?, input string format?, input int precision?, ' +
+  'const bool force_overlay?',
+  'series void')
+fn('hline',
+  'input float price, const string title?, input color color?, input hline_style linestyle?, input int linewidth?, ' +
+  'input bool editable?, input plot_display display?',
+  'input hline')
+fn('fill',
+  'input hline hline1, input hline hline2, series color color?, const string title?, input bool editable?, ' +
+  'input bool fillgaps?, input plot_display display?',
+  'series void')
+fn('fill',
+  'series plot plot1, series plot plot2, series color color?, const string title?, input bool editable?, ' +
+  'input int show_last?, input bool fillgaps?, input plot_display display?',
+  'series void')
+fn('fill',
+  'series plot plot1, series plot plot2, series float top_value, series float bottom_value, series color top_color, ' +
+  'series color bottom_color, const string title?, input plot_display display?, input bool fillgaps?, input bool editable?',
+  'series void')
+fn('bgcolor',
+  'series color color, series int offset?, input bool editable?, input int show_last?, const string title?, ' +
+  'input plot_display display?, const bool overlay?, const bool force_overlay?',
+  'series void')
+fn('barcolor',
+  'series color color, series int offset?, input bool editable?, input int show_last?, const string title?, ' +
+  'input plot_display display?',
+  'series void')
+
+// ============ Alerts ============
+
+fn('alertcondition', 'series bool condition, const string title?, const string message?', 'series void')
+fn('alert', 'series string message, input string freq?', 'series void')
+
+// ============ Inputs ============
+
+const INPUT_TAIL = 'const string tooltip?, const string inline?, const string group?, const bool confirm?, const plot_display display?'
+
+fn('input', 'const any defval, const string title?, const string tooltip?, const string inline?, const string group?, const plot_display display?', 'input')
+fn('input.int', `const int defval, const string title?, const int minval?, const int maxval?, const int step?, ${INPUT_TAIL}`, 'input int')
+fn('input.int', `const int defval, const string title?, const tuple options?, ${INPUT_TAIL}`, 'input int')
+fn('input.float', `const float defval, const string title?, const float minval?, const float maxval?, const float step?, ${INPUT_TAIL}`, 'input float')
+fn('input.float', `const float defval, const string title?, const tuple options?, ${INPUT_TAIL}`, 'input float')
+fn('input.bool', `const bool defval, const string title?, ${INPUT_TAIL}`, 'input bool')
+fn('input.string', `const string defval, const string title?, const tuple options?, ${INPUT_TAIL}`, 'input string')
+fn('input.color', `const color defval, const string title?, ${INPUT_TAIL}`, 'input color')
+fn('input.source', `series float defval, const string title?, ${INPUT_TAIL}`, 'series float')
+fn('input.timeframe', `const string defval, const string title?, const tuple options?, ${INPUT_TAIL}`, 'input string')
+fn('input.symbol', `const string defval, const string title?, ${INPUT_TAIL}`, 'input string')
+fn('input.session', `const string defval, const string title?, const tuple options?, ${INPUT_TAIL}`, 'input string')
+fn('input.price', `const float defval, const string title?, ${INPUT_TAIL}`, 'input float')
+fn('input.time', `const int defval, const string title?, ${INPUT_TAIL}`, 'input int')
+fn('input.text_area', 'const string defval, const string title?, const string tooltip?, const string group?, const bool confirm?, const plot_display display?', 'input string')
+fn('input.enum', `const any defval, const string title?, const tuple options?, ${INPUT_TAIL}`, 'input')
+
+// ============ Technical analysis (ta.*) ============
+
+fn('ta.alma', 'series float source, series int length, simple float offset, simple float sigma, simple bool floor?', 'series float')
+fn('ta.atr', 'simple int length', 'series float')
+fn('ta.barssince', 'series bool condition', 'series int')
+fn('ta.bb', 'series float series, series int length, simple float mult', 'series tuple')
+fn('ta.bbw', 'series float series, series int length, simple float mult', 'series float')
+fn('ta.cci', 'series float source, series int length', 'series float')
+fn('ta.change', 'series any source, series int length?', 'series')
+fn('ta.cmo', 'series float series, series int length', 'series float')
+fn('ta.cog', 'series float source, series int length', 'series float')
+fn('ta.correlation', 'series float source1, series float source2, series int length', 'series float')
+fn('ta.cross', 'series float source1, series float source2', 'series bool')
+fn('ta.crossover', 'series float source1, series float source2', 'series bool')
+fn('ta.crossunder', 'series float source1, series float source2', 'series bool')
+fn('ta.cum', 'series float source', 'series float')
+fn('ta.dev', 'series float source, series int length', 'series float')
+fn('ta.dmi', 'simple int diLength, simple int adxSmoothing', 'series tuple')
+fn('ta.ema', 'series float source, simple int length', 'series float')
+fn('ta.falling', 'series float source, series int length', 'series bool')
+fn('ta.highest', 'series float source, series int length', 'series float')
+fn('ta.highest', 'series int length', 'series float')
+fn('ta.highestbars', 'series float source, series int length', 'series int')
+fn('ta.highestbars', 'series int length', 'series int')
+fn('ta.hma', 'series float source, simple int length', 'series float')
+fn('ta.kc', 'series float series, simple int length, simple float mult, simple bool useTrueRange?', 'series tuple')
+fn('ta.kcw', 'series float series, simple int length, simple float mult, simple bool useTrueRange?', 'series float')
+fn('ta.linreg', 'series float source, series int length, simple int offset', 'series float')
+fn('ta.lowest', 'series float source, series int length', 'series float')
+fn('ta.lowest', 'series int length', 'series float')
+fn('ta.lowestbars', 'series float source, series int length', 'series int')
+fn('ta.lowestbars', 'series int length', 'series int')
+fn('ta.macd', 'series float source, simple int fastlen, simple int slowlen, simple int siglen', 'series tuple')
+fn('ta.max', 'series float source', 'series float')
+fn('ta.median', 'series float source, series int length', 'series float')
+fn('ta.mfi', 'series float series, series int length', 'series float')
+fn('ta.min', 'series float source', 'series float')
+fn('ta.mode', 'series float source, series int length', 'series float')
+fn('ta.mom', 'series float source, series int length', 'series float')
+fn('ta.percentile_linear_interpolation', 'series float source, series int length, simple float percentage', 'series float')
+fn('ta.percentile_nearest_rank', 'series float source, series int length, simple float percentage', 'series float')
+fn('ta.percentrank', 'series float source, series int length', 'series float')
+fn('ta.pivot_point_levels', 'series string type, series bool anchor, simple bool developing?', 'series array')
+fn('ta.pivothigh', 'series float source, series int leftbars, series int rightbars', 'series float')
+fn('ta.pivothigh', 'series int leftbars, series int rightbars', 'series float')
+fn('ta.pivotlow', 'series float source, series int leftbars, series int rightbars', 'series float')
+fn('ta.pivotlow', 'series int leftbars, series int rightbars', 'series float')
+fn('ta.range', 'series float source, series int length', 'series float')
+fn('ta.rci', 'series float source, series int length', 'series float')
+fn('ta.rising', 'series float source, series int length', 'series bool')
+fn('ta.rma', 'series float source, simple int length', 'series float')
+fn('ta.roc', 'series float source, series int length', 'series float')
+fn('ta.rsi', 'series float source, simple int length', 'series float')
+fn('ta.sar', 'simple float start, simple float inc, simple float max', 'series float')
+fn('ta.sma', 'series float source, series int length', 'series float')
+fn('ta.stdev', 'series float source, series int length, simple bool biased?', 'series float')
+fn('ta.stoch', 'series float source, series float high, series float low, series int length', 'series float')
+// Missing from the reference manual, but complex-valid.pine relies on it; keep it so the checker never blocks that script
+fn('ta.sum', 'series float source, series int length', 'series float')
+fn('ta.supertrend', 'simple float factor, simple int atrPeriod', 'series tuple')
+fn('ta.swma', 'series float source', 'series float')
+fn('ta.tr', 'simple bool handle_na', 'series float')
+fn('ta.tsi', 'series float source, simple int short_length, simple int long_length', 'series float')
+fn('ta.valuewhen', 'series bool condition, series any source, series int occurrence', 'series')
+fn('ta.variance', 'series float source, series int length, simple bool biased?', 'series float')
+fn('ta.vwap', 'series float source, series bool anchor?, simple float stdev_mult?', 'series')
+fn('ta.vwma', 'series float source, series int length', 'series float')
+fn('ta.wma', 'series float source, series int length', 'series float')
+fn('ta.wpr', 'series int length', 'series float')
+
+// ============ Requests (request.*) ============
+
+fn('request.security',
+  'series string symbol, series string timeframe, series any expression, simple barmerge_gaps gaps?, ' +
+  'simple barmerge_lookahead lookahead?, simple bool ignore_invalid_symbol?, series string currency?, simple int calc_bars_count?',
+  'series')
+fn('request.security_lower_tf',
+  'series string symbol, series string timeframe, series any expression, simple bool ignore_invalid_symbol?, ' +
+  'series string currency?, simple bool ignore_invalid_timeframe?, simple int calc_bars_count?',
+  'series array')
+fn('request.financial',
+  'series string symbol, series string financial_id, series string period, simple barmerge_gaps gaps?, ' +
+  'simple bool ignore_invalid_symbol?, series string currency?',
+  'series float')
+fn('request.dividends',
+  'series string ticker, series string field?, simple barmerge_gaps gaps?, simple barmerge_lookahead lookahead?, ' +
+  'simple bool ignore_invalid_symbol?, series string currency?',
+  'series float')
+fn('request.earnings',
+  'series string ticker, series string field?, simple barmerge_gaps gaps?, simple barmerge_lookahead lookahead?, ' +
+  'simple bool ignore_invalid_symbol?, series string currency?',
+  'series float')
+fn('request.splits',
+  'series string ticker, series string field, simple barmerge_gaps gaps?, simple barmerge_lookahead lookahead?, ' +
+  'simple bool ignore_invalid_symbol?',
+  'series float')
+fn('request.economic', 'series string country_code, series string field, simple barmerge_gaps gaps?, simple bool ignore_invalid_symbol?', 'series float')
+fn('request.quandl', 'series string ticker, simple barmerge_gaps gaps?, series int index, simple bool ignore_invalid_symbol?', 'series float')
+fn('request.seed', 'series string source, series string symbol, series any expression, simple bool ignore_invalid_symbol?, simple int calc_bars_count?', 'series')
+fn('request.currency_rate', 'series string from, series string to, simple bool ignore_invalid_currency?', 'series float')
+fn('request.footprint', 'simple int ticks_per_row, simple int va_percent?, simple bool imbalance_percent?', 'series footprint', { since: 6 })
+
+// ============ Strategy (strategy.*) ============
+
+const WHEN_UNTIL_V5 = { paramsUntil: { when: 5 } }
+
+fn('strategy.entry',
+  'series string id, series strategy_direction direction, series float qty?, series float limit?, series float stop?, ' +
+  'series string oca_name?, input string oca_type?, series string comment?, series string alert_message?, ' +
+  'series bool disable_alert?, series bool when?',
+  'series void', WHEN_UNTIL_V5)
+fn('strategy.order',
+  'series string id, series strategy_direction direction, series float qty?, series float limit?, series float stop?, ' +
+  'series string oca_name?, input string oca_type?, series string comment?, series string alert_message?, ' +
+  'series bool disable_alert?, series bool when?',
+  'series void', WHEN_UNTIL_V5)
+fn('strategy.exit',
+  'series string id, series string from_entry?, series float qty?, series float qty_percent?, series float profit?, ' +
+  'series float limit?, series float loss?, series float stop?, series float trail_price?, series float trail_points?, ' +
+  'series float trail_offset?, series string oca_name?, series string comment?, series string comment_profit?, ' +
+  'series string comment_loss?, series string comment_trailing?, series string alert_message?, series string alert_profit?, ' +
+  'series string alert_loss?, series string alert_trailing?, series bool disable_alert?, series bool when?',
+  'series void', WHEN_UNTIL_V5)
+fn('strategy.close',
+  'series string id, series string comment?, series float qty?, series float qty_percent?, series string alert_message?, ' +
+  'series bool immediately?, series bool disable_alert?, series bool when?',
+  'series void', WHEN_UNTIL_V5)
+fn('strategy.close_all',
+  'series string comment?, series string alert_message?, series bool immediately?, series bool disable_alert?, series bool when?',
+  'series void', WHEN_UNTIL_V5)
+fn('strategy.cancel', 'series string id, series bool when?', 'series void', WHEN_UNTIL_V5)
+fn('strategy.cancel_all', 'series bool when?', 'series void', WHEN_UNTIL_V5)
+
+// ============ Colors (color.*) ============
+
+fn('color.new', 'series color color, series float transp', 'propagate color')
+fn('color.rgb', 'series float red, series float green, series float blue, series float transp?', 'propagate color')
+fn('color.from_gradient',
+  'series float value, series float bottom_value, series float top_value, series color bottom_color, series color top_color',
+  'series color')
+fn('color.r', 'series color color', 'propagate float')
+fn('color.g', 'series color color', 'propagate float')
+fn('color.b', 'series color color', 'propagate float')
+fn('color.t', 'series color color', 'propagate float')
+
+// ============ Math (math.*) ============
+
+fn('math.abs', 'series number number', 'propagate')
+fn('math.acos', 'series float angle', 'propagate float')
+fn('math.asin', 'series float angle', 'propagate float')
+fn('math.atan', 'series float angle', 'propagate float')
+fn('math.avg', '...series number numbers', 'propagate float')
+fn('math.ceil', 'series float number', 'propagate int')
+fn('math.cos', 'series float angle', 'propagate float')
+fn('math.exp', 'series float number', 'propagate float')
+fn('math.floor', 'series float number', 'propagate int')
+fn('math.log', 'series float number', 'propagate float')
+fn('math.log10', 'series float number', 'propagate float')
+fn('math.max', '...series number numbers', 'propagate')
+fn('math.min', '...series number numbers', 'propagate')
+fn('math.pow', 'series float base, series float exponent', 'propagate float')
+fn('math.random', 'series float min?, series float max?, simple int seed?', 'series float')
+fn('math.round', 'series float number, series int precision?', 'propagate')
+fn('math.round_to_mintick', 'series float number', 'propagate float')
+fn('math.sign', 'series float number', 'propagate float')
+fn('math.sin', 'series float angle', 'propagate float')
+fn('math.sqrt', 'series float number', 'propagate float')
+fn('math.sum', 'series float source, series int length', 'series float')
+fn('math.tan', 'series float angle', 'propagate float')
+fn('math.todegrees', 'series float radians', 'propagate float')
+fn('math.toradians', 'series float degrees', 'propagate float')
+
+// ============ Strings (str.*) ============
+
+fn('str.contains', 'series string source, series string str', 'propagate bool')
+fn('str.endswith', 'series string source, series string str', 'propagate bool')
+fn('str.format', 'series string formatString, ...series any arg0', 'propagate string')
+fn('str.format_time', 'series int time, series string format?, series string timezone?', 'propagate string')
+fn('str.length', 'series string string', 'propagate int')
+fn('str.lower', 'series string source', 'propagate string')
+fn('str.match', 'series string source, series string regex', 'propagate string')
+fn('str.pos', 'series string source, series string str', 'propagate int')
+fn('str.repeat', 'series string source, series int repeat, series string separator?', 'propagate string')
+fn('str.replace', 'series string source, series string target, series string replacement, series int occurrence?', 'propagate string')
+fn('str.replace_all', 'series string source, series string target, series string replacement', 'propagate string')
+fn('str.split', 'series string string, series string separator', 'series array')
+fn('str.startswith', 'series string source, series string str', 'propagate bool')
+fn('str.substring', 'series string source, series int begin_pos, series int end_pos?', 'propagate string')
+fn('str.tonumber', 'series string string', 'propagate float')
+fn('str.tostring', 'series any value, series string format?', 'propagate string')
+fn('str.trim', 'series string source', 'propagate string')
+fn('str.upper', 'series string source', 'propagate string')
+
+// ============ Drawings ============
+
+fn('label.new',
+  'series int x, series float y, series string text?, series string xloc?, series string yloc?, series color color?, ' +
+  'series string style?, series color textcolor?, series string size?, series string textalign?, series string tooltip?, ' +
+  'series string text_font_family?, const bool force_overlay?, series string text_formatting?',
+  'series label')
+fn('line.new',
+  'series int x1, series float y1, series int x2, series float y2, series string xloc?, series string extend?, ' +
+  'series color color?, series string style?, series int width?, const bool force_overlay?',
+  'series line')
+fn('line.new', 'series any first_point, series any second_point, series string xloc?, series string extend?, ' +
+  'series color color?, series string style?, series int width?, const bool force_overlay?',
+  'series line')
+
+// ============ Variables ============
+
+const SERIES_FLOAT: BuiltinVariable = { qualifier: 'series', type: 'float' }
+const SERIES_INT: BuiltinVariable = { qualifier: 'series', type: 'int' }
+const SERIES_BOOL: BuiltinVariable = { qualifier: 'series', type: 'bool' }
+const SIMPLE_STRING: BuiltinVariable = { qualifier: 'simple', type: 'string' }
+
+const variables: Record<string, BuiltinVariable> = {
+  open: SERIES_FLOAT,
+  high: SERIES_FLOAT,
+  low: SERIES_FLOAT,
+  close: SERIES_FLOAT,
+  volume: SERIES_FLOAT,
+  hl2: SERIES_FLOAT,
+  hlc3: SERIES_FLOAT,
+  ohlc4: SERIES_FLOAT,
+  hlcc4: SERIES_FLOAT,
+  time: SERIES_INT,
+  time_close: SERIES_INT,
+  timenow: SERIES_INT,
+  bar_index: SERIES_INT,
+  last_bar_index: SERIES_INT,
+  year: SERIES_INT,
+  month: SERIES_INT,
+  weekofyear: SERIES_INT,
+  dayofmonth: SERIES_INT,
+  dayofweek: SERIES_INT,
+  hour: SERIES_INT,
+  minute: SERIES_INT,
+  second: SERIES_INT,
+  'barstate.isfirst': SERIES_BOOL,
+  'barstate.islast': SERIES_BOOL,
+  'barstate.ishistory': SERIES_BOOL,
+  'barstate.isrealtime': SERIES_BOOL,
+  'barstate.isnew': SERIES_BOOL,
+  'barstate.isconfirmed': SERIES_BOOL,
+  'barstate.islastconfirmedhistory': SERIES_BOOL,
+  'syminfo.tickerid': SIMPLE_STRING,
+  'syminfo.ticker': SIMPLE_STRING,
+  'syminfo.prefix': SIMPLE_STRING,
+  'syminfo.currency': SIMPLE_STRING,
+  'syminfo.basecurrency': SIMPLE_STRING,
+  'syminfo.description': SIMPLE_STRING,
+  'syminfo.timezone': SIMPLE_STRING,
+  'syminfo.type': SIMPLE_STRING,
+  'syminfo.session': SIMPLE_STRING,
+  'syminfo.mintick': { qualifier: 'simple', type: 'float' },
+  'syminfo.pointvalue': { qualifier: 'simple', type: 'float' },
+  'timeframe.period': SIMPLE_STRING,
+  'timeframe.multiplier': { qualifier: 'simple', type: 'int' },
+  'timeframe.isintraday': { qualifier: 'simple', type: 'bool' },
+  'timeframe.isdaily': { qualifier: 'simple', type: 'bool' },
+  'timeframe.isweekly': { qualifier: 'simple', type: 'bool' },
+  'timeframe.ismonthly': { qualifier: 'simple', type: 'bool' },
+  'strategy.position_size': SERIES_FLOAT,
+  'strategy.position_avg_price': SERIES_FLOAT,
+  'strategy.equity': SERIES_FLOAT,
+  'strategy.netprofit': SERIES_FLOAT,
+  'strategy.openprofit': SERIES_FLOAT,
+  'strategy.opentrades': SERIES_INT,
+  'strategy.closedtrades': SERIES_INT,
+  'ta.tr': SERIES_FLOAT,
+  'ta.vwap': SERIES_FLOAT,
+  'ta.obv': SERIES_FLOAT,
+  'ta.accdist': SERIES_FLOAT,
+  'ta.iii': SERIES_FLOAT,
+  'ta.nvi': SERIES_FLOAT,
+  'ta.pvi': SERIES_FLOAT,
+  'ta.pvt': SERIES_FLOAT,
+  'ta.wad': SERIES_FLOAT,
+  'ta.wvad': SERIES_FLOAT,
+  'math.pi': { qualifier: 'const', type: 'float' },
+  'math.e': { qualifier: 'const', type: 'float' },
+  'math.phi': { qualifier: 'const', type: 'float' },
+  'math.rphi': { qualifier: 'const', type: 'float' },
+}
+
+/**
+ * Namespaces made up of constants (`color.red`, `shape.triangleup`, `plot.style_line`)
+ */
+const CONSTANT_NAMESPACES: Record<string, string | undefined> = {
+  color: 'color',
+  shape: 'string',
+  location: 'string',
+  size: 'string',
+  plot: undefined,
+  hline: undefined,
+  position: 'string',
+  display: undefined,
+  extend: 'string',
+  xloc: 'string',
+  yloc: 'string',
+  format: 'string',
+  scale: undefined,
+  currency: 'string',
+  barmerge: undefined,
+  font: 'string',
+  order: undefined,
+  alert: undefined,
+  text: 'string',
+}
+
+// ============ Lookup ============
+
+/**
+ * Look up a built-in function for a Pine version, or undefined if it does not exist there
+ */
+export function getBuiltinFunction(name: string, version: number): BuiltinFunction | undefined {
+  const builtin = functions.get(name)
+  if (!builtin || builtin.since > version) return undefined
+  return builtin
+}
+
+/**
+ * Look up the qualifier and type of a built-in variable or constant (`close`, `color.red`)
+ */
+export function getBuiltinVariable(name: string): BuiltinVariable | undefined {
+  if (variables[name]) return variables[name]
+
+  const dot = name.indexOf('.')
+  if (dot > 0 && name.indexOf('.', dot + 1) === -1) {
+    const namespace = name.slice(0, dot)
+    if (namespace in CONSTANT_NAMESPACES) {
+      return { qualifier: 'const', type: CONSTANT_NAMESPACES[namespace] }
+    }
+  }
+  return undefined
+}
+
+/**
+ * All built-in function names in a namespace (used for "did you mean" hints)
+ */
+export function getNamespaceFunctions(namespace: string, version: number): string[] {
+  const prefix = `${namespace}.`
+  return [...functions.values()]
+    .filter((builtin) => builtin.name.startsWith(prefix) && builtin.since <= version)
+    .map((builtin) => builtin.name)
+}
@@ -0,0 +1,201 @@
+/**
+ * TradingView Compiler Error Taxonomy
+ *
+ * Classifies the lines TradingView prints in the Pine Editor console into a
+ * typed taxonomy, with the position and the symbol each message refers to.
+ * The category decides which fix hints the LLM gets; the code names the
+ * message pattern that matched, so rules can be told apart in logs and tests.
+ *
+ * TradingView messages are free text, so everything here is best effort: a
+ * line that matches no rule keeps its text and falls into `unknown`.
+ */
+
+export type CompilerErrorCategory =
+  | 'syntax'
+  | 'undeclared-identifier'
+  | 'type-mismatch'
+  | 'qualifier-mismatch'
+  | 'argument'
+  | 'deprecated'
+  | 'too-many-securities'
+  | 'loop-limit'
+  | 'timeout'
+  | 'resource-limit'
+  | 'unknown'
+
+/**
+ * A console message, in the `{ line, message, type }` shape of
+ * ValidationResult.errors plus what the classifier could extract
+ */
+export interface CompilerError {
+  /** 1-based line, 0 when the message has none */
+  line: number
+  /** 1-based column, when TradingView reports one */
+  column?: number
+  message: string
+  type: 'error' | 'warning'
+  category?: CompilerErrorCategory
+  /** Message pattern that matched (e.g. `mismatched-input`, `could-not-find-function`) */
+  code?: string
+  /** Identifier, function or token the message refers to */
+  symbol?: string
+}
+
+// ============ Classification Rules ============
+
+interface CompilerErrorRule {
+  code: string
+  category: CompilerErrorCategory
+  pattern: RegExp
+  /** Capture group of `pattern` holding the symbol, when it has one */
+  symbolGroup?: number
+}
+
+const QUALIFIERS = new Set(['const', 'input', 'simple', 'series'])
+
+// `'series float' type was used but a 'simple int' is expected`
+const TYPE_USED_PATTERN = /'([\w.[\]<> ]+?)' type was used but an? '([\w.[\]<> ]+?)' is expected/i
+
+// First match wins, so specific messages come before the generic ones they overlap with
+const RULES: CompilerErrorRule[] = [
+  { code: 'too-many-securities', category: 'too-many-securities', pattern: /too many (?:securities|security calls|request\.\w+ calls)|requests? too many/i },
+  { code: 'loop-too-long', category: 'loop-limit', pattern: /loop (?:is )?too long|loop .*(?:limit|iterations)/i },
+  { code: 'calculation-timeout', category: 'timeout', pattern: /(?:takes|took) too long to execute|calculation timeout|timed? ?out/i },
+  { code: 'max-bars-back', category: 'resource-limit', pattern: /max_bars_back|referencing length of a series/i },
+  { code: 'too-many-elements', category: 'resource-limit', pattern: /too many (?:plots|plot calls|local variables|variables|drawings|lines|labels|boxes|tables|outputs)|memory limits?/i },
+  { code: 'deprecated-function', category: 'deprecated', pattern: /['`]([\w.]+)['`][^.]*?\b(?:is|was) (?:deprecated|removed|no longer supported)/i, symbolGroup: 1 },
+  { code: 'deprecated', category: 'deprecated', pattern: /deprecated|no longer supported|obsolete/i },
+  { code: 'undeclared-identifier', category: 'undeclared-identifier', pattern: /undeclared identifier(?:\s*['`"]?([\w.]+))?/i, symbolGroup: 1 },
+  { code: 'could-not-find-function', category: 'undeclared-identifier', pattern: /could not find (?:function or function reference|function|method)(?:\s*['`"]?([\w.]+))?/i, symbolGroup: 1 },
+  { code: 'unknown-argument', category: 'argument', pattern: /['`]([\w.]+)['`] (?:function )?does not have an argument|no argument (?:named|with the name)/i, symbolGroup: 1 },
+  { code: 'argument-count', category: 'argument', pattern: /too (?:many|few) arguments|missing (?:required )?argument|required argument|takes \d+ arguments?/i },
+  { code: 'mutable-variable', category: 'qualifier-mismatch', pattern: /cannot use (?:a )?mutable variable/i },
+  { code: 'cannot-call-with-argument', category: 'type-mismatch', pattern: /cannot call ['`]([\w.]+)['`] with argument/i, symbolGroup: 1 },
+  { code: 'type-mismatch', category: 'type-mismatch', pattern: /type mismatch|mismatched types|cannot (?:assign|use|cast) .*\btype\b|was declared with ['`].+?['`] type/i },
+  { code: 'mismatched-input', category: 'syntax', pattern: /mismatched input\s*['`"](.+?)['`"]/i, symbolGroup: 1 },
+  { code: 'no-viable-alternative', category: 'syntax', pattern: /no viable alternative at (?:input|character)\s*['`"](.+?)['`"]/i, symbolGroup: 1 },
+  { code: 'extraneous-input', category: 'syntax', pattern: /extraneous input\s*['`"](.+?)['`"]/i, symbolGroup: 1 },
+  { code: 'syntax-error', category: 'syntax', pattern: /syntax error|unexpected (?:token|character|end)|end of line without line continuation|invalid (?:character|indentation)/i },
+]
+
+// ============ Parsing ============
+
+/**
+ * Read the position out of a console message. TradingView writes it as
+ * `line 12`, `line 12:5` or `Error at 12:5`; bare `12:34:56` timestamps are
+ * deliberately not matched.
+ */
+function parsePosition(text: string): { line: number; column?: number } {
+  const at = text.match(/\bat (\d+):(\d+)\b/i)
+  if (at) return { line: parseInt(at[1], 10), column: parseInt(at[2], 10) }
+
+  const line = text.match(/\bline (\d+)(?:\s*[:,]\s*(?:col(?:umn)?\s*)?(\d+)\b)?/i)
+  if (line) {
+    return line[2]
+      ? { line: parseInt(line[1], 10), column: parseInt(line[2], 10) }
+      : { line: parseInt(line[1], 10) }
+  }
+  return { line: 0 }
+}
+
+/**
+ * Split a type such as `series float` into its qualifier and base type
+ */
+function splitQualifiedType(type: string): { qualifier?: string; base: string } {
+  const [first, ...rest] = type.trim().split(/\s+/)
+  if (rest.length > 0 && QUALIFIERS.has(first.toLowerCase())) {
+    return { qualifier: first.toLowerCase(), base: rest.join(' ') }
+  }
+  return { base: type.trim() }
+}
+
+/**
+ * Tell a qualifier mismatch (`series int` where `simple int` is expected)
+ * from a type mismatch (`series string` where `series float` is expected)
+ */
+function classifyTypeUsed(text: string): CompilerErrorCategory | null {
+  const match = text.match(TYPE_USED_PATTERN)
+  if (!match) return null
+  const used = splitQualifiedType(match[1])
+  const expected = splitQualifiedType(match[2])
+  if (used.base === expected.base && used.qualifier !== expected.qualifier) return 'qualifier-mismatch'
+  return 'type-mismatch'
+}
+
+/**
+ * The first identifier quoted in the message, for rules without a symbol group
+ */
+function findQuotedSymbol(text: string): string | undefined {
+  return text.match(/['`"]([A-Za-z_][\w.]*)['`"]/)?.[1]
+}
+
+/**
+ * Classify one console line
+ */
+export function parseCompilerMessage(text: string, type: 'error' | 'warning'): CompilerError {
+  const message = text.trim()
+  const result: CompilerError = { ...parsePosition(message), message, type }
+
+  const rule = RULES.find(r => r.pattern.test(message))
+  if (!rule) {
+    const category = classifyTypeUsed(message)
+    result.category = category ?? 'unknown'
+    if (category) result.code = category
+    const symbol = findQuotedSymbol(message)
+    if (symbol) result.symbol = symbol
+    return result
+  }
+
+  result.category = rule.category === 'type-mismatch'
+    ? classifyTypeUsed(message) ?? rule.category
+    : rule.category
+  result.code = rule.code
+
+  const symbol = (rule.symbolGroup && message.match(rule.pattern)?.[rule.symbolGroup]) || findQuotedSymbol(message)
+  if (symbol) result.symbol = symbol
+  return result
+}
+
+// ============ Fix Hints ============
+
+const CATEGORY_HINTS: Record<Exclude<CompilerErrorCategory, 'unknown'>, (symbols: string[]) => string> = {
+  'syntax': () =>
+    'Syntax: check brackets, commas and operators on the reported line, and that continuation lines are indented by a non-multiple of 4 spaces. Do not use reserved keywords as names.',
+  'undeclared-identifier': symbols =>
+    `Undeclared identifier${list(symbols)}: check the spelling, the v5+ namespace (ta., math., str., request., color.), and that the variable is declared before its first use and in the same scope.`,
+  'type-mismatch': symbols =>
+    `Type mismatch${list(symbols)}: convert the value to the expected type (float(), int(), str.tostring()) or use a literal of that type; a variable keeps the type of its first assignment.`,
+  'qualifier-mismatch': symbols =>
+    `Qualifier mismatch${list(symbols)}: the argument must be const/input/simple but a series value was passed. Use an input or a literal instead of a bar-dependent value, and do not reassign the variable with :=.`,
+  'argument': symbols =>
+    `Argument error${list(symbols)}: match the function signature - fix misspelled argument names, add required arguments and remove extra ones.`,
+  'deprecated': symbols =>
+    `Deprecated${list(symbols)}: replace with the current equivalent (e.g. study() → indicator(), security() → request.security(), transp → color.new()).`,
+  'too-many-securities': () =>
+    'Too many request.security() calls: merge calls on the same symbol and timeframe into one call returning a tuple, and drop requests that are not used.',
+  'loop-limit': () =>
+    'Loop limit: bound every loop by a fixed length, replace loops over history with built-ins (ta.sum, ta.highest, ...) or carry running values with var.',
+  'timeout': () =>
+    'Calculation timeout: reduce work per bar - hoist invariant calculations out of loops, cache results with var, and lower lookback lengths.',
+  'resource-limit': () =>
+    'Resource limit: reduce the number of plots, drawings or variables, or set max_bars_back in the declaration when history is referenced dynamically.',
+}
+
+function list(symbols: string[]): string {
+  return symbols.length > 0 ? ` (${symbols.map(s => `'${s}'`).join(', ')})` : ''
+}
+
+/**
+ * One hint per category present in the errors, in the order they first occur,
+ * naming the symbols involved
+ */
+export function getCompilerErrorHints(errors: CompilerError[]): string[] {
+  const symbolsByCategory = new Map<Exclude<CompilerErrorCategory, 'unknown'>, string[]>()
+  for (const error of errors) {
+    if (!error.category || error.category === 'unknown') continue
+    const symbols = symbolsByCategory.get(error.category) ?? []
+    if (error.symbol && !symbols.includes(error.symbol)) symbols.push(error.symbol)
+    symbolsByCategory.set(error.category, symbols)
+  }
+  return Array.from(symbolsByCategory, ([category, symbols]) => CATEGORY_HINTS[category](symbols))
+}
@@ -0,0 +1,351 @@
+/**
+ * Pine Script Lexer
+ *
+ * Tokenizes Pine Script v5/v6 source into a flat token stream with
+ * Python-style NEWLINE / INDENT / DEDENT tokens for indentation blocks.
+ *
+ * Line continuation follows the Pine rules:
+ * - Newlines inside (), [] are ignored
+ * - A line indented by a non-multiple of 4 spaces continues the previous line
+ *
+ * Comments and string contents never count towards bracket matching,
+ * which is what the old regex-based check got wrong.
+ */
+
+import type { Annotation, PineDiagnostic } from './ast'
+
+export type TokenType =
+  | 'identifier'
+  | 'keyword'
+  | 'number'
+  | 'string'
+  | 'color'
+  | 'operator'
+  | 'newline'
+  | 'indent'
+  | 'dedent'
+  | 'eof'
+
+export interface Token {
+  type: TokenType
+  value: string
+  line: number
+  column: number
+  endLine: number
+  endColumn: number
+}
+
+export interface LexResult {
+  tokens: Token[]
+  annotations: Annotation[]
+  diagnostics: PineDiagnostic[]
+}
+
+// `import`, `export`, `method` and `type` are contextual: they are lexed as
+// identifiers so they stay usable as argument names (e.g. v4 `input(type=...)`)
+export const PINE_KEYWORDS = new Set([
+  'and', 'or', 'not',
+  'if', 'else', 'switch',
+  'for', 'to', 'by', 'in', 'while',
+  'break', 'continue',
+  'var', 'varip',
+  'true', 'false',
+])
+
+// Longest operators first so `:=` wins over `:`
+const OPERATORS = [
+  ':=', '+=', '-=', '*=', '/=', '%=', '==', '!=', '<=', '>=', '=>',
+  '+', '-', '*', '/', '%', '<', '>', '=', '?', ':', ',', '.', '(', ')', '[', ']',
+]
+
+const OPENERS: Record<string, string> = { '(': ')', '[': ']' }
+const CLOSERS: Record<string, string> = { ')': '(', ']': '[' }
+
+const TAB_WIDTH = 4
+
+interface OpenBracket {
+  char: string
+  line: number
+  column: number
+  /** Indentation of the logical line that opened the bracket */
+  lineIndent: number
+}
+
+/**
+ * Tokenize a Pine Script source string
+ */
+export function tokenize(source: string): LexResult {
+  const tokens: Token[] = []
+  const annotations: Annotation[] = []
+  const diagnostics: PineDiagnostic[] = []
+
+  const lines = source.replace(/\r\n?/g, '\n').split('\n')
+  const indentStack: number[] = [0]
+  const brackets: OpenBracket[] = []
+
+  let logicalLineIndent = 0
+  let hasPendingLine = false
+
+  const push = (type: TokenType, value: string, line: number, column: number, endColumn: number) => {
+    tokens.push({ type, value, line, column, endLine: line, endColumn })
+  }
+
+  const reportUnclosed = () => {
+    for (const open of brackets) {
+      diagnostics.push({
+        line: open.line,
+        column: open.column,
+        message: `Unclosed ${bracketName(open.char)} '${open.char}' opened at line ${open.line}, column ${open.column}`,
+        type: 'error',
+        code: 'unclosed-bracket',
+      })
+    }
+    brackets.length = 0
+  }
+
+  for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
+    const text = lines[lineIndex]
+    const lineNo = lineIndex + 1
+
+    // Measure indentation (tab counts as 4 spaces)
+    let pos = 0
+    let indent = 0
+    while (pos < text.length && (text[pos] === ' ' || text[pos] === '\t')) {
+      indent += text[pos] === '\t' ? TAB_WIDTH : 1
+      pos++
+    }
+
+    // Blank and comment-only lines never affect indentation
+    const rest = text.slice(pos)
+    if (rest.length === 0 || rest.startsWith('//')) {
+      const annotation = parseAnnotation(rest, lineNo)
+      if (annotation) annotations.push(annotation)
+      continue
+    }
+
+    // Decide whether this physical line continues the previous logical line
+    let isContinuation = false
+    if (hasPendingLine) {
+      if (brackets.length > 0) {
+        const outer = brackets[0]
+        const startsWithCloser = rest[0] === ')' || rest[0] === ']'
+        if (!startsWithCloser && indent <= outer.lineIndent && indent % TAB_WIDTH === 0) {
+          // A new statement started before the bracket was closed
+          reportUnclosed()
+        } else {
+          isContinuation = true
+        }
+      } else if (indent % TAB_WIDTH !== 0) {
+        isContinuation = true
+      }
+    }
+
+    if (!isContinuation) {
+      if (hasPendingLine) {
+        const last = tokens[tokens.length - 1]
+        push('newline', '', last.endLine, last.endColumn, last.endColumn)
+      }
+
+      const top = indentStack[indentStack.length - 1]
+      if (indent > top) {
+        indentStack.push(indent)
+        push('indent', '', lineNo, 1, pos + 1)
+      } else if (indent < top) {
+        while (indentStack.length > 1 && indentStack[indentStack.length - 1] > indent) {
+          indentStack.pop()
+          push('dedent', '', lineNo, 1, pos + 1)
+        }
+        if (indentStack[indentStack.length - 1] !== indent) {
+          diagnostics.push({
+            line: lineNo,
+            column: pos + 1,
+            message: 'Indentation does not match any outer block level',
+            type: 'error',
+            code: 'inconsistent-indent',
+          })
+          indentStack.push(indent)
+        }
+      }
+      logicalLineIndent = indent
+      hasPendingLine = true
+    }
+
+    // Tokenize the rest of the line
+    while (pos < text.length) {
+      const ch = text[pos]
+      const column = pos + 1
+
+      if (ch === ' ' || ch === '\t') {
+        pos++
+        continue
+      }
+
+      // Trailing comment
+      if (ch === '/' && text[pos + 1] === '/') {
+        break
+      }
+
+      // String literal (single line only)
+      if (ch === '"' || ch === "'") {
+        let end = pos + 1
+        let value = ''
+        let closed = false
+        while (end < text.length) {
+          const c = text[end]
+          if (c === '\\' && end + 1 < text.length) {
+            value += unescape(text[end + 1])
+            end += 2
+            continue
+          }
+          if (c === ch) {
+            closed = true
+            end++
+            break
+          }
+          value += c
+          end++
+        }
+        if (!closed) {
+          diagnostics.push({
+            line: lineNo,
+            column,
+            message: 'Unterminated string literal',
+            type: 'error',
+            code: 'unterminated-string',
+          })
+        }
+        push('string', value, lineNo, column, end + 1)
+        pos = end
+        continue
+      }
+
+      // Color literal (#RRGGBB or #RRGGBBAA)
+      if (ch === '#') {
+        const match = /^#([0-9a-fA-F]{8}|[0-9a-fA-F]{6})(?![0-9a-zA-Z_])/.exec(text.slice(pos))
+        if (match) {
+          push('color', match[0], lineNo, column, column + match[0].length)
+          pos += match[0].length
+          continue
+        }
+        diagnostics.push({
+          line: lineNo,
+          column,
+          message: 'Invalid color literal (expected #RRGGBB or #RRGGBBAA)',
+          type: 'error',
+          code: 'invalid-color',
+        })
+        pos++
+        continue
+      }
+
+      // Number literal
+      if (isDigit(ch) || (ch === '.' && isDigit(text[pos + 1]))) {
+        const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(text.slice(pos))!
+        push('number', match[0], lineNo, column, column + match[0].length)
+        pos += match[0].length
+        continue
+      }
+
+      // Identifier or keyword
+      if (isIdentStart(ch)) {
+        let end = pos + 1
+        while (end < text.length && isIdentPart(text[end])) end++
+        const word = text.slice(pos, end)
+        push(PINE_KEYWORDS.has(word) ? 'keyword' : 'identifier', word, lineNo, column, end + 1)
+        pos = end
+        continue
+      }
+
+      // Operators and punctuation
+      const op = OPERATORS.find((candidate) => text.startsWith(candidate, pos))
+      if (op) {
+        if (OPENERS[op]) {
+          brackets.push({ char: op, line: lineNo, column, lineIndent: logicalLineIndent })
+        } else if (CLOSERS[op]) {
+          const open = brackets[brackets.length - 1]
+          if (!open) {
+            diagnostics.push({
+              line: lineNo,
+              column,
+              message: `Unexpected '${op}' without a matching '${CLOSERS[op]}'`,
+              type: 'error',
+              code: 'unmatched-bracket',
+            })
+          } else {
+            if (open.char !== CLOSERS[op]) {
+              diagnostics.push({
+                line: lineNo,
+                column,
+                message: `Mismatched ${bracketName(open.char)}: '${op}' closes '${open.char}' opened at line ${open.line}, column ${open.column}`,
+                type: 'error',
+                code: 'mismatched-bracket',
+              })
+            }
+            brackets.pop()
+          }
+        }
+        push('operator', op, lineNo, column, column + op.length)
+        pos += op.length
+        continue
+      }
+
+      diagnostics.push({
+        line: lineNo,
+        column,
+        message: `Unexpected character '${ch}'`,
+        type: 'error',
+        code: 'unexpected-character',
+      })
+      pos++
+    }
+  }
+
+  reportUnclosed()
+
+  const last = tokens[tokens.length - 1]
+  const endLine = last ? last.endLine : 1
+  const endColumn = last ? last.endColumn : 1
+  if (hasPendingLine) {
+    push('newline', '', endLine, endColumn, endColumn)
+  }
+  while (indentStack.length > 1) {
+    indentStack.pop()
+    push('dedent', '', endLine, endColumn, endColumn)
+  }
+  push('eof', '', endLine, endColumn, endColumn)
+
+  return { tokens, annotations, diagnostics }
+}
+
+/**
+ * Parse a `//@name value` annotation comment
+ */
+function parseAnnotation(comment: string, line: number): Annotation | null {
+  const match = /^\/\/\s*@(\w+)\s*(?:=\s*)?(.*)$/.exec(comment)
+  if (!match) return null
+  return { name: match[1], value: match[2].trim(), line }
+}
+
+function bracketName(open: string): string {
+  return open === '(' ? 'parentheses' : 'square brackets'
+}
+
+function unescape(ch: string): string {
+  switch (ch) {
+    case 'n': return '\n'
+    case 't': return '\t'
+    default: return ch
+  }
+}
+
+function isDigit(ch: string | undefined): boolean {
+  return ch !== undefined && ch >= '0' && ch <= '9'
+}
+
+function isIdentStart(ch: string): boolean {
+  return /[A-Za-z_]/.test(ch)
+}
+
+function isIdentPart(ch: string): boolean {
+  return /[A-Za-z0-9_]/.test(ch)
+}
@@ -0,0 +1,481 @@
+/**
+ * Pine Script Version Migration
+ *
+ * Rule-based rewriter that upgrades scripts from v4 to v5 and from v5 to v6.
+ * Rules match on the AST but edit the original source text by span, so
+ * formatting, comments and untouched code come out exactly as they went in.
+ *
+ * Rewriting runs in passes: overlapping edits (a rename inside an `iff()` that
+ * is itself being rewritten) wait for the next pass, which re-parses the
+ * partially migrated script. Every rule is idempotent, so the loop ends once a
+ * pass produces no edits.
+ */
+
+import { parsePineScript } from './parser'
+import { getBuiltinFunction } from './builtins'
+import { V4_COLOR_NAMES, V4_FUNCTION_RENAMES } from './syntax-check'
+import { getQualifiedName, walkProgram, type PineNode } from './walk'
+import type { Argument, CallExpression, Expression, Program, SourceSpan } from './ast'
+
+/**
+ * A rewrite applied by the migration
+ */
+export interface PineRewrite {
+  /** Rule that produced the rewrite (e.g. `rename-function`, `transp-to-color-new`) */
+  rule: string
+  /** Line of the rewritten code, in the script as it was when the rewrite was applied */
+  line: number
+  description: string
+}
+
+export interface MigrationResult {
+  script: string
+  /** Version the script declared before migration (null when it had no `//@version`) */
+  fromVersion: number | null
+  toVersion: number
+  rewrites: PineRewrite[]
+}
+
+interface TextEdit {
+  start: number
+  end: number
+  text: string
+}
+
+interface PendingRewrite extends PineRewrite {
+  /** Edits are applied together or not at all */
+  edits: TextEdit[]
+}
+
+interface RuleContext {
+  source: string
+  lineOffsets: number[]
+  /** Names the script declares itself; rules never rewrite these */
+  userNames: Set<string>
+}
+
+type Rule = (node: PineNode, parents: PineNode[], context: RuleContext) => PendingRewrite | null
+
+const MAX_PASSES = 5
+
+// v4 built-in variables that moved into the ta namespace
+const V4_VARIABLE_RENAMES: Record<string, string> = {
+  accdist: 'ta.accdist',
+  iii: 'ta.iii',
+  nvi: 'ta.nvi',
+  obv: 'ta.obv',
+  pvi: 'ta.pvi',
+  pvt: 'ta.pvt',
+  tr: 'ta.tr',
+  vwap: 'ta.vwap',
+  wad: 'ta.wad',
+  wvad: 'ta.wvad',
+}
+
+// v4 `input(type=input.integer)` → v5 `input.int()`
+const V4_INPUT_TYPES: Record<string, string> = {
+  integer: 'int',
+  float: 'float',
+  bool: 'bool',
+  string: 'string',
+  source: 'source',
+  resolution: 'timeframe',
+  session: 'session',
+  symbol: 'symbol',
+  color: 'color',
+  time: 'time',
+  price: 'price',
+}
+
+const TRANSP_FUNCTIONS = new Set(['plot', 'plotshape', 'plotchar', 'plotarrow', 'bgcolor', 'fill'])
+
+const STRATEGY_ORDER_FUNCTIONS = new Set(['strategy.entry', 'strategy.order'])
+
+const STRATEGY_WHEN_FUNCTIONS = new Set([
+  'strategy.entry',
+  'strategy.order',
+  'strategy.exit',
+  'strategy.close',
+  'strategy.close_all',
+  'strategy.cancel',
+  'strategy.cancel_all',
+])
+
+/**
+ * Upgrade a script to `targetVersion`.
+ * By default v4 (and unversioned) scripts move to v5 and newer scripts keep their version,
+ * which still applies the v4→v5 rules to v5 scripts that use v4 built-ins.
+ */
+export function migratePineScript(script: string, targetVersion?: number): MigrationResult {
+  const fromVersion = parsePineScript(script).program.version
+  const toVersion = targetVersion ?? Math.max(5, fromVersion ?? 5)
+
+  const rules: Rule[] = []
+  if (toVersion >= 5 && (fromVersion === null || fromVersion <= 5)) {
+    rules.push(renameFunction, renameVariable, inputType, transpToColorNew, iffToTernary, strategyDirection)
+  }
+  if (toVersion >= 6) {
+    rules.push(strategyWhen)
+  }
+
+  let current = script
+  const rewrites: PineRewrite[] = []
+
+  const versionRewrite = updateVersionAnnotation(current, toVersion)
+  if (versionRewrite) {
+    current = applyEdits(current, versionRewrite.edits)
+    rewrites.push(toRewrite(versionRewrite))
+  }
+
+  for (let pass = 0; pass < MAX_PASSES; pass++) {
+    const pending = collectRewrites(current, rules)
+    if (pending.length === 0) break
+
+    const accepted = selectNonOverlapping(pending)
+    current = applyEdits(current, accepted.flatMap((rewrite) => rewrite.edits))
+    rewrites.push(...accepted.map(toRewrite))
+  }
+
+  rewrites.sort((a, b) => a.line - b.line)
+  return { script: current, fromVersion, toVersion, rewrites }
+}
+
+// ============ Rewrite Engine ============
+
+function collectRewrites(source: string, rules: Rule[]): PendingRewrite[] {
+  const { program } = parsePineScript(source)
+  const context: RuleContext = {
+    source,
+    lineOffsets: computeLineOffsets(source),
+    userNames: collectUserNames(program),
+  }
+
+  const pending: PendingRewrite[] = []
+  walkProgram(program, (node, { parents }) => {
+    for (const rule of rules) {
+      const rewrite = rule(node, parents, context)
+      if (rewrite) pending.push(rewrite)
+    }
+  })
+  return pending
+}
+
+function selectNonOverlapping(pending: PendingRewrite[]): PendingRewrite[] {
+  const sorted = [...pending].sort((a, b) => firstStart(a) - firstStart(b))
+  const taken: TextEdit[] = []
+  const accepted: PendingRewrite[] = []
+
+  for (const rewrite of sorted) {
+    const overlaps = rewrite.edits.some((edit) =>
+      taken.some((other) => edit.start < other.end && other.start < edit.end)
+    )
+    if (overlaps) continue
+    taken.push(...rewrite.edits)
+    accepted.push(rewrite)
+  }
+  return accepted
+}
+
+function applyEdits(source: string, edits: TextEdit[]): string {
+  let result = source
+  for (const edit of [...edits].sort((a, b) => b.start - a.start)) {
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end)
+  }
+  return result
+}
+
+function firstStart(rewrite: PendingRewrite): number {
+  return Math.min(...rewrite.edits.map((edit) => edit.start))
+}
+
+function toRewrite({ rule, line, description }: PendingRewrite): PineRewrite {
+  return { rule, line, description }
+}
+
+function computeLineOffsets(source: string): number[] {
+  const offsets = [0]
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === '\n') offsets.push(i + 1)
+  }
+  return offsets
+}
+
+function startOf(span: SourceSpan, context: RuleContext): number {
+  return context.lineOffsets[span.line - 1] + span.column - 1
+}
+
+function endOf(span: SourceSpan, context: RuleContext): number {
+  return context.lineOffsets[span.endLine - 1] + span.endColumn - 1
+}
+
+function textOf(span: SourceSpan, context: RuleContext): string {
+  return context.source.slice(startOf(span, context), endOf(span, context))
+}
+
+function replaceSpan(span: SourceSpan, text: string, context: RuleContext): TextEdit {
+  return { start: startOf(span, context), end: endOf(span, context), text }
+}
+
+/**
+ * Delete an argument together with the comma that separates it from its neighbour
+ */
+function removeArgument(call: CallExpression, index: number, context: RuleContext): TextEdit {
+  const arg = call.args[index]
+  if (index > 0) {
+    return { start: endOf(call.args[index - 1].span, context), end: endOf(arg.span, context), text: '' }
+  }
+  const next = call.args[index + 1]
+  return {
+    start: startOf(arg.span, context),
+    end: next ? startOf(next.span, context) : endOf(arg.span, context),
+    text: '',
+  }
+}
+
+/**
+ * Call text with some arguments left out, used when a rewrite re-emits the whole call
+ */
+function callTextWithout(call: CallExpression, omit: Set<Argument>, context: RuleContext): string {
+  const kept = call.args.filter((arg) => !omit.has(arg)).map((arg) => textOf(arg.span, context))
+  return `${textOf(call.callee.span, context)}(${kept.join(', ')})`
+}
+
+function collectUserNames(program: Program): Set<string> {
+  const names = new Set<string>()
+  walkProgram(program, (node) => {
+    switch (node.kind) {
+      case 'VariableDeclaration':
+        names.add(node.name.name)
+        break
+      case 'TupleDeclaration':
+        for (const name of node.names) names.add(name.name)
+        break
+      case 'FunctionDeclaration':
+        names.add(node.name.name)
+        for (const param of node.params) names.add(param.name.name)
+        break
+      case 'For':
+        names.add(node.counter.name)
+        break
+      case 'ForIn':
+        for (const binding of node.bindings) names.add(binding.name)
+        break
+    }
+  })
+  return names
+}
+
+function builtinCallName(node: PineNode, context: RuleContext): string | null {
+  if (node.kind !== 'Call') return null
+  const name = getQualifiedName(node.callee)
+  if (!name || context.userNames.has(name.split('.')[0])) return null
+  return name
+}
+
+function findNamedArgument(call: CallExpression, name: string): number {
+  return call.args.findIndex((arg) => arg.name?.name === name)
+}
+
+// ============ Version Annotation ============
+
+function updateVersionAnnotation(source: string, toVersion: number): PendingRewrite | null {
+  const match = /^([ \t]*\/\/[ \t]*@version[ \t]*=[ \t]*)(\d+)/m.exec(source)
+  if (!match) {
+    return {
+      rule: 'add-version',
+      line: 1,
+      description: `Added //@version=${toVersion}`,
+      edits: [{ start: 0, end: 0, text: `//@version=${toVersion}\n` }],
+    }
+  }
+
+  const current = parseInt(match[2])
+  if (current >= toVersion) return null
+
+  const start = match.index + match[1].length
+  return {
+    rule: 'update-version',
+    line: source.slice(0, match.index).split('\n').length,
+    description: `//@version=${current} → //@version=${toVersion}`,
+    edits: [{ start, end: start + match[2].length, text: String(toVersion) }],
+  }
+}
+
+// ============ v4 → v5 Rules ============
+
+const renameFunction: Rule = (node, _parents, context) => {
+  if (node.kind !== 'Call' || node.callee.kind !== 'Identifier') return null
+  const name = node.callee.name
+  const replacement = V4_FUNCTION_RENAMES[name]
+  if (!replacement || context.userNames.has(name)) return null
+
+  return {
+    rule: 'rename-function',
+    line: node.callee.span.line,
+    description: `${name}() → ${replacement}()`,
+    edits: [replaceSpan(node.callee.span, replacement, context)],
+  }
+}
+
+const renameVariable: Rule = (node, parents, context) => {
+  if (node.kind !== 'Identifier' || context.userNames.has(node.name)) return null
+
+  const parent = parents[parents.length - 1]
+  if (parent?.kind === 'Call' && parent.callee === node) return null
+
+  const replacement = V4_VARIABLE_RENAMES[node.name] ??
+    (V4_COLOR_NAMES.has(node.name) ? `color.${node.name}` : undefined)
+  if (!replacement) return null
+
+  return {
+    rule: 'rename-variable',
+    line: node.span.line,
+    description: `${node.name} → ${replacement}`,
+    edits: [replaceSpan(node.span, replacement, context)],
+  }
+}
+
+const inputType: Rule = (node, _parents, context) => {
+  if (builtinCallName(node, context) !== 'input') return null
+  const call = node as CallExpression
+
+  const typeIndex = findNamedArgument(call, 'type')
+  if (typeIndex === -1) return null
+  const typeName = getQualifiedName(call.args[typeIndex].value)
+  const v5Type = typeName?.startsWith('input.') ? V4_INPUT_TYPES[typeName.slice('input.'.length)] : undefined
+  if (!v5Type) return null
+
+  return {
+    rule: 'input-type',
+    line: call.span.line,
+    description: `input(type=${typeName}) → input.${v5Type}()`,
+    edits: [
+      replaceSpan(call.callee.span, `input.${v5Type}`, context),
+      removeArgument(call, typeIndex, context),
+    ],
+  }
+}
+
+const transpToColorNew: Rule = (node, _parents, context) => {
+  const name = builtinCallName(node, context)
+  if (!name || !TRANSP_FUNCTIONS.has(name)) return null
+  const call = node as CallExpression
+
+  const transpIndex = findNamedArgument(call, 'transp')
+  if (transpIndex === -1) return null
+
+  const colorArg = findColorArgument(call, name)
+  // Without a color to wrap there is nothing mechanical to do; leave it for the fix prompt
+  if (!colorArg) return null
+
+  const colorText = textOf(colorArg.value.span, context)
+  const transpText = textOf(call.args[transpIndex].value.span, context)
+  return {
+    rule: 'transp-to-color-new',
+    line: call.span.line,
+    description: `${name}(transp=${transpText}) → color.new(${colorText}, ${transpText})`,
+    edits: [
+      replaceSpan(colorArg.value.span, `color.new(${colorText}, ${transpText})`, context),
+      removeArgument(call, transpIndex, context),
+    ],
+  }
+}
+
+function findColorArgument(call: CallExpression, name: string): Argument | undefined {
+  const named = call.args.find((arg) => arg.name?.name === 'color')
+  if (named) return named
+
+  const signature = getBuiltinFunction(name, 5)?.overloads[0]
+  const position = signature?.params.findIndex((param) => param.name === 'color') ?? -1
+  const arg = position === -1 ? undefined : call.args[position]
+  return arg && !arg.name ? arg : undefined
+}
+
+const iffToTernary: Rule = (node, _parents, context) => {
+  if (builtinCallName(node, context) !== 'iff') return null
+  const call = node as CallExpression
+  if (call.args.length !== 3 || call.args.some((arg) => arg.name)) return null
+
+  const [test, consequent, alternate] = call.args.map((arg) => textOf(arg.span, context))
+  return {
+    rule: 'iff-to-ternary',
+    line: call.span.line,
+    description: 'iff(cond, a, b) → (cond ? a : b)',
+    edits: [replaceSpan(call.span, `(${test} ? ${consequent} : ${alternate})`, context)],
+  }
+}
+
+const strategyDirection: Rule = (node, _parents, context) => {
+  const name = builtinCallName(node, context)
+  if (!name || !STRATEGY_ORDER_FUNCTIONS.has(name)) return null
+  const call = node as CallExpression
+
+  const longIndex = findNamedArgument(call, 'long')
+  if (longIndex !== -1) {
+    const arg = call.args[longIndex]
+    return {
+      rule: 'strategy-direction',
+      line: arg.span.line,
+      description: `${name}(long=...) → ${name}(direction=...)`,
+      edits: [replaceSpan(arg.span, `direction=${directionText(arg.value, context)}`, context)],
+    }
+  }
+
+  const positional = call.args[1]
+  if (positional && !positional.name && positional.value.kind === 'Boolean') {
+    return {
+      rule: 'strategy-direction',
+      line: positional.span.line,
+      description: `${name}(id, ${positional.value.value}) → ${name}(id, ${directionText(positional.value, context)})`,
+      edits: [replaceSpan(positional.span, directionText(positional.value, context), context)],
+    }
+  }
+  return null
+}
+
+function directionText(value: Expression, context: RuleContext): string {
+  if (value.kind === 'Boolean') return value.value ? 'strategy.long' : 'strategy.short'
+  return `(${textOf(value.span, context)} ? strategy.long : strategy.short)`
+}
+
+// ============ v5 → v6 Rules ============
+
+/**
+ * v6 removed the `when` parameter; the order call moves into an `if` block instead
+ */
+const strategyWhen: Rule = (node, _parents, context) => {
+  if (node.kind !== 'ExpressionStatement') return null
+  const name = builtinCallName(node.expression, context)
+  if (!name || !STRATEGY_WHEN_FUNCTIONS.has(name)) return null
+  const call = node.expression as CallExpression
+
+  const whenIndex = findNamedArgument(call, 'when')
+  if (whenIndex === -1) return null
+  const when = call.args[whenIndex]
+
+  if (when.value.kind === 'Boolean' && when.value.value) {
+    return {
+      rule: 'strategy-when',
+      line: when.span.line,
+      description: `Removed ${name}(when=true)`,
+      edits: [removeArgument(call, whenIndex, context)],
+    }
+  }
+
+  // Multi-line calls would need their continuation lines re-indented; leave those to the fix prompt
+  if (node.span.line !== node.span.endLine) return null
+
+  const lineText = context.source.slice(context.lineOffsets[node.span.line - 1]).split('\n')[0]
+  const indent = /^\s*/.exec(lineText)![0]
+  const condition = textOf(when.value.span, context)
+  return {
+    rule: 'strategy-when',
+    line: node.span.line,
+    description: `${name}(..., when=${condition}) → if ${condition}`,
+    edits: [replaceSpan(
+      node.span,
+      `if ${condition}\n${indent}    ${callTextWithout(call, new Set([when]), context)}`,
+      context
+    )],
+  }
+}
@@ -0,0 +1,825 @@
+/**
+ * Pine Script Parser
+ *
+ * Recursive-descent parser for Pine Script v5/v6 built on the token stream
+ * from lexer.ts. Produces a Program AST with source spans and collects
+ * diagnostics instead of stopping at the first error: after a syntax error
+ * the parser skips to the next statement (and any block that belongs to it)
+ * and carries on, so one run reports every broken statement.
+ */
+
+import { tokenize, type Token } from './lexer'
+import type {
+  Argument,
+  EnumDeclaration,
+  EnumField,
+  Expression,
+  FunctionDeclaration,
+  Identifier,
+  IfExpression,
+  ImportStatement,
+  Parameter,
+  PineDiagnostic,
+  Program,
+  SourceSpan,
+  Statement,
+  SwitchCase,
+  TypeAnnotation,
+  TypeDeclaration,
+  TypeField,
+  TypeQualifier,
+} from './ast'
+
+export interface ParseResult {
+  program: Program
+  diagnostics: PineDiagnostic[]
+}
+
+const QUALIFIERS = new Set<string>(['const', 'input', 'simple', 'series'])
+const COMPOUND_ASSIGNMENT = new Set([':=', '+=', '-=', '*=', '/=', '%='])
+const MAX_DIAGNOSTICS = 50
+// Block declarations the parser understands; `export` is followed by one of these
+const KNOWN_DECLARATIONS = new Set(['type', 'enum', 'export'])
+
+class PineParseError extends Error {
+  constructor(
+    message: string,
+    public token: Token
+  ) {
+    super(message)
+  }
+}
+
+/**
+ * Parse a Pine Script source string into an AST
+ */
+export function parsePineScript(source: string): ParseResult {
+  const lexed = tokenize(source)
+  const tokens = lexed.tokens
+  const diagnostics: PineDiagnostic[] = [...lexed.diagnostics]
+  const linesWithErrors = new Set(lexed.diagnostics.map((d) => d.line))
+
+  let pos = 0
+  let lastSignificant: Token = tokens[0]
+
+  // ============ Token helpers ============
+
+  const current = (): Token => tokens[pos]
+  const peek = (offset: number): Token => tokens[Math.min(pos + offset, tokens.length - 1)]
+  const tokenAt = (index: number): Token => tokens[Math.min(index, tokens.length - 1)]
+
+  const isOp = (token: Token, value: string) => token.type === 'operator' && token.value === value
+  const isKeyword = (token: Token, value: string) => token.type === 'keyword' && token.value === value
+
+  const advance = (): Token => {
+    const token = tokens[pos]
+    if (pos < tokens.length - 1) pos++
+    if (token.type !== 'newline' && token.type !== 'indent' && token.type !== 'dedent') {
+      lastSignificant = token
+    }
+    return token
+  }
+
+  const fail = (message: string, token: Token = current()): never => {
+    throw new PineParseError(message, token)
+  }
+
+  const expectOp = (value: string, context: string): Token => {
+    if (!isOp(current(), value)) {
+      fail(`Expected '${value}' ${context}, found ${describe(current())}`)
+    }
+    return advance()
+  }
+
+  const expectIdentifier = (context: string): Identifier => {
+    const token = current()
+    if (token.type !== 'identifier') {
+      fail(`Expected identifier ${context}, found ${describe(token)}`)
+    }
+    advance()
+    return identifierFrom(token)
+  }
+
+  const report = (message: string, token: Token, code = 'syntax-error', type: PineDiagnostic['type'] = 'error') => {
+    if (linesWithErrors.has(token.line) || diagnostics.length >= MAX_DIAGNOSTICS) return
+    linesWithErrors.add(token.line)
+    diagnostics.push({
+      line: token.line,
+      column: token.column,
+      endLine: token.endLine,
+      endColumn: token.endColumn,
+      message,
+      type,
+      code,
+    })
+  }
+
+  const spanFrom = (start: Token | SourceSpan): SourceSpan => ({
+    line: start.line,
+    column: start.column,
+    endLine: lastSignificant.endLine,
+    endColumn: lastSignificant.endColumn,
+  })
+
+  /**
+   * Skip the rest of a broken statement, including any indented block that follows it
+   */
+  const synchronize = () => {
+    let depth = 0
+    while (current().type !== 'eof') {
+      const token = current()
+      if (token.type === 'indent') {
+        depth++
+        advance()
+      } else if (token.type === 'dedent') {
+        if (depth === 0) return
+        depth--
+        advance()
+        if (depth === 0 && current().type !== 'indent') return
+      } else if (token.type === 'newline') {
+        advance()
+        if (depth === 0 && current().type !== 'indent') return
+      } else {
+        advance()
+      }
+    }
+  }
+
+  const endStatement = () => {
+    const token = current()
+    if (token.type === 'newline') {
+      advance()
+      return
+    }
+    if (token.type === 'eof' || token.type === 'dedent') return
+    // Statements ending in an indented block have no trailing NEWLINE
+    if (tokens[pos - 1]?.type === 'dedent') return
+    fail(`Unexpected ${describe(token)} after end of statement`)
+  }
+
+  // ============ Lookahead scanners ============
+
+  /** Returns the index after a type annotation starting at `index`, or -1 */
+  const scanType = (index: number): number => {
+    let i = index
+    if (tokenAt(i).type === 'identifier' && QUALIFIERS.has(tokenAt(i).value) && tokenAt(i + 1).type === 'identifier') {
+      i++
+    }
+    if (tokenAt(i).type !== 'identifier') return -1
+    i++
+    while (isOp(tokenAt(i), '.') && tokenAt(i + 1).type === 'identifier') i += 2
+    if (isOp(tokenAt(i), '<')) {
+      const end = scanTypeArguments(i)
+      if (end === -1) return -1
+      i = end
+    }
+    if (isOp(tokenAt(i), '[') && isOp(tokenAt(i + 1), ']')) i += 2
+    return i
+  }
+
+  /** Returns the index after `<T, U>` starting at `index` (pointing at '<'), or -1 */
+  const scanTypeArguments = (index: number): number => {
+    let i = index + 1
+    for (;;) {
+      const end = scanType(i)
+      if (end === -1) return -1
+      i = end
+      if (isOp(tokenAt(i), ',')) {
+        i++
+        continue
+      }
+      if (isOp(tokenAt(i), '>')) return i + 1
+      return -1
+    }
+  }
+
+  /** Returns the index of the bracket matching the opener at `index`, or -1 */
+  const scanMatching = (index: number): number => {
+    const open = tokenAt(index).value
+    const close = open === '(' ? ')' : ']'
+    let depth = 0
+    for (let i = index; i < tokens.length; i++) {
+      const token = tokens[i]
+      if (token.type === 'newline' || token.type === 'eof') return -1
+      if (isOp(token, open)) depth++
+      else if (isOp(token, close)) {
+        depth--
+        if (depth === 0) return i
+      }
+    }
+    return -1
+  }
+
+  const isTypedDeclarationAt = (index: number): boolean => {
+    const end = scanType(index)
+    return end !== -1 && tokenAt(end).type === 'identifier' && isOp(tokenAt(end + 1), '=')
+  }
+
+  /** `<word> <Name>` followed by an indented block: a declaration form (`type`, `enum`) */
+  const isBlockDeclarationAt = (index: number): boolean =>
+    tokenAt(index).type === 'identifier' &&
+    tokenAt(index + 1).type === 'identifier' &&
+    tokenAt(index + 2).type === 'newline' &&
+    tokenAt(index + 3).type === 'indent'
+
+  const isFunctionDeclarationAt = (index: number): boolean => {
+    if (tokenAt(index).type !== 'identifier' || !isOp(tokenAt(index + 1), '(')) return false
+    const close = scanMatching(index + 1)
+    return close !== -1 && isOp(tokenAt(close + 1), '=>')
+  }
+
+  // ============ Statements ============
+
+  const parseStatements = (isEnd: () => boolean): Statement[] => {
+    const body: Statement[] = []
+    while (!isEnd() && current().type !== 'eof') {
+      const token = current()
+      if (token.type === 'newline') {
+        advance()
+        continue
+      }
+      if (token.type === 'indent') {
+        report('Unexpected indentation', token, 'unexpected-indent')
+        synchronize()
+        continue
+      }
+      if (token.type === 'dedent') {
+        // Stray dedent from an earlier indentation error
+        advance()
+        continue
+      }
+      if (isBlockDeclarationAt(pos) && !KNOWN_DECLARATIONS.has(token.value)) {
+        // Newer language constructs the parser does not model yet: leave them to TradingView
+        report(`Unrecognized declaration '${token.value} ${peek(1).value}'; skipped local checks for this block`,
+          token, 'unsupported-syntax', 'warning')
+        synchronize()
+        continue
+      }
+      try {
+        body.push(parseStatement())
+      } catch (error) {
+        if (!(error instanceof PineParseError)) throw error
+        report(error.message, error.token)
+        synchronize()
+      }
+    }
+    return body
+  }
+
+  /**
+   * Parse NEWLINE INDENT statements DEDENT following a block header
+   */
+  const parseBlock = (header: Token, context: string): Statement[] => {
+    if (current().type !== 'newline') {
+      fail(`Expected end of line after ${context}, found ${describe(current())}`)
+    }
+    advance()
+    if (current().type !== 'indent') {
+      report(`Expected an indented block after ${context} on line ${header.line}`, header, 'missing-block')
+      return []
+    }
+    advance()
+    const body = parseStatements(() => current().type === 'dedent')
+    if (current().type === 'dedent') advance()
+    return body
+  }
+
+  const parseStatement = (): Statement => {
+    const token = current()
+
+    if (isIdentifierValue(token, 'import') && peek(1).type === 'identifier') return parseImport()
+    if (isKeyword(token, 'break') || isKeyword(token, 'continue')) {
+      advance()
+      endStatement()
+      return { kind: isKeyword(token, 'break') ? 'Break' : 'Continue', span: spanFrom(token) }
+    }
+
+    let isExport = false
+    if (isIdentifierValue(token, 'export') && peek(1).type === 'identifier') {
+      isExport = true
+      advance()
+    }
+    if (isIdentifierValue(current(), 'type') && peek(1).type === 'identifier' && peek(2).type === 'newline') {
+      return parseTypeDeclaration(token, isExport)
+    }
+    if (isIdentifierValue(current(), 'enum') && peek(1).type === 'identifier' && peek(2).type === 'newline') {
+      return parseEnumDeclaration(token, isExport)
+    }
+    if (isIdentifierValue(current(), 'method') && peek(1).type === 'identifier' && isOp(peek(2), '(')) {
+      advance()
+      return parseFunctionDeclaration(token, true, isExport)
+    }
+    if (isExport) {
+      return parseFunctionDeclaration(token, false, true)
+    }
+    if (isFunctionDeclarationAt(pos)) {
+      return parseFunctionDeclaration(token, false, false)
+    }
+
+    if (isKeyword(token, 'var') || isKeyword(token, 'varip')) {
+      advance()
+      return parseVariableDeclaration(token, token.value as 'var' | 'varip')
+    }
+
+    if (isOp(token, '[')) {
+      const close = scanMatching(pos)
+      if (close !== -1 && isOp(tokenAt(close + 1), '=')) return parseTupleDeclaration()
+    }
+
+    if (isTypedDeclarationAt(pos) || (token.type === 'identifier' && isOp(peek(1), '='))) {
+      return parseVariableDeclaration(token)
+    }
+
+    const expression = parseExpression()
+    const op = current()
+    if (op.type === 'operator' && COMPOUND_ASSIGNMENT.has(op.value)) {
+      if (expression.kind !== 'Identifier' && expression.kind !== 'Member') {
+        fail(`Cannot assign to this expression with '${op.value}'`, op)
+      }
+      advance()
+      const value = parseExpression()
+      const span = spanFrom(expression.span)
+      endStatement()
+      return { kind: 'Assignment', operator: op.value, target: expression, value, span }
+    }
+    if (isOp(op, '=')) {
+      fail(expression.kind === 'Member'
+        ? `Cannot declare a field with '='; use ':=' to assign`
+        : `Unexpected '='; use '==' to compare or ':=' to reassign`, op)
+    }
+
+    const span = spanFrom(expression.span)
+    endStatement()
+    return { kind: 'ExpressionStatement', expression, span }
+  }
+
+  const parseVariableDeclaration = (start: Token, modifier?: 'var' | 'varip'): Statement => {
+    const type = isTypedDeclarationAt(pos) ? parseTypeAnnotation() : undefined
+    const name = expectIdentifier('in variable declaration')
+    expectOp('=', `after variable name '${name.name}'`)
+    const init = parseExpression()
+    const span = spanFrom(start)
+    endStatement()
+    return { kind: 'VariableDeclaration', modifier, type, name, init, span }
+  }
+
+  const parseTupleDeclaration = (): Statement => {
+    const start = advance()
+    const names: Identifier[] = []
+    while (!isOp(current(), ']')) {
+      names.push(expectIdentifier('in tuple declaration'))
+      if (!isOp(current(), ']')) expectOp(',', 'between tuple elements')
+    }
+    advance()
+    expectOp('=', 'after tuple declaration')
+    const init = parseExpression()
+    const span = spanFrom(start)
+    endStatement()
+    return { kind: 'TupleDeclaration', names, init, span }
+  }
+
+  const parseFunctionDeclaration = (start: Token, isMethod: boolean, isExport: boolean): FunctionDeclaration => {
+    const name = expectIdentifier('for function name')
+    expectOp('(', `after function name '${name.name}'`)
+    const params: Parameter[] = []
+    while (!isOp(current(), ')')) {
+      const paramStart = current()
+      const type = scanType(pos) !== -1 && tokenAt(scanType(pos)).type === 'identifier' ? parseTypeAnnotation() : undefined
+      const paramName = expectIdentifier('for parameter name')
+      let defaultValue: Expression | undefined
+      if (isOp(current(), '=')) {
+        advance()
+        defaultValue = parseExpression()
+      }
+      params.push({ name: paramName, type, defaultValue, span: spanFrom(paramStart) })
+      if (!isOp(current(), ')')) expectOp(',', 'between parameters')
+    }
+    advance()
+    const arrow = expectOp('=>', `after parameters of '${name.name}'`)
+
+    let body: Statement[]
+    if (current().type === 'newline') {
+      body = parseBlock(arrow, `function '${name.name}'`)
+    } else {
+      const expression = parseExpression()
+      body = [{ kind: 'ExpressionStatement', expression, span: expression.span }]
+      endStatement()
+    }
+    return { kind: 'FunctionDeclaration', name, params, body, isMethod, isExport, span: spanFrom(start) }
+  }
+
+  const parseTypeDeclaration = (start: Token, isExport: boolean): TypeDeclaration => {
+    const keyword = advance()
+    const name = expectIdentifier('for type name')
+    const fields: TypeField[] = []
+    if (current().type !== 'newline') fail(`Expected end of line after type '${name.name}'`)
+    advance()
+    if (current().type !== 'indent') {
+      report(`Expected indented field list for type '${name.name}'`, keyword, 'missing-block')
+      return { kind: 'TypeDeclaration', name, fields, isExport, span: spanFrom(start) }
+    }
+    advance()
+    while (current().type !== 'dedent' && current().type !== 'eof') {
+      if (current().type === 'newline') {
+        advance()
+        continue
+      }
+      try {
+        const fieldStart = current()
+        const type = parseTypeAnnotation()
+        const fieldName = expectIdentifier('for field name')
+        let defaultValue: Expression | undefined
+        if (isOp(current(), '=')) {
+          advance()
+          defaultValue = parseExpression()
+        }
+        fields.push({ type, name: fieldName, defaultValue, span: spanFrom(fieldStart) })
+        endStatement()
+      } catch (error) {
+        if (!(error instanceof PineParseError)) throw error
+        report(error.message, error.token)
+        synchronize()
+      }
+    }
+    if (current().type === 'dedent') advance()
+    return { kind: 'TypeDeclaration', name, fields, isExport, span: spanFrom(start) }
+  }
+
+  const parseEnumDeclaration = (start: Token, isExport: boolean): EnumDeclaration => {
+    const keyword = advance()
+    const name = expectIdentifier('for enum name')
+    const fields: EnumField[] = []
+    if (current().type !== 'newline') fail(`Expected end of line after enum '${name.name}'`)
+    advance()
+    if (current().type !== 'indent') {
+      report(`Expected indented field list for enum '${name.name}'`, keyword, 'missing-block')
+      return { kind: 'EnumDeclaration', name, fields, isExport, span: spanFrom(start) }
+    }
+    advance()
+    while (current().type !== 'dedent' && current().type !== 'eof') {
+      if (current().type === 'newline') {
+        advance()
+        continue
+      }
+      try {
+        const fieldStart = current()
+        const fieldName = expectIdentifier('for enum field name')
+        let title: Expression | undefined
+        if (isOp(current(), '=')) {
+          advance()
+          title = parseExpression()
+        }
+        fields.push({ name: fieldName, title, span: spanFrom(fieldStart) })
+        endStatement()
+      } catch (error) {
+        if (!(error instanceof PineParseError)) throw error
+        report(error.message, error.token)
+        synchronize()
+      }
+    }
+    if (current().type === 'dedent') advance()
+    return { kind: 'EnumDeclaration', name, fields, isExport, span: spanFrom(start) }
+  }
+
+  const parseImport = (): ImportStatement => {
+    const start = advance()
+    let path = ''
+    while (current().type !== 'newline' && current().type !== 'eof' && !isIdentifierValue(current(), 'as')) {
+      path += advance().value
+    }
+    if (!path) fail("Expected library path after 'import'")
+    let alias: Identifier | undefined
+    if (isIdentifierValue(current(), 'as')) {
+      advance()
+      alias = expectIdentifier("after 'as'")
+    }
+    const span = spanFrom(start)
+    endStatement()
+    return { kind: 'Import', path, alias, span }
+  }
+
+  const parseTypeAnnotation = (): TypeAnnotation => {
+    const start = current()
+    let qualifier: TypeQualifier | undefined
+    if (start.type === 'identifier' && QUALIFIERS.has(start.value) && peek(1).type === 'identifier') {
+      qualifier = advance().value as TypeQualifier
+    }
+    let name = expectIdentifier('for type name').name
+    while (isOp(current(), '.') && peek(1).type === 'identifier') {
+      advance()
+      name += '.' + advance().value
+    }
+    let typeArguments: TypeAnnotation[] | undefined
+    if (isOp(current(), '<')) {
+      typeArguments = parseTypeArguments()
+    }
+    let isArray: boolean | undefined
+    if (isOp(current(), '[') && isOp(peek(1), ']')) {
+      advance()
+      advance()
+      isArray = true
+    }
+    return { kind: 'Type', qualifier, name, typeArguments, isArray, span: spanFrom(start) }
+  }
+
+  const parseTypeArguments = (): TypeAnnotation[] => {
+    expectOp('<', 'to open type arguments')
+    const args: TypeAnnotation[] = [parseTypeAnnotation()]
+    while (isOp(current(), ',')) {
+      advance()
+      args.push(parseTypeAnnotation())
+    }
+    expectOp('>', 'to close type arguments')
+    return args
+  }
+
+  // ============ Expressions ============
+
+  const parseExpression = (): Expression => parseTernary()
+
+  const parseTernary = (): Expression => {
+    const test = parseBinary(0)
+    if (!isOp(current(), '?')) return test
+    advance()
+    const consequent = parseTernary()
+    expectOp(':', "in conditional expression (missing ':' after '?')")
+    const alternate = parseTernary()
+    return { kind: 'Ternary', test, consequent, alternate, span: spanFrom(test.span) }
+  }
+
+  // Lowest to highest precedence
+  const BINARY_LEVELS: Array<{ values: string[]; keyword: boolean }> = [
+    { values: ['or'], keyword: true },
+    { values: ['and'], keyword: true },
+    { values: ['==', '!='], keyword: false },
+    { values: ['<', '>', '<=', '>='], keyword: false },
+    { values: ['+', '-'], keyword: false },
+    { values: ['*', '/', '%'], keyword: false },
+  ]
+
+  const parseBinary = (level: number): Expression => {
+    if (level >= BINARY_LEVELS.length) return parseUnary()
+    const { values, keyword } = BINARY_LEVELS[level]
+    let left = parseBinary(level + 1)
+    for (;;) {
+      const token = current()
+      const matches = keyword
+        ? token.type === 'keyword' && values.includes(token.value)
+        : token.type === 'operator' && values.includes(token.value)
+      if (!matches) return left
+      advance()
+      const right = parseBinary(level + 1)
+      left = { kind: 'Binary', operator: token.value, left, right, span: spanFrom(left.span) }
+    }
+  }
+
+  const parseUnary = (): Expression => {
+    const token = current()
+    if (isOp(token, '-') || isOp(token, '+') || isKeyword(token, 'not')) {
+      advance()
+      const operand = parseUnary()
+      return { kind: 'Unary', operator: token.value as '-' | '+' | 'not', operand, span: spanFrom(token) }
+    }
+    return parsePostfix()
+  }
+
+  const parsePostfix = (): Expression => {
+    let expression = parsePrimary()
+    for (;;) {
+      const token = current()
+      if (isOp(token, '.')) {
+        advance()
+        const property = expectIdentifier("after '.'")
+        expression = { kind: 'Member', object: expression, property, span: spanFrom(expression.span) }
+      } else if (isOp(token, '(')) {
+        expression = parseCall(expression)
+      } else if (isOp(token, '<') && isCallee(expression)) {
+        const end = scanTypeArguments(pos)
+        if (end === -1 || !isOp(tokenAt(end), '(')) return expression
+        const typeArguments = parseTypeArguments()
+        expression = parseCall(expression, typeArguments)
+      } else if (isOp(token, '[')) {
+        advance()
+        const offset = parseExpression()
+        expectOp(']', 'to close history reference')
+        expression = { kind: 'History', target: expression, offset, span: spanFrom(expression.span) }
+      } else {
+        return expression
+      }
+    }
+  }
+
+  const parseCall = (callee: Expression, typeArguments?: TypeAnnotation[]): Expression => {
+    advance()
+    const args: Argument[] = []
+    while (!isOp(current(), ')')) {
+      const argStart = current()
+      let name: Identifier | undefined
+      if (argStart.type === 'identifier' && isOp(peek(1), '=')) {
+        name = identifierFrom(advance())
+        advance()
+      }
+      const value = parseExpression()
+      args.push({ name, value, span: spanFrom(argStart) })
+      if (isOp(current(), ')')) break
+      if (!isOp(current(), ',')) {
+        fail(`Expected ',' or ')' in argument list, found ${describe(current())}`)
+      }
+      advance()
+    }
+    advance()
+    return { kind: 'Call', callee, typeArguments, args, span: spanFrom(callee.span) }
+  }
+
+  const parsePrimary = (): Expression => {
+    const token = current()
+
+    switch (token.type) {
+      case 'number': {
+        advance()
+        const isFloat = /[.eE]/.test(token.value)
+        return { kind: 'Number', value: Number(token.value), raw: token.value, isFloat, span: spanFrom(token) }
+      }
+      case 'string':
+        advance()
+        return { kind: 'String', value: token.value, span: spanFrom(token) }
+      case 'color':
+        advance()
+        return { kind: 'Color', value: token.value, span: spanFrom(token) }
+      case 'identifier':
+        advance()
+        return identifierFrom(token)
+      case 'keyword':
+        if (token.value === 'true' || token.value === 'false') {
+          advance()
+          return { kind: 'Boolean', value: token.value === 'true', span: spanFrom(token) }
+        }
+        if (token.value === 'if') return parseIf()
+        if (token.value === 'switch') return parseSwitch()
+        if (token.value === 'for') return parseFor()
+        if (token.value === 'while') return parseWhile()
+        break
+      case 'operator':
+        if (token.value === '(') {
+          advance()
+          const inner = parseExpression()
+          expectOp(')', 'to close parenthesized expression')
+          return inner
+        }
+        if (token.value === '[') {
+          advance()
+          const elements: Expression[] = []
+          while (!isOp(current(), ']')) {
+            elements.push(parseExpression())
+            if (!isOp(current(), ']')) expectOp(',', 'between tuple elements')
+          }
+          advance()
+          return { kind: 'Tuple', elements, span: spanFrom(token) }
+        }
+        break
+    }
+
+    return fail(`Unexpected ${describe(token)}`)
+  }
+
+  const parseIf = (): IfExpression => {
+    const start = advance()
+    const test = parseExpression()
+    const consequent = parseBlock(start, "'if' condition")
+    let alternate: Statement[] | IfExpression | undefined
+    if (isKeyword(current(), 'else')) {
+      const elseToken = advance()
+      alternate = isKeyword(current(), 'if') ? parseIf() : parseBlock(elseToken, "'else'")
+    }
+    return { kind: 'If', test, consequent, alternate, span: spanFrom(start) }
+  }
+
+  const parseSwitch = (): Expression => {
+    const start = advance()
+    const discriminant = current().type === 'newline' ? undefined : parseExpression()
+    if (current().type !== 'newline') fail(`Expected end of line after 'switch', found ${describe(current())}`)
+    advance()
+    const cases: SwitchCase[] = []
+    if (current().type !== 'indent') {
+      report(`Expected indented cases after 'switch' on line ${start.line}`, start, 'missing-block')
+      return { kind: 'Switch', discriminant, cases, span: spanFrom(start) }
+    }
+    advance()
+    while (current().type !== 'dedent' && current().type !== 'eof') {
+      if (current().type === 'newline') {
+        advance()
+        continue
+      }
+      try {
+        const caseStart = current()
+        const test = isOp(caseStart, '=>') ? undefined : parseExpression()
+        const arrow = expectOp('=>', 'after switch case')
+        let body: Statement[]
+        if (current().type === 'newline') {
+          body = parseBlock(arrow, 'switch case')
+        } else {
+          body = [parseStatement()]
+        }
+        cases.push({ test, body, span: spanFrom(caseStart) })
+      } catch (error) {
+        if (!(error instanceof PineParseError)) throw error
+        report(error.message, error.token)
+        synchronize()
+      }
+    }
+    if (current().type === 'dedent') advance()
+    return { kind: 'Switch', discriminant, cases, span: spanFrom(start) }
+  }
+
+  const parseFor = (): Expression => {
+    const start = advance()
+
+    if (isOp(current(), '[')) {
+      advance()
+      const bindings = [expectIdentifier('in for...in tuple')]
+      expectOp(',', 'between for...in bindings')
+      bindings.push(expectIdentifier('in for...in tuple'))
+      expectOp(']', 'to close for...in bindings')
+      if (!isKeyword(current(), 'in')) fail(`Expected 'in' after for...in bindings, found ${describe(current())}`)
+      advance()
+      const iterable = parseExpression()
+      const body = parseBlock(start, "'for...in'")
+      return { kind: 'ForIn', bindings, iterable, body, span: spanFrom(start) }
+    }
+
+    const counter = expectIdentifier("after 'for'")
+    if (isKeyword(current(), 'in')) {
+      advance()
+      const iterable = parseExpression()
+      const body = parseBlock(start, "'for...in'")
+      return { kind: 'ForIn', bindings: [counter], iterable, body, span: spanFrom(start) }
+    }
+
+    expectOp('=', "after 'for' counter")
+    const from = parseExpression()
+    if (!isKeyword(current(), 'to')) fail(`Expected 'to' in for loop, found ${describe(current())}`)
+    advance()
+    const to = parseExpression()
+    let step: Expression | undefined
+    if (isKeyword(current(), 'by')) {
+      advance()
+      step = parseExpression()
+    }
+    const body = parseBlock(start, "'for' loop")
+    return { kind: 'For', counter, from, to, step, body, span: spanFrom(start) }
+  }
+
+  const parseWhile = (): Expression => {
+    const start = advance()
+    const test = parseExpression()
+    const body = parseBlock(start, "'while' condition")
+    return { kind: 'While', test, body, span: spanFrom(start) }
+  }
+
+  // ============ Entry point ============
+
+  const body = parseStatements(() => false)
+
+  const versionAnnotation = lexed.annotations.find((a) => a.name === 'version')
+  const version = versionAnnotation ? parseInt(versionAnnotation.value, 10) : NaN
+
+  diagnostics.sort((a, b) => a.line - b.line || a.column - b.column)
+
+  return {
+    program: {
+      kind: 'Program',
+      version: Number.isNaN(version) ? null : version,
+      annotations: lexed.annotations,
+      body,
+    },
+    diagnostics,
+  }
+}
+
+function identifierFrom(token: Token): Identifier {
+  return {
+    kind: 'Identifier',
+    name: token.value,
+    span: { line: token.line, column: token.column, endLine: token.endLine, endColumn: token.endColumn },
+  }
+}
+
+function isIdentifierValue(token: Token, value: string): boolean {
+  return token.type === 'identifier' && token.value === value
+}
+
+/** Only plain or dotted names can take generic type arguments (`array.new<float>`) */
+function isCallee(expression: Expression): boolean {
+  return expression.kind === 'Identifier' || expression.kind === 'Member'
+}
+
+function describe(token: Token): string {
+  switch (token.type) {
+    case 'eof': return 'end of script'
+    case 'newline': return 'end of line'
+    case 'indent': return 'indentation'
+    case 'dedent': return 'end of block'
+    case 'string': return `string "${token.value}"`
+    default: return `'${token.value}'`
+  }
+}
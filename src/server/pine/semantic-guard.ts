@@ -0,0 +1,332 @@
+/**
+ * Pine Script Semantic-Preservation Guard
+ *
+ * Compares a script before and after an AI fix and reports changes to what the
+ * script does: its declaration arguments, inputs, plots, strategy orders and
+ * alerts. Changes on the lines the compiler complained about are expected;
+ * anything else removed or altered is a behavior change the fix was not asked
+ * to make.
+ *
+ * Features are matched by identity (input variable, plot title, order id) rather
+ * than by line, so a fix that inserts or deletes lines elsewhere does not make
+ * every later plot look changed. Argument values are compared token by token
+ * with v4 names mapped to their v5 equivalents, so whitespace and namespace
+ * migrations are not reported.
+ */
+
+import { parsePineScript } from './parser'
+import { tokenize } from './lexer'
+import { getBuiltinFunction } from './builtins'
+import { V4_COLOR_NAMES, V4_FUNCTION_RENAMES } from './syntax-check'
+import { getQualifiedName, walkProgram, type PineNode } from './walk'
+import type { CallExpression, Expression, IfExpression, SourceSpan } from './ast'
+
+export type BehaviorFeatureKind = 'declaration' | 'input' | 'plot' | 'strategy' | 'alert'
+
+/**
+ * A behavior change between the original and the fixed script
+ */
+export interface SemanticFinding {
+  kind: BehaviorFeatureKind
+  change: 'removed' | 'added' | 'changed'
+  /** Line in the original script (removed/changed) or the fixed script (added) */
+  line: number
+  message: string
+  /** `error` for changes outside the reported error lines; `warning` for changes worth a look */
+  severity: 'error' | 'warning'
+}
+
+export interface SemanticCheckResult {
+  findings: SemanticFinding[]
+  /** True when any finding is an error, i.e. the fix changed behavior it was not asked to */
+  changesBehavior: boolean
+}
+
+interface ArgumentValue {
+  text: string
+  span: SourceSpan
+}
+
+interface BehaviorFeature {
+  kind: BehaviorFeatureKind
+  /** Identity used to match the feature across scripts, e.g. `plot "Fast MA"` */
+  key: string
+  span: SourceSpan
+  args: Map<string, ArgumentValue>
+}
+
+const DECLARATION_FUNCTIONS = new Set(['indicator', 'strategy', 'library'])
+
+const PLOT_FUNCTIONS = new Set([
+  'plot', 'plotshape', 'plotchar', 'plotarrow', 'plotbar', 'plotcandle',
+  'hline', 'fill', 'bgcolor', 'barcolor',
+])
+
+const STRATEGY_FUNCTIONS = new Set([
+  'strategy.entry', 'strategy.order', 'strategy.exit', 'strategy.close',
+  'strategy.close_all', 'strategy.cancel', 'strategy.cancel_all',
+])
+
+const ALERT_FUNCTIONS = new Set(['alertcondition', 'alert'])
+
+// Argument that names each feature, tried in order
+const IDENTITY_ARGUMENTS: Record<Exclude<BehaviorFeatureKind, 'declaration' | 'input'>, string[]> = {
+  plot: ['title'],
+  strategy: ['id'],
+  alert: ['title', 'message'],
+}
+
+// Pseudo-argument holding the `if` conditions a strategy order or alert is nested in
+const CONDITION_ARGUMENT = 'condition'
+
+const MAX_VALUE_LENGTH = 60
+
+/**
+ * Compare the behavior-defining calls of two scripts
+ *
+ * @param original - Script before the fix
+ * @param fixed - Script after the fix
+ * @param allowedLines - Lines of the original script the fix was asked to change
+ *   (reported errors and migrated lines)
+ */
+export function checkSemanticPreservation(
+  original: string,
+  fixed: string,
+  allowedLines: Iterable<number>
+): SemanticCheckResult {
+  const allowed = new Set(allowedLines)
+  const touchesAllowedLine = (span: SourceSpan) => {
+    for (let line = span.line; line <= span.endLine; line++) {
+      if (allowed.has(line)) return true
+    }
+    return false
+  }
+
+  const before = extractBehaviorFeatures(original)
+  const after = extractBehaviorFeatures(fixed)
+  const findings: SemanticFinding[] = []
+
+  for (const [key, feature] of before) {
+    const match = after.get(key)
+    if (!match) {
+      findings.push({
+        kind: feature.kind,
+        change: 'removed',
+        line: feature.span.line,
+        message: `Fix removed ${key} (line ${feature.span.line})`,
+        severity: touchesAllowedLine(feature.span) ? 'warning' : 'error',
+      })
+      continue
+    }
+
+    for (const name of new Set([...feature.args.keys(), ...match.args.keys()])) {
+      const oldValue = feature.args.get(name)
+      const newValue = match.args.get(name)
+      if (oldValue?.text === newValue?.text) continue
+
+      // A changed argument is expected when the call or the argument itself was reported
+      const expected = touchesAllowedLine(feature.span) || (oldValue !== undefined && touchesAllowedLine(oldValue.span))
+      if (expected) continue
+
+      findings.push({
+        kind: feature.kind,
+        change: 'changed',
+        line: oldValue?.span.line ?? feature.span.line,
+        message: `Fix changed ${describeArgument(name)} of ${key} (line ${feature.span.line}): ` +
+          `${truncate(oldValue?.text ?? '(none)')} → ${truncate(newValue?.text ?? '(none)')}`,
+        severity: 'error',
+      })
+    }
+  }
+
+  for (const [key, feature] of after) {
+    if (before.has(key)) continue
+    findings.push({
+      kind: feature.kind,
+      change: 'added',
+      line: feature.span.line,
+      message: `Fix added ${key} (line ${feature.span.line} of the fixed script)`,
+      severity: 'warning',
+    })
+  }
+
+  findings.sort((a, b) => a.line - b.line)
+  return { findings, changesBehavior: findings.some((f) => f.severity === 'error') }
+}
+
+/**
+ * Short summary of guard findings for logs and the UI
+ */
+export function formatSemanticFindings(findings: SemanticFinding[]): string {
+  if (findings.length === 0) return 'No behavior changes found.'
+  return findings.map((f) => `- ${f.message}`).join('\n')
+}
+
+// ============ Feature Extraction ============
+
+function extractBehaviorFeatures(source: string): Map<string, BehaviorFeature> {
+  const { program } = parsePineScript(source)
+  // v4 scripts are matched against v5 signatures, so `study("A")` and `indicator("A")` line up
+  const version = Math.max(program.version ?? 5, 5)
+  const lines = source.split('\n')
+  const features = new Map<string, BehaviorFeature>()
+  const ordinals = new Map<string, number>()
+
+  const add = (feature: Omit<BehaviorFeature, 'key'>, baseKey: string) => {
+    // Repeated identities (the same order id in two branches) are told apart by occurrence
+    const occurrence = (ordinals.get(baseKey) ?? 0) + 1
+    ordinals.set(baseKey, occurrence)
+    const key = occurrence === 1 ? baseKey : `${baseKey} (#${occurrence})`
+    features.set(key, { ...feature, key })
+  }
+
+  walkProgram(program, (node, { parents }) => {
+    if (node.kind !== 'Call') return
+    const rawName = getQualifiedName(node.callee)
+    if (!rawName) return
+    const name = V4_FUNCTION_RENAMES[rawName] === 'indicator' ? 'indicator' : rawName
+
+    const kind = featureKind(name)
+    if (!kind) return
+
+    const args = collectArguments(node, name, version, lines)
+    const span = node.span
+
+    switch (kind) {
+      case 'declaration':
+        add({ kind, span, args }, 'the script declaration')
+        return
+      case 'input': {
+        const variable = assignedVariable(node, parents)
+        const title = args.get('title')?.text
+        add({ kind, span, args }, variable ? `input '${variable}'` : title ? `input ${title}` : 'input')
+        return
+      }
+      default: {
+        if (kind === 'strategy' || kind === 'alert') {
+          const condition = enclosingCondition(node, parents, lines)
+          if (condition) args.set(CONDITION_ARGUMENT, condition)
+        }
+        const identity = IDENTITY_ARGUMENTS[kind].map((arg) => args.get(arg)?.text).find(Boolean)
+        add({ kind, span, args }, identity ? `${name} ${identity}` : name)
+      }
+    }
+  })
+
+  return features
+}
+
+function featureKind(name: string): BehaviorFeatureKind | null {
+  if (DECLARATION_FUNCTIONS.has(name)) return 'declaration'
+  if (name === 'input' || name.startsWith('input.')) return 'input'
+  if (PLOT_FUNCTIONS.has(name)) return 'plot'
+  if (STRATEGY_FUNCTIONS.has(name)) return 'strategy'
+  if (ALERT_FUNCTIONS.has(name)) return 'alert'
+  return null
+}
+
+/**
+ * Key arguments by parameter name so `plot(x, "A")` and `plot(x, title="A")` compare equal
+ */
+function collectArguments(
+  call: CallExpression,
+  name: string,
+  version: number,
+  lines: string[]
+): Map<string, ArgumentValue> {
+  const params = getBuiltinFunction(name, version)?.overloads[0]?.params ?? []
+  const args = new Map<string, ArgumentValue>()
+
+  call.args.forEach((arg, index) => {
+    const param = arg.name?.name ?? params[index]?.name ?? `#${index + 1}`
+    args.set(param, { text: normalizeExpression(arg.value, lines), span: arg.value.span })
+  })
+
+  return args
+}
+
+function assignedVariable(call: CallExpression, parents: PineNode[]): string | null {
+  const parent = parents[parents.length - 1]
+  if (parent?.kind === 'VariableDeclaration' && parent.init === call) return parent.name.name
+  if (parent?.kind === 'Assignment' && parent.value === call) return getQualifiedName(parent.target)
+  return null
+}
+
+/**
+ * The `if` conditions guarding a call, innermost last, with `else` branches negated
+ */
+function enclosingCondition(call: CallExpression, parents: PineNode[], lines: string[]): ArgumentValue | null {
+  const conditions: string[] = []
+  let span: SourceSpan | null = null
+
+  for (let i = 0; i < parents.length; i++) {
+    const parent = parents[i]
+    if (parent.kind !== 'If') continue
+    const child = parents[i + 1] ?? call
+    const test = normalizeExpression(parent.test, lines)
+    conditions.push(isInBranch(parent.consequent, child) ? test : `not(${test})`)
+    span = parent.test.span
+  }
+
+  if (!span) return null
+  return { text: conditions.join(' and '), span }
+}
+
+function isInBranch(branch: IfExpression['consequent'], node: PineNode): boolean {
+  return branch.some((statement) => statement === node)
+}
+
+// ============ Normalization ============
+
+/**
+ * Token-level text of an expression with whitespace normalized and v4 names mapped to v5
+ */
+function normalizeExpression(expression: Expression, lines: string[]): string {
+  const tokens = tokenize(sliceSpan(lines, expression.span)).tokens.filter((token) =>
+    token.type !== 'newline' && token.type !== 'indent' && token.type !== 'dedent' && token.type !== 'eof'
+  )
+
+  let text = ''
+  tokens.forEach((token, index) => {
+    const previous = tokens[index - 1]
+    let value = token.value
+    if (token.type === 'string') {
+      value = JSON.stringify(token.value)
+    } else if (token.type === 'identifier' && previous?.value !== '.') {
+      const next = tokens[index + 1]?.value
+      if (next === '(' && V4_FUNCTION_RENAMES[value]) value = V4_FUNCTION_RENAMES[value]
+      else if (next !== '(' && next !== '=' && V4_COLOR_NAMES.has(value)) value = `color.${value}`
+    }
+
+    if (previous && needsSpace(previous.value, value)) text += ' '
+    text += value
+  })
+  return text
+}
+
+function needsSpace(previous: string, next: string): boolean {
+  if (previous === '.' || next === '.' || next === ',' || next === ')' || next === ']') return false
+  if (previous === '(' || previous === '[') return false
+  if (next === '(' || next === '[') return !/[\w)\]]$/.test(previous)
+  return true
+}
+
+function sliceSpan(lines: string[], span: SourceSpan): string {
+  if (span.line === span.endLine) {
+    return (lines[span.line - 1] ?? '').slice(span.column - 1, span.endColumn - 1)
+  }
+  const parts = [(lines[span.line - 1] ?? '').slice(span.column - 1)]
+  for (let line = span.line + 1; line < span.endLine; line++) parts.push(lines[line - 1] ?? '')
+  parts.push((lines[span.endLine - 1] ?? '').slice(0, span.endColumn - 1))
+  return parts.join('\n')
+}
+
+function describeArgument(name: string): string {
+  if (name === CONDITION_ARGUMENT) return 'the condition'
+  if (name.startsWith('#')) return `argument ${name.slice(1)}`
+  return `'${name}'`
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH - 1)}…` : text
+}
@@ -0,0 +1,442 @@
+/**
+ * Pine Script Built-in Call Checker
+ *
+ * Checks calls to built-in functions against the catalog in builtins.ts:
+ * unknown functions in fully catalogued namespaces, call arity, named
+ * arguments, and argument type/qualifier mismatches such as passing a
+ * `series int` to a parameter that only accepts `simple int`.
+ *
+ * Qualifiers and types are only inferred where they are certain (literals,
+ * built-in variables, inputs, variables that are assigned once). Anything
+ * else is treated as unknown and never reported, so the checker errs on the
+ * side of staying quiet rather than blocking a script TradingView accepts.
+ */
+
+import {
+  COMPLETE_NAMESPACES,
+  PRIMITIVE_TYPES,
+  QUALIFIER_RANK,
+  getBuiltinFunction,
+  getBuiltinVariable,
+  getNamespaceFunctions,
+  type BuiltinParam,
+  type BuiltinSignature,
+} from './builtins'
+import { getQualifiedName, walkProgram } from './walk'
+import type {
+  CallExpression,
+  Expression,
+  PineDiagnostic,
+  Program,
+  TypeQualifier,
+  VariableDeclaration,
+} from './ast'
+
+interface InferredType {
+  qualifier?: TypeQualifier
+  type?: string
+}
+
+const UNKNOWN: InferredType = {}
+
+/** Pine version assumed when the script has no `//@version` annotation */
+const DEFAULT_VERSION = 5
+
+/**
+ * Check every built-in call in a parsed program.
+ * Scripts older than v5 are skipped; the catalog only describes v5 and later.
+ */
+export function checkBuiltinCalls(program: Program, source: string): PineDiagnostic[] {
+  const version = program.version ?? DEFAULT_VERSION
+  if (version < 5) return []
+
+  const sourceLines = source.replace(/\r\n?/g, '\n').split('\n')
+  const scope = collectUserSymbols(program)
+  const inferring = new Set<string>()
+  const inferredVariables = new Map<string, InferredType>()
+
+  const inferVariable = (name: string): InferredType => {
+    const cached = inferredVariables.get(name)
+    if (cached) return cached
+
+    const declaration = scope.singleDeclarations.get(name)
+    if (!declaration || inferring.has(name)) return UNKNOWN
+
+    inferring.add(name)
+    const init = infer(declaration.init)
+    inferring.delete(name)
+
+    const result: InferredType = {
+      qualifier: declaration.type?.qualifier ?? init.qualifier,
+      type: declaration.type && !declaration.type.isArray && !declaration.type.typeArguments
+        ? declaration.type.name
+        : init.type,
+    }
+    inferredVariables.set(name, result)
+    return result
+  }
+
+  const infer = (expression: Expression): InferredType => {
+    switch (expression.kind) {
+      case 'Number':
+        return { qualifier: 'const', type: expression.isFloat ? 'float' : 'int' }
+      case 'String':
+        return { qualifier: 'const', type: 'string' }
+      case 'Boolean':
+        return { qualifier: 'const', type: 'bool' }
+      case 'Color':
+        return { qualifier: 'const', type: 'color' }
+      case 'Identifier':
+        if (scope.declared.has(expression.name)) return inferVariable(expression.name)
+        return getBuiltinVariable(expression.name) ?? UNKNOWN
+      case 'Member': {
+        const name = getQualifiedName(expression)
+        if (!name || scope.declared.has(name.split('.')[0])) return UNKNOWN
+        return getBuiltinVariable(name) ?? UNKNOWN
+      }
+      case 'History': {
+        const target = infer(expression.target)
+        return { qualifier: 'series', type: target.type }
+      }
+      case 'Unary': {
+        const operand = infer(expression.operand)
+        if (expression.operator === 'not') return { qualifier: operand.qualifier, type: 'bool' }
+        return operand
+      }
+      case 'Binary':
+        return inferBinary(expression.operator, infer(expression.left), infer(expression.right))
+      case 'Ternary': {
+        const test = infer(expression.test)
+        const consequent = infer(expression.consequent)
+        const alternate = infer(expression.alternate)
+        return {
+          qualifier: strongestQualifier([test, consequent, alternate]),
+          type: consequent.type === alternate.type ? consequent.type : numericResult(consequent.type, alternate.type),
+        }
+      }
+      case 'Call':
+        return inferCall(expression)
+      default:
+        return UNKNOWN
+    }
+  }
+
+  const inferCall = (call: CallExpression): InferredType => {
+    const name = getQualifiedName(call.callee)
+    if (!name || scope.functions.has(name) || scope.declared.has(name.split('.')[0])) return UNKNOWN
+
+    const builtin = getBuiltinFunction(name, version)
+    if (!builtin) return UNKNOWN
+
+    // Overloads of one function share their return type
+    const returns = builtin.overloads[0].returns
+    const qualifier = returns.qualifier === 'propagate'
+      ? strongestQualifier(call.args.map((arg) => infer(arg.value)))
+      : returns.qualifier
+    return { qualifier, type: returns.type }
+  }
+
+  const diagnostics: PineDiagnostic[] = []
+
+  walkProgram(program, (node) => {
+    if (node.kind !== 'Call') return
+
+    const name = getQualifiedName(node.callee)
+    if (!name || scope.functions.has(name)) return
+    const parts = name.split('.')
+    if (scope.declared.has(parts[0])) return
+
+    const builtin = getBuiltinFunction(name, version)
+    if (!builtin) {
+      if (parts.length === 2 && COMPLETE_NAMESPACES.has(parts[0])) {
+        diagnostics.push(unknownFunction(node, name, version))
+      }
+      return
+    }
+
+    const context: CallContext = { call: node, name, version, infer, sourceLines }
+    let best: PineDiagnostic[] | null = null
+    for (const overload of builtin.overloads) {
+      const problems = checkSignature(overload, context)
+      if (problems.length === 0) return
+      if (!best || problems.length < best.length) best = problems
+    }
+    if (best) diagnostics.push(...best)
+  })
+
+  return diagnostics
+}
+
+// ============ Call Checks ============
+
+interface CallContext {
+  call: CallExpression
+  name: string
+  version: number
+  infer: (expression: Expression) => InferredType
+  sourceLines: string[]
+}
+
+function checkSignature(signature: BuiltinSignature, context: CallContext): PineDiagnostic[] {
+  const { call, name, version } = context
+  const params = signature.params.filter((param) => param.until === undefined || param.until >= version)
+  const variadic = params.find((param) => param.variadic)
+  const problems: PineDiagnostic[] = []
+  const bound = new Map<string, BuiltinParam>()
+  let seenNamed = false
+  let positionalIndex = 0
+
+  for (const arg of call.args) {
+    let param: BuiltinParam | undefined
+
+    if (arg.name) {
+      seenNamed = true
+      const argName = arg.name.name
+      param = params.find((p) => p.name === argName && !p.variadic)
+      if (!param) {
+        problems.push(error(arg.name.span, unknownArgumentMessage(signature, name, argName, version), 'unknown-argument'))
+        continue
+      }
+      if (bound.has(param.name)) {
+        problems.push(error(arg.name.span, `Argument '${argName}' is given more than once in call to '${name}'`, 'duplicate-argument'))
+        continue
+      }
+    } else {
+      if (seenNamed) {
+        problems.push(error(arg.span, `Positional argument after a named argument in call to '${name}'`, 'positional-after-named'))
+        continue
+      }
+      param = params[positionalIndex] ?? variadic
+      positionalIndex++
+      if (!param) {
+        problems.push(error(
+          arg.span,
+          `Too many arguments in call to '${name}': expected at most ${params.length}, got ${countPositional(call)}`,
+          'too-many-arguments'
+        ))
+        continue
+      }
+    }
+
+    if (!param.variadic) bound.set(param.name, param)
+    const mismatch = checkArgument(param, arg.value, context)
+    if (mismatch) problems.push(mismatch)
+  }
+
+  // A misplaced positional argument was most likely meant for the missing parameter
+  if (problems.some((problem) => problem.code === 'positional-after-named')) return problems
+
+  const missing = params.filter((param) => !param.optional && !bound.has(param.name))
+  for (const param of missing) {
+    problems.push(error(call.span, `Missing required argument '${param.name}' in call to '${name}'`, 'missing-argument'))
+  }
+
+  return problems
+}
+
+function checkArgument(param: BuiltinParam, value: Expression, context: CallContext): PineDiagnostic | null {
+  const actual = context.infer(value)
+
+  const typeMismatch = actual.type !== undefined && !isAssignable(actual.type, param.type, context.version)
+  const qualifierMismatch = actual.qualifier !== undefined &&
+    QUALIFIER_RANK[actual.qualifier] > QUALIFIER_RANK[param.qualifier]
+  if (!typeMismatch && !qualifierMismatch) return null
+
+  const used = [actual.qualifier, actual.type].filter(Boolean).join(' ')
+  const expected = `${param.qualifier} ${param.type === 'number' ? 'int/float' : param.type}`
+  return error(
+    value.span,
+    `Cannot call '${context.name}' with argument '${param.name}'='${sourceText(value, context.sourceLines)}'. ` +
+    `An argument of '${used}' type was used but a '${expected}' is expected.`,
+    typeMismatch ? 'argument-type' : 'argument-qualifier'
+  )
+}
+
+/**
+ * Whether a value of `actual` type can be passed where `expected` is declared.
+ * Opaque types (plot_style, label, ...) are never reported.
+ */
+function isAssignable(actual: string, expected: string, version: number): boolean {
+  if (!PRIMITIVE_TYPES.has(actual)) return true
+  if (expected === 'number') return actual === 'int' || actual === 'float'
+  if (!PRIMITIVE_TYPES.has(expected)) return true
+  if (actual === expected) return true
+  if (expected === 'float') return actual === 'int'
+  // v5 casts numbers to bool implicitly; v6 removed the cast
+  if (expected === 'bool') return version < 6 && (actual === 'int' || actual === 'float')
+  return false
+}
+
+function unknownArgumentMessage(signature: BuiltinSignature, name: string, argName: string, version: number): string {
+  const removed = signature.params.find((p) => p.name === argName && p.until !== undefined && p.until < version)
+  if (removed) {
+    return `The '${argName}' parameter of '${name}' was removed in v${removed.until! + 1}; wrap the call in an if block instead`
+  }
+  if (argName === 'transp') {
+    return `'${name}' has no parameter named 'transp'; use color.new(color, transp) instead`
+  }
+  return `'${name}' has no parameter named '${argName}'`
+}
+
+function unknownFunction(call: CallExpression, name: string, version: number): PineDiagnostic {
+  const namespace = name.split('.')[0]
+  const suggestion = closestName(name, getNamespaceFunctions(namespace, version))
+  const hint = suggestion ? `; did you mean '${suggestion}'?` : ''
+  return error(call.callee.span, `Could not find function or function reference '${name}'${hint}`, 'unknown-function')
+}
+
+// ============ Inference Helpers ============
+
+interface UserSymbols {
+  /** Every name the script declares (variables, parameters, loop counters, tuple names) */
+  declared: Set<string>
+  /** User-defined functions and methods */
+  functions: Set<string>
+  /** Variables declared exactly once, never reassigned and without var/varip */
+  singleDeclarations: Map<string, VariableDeclaration>
+}
+
+function collectUserSymbols(program: Program): UserSymbols {
+  const declared = new Set<string>()
+  const functions = new Set<string>()
+  const declarationCount = new Map<string, number>()
+  const candidates = new Map<string, VariableDeclaration>()
+  const reassigned = new Set<string>()
+
+  const declare = (name: string) => {
+    declared.add(name)
+    declarationCount.set(name, (declarationCount.get(name) ?? 0) + 1)
+  }
+
+  walkProgram(program, (node) => {
+    switch (node.kind) {
+      case 'VariableDeclaration':
+        declare(node.name.name)
+        if (!node.modifier) candidates.set(node.name.name, node)
+        break
+      case 'TupleDeclaration':
+        for (const name of node.names) declare(name.name)
+        break
+      case 'FunctionDeclaration':
+        functions.add(node.name.name)
+        for (const param of node.params) declare(param.name.name)
+        break
+      case 'For':
+        declare(node.counter.name)
+        break
+      case 'ForIn':
+        for (const binding of node.bindings) declare(binding.name)
+        break
+      case 'Assignment':
+        if (node.target.kind === 'Identifier') reassigned.add(node.target.name)
+        break
+    }
+  })
+
+  const singleDeclarations = new Map<string, VariableDeclaration>()
+  for (const [name, declaration] of candidates) {
+    if (declarationCount.get(name) === 1 && !reassigned.has(name)) {
+      singleDeclarations.set(name, declaration)
+    }
+  }
+
+  return { declared, functions, singleDeclarations }
+}
+
+function strongestQualifier(types: InferredType[]): TypeQualifier | undefined {
+  let strongest: TypeQualifier = 'const'
+  for (const { qualifier } of types) {
+    if (!qualifier) return undefined
+    if (QUALIFIER_RANK[qualifier] > QUALIFIER_RANK[strongest]) strongest = qualifier
+  }
+  return strongest
+}
+
+function numericResult(left: string | undefined, right: string | undefined): string | undefined {
+  if ((left === 'int' || left === 'float') && (right === 'int' || right === 'float')) {
+    return left === 'float' || right === 'float' ? 'float' : 'int'
+  }
+  return undefined
+}
+
+function inferBinary(operator: string, left: InferredType, right: InferredType): InferredType {
+  const qualifier = strongestQualifier([left, right])
+  switch (operator) {
+    case 'and':
+    case 'or':
+    case '==':
+    case '!=':
+    case '<':
+    case '<=':
+    case '>':
+    case '>=':
+      return { qualifier, type: 'bool' }
+    case '+':
+      if (left.type === 'string' && right.type === 'string') return { qualifier, type: 'string' }
+      return { qualifier, type: numericResult(left.type, right.type) }
+    case '-':
+    case '*':
+    case '%':
+      return { qualifier, type: numericResult(left.type, right.type) }
+    case '/':
+      // int / int is version dependent; only a float operand makes the result certain
+      return { qualifier, type: left.type === 'float' || right.type === 'float' ? 'float' : undefined }
+    default:
+      return { qualifier }
+  }
+}
+
+// ============ Formatting ============
+
+function countPositional(call: CallExpression): number {
+  return call.args.filter((arg) => !arg.name).length
+}
+
+function sourceText(expression: Expression, sourceLines: string[]): string {
+  const { line, column, endLine, endColumn } = expression.span
+  if (line !== endLine) return '...'
+  return sourceLines[line - 1]?.slice(column - 1, endColumn - 1) ?? '...'
+}
+
+function error(span: { line: number; column: number; endLine?: number; endColumn?: number }, message: string, code: string): PineDiagnostic {
+  return {
+    line: span.line,
+    column: span.column,
+    endLine: span.endLine,
+    endColumn: span.endColumn,
+    message,
+    type: 'error',
+    code,
+  }
+}
+
+function closestName(name: string, candidates: string[]): string | undefined {
+  let best: string | undefined
+  let bestDistance = 3
+  for (const candidate of candidates) {
+    const distance = editDistance(name, candidate)
+    if (distance < bestDistance) {
+      best = candidate
+      bestDistance = distance
+    }
+  }
+  return best
+}
+
+function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0]
+    previous[0] = i
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j]
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+      diagonal = above
+    }
+  }
+  return previous[b.length]
+}
@@ -0,0 +1,277 @@
+/**
+ * Pine Script Local Syntax Check
+ *
+ * Runs the lexer/parser, a handful of AST lint rules and the built-in call
+ * checker so obvious problems are caught before a TradingView session is
+ * spent on them. Problems that stop compilation are reported as errors;
+ * lint findings that TradingView may still accept are reported as warnings.
+ */
+
+import { parsePineScript } from './parser'
+import { checkBuiltinCalls } from './signature-check'
+import { getQualifiedName, walkProgram } from './walk'
+import type { PineDiagnostic, Program, Statement } from './ast'
+
+// v4 built-ins that moved into namespaces in v5
+export const V4_FUNCTION_RENAMES: Record<string, string> = {
+  study: 'indicator',
+  security: 'request.security',
+  sma: 'ta.sma',
+  ema: 'ta.ema',
+  wma: 'ta.wma',
+  rma: 'ta.rma',
+  vwma: 'ta.vwma',
+  swma: 'ta.swma',
+  hma: 'ta.hma',
+  alma: 'ta.alma',
+  rsi: 'ta.rsi',
+  macd: 'ta.macd',
+  stoch: 'ta.stoch',
+  atr: 'ta.atr',
+  tr: 'ta.tr',
+  bb: 'ta.bb',
+  cci: 'ta.cci',
+  mfi: 'ta.mfi',
+  mom: 'ta.mom',
+  roc: 'ta.roc',
+  crossover: 'ta.crossover',
+  crossunder: 'ta.crossunder',
+  cross: 'ta.cross',
+  highest: 'ta.highest',
+  lowest: 'ta.lowest',
+  highestbars: 'ta.highestbars',
+  lowestbars: 'ta.lowestbars',
+  change: 'ta.change',
+  cum: 'ta.cum',
+  pivothigh: 'ta.pivothigh',
+  pivotlow: 'ta.pivotlow',
+  valuewhen: 'ta.valuewhen',
+  barssince: 'ta.barssince',
+  median: 'ta.median',
+  mode: 'ta.mode',
+  range: 'ta.range',
+  percentrank: 'ta.percentrank',
+  percentile_linear_interpolation: 'ta.percentile_linear_interpolation',
+  percentile_nearest_rank: 'ta.percentile_nearest_rank',
+  correlation: 'ta.correlation',
+  cog: 'ta.cog',
+  cmo: 'ta.cmo',
+  kc: 'ta.kc',
+  kcw: 'ta.kcw',
+  bbw: 'ta.bbw',
+  dmi: 'ta.dmi',
+  supertrend: 'ta.supertrend',
+  tsi: 'ta.tsi',
+  wpr: 'ta.wpr',
+  vwap: 'ta.vwap',
+  stdev: 'ta.stdev',
+  variance: 'ta.variance',
+  dev: 'ta.dev',
+  linreg: 'ta.linreg',
+  sar: 'ta.sar',
+  falling: 'ta.falling',
+  rising: 'ta.rising',
+  tostring: 'str.tostring',
+  tonumber: 'str.tonumber',
+  abs: 'math.abs',
+  max: 'math.max',
+  min: 'math.min',
+  round: 'math.round',
+  sqrt: 'math.sqrt',
+  pow: 'math.pow',
+  log: 'math.log',
+  exp: 'math.exp',
+  avg: 'math.avg',
+  sign: 'math.sign',
+  ceil: 'math.ceil',
+  floor: 'math.floor',
+  log10: 'math.log10',
+  sum: 'math.sum',
+  sin: 'math.sin',
+  cos: 'math.cos',
+  tan: 'math.tan',
+  asin: 'math.asin',
+  acos: 'math.acos',
+  atan: 'math.atan',
+  random: 'math.random',
+  todegrees: 'math.todegrees',
+  toradians: 'math.toradians',
+}
+
+export const V4_COLOR_NAMES = new Set([
+  'aqua', 'black', 'blue', 'fuchsia', 'gray', 'green', 'lime', 'maroon',
+  'navy', 'olive', 'orange', 'purple', 'red', 'silver', 'teal', 'white', 'yellow',
+])
+
+const DECLARATION_CALLS = new Set(['indicator', 'strategy', 'library', 'study'])
+
+/**
+ * Run the parser, lint rules and built-in call checks over a script
+ */
+export function checkPineSyntax(script: string): PineDiagnostic[] {
+  const { program, diagnostics } = parsePineScript(script)
+
+  const lint = [
+    ...checkVersion(program),
+    ...checkDeclaration(program),
+    ...checkV4Usage(program),
+    ...checkRedeclarations(program),
+    ...checkBuiltinCalls(program, script),
+  ]
+
+  return [...diagnostics, ...lint].sort((a, b) => a.line - b.line || a.column - b.column)
+}
+
+/**
+ * Only errors mean the script cannot compile; warnings are advisory
+ */
+export function hasBlockingSyntaxErrors(diagnostics: PineDiagnostic[]): boolean {
+  return diagnostics.some((d) => d.type === 'error')
+}
+
+/**
+ * Quick syntax check without a TradingView round trip.
+ * Returns human-readable issues for the home page.
+ */
+export function quickSyntaxCheck(script: string): string[] {
+  return checkPineSyntax(script).map((d) => `Line ${d.line}, column ${d.column}: ${d.message}`)
+}
+
+/**
+ * Format local diagnostics for the fix prompt, in the same shape as formatErrorsForLLM
+ */
+export function formatSyntaxDiagnosticsForLLM(diagnostics: PineDiagnostic[]): string {
+  const errors = diagnostics.filter((d) => d.type === 'error')
+  if (errors.length === 0) return 'No syntax errors found.'
+
+  const lines = errors.map((d) => `- Line ${d.line}, column ${d.column}: ${d.message}`)
+  return `Found ${errors.length} syntax error(s) before compiling:\n${lines.join('\n')}`
+}
+
+// ============ Lint Rules ============
+
+function checkVersion(program: Program): PineDiagnostic[] {
+  if (program.annotations.some((a) => a.name === 'version')) return []
+  return [{
+    line: 1,
+    column: 1,
+    message: 'Missing version declaration. Add //@version=5 at the top.',
+    type: 'warning',
+    code: 'missing-version',
+  }]
+}
+
+function checkDeclaration(program: Program): PineDiagnostic[] {
+  const hasDeclaration = program.body.some((statement) =>
+    statement.kind === 'ExpressionStatement' &&
+    statement.expression.kind === 'Call' &&
+    DECLARATION_CALLS.has(getQualifiedName(statement.expression.callee) ?? '')
+  )
+  if (hasDeclaration) return []
+  return [{
+    line: 1,
+    column: 1,
+    message: 'Missing indicator(), strategy(), or library() declaration',
+    type: 'warning',
+    code: 'missing-declaration',
+  }]
+}
+
+function checkV4Usage(program: Program): PineDiagnostic[] {
+  if (program.version === null || program.version < 5) return []
+
+  const userFunctions = new Set<string>()
+  walkProgram(program, (node) => {
+    if (node.kind === 'FunctionDeclaration') userFunctions.add(node.name.name)
+  })
+
+  const diagnostics: PineDiagnostic[] = []
+  walkProgram(program, (node) => {
+    if (node.kind !== 'Call') return
+
+    if (node.callee.kind === 'Identifier') {
+      const name = node.callee.name
+      const replacement = V4_FUNCTION_RENAMES[name]
+      if (replacement && !userFunctions.has(name)) {
+        diagnostics.push({
+          line: node.callee.span.line,
+          column: node.callee.span.column,
+          message: `In v${program.version}, use ${replacement}() instead of ${name}()`,
+          type: 'warning',
+          code: 'deprecated-v4-function',
+        })
+      }
+    }
+
+    for (const arg of node.args) {
+      if (arg.name?.name === 'color' && arg.value.kind === 'Identifier' && V4_COLOR_NAMES.has(arg.value.name)) {
+        diagnostics.push({
+          line: arg.value.span.line,
+          column: arg.value.span.column,
+          message: `In v${program.version}, use color.${arg.value.name} instead of bare color names`,
+          type: 'warning',
+          code: 'deprecated-v4-color',
+        })
+      }
+    }
+  })
+
+  return diagnostics
+}
+
+/**
+ * `x = 1` followed by `x = 2` in the same block declares x twice; the second one was meant to be `:=`
+ */
+function checkRedeclarations(program: Program): PineDiagnostic[] {
+  const diagnostics: PineDiagnostic[] = []
+
+  const checkBlock = (statements: Statement[], inherited: string[] = []) => {
+    const declared = new Set<string>(inherited)
+    for (const statement of statements) {
+      const names =
+        statement.kind === 'VariableDeclaration' ? [statement.name] :
+        statement.kind === 'TupleDeclaration' ? statement.names :
+        []
+      for (const name of names) {
+        if (name.name === '_') continue
+        if (declared.has(name.name)) {
+          diagnostics.push({
+            line: name.span.line,
+            column: name.span.column,
+            message: `Variable '${name.name}' is already declared; use ':=' to reassign`,
+            type: 'error',
+            code: 'redeclared-variable',
+          })
+        }
+        declared.add(name.name)
+      }
+    }
+  }
+
+  checkBlock(program.body)
+  walkProgram(program, (node) => {
+    switch (node.kind) {
+      case 'FunctionDeclaration':
+        checkBlock(node.body, node.params.map((p) => p.name.name))
+        break
+      case 'If':
+        checkBlock(node.consequent)
+        if (Array.isArray(node.alternate)) checkBlock(node.alternate)
+        break
+      case 'Switch':
+        for (const switchCase of node.cases) checkBlock(switchCase.body)
+        break
+      case 'For':
+        checkBlock(node.body, [node.counter.name])
+        break
+      case 'ForIn':
+        checkBlock(node.body, node.bindings.map((b) => b.name))
+        break
+      case 'While':
+        checkBlock(node.body)
+        break
+    }
+  })
+
+  return diagnostics
+}
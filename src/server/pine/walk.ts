@@ -0,0 +1,129 @@
+/**
+ * Pine Script AST traversal
+ *
+ * Depth-first walk over every statement and expression in a Program.
+ * Used by the local checkers to find calls, declarations and identifiers
+ * without each one re-implementing the recursion.
+ */
+
+import type { Expression, Program, Statement } from './ast'
+
+export type PineNode = Statement | Expression
+
+export interface WalkContext {
+  /** Ancestors of the current node, outermost first */
+  parents: PineNode[]
+}
+
+/**
+ * Visit every node in the program. Return `false` from the visitor to skip a node's children.
+ */
+export function walkProgram(
+  program: Program,
+  visitor: (node: PineNode, context: WalkContext) => void | false
+): void {
+  const parents: PineNode[] = []
+
+  const visitStatements = (statements: Statement[]) => {
+    for (const statement of statements) visit(statement)
+  }
+
+  const visit = (node: PineNode | undefined) => {
+    if (!node) return
+    if (visitor(node, { parents }) === false) return
+    parents.push(node)
+
+    switch (node.kind) {
+      case 'VariableDeclaration':
+      case 'TupleDeclaration':
+        visit(node.init)
+        break
+      case 'Assignment':
+        visit(node.target)
+        visit(node.value)
+        break
+      case 'FunctionDeclaration':
+        for (const param of node.params) visit(param.defaultValue)
+        visitStatements(node.body)
+        break
+      case 'TypeDeclaration':
+        for (const field of node.fields) visit(field.defaultValue)
+        break
+      case 'EnumDeclaration':
+        for (const field of node.fields) visit(field.title)
+        break
+      case 'ExpressionStatement':
+        visit(node.expression)
+        break
+      case 'Member':
+        visit(node.object)
+        break
+      case 'Call':
+        visit(node.callee)
+        for (const arg of node.args) visit(arg.value)
+        break
+      case 'History':
+        visit(node.target)
+        visit(node.offset)
+        break
+      case 'Unary':
+        visit(node.operand)
+        break
+      case 'Binary':
+        visit(node.left)
+        visit(node.right)
+        break
+      case 'Ternary':
+        visit(node.test)
+        visit(node.consequent)
+        visit(node.alternate)
+        break
+      case 'Tuple':
+        for (const element of node.elements) visit(element)
+        break
+      case 'If':
+        visit(node.test)
+        visitStatements(node.consequent)
+        if (Array.isArray(node.alternate)) visitStatements(node.alternate)
+        else visit(node.alternate)
+        break
+      case 'Switch':
+        visit(node.discriminant)
+        for (const switchCase of node.cases) {
+          visit(switchCase.test)
+          visitStatements(switchCase.body)
+        }
+        break
+      case 'For':
+        visit(node.from)
+        visit(node.to)
+        visit(node.step)
+        visitStatements(node.body)
+        break
+      case 'ForIn':
+        visit(node.iterable)
+        visitStatements(node.body)
+        break
+      case 'While':
+        visit(node.test)
+        visitStatements(node.body)
+        break
+    }
+
+    parents.pop()
+  }
+
+  visitStatements(program.body)
+}
+
+/**
+ * Render a callee expression as a dotted name (`ta.sma`, `strategy.entry`), or null
+ */
+export function getQualifiedName(expression: Expression): string | null {
+  if (expression.kind === 'Identifier') return expression.name
+  if (expression.kind === 'Member') {
+    const object = getQualifiedName(expression.object)
+    return object ? `${object}.${expression.property.name}` : null
+  }
+  return null
+}
@@ -0,0 +1,317 @@
+/**
+ * Pricing
+ *
+ * What a publish costs, from a pricing catalog. The catalog prices each
+ * product in every currency it offers (the first is the default):
+ *
+ * | Product             | Charged for                                     | Default |
+ * |---------------------|-------------------------------------------------|---------|
+ * | validate-only       | Validating a script as it was submitted         | free    |
+ * | validate-fix        | Validating a script the AI fix was applied to   | free    |
+ * | publish             | Publishing a new script                         | $1.00   |
+ * | update-existing     | Publishing a new version of a published script  | $1.00   |
+ * | publish-protected   | Protected (closed source) publishing, on top    | $5.00   |
+ * | publish-invite-only | Invite-only publishing, on top                  | $10.00  |
+ *
+ * A checkout has one validation product, one publishing product and, for a
+ * new protected or invite-only script, its visibility add-on. Promo rules take
+ * a percentage or a fixed amount off some or all products, optionally only
+ * between two dates; of the rules that apply to a line, the biggest discount
+ * wins. A catalog under which a publish could cost nothing is rejected: the
+ * job would be published with no checkout to complete it. So is one under
+ * which a publish could cost less than Stripe's minimum charge, which Stripe
+ * would refuse. Promotion codes customers type in at checkout are Stripe's
+ * and come on top.
+ *
+ * Admins replace the catalog through /api/admin/pricing, which keeps it in
+ * KV; until then the defaults above apply, with the add-ons read from
+ * PROTECTED_SCRIPT_PRICE_CENTS and INVITE_ONLY_SCRIPT_PRICE_CENTS.
+ */
+
+import { z } from 'zod'
+import { getStoredPricingCatalog } from './kv'
+import type { VisibilityLevel } from './tradingview'
+import { readIntEnv } from './env'
+
+// Product in the Stripe dashboard that publishing payments are booked against
+const STRIPE_PUBLISH_PRODUCT_ID = 'prod_TnGtj83MsKmx7s'
+
+// ============ Catalog ============
+
+// Prices are kept in cents, so only currencies with two decimals: not e.g. jpy (none) or kwd (three)
+function hasTwoDecimals(currency: string): boolean {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits === 2
+}
+
+// Smallest amount Stripe charges in each settlement currency, in cents
+// (https://docs.stripe.com/currencies#minimum-and-maximum-charge-amounts)
+const STRIPE_MINIMUM_CHARGE_CENTS: Record<string, number> = {
+  usd: 50, aed: 200, aud: 50, bgn: 100, brl: 50, cad: 50, chf: 50, czk: 1500,
+  dkk: 250, eur: 50, gbp: 30, hkd: 400, huf: 17500, inr: 50, mxn: 1000, myr: 200,
+  nok: 300, nzd: 50, pln: 200, ron: 200, sek: 300, sgd: 50, thb: 1000,
+}
+
+const CurrencySchema = z.string()
+  .regex(/^[a-z]{3}$/, 'Currency must be a lowercase ISO code, e.g. usd')
+  .refine(hasTwoDecimals, 'Currency must have two decimals, e.g. usd or eur')
+  .refine((currency) => currency in STRIPE_MINIMUM_CHARGE_CENTS, 'Currency must be one Stripe settles in, e.g. usd or eur')
+const AmountSchema = z.number().int().min(0)
+
+const PricingProductSchema = z.object({
+  name: z.string().min(1),
+  /** Stripe product the line item is booked against; without one, Checkout shows the name */
+  stripeProductId: z.string().min(1).optional(),
+  /** Price in each currency, in the currency's smallest unit (e.g. cents) */
+  prices: z.record(CurrencySchema, AmountSchema),
+})
+
+export const PRICING_PRODUCT_IDS = [
+  'validate-only',
+  'validate-fix',
+  'publish',
+  'update-existing',
+  'publish-protected',
+  'publish-invite-only',
+] as const
+
+export type PricingProductId = (typeof PRICING_PRODUCT_IDS)[number]
+
+const PromoRuleSchema = z.object({
+  promoId: z.string().min(1),
+  /** Shown next to the discounted lines, e.g. "Launch week: 50% off" */
+  description: z.string().min(1),
+  /** Below 100, so no publish is free */
+  percentOff: z.number().int().min(1).max(99).optional(),
+  /** Amount off each line it applies to, per currency */
+  amountOff: z.record(CurrencySchema, AmountSchema).optional(),
+  /** Products it applies to; all when unset */
+  products: z.array(z.enum(PRICING_PRODUCT_IDS)).optional(),
+  startsAt: z.iso.datetime().optional(),
+  endsAt: z.iso.datetime().optional(),
+}).refine(
+  (promo) => (promo.percentOff === undefined) !== (promo.amountOff === undefined),
+  'A promo needs either percentOff or amountOff'
+)
+
+export const PricingCatalogSchema = z.object({
+  currencies: z.array(CurrencySchema).min(1),
+  products: z.object({
+    'validate-only': PricingProductSchema,
+    'validate-fix': PricingProductSchema,
+    publish: PricingProductSchema,
+    'update-existing': PricingProductSchema,
+    'publish-protected': PricingProductSchema,
+    'publish-invite-only': PricingProductSchema,
+  }),
+  promos: z.array(PromoRuleSchema).default([]),
+}).superRefine((catalog, ctx) => {
+  for (const productId of PRICING_PRODUCT_IDS) {
+    for (const currency of catalog.currencies) {
+      if (catalog.products[productId].prices[currency] === undefined) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['products', productId, 'prices', currency],
+          message: `${productId} has no ${currency} price`,
+        })
+      }
+    }
+  }
+  if (ctx.issues.length > 0) return
+
+  // A publish nobody can pay for could never be completed, and Stripe refuses
+  // charges below its minimum. Promos are taken to overlap, whatever their
+  // dates, so each line gets its biggest discount.
+  for (const currency of catalog.currencies) {
+    const lowestPrice = (productId: PricingProductId) => {
+      const listPriceInCents = catalog.products[productId].prices[currency]
+      const discounts = catalog.promos
+        .filter((rule) => !rule.products || rule.products.includes(productId))
+        .map((rule) => getPromoDiscount(rule, listPriceInCents, currency))
+      return listPriceInCents - Math.max(0, ...discounts)
+    }
+    const minimumInCents = STRIPE_MINIMUM_CHARGE_CENTS[currency]
+    for (const options of ALL_PUBLISH_OPTIONS) {
+      const products = getQuotedProducts(options)
+      const lowestTotal = products.reduce((total, productId) => total + lowestPrice(productId), 0)
+      if (lowestTotal === 0) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['promos'],
+          message: `${products.join(' + ')} can cost nothing in ${currency}`,
+        })
+      } else if (lowestTotal < minimumInCents) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['promos'],
+          message: `${products.join(' + ')} can cost ${formatPrice(lowestTotal, currency)}, below Stripe's ${formatPrice(minimumInCents, currency)} minimum charge`,
+        })
+      }
+    }
+  }
+})
+
+export type PricingCatalog = z.infer<typeof PricingCatalogSchema>
+
+export function getDefaultPricingCatalog(): PricingCatalog {
+  const usd = (priceInCents: number) => ({ usd: priceInCents })
+  return {
+    currencies: ['usd'],
+    products: {
+      'validate-only': { name: 'Validation', prices: usd(0) },
+      'validate-fix': { name: 'Validation with AI fix', prices: usd(0) },
+      publish: { name: 'Pine Script Publishing', stripeProductId: STRIPE_PUBLISH_PRODUCT_ID, prices: usd(100) },
+      'update-existing': { name: 'Script Update Publishing', stripeProductId: STRIPE_PUBLISH_PRODUCT_ID, prices: usd(100) },
+      'publish-protected': {
+        name: 'Protected script (closed source)',
+        prices: usd(readIntEnv('PROTECTED_SCRIPT_PRICE_CENTS', 500)),
+      },
+      'publish-invite-only': {
+        name: 'Invite-only script access',
+        prices: usd(readIntEnv('INVITE_ONLY_SCRIPT_PRICE_CENTS', 1000)),
+      },
+    },
+    promos: [],
+  }
+}
+
+/**
+ * The catalog saved by an admin, or the defaults. A saved catalog that no
+ * longer passes validation is ignored rather than charging wrong prices.
+ */
+export async function getPricingCatalog(): Promise<PricingCatalog> {
+  const stored = await getStoredPricingCatalog()
+  if (!stored) {
+    return getDefaultPricingCatalog()
+  }
+
+  const parsed = PricingCatalogSchema.safeParse(stored)
+  if (!parsed.success) {
+    console.error('[Pricing] Saved catalog is invalid, using the defaults:', z.prettifyError(parsed.error))
+    return getDefaultPricingCatalog()
+  }
+  return parsed.data
+}
+
+export function formatPrice(priceInCents: number, currency: string): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: currency.toUpperCase(),
+  }).format(priceInCents / 100)
+}
+
+/**
+ * The currency to charge in: the one asked for when the catalog offers it, otherwise the default
+ */
+export function resolveCurrency(catalog: PricingCatalog, currency?: string): string {
+  return currency && catalog.currencies.includes(currency) ? currency : catalog.currencies[0]
+}
+
+// ============ Quotes ============
+
+export interface PriceQuoteOptions {
+  /** A new script, or a new version of one published before */
+  publishMode: 'new' | 'update'
+  /** Only charged for new scripts; an update keeps the script's visibility */
+  visibilityLevel: VisibilityLevel
+  fixApplied: boolean
+  /** Falls back to the catalog's default currency when it is not offered */
+  currency?: string
+}
+
+export interface PriceQuoteLine {
+  productId: PricingProductId
+  name: string
+  stripeProductId?: string
+  listPriceInCents: number
+  discountInCents: number
+  priceInCents: number
+  listPriceFormatted: string
+  priceFormatted: string
+  /** Description of the promo behind the discount */
+  promo?: string
+}
+
+export interface PriceQuote {
+  currency: string
+  lines: PriceQuoteLine[]
+  totalInCents: number
+  totalFormatted: string
+}
+
+// Every combination of options a publish can be quoted for
+const ALL_PUBLISH_OPTIONS: PriceQuoteOptions[] = [true, false].flatMap((fixApplied) => [
+  { publishMode: 'update' as const, visibilityLevel: 'open' as const, fixApplied },
+  ...(['open', 'protected', 'invite-only'] as const).map((visibilityLevel) => ({ publishMode: 'new' as const, visibilityLevel, fixApplied })),
+])
+
+// Products a publish with these options is charged for
+function getQuotedProducts(options: PriceQuoteOptions): PricingProductId[] {
+  const products: PricingProductId[] = [options.fixApplied ? 'validate-fix' : 'validate-only']
+  if (options.publishMode === 'update') {
+    products.push('update-existing')
+  } else {
+    products.push('publish')
+    if (options.visibilityLevel === 'protected') products.push('publish-protected')
+    if (options.visibilityLevel === 'invite-only') products.push('publish-invite-only')
+  }
+  return products
+}
+
+// What a promo takes off a line; never more than the line costs
+function getPromoDiscount(rule: z.infer<typeof PromoRuleSchema>, listPriceInCents: number, currency: string): number {
+  return Math.min(
+    listPriceInCents,
+    rule.percentOff !== undefined
+      ? Math.round((listPriceInCents * rule.percentOff) / 100)
+      : (rule.amountOff?.[currency] ?? 0)
+  )
+}
+
+/**
+ * Price a publish against a catalog, promos included
+ */
+export function quotePrice(catalog: PricingCatalog, options: PriceQuoteOptions, now: number = Date.now()): PriceQuote {
+  const currency = resolveCurrency(catalog, options.currency)
+  const activePromos = catalog.promos.filter((promo) =>
+    (!promo.startsAt || Date.parse(promo.startsAt) <= now) && (!promo.endsAt || now < Date.parse(promo.endsAt))
+  )
+
+  const lines = getQuotedProducts(options).map((productId): PriceQuoteLine => {
+    const product = catalog.products[productId]
+    const listPriceInCents = product.prices[currency]
+
+    let discountInCents = 0
+    let promo: string | undefined
+    for (const rule of activePromos) {
+      if (rule.products && !rule.products.includes(productId)) continue
+      const discount = getPromoDiscount(rule, listPriceInCents, currency)
+      if (discount > discountInCents) {
+        discountInCents = discount
+        promo = rule.description
+      }
+    }
+
+    const priceInCents = listPriceInCents - discountInCents
+    return {
+      productId,
+      name: product.name,
+      stripeProductId: product.stripeProductId,
+      listPriceInCents,
+      discountInCents,
+      priceInCents,
+      listPriceFormatted: formatPrice(listPriceInCents, currency),
+      priceFormatted: formatPrice(priceInCents, currency),
+      promo,
+    }
+  })
+
+  const totalInCents = lines.reduce((total, line) => total + line.priceInCents, 0)
+  return { currency, lines, totalInCents, totalFormatted: formatPrice(totalInCents, currency) }
+}
+
+/**
+ * Price a publish against the current catalog
+ */
+export async function getPriceQuote(options: PriceQuoteOptions): Promise<PriceQuote> {
+  return quotePrice(await getPricingCatalog(), options)
+}
@@ -0,0 +1,67 @@
+/**
+ * Validation Progress Events
+ *
+ * Structured progress reporting for the validation loop and the TradingView
+ * automation it drives. Callers deep in the browser code report a stage with
+ * reportProgress(); whoever started the run decides where the events go by
+ * wrapping it in runWithProgress(). Outside a run, reporting is a no-op, so
+ * the TradingView helpers do not need to know whether anyone is listening.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks'
+
+/**
+ * Phases of a validate-and-publish run, in the order they usually happen
+ */
+export type ProgressStage =
+  | 'queued'
+  | 'started'
+  | 'syntax-check'
+  | 'session'
+  | 'editor'
+  | 'compile'
+  | 'fix'
+  | 'publish'
+  | 'done'
+  | 'failed'
+  | 'cancelled'
+
+export interface ProgressEvent {
+  stage: ProgressStage
+  message: string
+  /** Epoch ms */
+  at: number
+}
+
+export type ProgressReporter = (event: ProgressEvent) => void
+
+const reporterStorage = new AsyncLocalStorage<ProgressReporter>()
+
+/**
+ * Run `fn` with every reportProgress() call inside it (including across awaits) sent to `report`
+ */
+export function runWithProgress<T>(report: ProgressReporter, fn: () => Promise<T>): Promise<T> {
+  return reporterStorage.run(report, fn)
+}
+
+/**
+ * Report a progress event to the surrounding run, if there is one
+ */
+export function reportProgress(stage: ProgressStage, message: string): void {
+  const report = reporterStorage.getStore()
+  if (!report) return
+
+  try {
+    report({ stage, message, at: Date.now() })
+  } catch (error) {
+    // A broken listener must never fail the validation it is watching
+    console.error('[Progress] Reporter failed:', error)
+  }
+}
+
+/**
+ * Create a progress event without reporting it, for stages recorded outside a run
+ */
+export function createProgressEvent(stage: ProgressStage, message: string): ProgressEvent {
+  return { stage, message, at: Date.now() }
+}
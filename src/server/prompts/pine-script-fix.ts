@@ -14,6 +14,8 @@ CRITICAL RULES:
 3. Return the COMPLETE fixed script, not just the changes
 4. Preserve the original script's logic, structure, and behavior
 5. Do NOT add comments explaining your changes
+6. Errors may be tagged with a category (e.g. [undeclared-identifier], [qualifier-mismatch]);
+   follow the HOW TO FIX section after them for each category
 
 COMMON PINE SCRIPT FIXES:
 
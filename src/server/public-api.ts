@@ -0,0 +1,213 @@
+/**
+ * Public API (v1)
+ *
+ * Request and response schemas of the /api/v1 routes, and the OpenAPI
+ * document generated from them. Jobs go through the same queue as the web
+ * page: a POST returns the queued job, and clients poll GET /api/v1/jobs/:id
+ * (or stream /api/jobs/:id/events) until it leaves the queue.
+ */
+
+import { z } from 'zod'
+import { resolveScriptId } from './tradingview'
+import type { PublishJob } from './kv'
+import type { ValidationLoopResult } from './validation-loop'
+
+// ============ Schemas ============
+// Schemas registered here become the OpenAPI document's component schemas
+
+const apiSchemas = z.registry<{ id: string }>()
+
+const ScriptSchema = z.string().min(1).max(100_000).describe('Pine Script source')
+
+export const ValidateRequestSchema = z.object({
+  script: ScriptSchema,
+  fix: z.boolean().default(true).describe('Let the AI fix errors TradingView reports; false only validates'),
+}).register(apiSchemas, { id: 'ValidateRequest' })
+
+export const PublishRequestSchema = z.object({
+  script: ScriptSchema,
+  title: z.string().min(1).max(100),
+  description: z.string().min(1).max(10_000),
+  visibilityLevel: z.enum(['open', 'protected', 'invite-only']).default('open')
+    .describe('Open source, protected (closed source) or invite-only'),
+  updateScript: z.string()
+    .refine(value => resolveScriptId(value) !== null, 'Not a TradingView script URL or ID')
+    .optional()
+    .describe('Publish as a new version of this script (URL or ID) instead of as a new script'),
+  releaseNotes: z.string().min(1).max(10_000).optional().describe('Required with updateScript'),
+}).refine(data => !data.updateScript || data.releaseNotes, {
+  message: 'releaseNotes is required with updateScript',
+  path: ['releaseNotes'],
+}).register(apiSchemas, { id: 'PublishRequest' })
+
+const CompilerErrorSchema = z.object({
+  line: z.number().int().describe('1-based line, 0 when the message has none'),
+  column: z.number().int().optional(),
+  message: z.string(),
+  type: z.enum(['error', 'warning']),
+  category: z.string().optional().describe('Error category, e.g. syntax or undeclared-identifier'),
+  symbol: z.string().optional(),
+}).register(apiSchemas, { id: 'CompilerError' })
+
+export const ApiJobSchema = z.object({
+  jobId: z.string(),
+  mode: z.enum(['validate', 'publish']),
+  status: z.enum(['queued', 'validating', 'validated', 'pending', 'processing', 'completed', 'failed', 'cancelled']),
+  queuePosition: z.number().int().nullable().describe('Place in the queue while queued, 1 being next'),
+  result: z.object({
+    isValid: z.boolean(),
+    finalScript: z.string().describe('The script after any AI fix'),
+    fixApplied: z.boolean(),
+    stopReason: z.string(),
+    errors: z.array(CompilerErrorSchema),
+    indicatorUrl: z.string().optional(),
+    publishError: z.string().optional(),
+  }).nullable().describe('Set once the job has been validated'),
+  error: z.string().nullable(),
+  eventsUrl: z.string().describe('Server-sent event stream of the job\'s progress'),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+}).register(apiSchemas, { id: 'Job' })
+
+export const ApiErrorSchema = z.object({
+  error: z.string(),
+  issues: z.array(z.object({ path: z.string(), message: z.string() })).optional(),
+}).register(apiSchemas, { id: 'Error' })
+
+export type ApiJob = z.infer<typeof ApiJobSchema>
+export type ApiValidationResult = NonNullable<ApiJob['result']>
+
+// ============ Requests and Responses ============
+
+export function apiErrorResponse(
+  status: number,
+  error: string,
+  options: { headers?: Record<string, string>; issues?: Array<{ path: string; message: string }> } = {}
+): Response {
+  return Response.json({ error, ...(options.issues && { issues: options.issues }) }, { status, headers: options.headers })
+}
+
+/**
+ * Parse and validate a JSON request body; on failure, the 400 response to return
+ */
+export async function readApiRequest<T extends z.ZodType>(
+  request: Request,
+  schema: T
+): Promise<{ data: z.infer<T>; response?: undefined } | { data?: undefined; response: Response }> {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return { response: apiErrorResponse(400, 'Request body must be JSON') }
+  }
+
+  const parsed = schema.safeParse(body)
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message }))
+    return { response: apiErrorResponse(400, 'Invalid request', { issues }) }
+  }
+  return { data: parsed.data }
+}
+
+export function toApiValidationResult(result: ValidationLoopResult): ApiValidationResult {
+  return {
+    isValid: result.isValid,
+    finalScript: result.finalScript,
+    fixApplied: result.fixSuccessful,
+    stopReason: result.stopReason,
+    errors: result.finalErrors.map(({ line, column, message, type, category, symbol }) => ({
+      line, column, message, type, category, symbol,
+    })),
+    indicatorUrl: result.indicatorUrl,
+    publishError: result.publishError,
+  }
+}
+
+export function toApiJob(job: PublishJob, queuePosition: number | null): ApiJob {
+  return {
+    jobId: job.jobId,
+    mode: job.validateOnly ? 'validate' : 'publish',
+    status: job.status,
+    queuePosition,
+    result: job.validationResult ? toApiValidationResult(job.validationResult) : null,
+    error: job.error ?? null,
+    eventsUrl: `/api/jobs/${job.jobId}/events`,
+    createdAt: new Date(job.createdAt).toISOString(),
+    updatedAt: new Date(job.updatedAt).toISOString(),
+  }
+}
+
+// ============ OpenAPI ============
+
+function jsonContent(ref: string) {
+  return { 'application/json': { schema: { $ref: `#/components/schemas/${ref}` } } }
+}
+
+const ERROR_RESPONSES = {
+  '400': { description: 'Invalid request', content: jsonContent('Error') },
+  '401': { description: 'Missing, unknown or revoked API key', content: jsonContent('Error') },
+}
+
+const QUOTA_RESPONSE = {
+  '429': {
+    description: 'Daily quota of the key used up; X-RateLimit-Reset says when it resets',
+    content: jsonContent('Error'),
+  },
+}
+
+/**
+ * OpenAPI 3 document for /api/v1, with component schemas generated from the zod schemas above
+ */
+export function buildOpenApiDocument(serverUrl: string) {
+  const { schemas } = z.toJSONSchema(apiSchemas, {
+    target: 'openapi-3.0',
+    io: 'input',
+    uri: id => `#/components/schemas/${id}`,
+  })
+  // OpenAPI 3.0 schema objects have no $id
+  const componentSchemas = Object.fromEntries(
+    Object.entries(schemas).map(([id, { $id: _, ...schema }]) => [id, schema])
+  )
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Pine Script Publisher API',
+      version: '1.0.0',
+      description: 'Validate, fix and publish TradingView Pine Scripts. Jobs run in the background: poll the job until its status is validated, completed, failed or cancelled.',
+    },
+    servers: [{ url: serverUrl }],
+    security: [{ bearerAuth: [] }],
+    components: {
+      securitySchemes: { bearerAuth: { type: 'http', scheme: 'bearer' } },
+      schemas: componentSchemas,
+    },
+    paths: {
+      '/api/v1/validate': {
+        post: {
+          summary: 'Queue a script for validation, and AI fixes unless fix is false',
+          requestBody: { required: true, content: jsonContent('ValidateRequest') },
+          responses: { '202': { description: 'Job queued', content: jsonContent('Job') }, ...ERROR_RESPONSES, ...QUOTA_RESPONSE },
+        },
+      },
+      '/api/v1/publish': {
+        post: {
+          summary: 'Queue a script for validation and publishing once valid',
+          requestBody: { required: true, content: jsonContent('PublishRequest') },
+          responses: { '202': { description: 'Job queued', content: jsonContent('Job') }, ...ERROR_RESPONSES, ...QUOTA_RESPONSE },
+        },
+      },
+      '/api/v1/jobs/{jobId}': {
+        get: {
+          summary: 'Status and result of a job submitted with the same key',
+          parameters: [{ name: 'jobId', in: 'path', required: true, schema: { type: 'string' } }],
+          responses: {
+            '200': { description: 'The job', content: jsonContent('Job') },
+            '401': ERROR_RESPONSES['401'],
+            '404': { description: 'No such job for this key, or it has expired', content: jsonContent('Error') },
+          },
+        },
+      },
+    },
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * Rate Limiting
+ *
+ * Token buckets per client and limiter, kept in KV so every machine shares
+ * them. Each bucket holds up to `burst` requests and refills at `perHour`,
+ * so a client can send a burst and then keeps a steady rate. Refused
+ * requests get a 429 with Retry-After and show up in the admin view.
+ *
+ * Web requests are keyed by client IP, /api/v1 requests by API key and admin
+ * requests by admin key. Sign-in emails are limited both per client IP and
+ * per recipient, so nobody can flood an inbox through us. Forwarding headers are only believed when
+ * TRUSTED_PROXY says a proxy in front of the app sets them.
+ */
+
+import { getRequest, setResponseHeader, setResponseStatus } from '@tanstack/react-start/server'
+import { takeRateLimitToken, recordThrottledClient } from './kv'
+import { verifyAdminAuth } from './admin-auth'
+import { readIntEnv } from './env'
+
+export type RateLimiterName = 'validation' | 'checkout' | 'admin' | 'api' | 'sign-in'
+
+export interface RateLimit {
+  /** Requests a client may send at once */
+  burst: number
+  /** Sustained requests per hour */
+  perHour: number
+}
+
+const RATE_LIMIT_ENABLED = process.env.RATE_LIMIT_ENABLED !== 'false'
+
+function limitFromEnv(name: string, burst: number, perHour: number): RateLimit {
+  return {
+    burst: readIntEnv(`RATE_LIMIT_${name}_BURST`, burst),
+    perHour: readIntEnv(`RATE_LIMIT_${name}_PER_HOUR`, perHour),
+  }
+}
+
+// Validations and checkouts drive the one TradingView service account and the OpenRouter budget
+const RATE_LIMITS: Record<RateLimiterName, RateLimit> = {
+  validation: limitFromEnv('VALIDATION', 5, 20),
+  checkout: limitFromEnv('CHECKOUT', 10, 60),
+  admin: limitFromEnv('ADMIN', 30, 600),
+  api: limitFromEnv('API', 20, 300),
+  'sign-in': limitFromEnv('SIGN_IN', 3, 10),
+}
+
+export function getRateLimits(): Record<RateLimiterName, RateLimit> {
+  return RATE_LIMITS
+}
+
+/**
+ * Which proxy, if any, sets the client address headers: `fly` for Fly's
+ * Fly-Client-IP, or the number of proxies that append to X-Forwarded-For.
+ * Without one every header is client-controlled, so only the socket address counts.
+ */
+export type TrustedProxy = 'fly' | number | null
+
+function parseTrustedProxy(value: string | undefined): TrustedProxy {
+  const trimmed = value?.trim()
+  if (!trimmed) return null
+  if (trimmed === 'fly') return 'fly'
+  const hops = /^\d+$/.test(trimmed) ? parseInt(trimmed, 10) : NaN
+  if (Number.isNaN(hops)) {
+    console.warn(`[RateLimit] Ignoring TRUSTED_PROXY=${JSON.stringify(trimmed)}: expected 'fly' or a hop count`)
+    return null
+  }
+  return hops > 0 ? hops : null
+}
+
+const TRUSTED_PROXY = parseTrustedProxy(process.env.TRUSTED_PROXY)
+
+/**
+ * The client's IP, from the trusted proxy's header or else the socket address
+ *
+ * With N proxies appending to X-Forwarded-For, the Nth entry from the right
+ * was written by the outermost one; entries left of it came from the client.
+ */
+export function getClientIp(request: Request, trustedProxy: TrustedProxy = TRUSTED_PROXY): string {
+  if (trustedProxy === 'fly') {
+    const flyClientIp = request.headers.get('fly-client-ip')?.trim()
+    if (flyClientIp) return flyClientIp
+  } else if (trustedProxy) {
+    const hops = (request.headers.get('x-forwarded-for') ?? '').split(',').map(hop => hop.trim()).filter(Boolean)
+    if (hops.length >= trustedProxy) return hops[hops.length - trustedProxy]
+  }
+  // srvx, which serves TanStack Start, exposes the peer address on the request
+  return (request as Request & { ip?: string }).ip || 'unknown'
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  /** Whole requests left in the bucket */
+  remaining: number
+  /** Seconds until the next request would be allowed; 0 when allowed */
+  retryAfterSeconds: number
+}
+
+/**
+ * Take one request from the client's bucket
+ */
+export async function consumeRateLimit(
+  limiter: RateLimiterName,
+  clientId: string,
+  now: number = Date.now()
+): Promise<RateLimitResult> {
+  const limit = RATE_LIMITS[limiter]
+  if (!RATE_LIMIT_ENABLED || limit.perHour <= 0) {
+    return { allowed: true, remaining: limit.burst, retryAfterSeconds: 0 }
+  }
+
+  const refillPerMs = limit.perHour / (60 * 60 * 1000)
+  const { allowed, tokens } = await takeRateLimitToken(limiter, clientId, limit.burst, refillPerMs, now)
+  if (allowed) {
+    return { allowed, remaining: Math.floor(tokens), retryAfterSeconds: 0 }
+  }
+
+  await recordThrottledClient(limiter, clientId, now)
+  console.warn(`[RateLimit] ${limiter}: throttled ${clientId}`)
+  return { allowed, remaining: 0, retryAfterSeconds: Math.ceil((1 - tokens) / refillPerMs / 1000) }
+}
+
+/**
+ * Rate limit an API route request; returns the 429 response to send, or null
+ * to go ahead
+ *
+ * @param clientId - Defaults to the client IP; pass the API key ID to limit per key
+ */
+export async function rateLimitRequest(
+  limiter: RateLimiterName,
+  request: Request,
+  clientId: string = getClientIp(request)
+): Promise<Response | null> {
+  const result = await consumeRateLimit(limiter, clientId)
+  if (result.allowed) return null
+
+  return Response.json(
+    { error: 'Too many requests', retryAfter: result.retryAfterSeconds },
+    { status: 429, headers: { 'Retry-After': String(result.retryAfterSeconds) } }
+  )
+}
+
+/**
+ * Rate limit an admin route request. Requests with the admin key share one
+ * bucket and anything else is limited by IP, so failed attempts cannot use up
+ * the admin's own requests.
+ */
+export async function rateLimitAdminRequest(request: Request): Promise<Response | null> {
+  return rateLimitRequest('admin', request, verifyAdminAuth(request) ? 'admin-key' : getClientIp(request))
+}
+
+/**
+ * Rate limit the request of the running server function, by client IP unless
+ * another client ID is given
+ *
+ * @throws With the wait time when the client is throttled; the response is a 429 with Retry-After
+ */
+export async function enforceRateLimit(
+  limiter: RateLimiterName,
+  clientId: string = getClientIp(getRequest())
+): Promise<void> {
+  const result = await consumeRateLimit(limiter, clientId)
+  if (result.allowed) return
+
+  setResponseStatus(429)
+  setResponseHeader('Retry-After', String(result.retryAfterSeconds))
+  throw new Error(`Too many requests - try again in ${formatWait(result.retryAfterSeconds)}`)
+}
+
+function formatWait(seconds: number): string {
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? '' : 's'}`
+  const minutes = Math.ceil(seconds / 60)
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`
+}
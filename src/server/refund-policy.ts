@@ -0,0 +1,143 @@
+/**
+ * Refund Policy
+ *
+ * Customers pay after their script is published, so a paid job should always
+ * have an indicator URL. When it does not - publishing failed, or TradingView
+ * took the script but the URL could not be captured - the payment is refunded
+ * automatically instead of waiting for the customer to email us.
+ *
+ * The policy runs whenever a payment is confirmed: by the Stripe webhook or the
+ * success page, whichever comes first. A job gets at most one refund, and
+ * Stripe is given the payment intent as idempotency key, so the two racing or
+ * a retried webhook never refund twice.
+ *
+ * Only a checkout this app created for the job it finds is refunded. A paid
+ * checkout without a job may still have been delivered, or may not be ours at
+ * all, so it is left for a person to look at.
+ */
+
+import type Stripe from 'stripe'
+import { getJobByStripeSession, getPublishJob, updatePublishJob, recordJobPayment, type PublishJob } from './kv'
+import { createRefund, getPaymentIntentId } from './stripe'
+
+/**
+ * Why a payment was refunded:
+ * - publish-failed: the job failed, so nothing was published
+ * - indicator-url-missing: no URL to hand over (e.g. published, but the URL capture failed)
+ * - manual: refunded outside the policy, e.g. from the Stripe dashboard
+ */
+export type RefundReason = 'publish-failed' | 'indicator-url-missing' | 'manual'
+
+export type RefundStatus = 'pending' | 'requires_action' | 'succeeded' | 'failed' | 'canceled'
+
+const REFUND_REASON_MESSAGES: Record<Exclude<RefundReason, 'manual'>, string> = {
+  'publish-failed': 'Publishing your script failed',
+  'indicator-url-missing': 'We could not get the URL of your published script',
+}
+
+/**
+ * Why a paid job should be refunded, or null when it was delivered
+ */
+export function getRefundReason(job: PublishJob): RefundReason | null {
+  if (job.status === 'failed') return 'publish-failed'
+  if (!job.indicatorUrl) return 'indicator-url-missing'
+  return null
+}
+
+/**
+ * Refund the job's payment if the policy says so and it was not refunded yet
+ *
+ * @returns The job, with the refund recorded when one was issued
+ */
+export async function applyRefundPolicy(job: PublishJob): Promise<PublishJob> {
+  const reason = getRefundReason(job)
+  if (!reason || !job.paymentIntentId || job.refundId) {
+    return job
+  }
+
+  const refund = await issueRefund(job.paymentIntentId, reason, { jobId: job.jobId })
+  console.log(`[RefundPolicy] ${job.jobId}: refunded (${reason}), refund ${refund.id} ${refund.status}`)
+  return updatePublishJob(job.jobId, {
+    refundId: refund.id,
+    refundReason: reason,
+    refundStatus: toRefundStatus(refund.status),
+  })
+}
+
+export type PaidCheckout = Pick<Stripe.Checkout.Session, 'id' | 'metadata' | 'payment_intent'>
+
+/**
+ * Whether this app created the checkout for the job: its metadata names the
+ * job's script and user
+ */
+export function isCheckoutForJob(checkout: PaidCheckout, job: PublishJob): boolean {
+  return checkout.metadata?.scriptHash === job.scriptHash && checkout.metadata?.userId === job.userId
+}
+
+/**
+ * Record a paid checkout on its job: the job is completed, and its payment
+ * refunded when the job cannot be delivered
+ *
+ * @returns The paid job, or null when no job of this app belongs to the checkout
+ */
+export async function settlePaidCheckout(checkout: PaidCheckout): Promise<PublishJob | null> {
+  const job = await getJobByStripeSession(checkout.id)
+  if (!job || !isCheckoutForJob(checkout, job)) {
+    console.warn(`[RefundPolicy] No job for paid session ${checkout.id}: not refunded, check it by hand`)
+    return null
+  }
+
+  const paymentIntentId = getPaymentIntentId(checkout)
+  let updated = job
+  if (paymentIntentId && !job.paymentIntentId) {
+    updated = await recordJobPayment(job.jobId, paymentIntentId)
+  }
+  if (updated.status === 'pending' || updated.status === 'processing') {
+    updated = await updatePublishJob(job.jobId, { status: 'completed' })
+  }
+  return applyRefundPolicy(updated)
+}
+
+/**
+ * Keep a job's refund status in step with Stripe (refund.updated and refund.failed webhooks)
+ */
+export async function recordRefundUpdate(refund: Pick<Stripe.Refund, 'id' | 'status' | 'metadata'>): Promise<void> {
+  const jobId = refund.metadata?.jobId
+  const job = jobId ? await getPublishJob(jobId) : null
+  if (!job || job.refundId !== refund.id) {
+    return
+  }
+
+  const refundStatus = toRefundStatus(refund.status)
+  if (refundStatus !== job.refundStatus) {
+    await updatePublishJob(job.jobId, { refundStatus })
+    console.log(`[RefundPolicy] ${job.jobId}: refund ${refund.id} is now ${refundStatus}`)
+  }
+}
+
+/**
+ * What to tell the customer about their refund
+ */
+export function describeRefund(reason: RefundReason, status: RefundStatus): string {
+  if (status === 'failed' || status === 'canceled') {
+    return 'We tried to refund your payment but the refund did not go through - please contact support.'
+  }
+
+  const refund = status === 'succeeded'
+    ? 'your payment has been refunded. It can take 5-10 business days to show up on your statement.'
+    : 'your payment is being refunded.'
+  return reason === 'manual'
+    ? `${refund.charAt(0).toUpperCase()}${refund.slice(1)}`
+    : `${REFUND_REASON_MESSAGES[reason]}, so ${refund}`
+}
+
+async function issueRefund(paymentIntentId: string, reason: RefundReason, metadata: Record<string, string>): Promise<Stripe.Refund> {
+  return createRefund(paymentIntentId, {
+    idempotencyKey: `refund:${paymentIntentId}`,
+    metadata: { ...metadata, reason },
+  })
+}
+
+function toRefundStatus(status: string | null): RefundStatus {
+  return (status ?? 'pending') as RefundStatus
+}
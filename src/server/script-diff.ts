@@ -0,0 +1,296 @@
+/**
+ * Script Diff Module
+ *
+ * Line-level diff between two versions of a script, used to record what each
+ * AI fix iteration changed. Common leading and trailing lines are trimmed
+ * before running the LCS, so a small fix in a long script stays cheap.
+ *
+ * The diff viewer also uses it in the browser: word-level diffs of changed
+ * lines, hunks tied to the compiler errors they fix, and applying only the
+ * hunks the user kept.
+ */
+
+import type { CompilerError } from './pine/compiler-errors'
+
+export interface DiffLine {
+  type: 'equal' | 'add' | 'remove'
+  text: string
+  /** 1-based line number in the old script (equal/remove) */
+  oldLine?: number
+  /** 1-based line number in the new script (equal/add) */
+  newLine?: number
+}
+
+/**
+ * Changed lines with `context` unchanged lines around them, as in a unified diff
+ */
+export interface DiffHunk {
+  /** 0-based position among the diff's hunks */
+  index: number
+  oldStart: number
+  oldCount: number
+  newStart: number
+  newCount: number
+  lines: DiffLine[]
+}
+
+export interface WordDiffPart {
+  type: 'equal' | 'add' | 'remove'
+  text: string
+}
+
+/**
+ * A script of the fix loop and the errors it was validated with
+ */
+export interface DiffErrorSource {
+  script: string
+  errors: CompilerError[]
+}
+
+// Above this many LCS cells the middle section is reported as a full replace
+const MAX_LCS_CELLS = 4_000_000
+
+// Identifiers and numbers, runs of whitespace, and single punctuation characters
+const WORD_PATTERN = /\w+|\s+|[^\w\s]/g
+
+/**
+ * Diff two scripts line by line
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const oldLines = splitLines(before)
+  const newLines = splitLines(after)
+
+  let prefix = 0
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++
+  }
+  let suffix = 0
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++
+  }
+
+  const result: DiffLine[] = []
+  for (let i = 0; i < prefix; i++) {
+    result.push({ type: 'equal', text: oldLines[i], oldLine: i + 1, newLine: i + 1 })
+  }
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix)
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix)
+  result.push(...diffMiddle(oldMiddle, newMiddle, prefix))
+
+  for (let i = suffix; i > 0; i--) {
+    result.push({
+      type: 'equal',
+      text: oldLines[oldLines.length - i],
+      oldLine: oldLines.length - i + 1,
+      newLine: newLines.length - i + 1,
+    })
+  }
+
+  return result
+}
+
+/**
+ * Group the diff's changes into hunks with `context` unchanged lines around each
+ */
+export function diffHunks(before: string, after: string, context: number = 3): DiffHunk[] {
+  const lines = diffLines(before, after)
+  return groupHunks(lines, context).map(([start, end], index) => {
+    const slice = lines.slice(start, end + 1)
+    return {
+      index,
+      oldStart: firstLineNumber(lines, start, 'oldLine'),
+      oldCount: slice.filter((line) => line.type !== 'add').length,
+      newStart: firstLineNumber(lines, start, 'newLine'),
+      newCount: slice.filter((line) => line.type !== 'remove').length,
+      lines: slice,
+    }
+  })
+}
+
+/**
+ * Render a unified diff (`@@ -a,b +c,d @@` hunks) with `context` unchanged lines around each change
+ */
+export function createUnifiedDiff(before: string, after: string, context: number = 3): string {
+  const output: string[] = []
+  for (const hunk of diffHunks(before, after, context)) {
+    output.push(`@@ -${hunk.oldStart},${hunk.oldCount} +${hunk.newStart},${hunk.newCount} @@`)
+    for (const line of hunk.lines) {
+      const marker = line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' '
+      output.push(`${marker}${line.text}`)
+    }
+  }
+
+  return output.join('\n')
+}
+
+/**
+ * Apply the before → after diff except for the rejected hunks, which keep the
+ * lines of `before`. Hunk indexes are those of diffHunks with the same context.
+ */
+export function applyHunks(before: string, after: string, rejected: Iterable<number>, context: number = 3): string {
+  const lines = diffLines(before, after)
+  const rejectedHunks = new Set(rejected)
+  const keepOld = new Set<number>()
+  groupHunks(lines, context).forEach(([start, end], index) => {
+    if (!rejectedHunks.has(index)) return
+    for (let i = start; i <= end; i++) keepOld.add(i)
+  })
+
+  return lines
+    .filter((line, i) => line.type === 'equal' || (line.type === 'remove') === keepOld.has(i))
+    .map((line) => line.text)
+    .join('\n')
+}
+
+/**
+ * Diff one changed line against its replacement word by word
+ */
+export function diffWords(before: string, after: string): WordDiffPart[] {
+  const oldWords = before.match(WORD_PATTERN) ?? []
+  const newWords = after.match(WORD_PATTERN) ?? []
+
+  const parts: WordDiffPart[] = []
+  for (const { type, oldIndex, newIndex } of diffSequences(oldWords, newWords)) {
+    const text = type === 'add' ? newWords[newIndex!] : oldWords[oldIndex!]
+    const last = parts[parts.length - 1]
+    if (last?.type === type) {
+      last.text += text
+    } else {
+      parts.push({ type, text })
+    }
+  }
+  return parts
+}
+
+/**
+ * The errors each hunk of the before → after diff was made to fix. Error lines
+ * refer to the script they were reported for, so they are first mapped back to
+ * `before`; an error belongs to the hunk whose old lines cover it.
+ *
+ * @param sources - The fix loop's iterations whose errors the AI fixed
+ * @returns The errors of each hunk, by hunk index
+ */
+export function hunkErrors(before: string, hunks: DiffHunk[], sources: DiffErrorSource[]): CompilerError[][] {
+  const result = hunks.map((): CompilerError[] => [])
+  const seen = new Set<string>()
+
+  for (const source of sources) {
+    const toOldLine = mapLinesBack(before, source.script)
+    for (const error of source.errors) {
+      if (error.line <= 0) continue
+      const oldLine = toOldLine[error.line]
+      if (oldLine === undefined) continue
+
+      const hunk = hunks.find((h) => oldLine >= h.oldStart && oldLine < h.oldStart + Math.max(h.oldCount, 1))
+      // The same error is often reported again by later iterations
+      const key = `${hunk?.index}:${error.message}`
+      if (!hunk || seen.has(key)) continue
+      seen.add(key)
+      result[hunk.index].push(error)
+    }
+  }
+  return result
+}
+
+// Line numbers of `before` for each line of `script`; added lines take the line they follow
+function mapLinesBack(before: string, script: string): number[] {
+  const toOldLine: number[] = []
+  let lastOldLine = 0
+  for (const line of diffLines(before, script)) {
+    if (line.oldLine !== undefined) lastOldLine = line.oldLine
+    if (line.newLine !== undefined) toOldLine[line.newLine] = Math.max(lastOldLine, 1)
+  }
+  return toOldLine
+}
+
+// Index ranges of the diff lines in each hunk, merging changes whose context windows touch
+function groupHunks(lines: DiffLine[], context: number): Array<[number, number]> {
+  const hunks: Array<[number, number]> = []
+  lines.forEach((line, index) => {
+    if (line.type === 'equal') return
+    const start = Math.max(0, index - context)
+    const end = Math.min(lines.length - 1, index + context)
+    const last = hunks[hunks.length - 1]
+    if (last && start <= last[1] + 1) {
+      last[1] = end
+    } else {
+      hunks.push([start, end])
+    }
+  })
+  return hunks
+}
+
+function diffMiddle(oldLines: string[], newLines: string[], offset: number): DiffLine[] {
+  return diffSequences(oldLines, newLines).map(({ type, oldIndex, newIndex }) => ({
+    type,
+    text: type === 'add' ? newLines[newIndex!] : oldLines[oldIndex!],
+    ...(oldIndex !== undefined && { oldLine: offset + oldIndex + 1 }),
+    ...(newIndex !== undefined && { newLine: offset + newIndex + 1 }),
+  }))
+}
+
+interface SequenceEdit {
+  type: DiffLine['type']
+  oldIndex?: number
+  newIndex?: number
+}
+
+// LCS edit script between two sequences (lines or words)
+function diffSequences(oldItems: string[], newItems: string[]): SequenceEdit[] {
+  const removeAll = (): SequenceEdit[] => oldItems.map((_, i) => ({ type: 'remove' as const, oldIndex: i }))
+  const addAll = (): SequenceEdit[] => newItems.map((_, j) => ({ type: 'add' as const, newIndex: j }))
+
+  if (oldItems.length === 0 || newItems.length === 0 || oldItems.length * newItems.length > MAX_LCS_CELLS) {
+    return [...removeAll(), ...addAll()]
+  }
+
+  // lengths[i][j] = LCS length of oldItems[i..] and newItems[j..]
+  const width = newItems.length + 1
+  const lengths = new Uint32Array((oldItems.length + 1) * width)
+  for (let i = oldItems.length - 1; i >= 0; i--) {
+    for (let j = newItems.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = oldItems[i] === newItems[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1])
+    }
+  }
+
+  const result: SequenceEdit[] = []
+  let i = 0
+  let j = 0
+  while (i < oldItems.length && j < newItems.length) {
+    if (oldItems[i] === newItems[j]) {
+      result.push({ type: 'equal', oldIndex: i++, newIndex: j++ })
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      result.push({ type: 'remove', oldIndex: i++ })
+    } else {
+      result.push({ type: 'add', newIndex: j++ })
+    }
+  }
+  for (; i < oldItems.length; i++) result.push({ type: 'remove', oldIndex: i })
+  for (; j < newItems.length; j++) result.push({ type: 'add', newIndex: j })
+
+  return result
+}
+
+function firstLineNumber(lines: DiffLine[], start: number, key: 'oldLine' | 'newLine'): number {
+  for (let i = start; i < lines.length; i++) {
+    const value = lines[i][key]
+    if (value !== undefined) return value
+  }
+  // Hunk only adds (or only removes) at the end of the file
+  for (let i = start - 1; i >= 0; i--) {
+    const value = lines[i][key]
+    if (value !== undefined) return value + 1
+  }
+  return 1
+}
+
+function splitLines(text: string): string[] {
+  return text.replace(/\r\n?/g, '\n').split('\n')
+}
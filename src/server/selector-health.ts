@@ -0,0 +1,424 @@
+/**
+ * Selector Health Check
+ *
+ * TradingView changes its UI without notice, and a renamed data-name breaks
+ * validation or publishing for every customer at once. This check walks the
+ * service account through the pages the flows use (the chart, the Pine Editor
+ * and the publish dialog up to its final button) plus the signed-out sign-in
+ * form, and records which TV_SELECTORS still resolve to a visible element.
+ *
+ * For every selector that no longer resolves, the page is screenshotted to
+ * SCREENSHOT_DIR and nearby elements whose data-name, aria-label, placeholder or
+ * label share words with it are offered as replacements.
+ *
+ * Nothing is published: the check stops before the final publish button.
+ * Warning lines are not probed, as no script is guaranteed to produce one.
+ */
+
+import type { Page } from 'puppeteer-core'
+import { createBrowserSession, closeBrowserSession, injectCookies, navigateTo } from './browserless'
+import {
+  TV_SELECTORS,
+  TV_URLS,
+  STRICT_SELECTORS,
+  SCREENSHOT_DIR,
+  parseTVCookies,
+  ensureChartPineEditorOpen,
+  clickPublishButtonInChart,
+  type TVCredentials,
+} from './tradingview'
+import { getServiceAccountCredentials } from './service-validation'
+import { saveSelectorHealthReport } from './kv'
+import { readIntEnv } from './env'
+
+// How often the scheduled check runs; 0 disables it
+const SELECTOR_HEALTH_INTERVAL_MS = readIntEnv('SELECTOR_HEALTH_INTERVAL_MS', 6 * 60 * 60 * 1000)
+const MAX_SUGGESTIONS = 3
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+// Pasted to produce a console error line, then replaced by a script that compiles
+const BROKEN_SCRIPT = '//@version=5\nindicator("Selector health check")\nplot(selectorHealthCheckUndefined)'
+const VALID_SCRIPT = '//@version=5\nindicator("Selector health check")\nplot(close)'
+
+/**
+ * Point in the walk-through where a selector is expected to be on screen
+ */
+export type SelectorHealthStage =
+  | 'chart'
+  | 'editor'
+  | 'publish-details'
+  | 'publish-visibility'
+  | 'publish-public'
+  | 'publish-private'
+  | 'signed-out-chart'
+  | 'signin'
+
+export interface SelectorProbe {
+  stage: SelectorHealthStage
+  /** TV_SELECTORS group, or 'strict' for STRICT_SELECTORS */
+  group: string
+  /** Probes sharing a group and name are alternatives: one of them resolving is enough */
+  name: string
+  selector: string
+  /** For buttons TradingView only tells apart by their label */
+  text?: string
+}
+
+export interface SelectorProbeResult extends SelectorProbe {
+  /** Visible elements matching the selector (and text) */
+  matches: number
+  found: boolean
+  /** Replacement selectors seen on the page, for selectors that did not resolve */
+  suggestions?: string[]
+}
+
+export interface SelectorHealthReport {
+  /** TV_SELECTORS.version the check ran against */
+  version: string
+  checkedAt: number
+  durationMs: number
+  healthy: boolean
+  /** `group.name` of every selector that resolved nowhere */
+  failing: string[]
+  results: SelectorProbeResult[]
+  screenshots: string[]
+  /** Why the check stopped early, e.g. the Pine Editor would not open */
+  error?: string
+}
+
+const { pineEditor, publish, publishDialog, auth, chart } = TV_SELECTORS
+
+export const SELECTOR_PROBES: SelectorProbe[] = [
+  // Signed in, before the Pine Editor is opened
+  { stage: 'chart', group: 'auth', name: 'userMenu', selector: auth.userMenu },
+  { stage: 'chart', group: 'chart', name: 'container', selector: chart.container },
+  { stage: 'chart', group: 'chart', name: 'pineDialogButton', selector: chart.pineDialogButton },
+
+  // Pine Editor open, with a script that does not compile
+  { stage: 'editor', group: 'pineEditor', name: 'container', selector: pineEditor.container },
+  { stage: 'editor', group: 'pineEditor', name: 'editorArea', selector: pineEditor.editorArea },
+  { stage: 'editor', group: 'pineEditor', name: 'consolePanel', selector: pineEditor.consolePanel },
+  { stage: 'editor', group: 'pineEditor', name: 'errorLine', selector: pineEditor.errorLine },
+  { stage: 'editor', group: 'chart', name: 'pineEditorButton', selector: chart.pineEditorButton },
+  ...STRICT_SELECTORS.publishButtons.map(selector => ({
+    stage: 'editor' as const,
+    group: 'strict',
+    name: 'publishButtons',
+    selector,
+  })),
+
+  // Publish dialog, step 1
+  { stage: 'publish-details', group: 'publish', name: 'dialog', selector: publish.dialog },
+  { stage: 'publish-details', group: 'publishDialog', name: 'titleInput', selector: publishDialog.titleInput },
+  { stage: 'publish-details', group: 'publishDialog', name: 'descriptionEditor', selector: publishDialog.descriptionEditor },
+  { stage: 'publish-details', group: 'publishDialog', name: 'continueButton', selector: publishDialog.continueButton, text: 'Continue' },
+
+  // Publish dialog, step 2
+  { stage: 'publish-visibility', group: 'publishDialog', name: 'publicButton', selector: publishDialog.publicButton, text: 'Public' },
+  { stage: 'publish-visibility', group: 'publishDialog', name: 'privateButton', selector: publishDialog.privateButton, text: 'Private' },
+  { stage: 'publish-public', group: 'publishDialog', name: 'openButton', selector: publishDialog.openButton, text: 'Open' },
+  { stage: 'publish-public', group: 'publishDialog', name: 'protectedButton', selector: publishDialog.protectedButton, text: 'Protected' },
+  { stage: 'publish-public', group: 'publishDialog', name: 'inviteOnlyButton', selector: publishDialog.inviteOnlyButton, text: 'Invite-only' },
+  { stage: 'publish-public', group: 'publishDialog', name: 'publishPublicButton', selector: publishDialog.publishPublicButton, text: 'Publish public script' },
+  { stage: 'publish-private', group: 'publishDialog', name: 'publishPrivateButton', selector: publishDialog.publishPrivateButton, text: 'Publish private script' },
+
+  // Signed out
+  { stage: 'signed-out-chart', group: 'auth', name: 'loginButton', selector: auth.loginButton },
+  { stage: 'signin', group: 'auth', name: 'emailTab', selector: auth.emailTab },
+  { stage: 'signin', group: 'auth', name: 'emailInput', selector: auth.emailInput },
+  { stage: 'signin', group: 'auth', name: 'passwordInput', selector: auth.passwordInput },
+  { stage: 'signin', group: 'auth', name: 'submitButton', selector: auth.submitButton },
+]
+
+// Words too common in selectors to say anything about an element
+const GENERIC_WORDS = new Set(['button', 'input', 'true', 'data', 'name', 'your'])
+
+/**
+ * Words to look for in replacement candidates: the probe's name, the values and
+ * class names in its selector, and its label
+ */
+export function selectorKeywords(probe: Pick<SelectorProbe, 'name' | 'selector' | 'text'>): string[] {
+  const quoted = Array.from(probe.selector.matchAll(/"([^"]*)"/g), match => match[1])
+  const classNames = Array.from(probe.selector.matchAll(/\.([\w-]+)/g), match => match[1])
+  const words = [probe.name.replace(/([a-z])([A-Z])/g, '$1 $2'), ...quoted, ...classNames, probe.text || '']
+    .join(' ')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length >= 3 && !GENERIC_WORDS.has(word))
+  return [...new Set(words)]
+}
+
+/**
+ * Selectors none of whose alternatives resolved, as `group.name`
+ */
+export function findFailingSelectors(results: SelectorProbeResult[]): string[] {
+  const resolved = new Map<string, boolean>()
+  for (const result of results) {
+    const key = `${result.group}.${result.name}`
+    resolved.set(key, (resolved.get(key) ?? false) || result.found)
+  }
+  return [...resolved].filter(([, found]) => !found).map(([key]) => key)
+}
+
+// ============ Probing ============
+
+async function countMatches(page: Page, probe: SelectorProbe): Promise<number> {
+  return page.evaluate(({ selector, text }) => {
+    try {
+      return Array.from(document.querySelectorAll(selector)).filter(el => {
+        const rect = el.getBoundingClientRect()
+        return rect.width > 0 && rect.height > 0 && (!text || (el.textContent || '').includes(text))
+      }).length
+    } catch {
+      return 0 // Selector the browser cannot parse
+    }
+  }, { selector: probe.selector, text: probe.text }).catch(() => 0)
+}
+
+async function suggestSelectors(page: Page, keywords: string[]): Promise<string[]> {
+  if (keywords.length === 0) return []
+
+  return page.evaluate(({ keywords, limit }) => {
+    const quote = (value: string) => value.replace(/"/g, '\\"')
+    const scores = new Map<string, number>()
+    const elements = document.querySelectorAll(
+      '[data-name], [data-dialog-name], [aria-label], [title], [placeholder], [name], [contenteditable="true"], button, [role="button"]'
+    )
+
+    for (const el of Array.from(elements)) {
+      const rect = el.getBoundingClientRect()
+      if (rect.width === 0 || rect.height === 0) continue
+
+      const tag = el.tagName.toLowerCase()
+      const attr = (name: string) => el.getAttribute(name) || ''
+      const text = (el.textContent || '').trim()
+      const label = text.length <= 40 ? text : ''
+      const haystack = [
+        attr('data-name'), attr('data-dialog-name'), attr('aria-label'), attr('title'),
+        attr('placeholder'), attr('name'), String(el.className), label,
+      ].join(' ').toLowerCase()
+      const score = keywords.filter(keyword => haystack.includes(keyword)).length
+      if (score === 0) continue
+
+      let selector: string | null = null
+      if (attr('data-name')) selector = `[data-name="${quote(attr('data-name'))}"]`
+      else if (attr('data-dialog-name')) selector = `[data-dialog-name="${quote(attr('data-dialog-name'))}"]`
+      else if (attr('aria-label')) selector = `${tag}[aria-label="${quote(attr('aria-label'))}"]`
+      else if (attr('placeholder')) selector = `${tag}[placeholder="${quote(attr('placeholder'))}"]`
+      else if (attr('name')) selector = `${tag}[name="${quote(attr('name'))}"]`
+      else if (label) selector = `xpath/.//${tag}[contains(text(), "${quote(label)}")]`
+      if (selector) scores.set(selector, Math.max(scores.get(selector) || 0, score))
+    }
+
+    return Array.from(scores).sort((a, b) => b[1] - a[1]).slice(0, limit).map(([selector]) => selector)
+  }, { keywords, limit: MAX_SUGGESTIONS }).catch(() => [])
+}
+
+/**
+ * Probe every selector expected at `stage`, adding suggestions and a
+ * screenshot if any of them is missing
+ */
+async function probeStage(
+  page: Page,
+  stage: SelectorHealthStage,
+  report: Pick<SelectorHealthReport, 'results' | 'screenshots'>
+): Promise<void> {
+  const stageResults: SelectorProbeResult[] = []
+  for (const probe of SELECTOR_PROBES.filter(p => p.stage === stage)) {
+    const matches = await countMatches(page, probe)
+    stageResults.push({ ...probe, matches, found: matches > 0 })
+  }
+  report.results.push(...stageResults)
+
+  const failing = new Set(findFailingSelectors(stageResults))
+  if (failing.size === 0) return
+
+  console.log(`[Selector Health] ${stage}: not found: ${[...failing].join(', ')}`)
+  for (const result of stageResults) {
+    if (failing.has(`${result.group}.${result.name}`)) {
+      result.suggestions = await suggestSelectors(page, selectorKeywords(result))
+    }
+  }
+  await saveScreenshot(page, stage, report)
+}
+
+async function saveScreenshot(
+  page: Page,
+  label: string,
+  report: Pick<SelectorHealthReport, 'screenshots'>
+): Promise<void> {
+  const path = `${SCREENSHOT_DIR}/selector-health-${label}-${Date.now()}.png`
+  try {
+    await page.screenshot({ path })
+    report.screenshots.push(path)
+  } catch (error) {
+    console.log(`[Selector Health] Could not save screenshot ${path}:`, error)
+  }
+}
+
+/**
+ * Click the first button whose text contains `text`, as the publish helpers do
+ */
+async function clickButtonByText(page: Page, text: string): Promise<boolean> {
+  const buttons = await page.$$(`xpath/.//button[contains(text(), "${text}")]`)
+  if (buttons.length === 0) return false
+  await buttons[0].click()
+  return true
+}
+
+async function pasteScript(page: Page, script: string): Promise<void> {
+  await page.click(pineEditor.editorArea)
+  await page.keyboard.down('Control')
+  await page.keyboard.press('a')
+  await page.keyboard.up('Control')
+  await page.evaluate((text) => navigator.clipboard.writeText(text), script)
+  await page.keyboard.down('Control')
+  await page.keyboard.press('v')
+  await page.keyboard.up('Control')
+  await delay(500)
+}
+
+async function addToChart(page: Page): Promise<void> {
+  await page.evaluate(() => {
+    const button = document.querySelector('[data-name="add-script-to-chart"]') as HTMLElement | null
+    button?.click()
+  })
+  await delay(2500)
+}
+
+// ============ Check ============
+
+/**
+ * Walk through TradingView and probe every selector
+ *
+ * Runs to the end even when selectors are missing; only a step the walk-through
+ * cannot get past (the editor or dialog not opening) stops it early.
+ */
+export async function runSelectorHealthCheck(credentials: TVCredentials): Promise<SelectorHealthReport> {
+  const startedAt = Date.now()
+  const report: SelectorHealthReport = {
+    version: TV_SELECTORS.version,
+    checkedAt: startedAt,
+    durationMs: 0,
+    healthy: false,
+    failing: [],
+    results: [],
+    screenshots: [],
+  }
+
+  const session = await createBrowserSession()
+  const { page } = session
+  // Label of the step in progress, for the error message
+  let step = 'loading the chart'
+
+  try {
+    await injectCookies(page, parseTVCookies(credentials))
+    if (!(await navigateTo(page, TV_URLS.chart))) throw new Error('navigation failed')
+    await delay(3000)
+    await probeStage(page, 'chart', report)
+
+    step = 'opening the Pine Editor'
+    await ensureChartPineEditorOpen(page, 'Selector Health')
+    await pasteScript(page, BROKEN_SCRIPT)
+    await addToChart(page)
+    await probeStage(page, 'editor', report)
+
+    step = 'opening the publish dialog'
+    await pasteScript(page, VALID_SCRIPT)
+    await addToChart(page)
+    if (!(await clickPublishButtonInChart(page, 'Selector Health'))) throw new Error('no publish button')
+    await delay(3000)
+    await probeStage(page, 'publish-details', report)
+
+    step = 'continuing to the visibility step'
+    if (!(await clickButtonByText(page, 'Continue'))) throw new Error('no Continue button')
+    await delay(1500)
+    await probeStage(page, 'publish-visibility', report)
+
+    if (await clickButtonByText(page, 'Public')) {
+      await delay(500)
+      await probeStage(page, 'publish-public', report)
+    }
+    if (await clickButtonByText(page, 'Private')) {
+      await delay(500)
+      await probeStage(page, 'publish-private', report)
+    }
+
+    // A fresh context has none of the service account's cookies
+    step = 'loading TradingView signed out'
+    const context = await session.browser.createBrowserContext()
+    try {
+      const signedOut = await context.newPage()
+      if (!(await navigateTo(signedOut, TV_URLS.chart))) throw new Error('navigation failed')
+      await delay(3000)
+      await probeStage(signedOut, 'signed-out-chart', report)
+
+      step = 'loading the sign-in page'
+      if (!(await navigateTo(signedOut, TV_URLS.signin))) throw new Error('navigation failed')
+      await delay(2000)
+      // The email form only appears once its tab is chosen
+      await signedOut.click(auth.emailTab).catch(() => {})
+      await delay(1000)
+      await probeStage(signedOut, 'signin', report)
+    } finally {
+      await context.close().catch(() => {})
+    }
+  } catch (error) {
+    report.error = `Stopped while ${step}: ${error instanceof Error ? error.message : String(error)}`
+    console.error(`[Selector Health] ${report.error}`)
+    await saveScreenshot(page, 'stopped', report)
+  } finally {
+    await closeBrowserSession(session).catch(() => {})
+  }
+
+  report.failing = findFailingSelectors(report.results)
+  report.healthy = !report.error && report.failing.length === 0
+  report.durationMs = Date.now() - startedAt
+  return report
+}
+
+// One check at a time: a second caller waits for the running one
+let runningCheck: Promise<SelectorHealthReport> | null = null
+
+/**
+ * Run the check with the service account and store the report for the admin API
+ */
+export function checkSelectorHealth(): Promise<SelectorHealthReport> {
+  if (!runningCheck) {
+    runningCheck = (async () => {
+      const credentials = await getServiceAccountCredentials()
+      if (!credentials) throw new Error('No service account credentials available')
+
+      console.log(`[Selector Health] Checking selectors (version ${TV_SELECTORS.version})...`)
+      const report = await runSelectorHealthCheck(credentials)
+      await saveSelectorHealthReport(report)
+
+      if (report.healthy) {
+        console.log(`[Selector Health] All selectors resolved in ${report.durationMs}ms`)
+      } else {
+        console.error(
+          `[Selector Health] Drift detected: ${report.failing.join(', ') || 'none'}${report.error ? ` (${report.error})` : ''}`
+        )
+      }
+      return report
+    })().finally(() => {
+      runningCheck = null
+    })
+  }
+  return runningCheck
+}
+
+let scheduleTimer: NodeJS.Timeout | null = null
+
+/**
+ * Run the check every SELECTOR_HEALTH_INTERVAL_MS (idempotent)
+ */
+export function startSelectorHealthSchedule(): void {
+  if (scheduleTimer || SELECTOR_HEALTH_INTERVAL_MS <= 0) return
+
+  scheduleTimer = setInterval(() => {
+    checkSelectorHealth().catch(error => console.error('[Selector Health] Scheduled check failed:', error))
+  }, SELECTOR_HEALTH_INTERVAL_MS)
+  console.log(`[Selector Health] Checking every ${Math.round(SELECTOR_HEALTH_INTERVAL_MS / 60000)} minutes`)
+}
@@ -19,6 +19,7 @@ import {
   type TVCredentials,
   type ValidationResult,
 } from './tradingview'
+import { getCompilerErrorHints, type CompilerError } from './pine/compiler-errors'
 
 import {
   saveServiceAccountSession,
@@ -123,9 +124,13 @@ export interface FullValidationResult extends ValidationResult {
  * Performs both compilation and "add to chart" validation
  *
  * @param script - The Pine Script code to validate
+ * @param signal - Optional: cancels the browser session
  * @returns Validation result with errors and add-to-chart status
  */
-export async function validateWithServiceAccount(script: string): Promise<FullValidationResult> {
+export async function validateWithServiceAccount(
+  script: string,
+  signal?: AbortSignal
+): Promise<FullValidationResult> {
   const credentials = await getServiceAccountCredentials()
 
   if (!credentials) {
@@ -145,7 +150,7 @@ export async function validateWithServiceAccount(script: string): Promise<FullVa
 
   try {
     // Validate the script using TradingView
-    const result = await validatePineScript(credentials, script)
+    const result = await validatePineScript(credentials, script, signal)
 
     // For now, if compilation succeeds, we consider it "added to chart"
     // The validatePineScriptV2 already clicks "Add to Chart" during validation
@@ -157,6 +162,8 @@ export async function validateWithServiceAccount(script: string): Promise<FullVa
       addedToChart,
     }
   } catch (error) {
+    // A cancelled run says nothing about the credentials
+    if (signal?.aborted) throw error
     console.error('[ServiceValidation] Validation failed:', error)
 
     // Clear cache in case credentials expired
@@ -178,7 +185,17 @@ export async function validateWithServiceAccount(script: string): Promise<FullVa
 }
 
 /**
- * Format validation errors as a string for LLM consumption
+ * One error line for the LLM, e.g. `Line 3, column 7 [undeclared-identifier]: ...`
+ */
+function formatCompilerError(error: CompilerError): string {
+  const position = error.column ? `Line ${error.line}, column ${error.column}` : `Line ${error.line}`
+  const category = error.category && error.category !== 'unknown' ? ` [${error.category}]` : ''
+  return `${position}${category}: ${error.message}`
+}
+
+/**
+ * Format validation errors as a string for LLM consumption, followed by
+ * fix hints for each error category present
  */
 export function formatErrorsForLLM(result: FullValidationResult): string {
   if (result.isValid) {
@@ -187,14 +204,16 @@ export function formatErrorsForLLM(result: FullValidationResult): string {
 
   const errorMessages = result.errors
     .filter(e => e.type === 'error')
-    .map(e => `Line ${e.line}: ${e.message}`)
+    .map(formatCompilerError)
     .join('\n')
 
   const warningMessages = result.errors
     .filter(e => e.type === 'warning')
-    .map(e => `Line ${e.line}: ${e.message}`)
+    .map(formatCompilerError)
     .join('\n')
 
+  const hints = getCompilerErrorHints(result.errors)
+
   let output = ''
 
   if (errorMessages) {
@@ -205,6 +224,10 @@ export function formatErrorsForLLM(result: FullValidationResult): string {
     output += `\nWARNINGS:\n${warningMessages}\n`
   }
 
+  if (hints.length > 0) {
+    output += `\nHOW TO FIX:\n${hints.map(h => `- ${h}`).join('\n')}\n`
+  }
+
   if (result.rawOutput) {
     output += `\nRAW CONSOLE OUTPUT:\n${result.rawOutput}`
   }
@@ -0,0 +1,213 @@
+/**
+ * Stripe Webhooks
+ *
+ * What each Stripe event does to its publish job, or to an account's credits:
+ *
+ * | Event                                       | Effect                                                     |
+ * |---------------------------------------------|------------------------------------------------------------|
+ * | checkout.session.completed, paid            | pending → completed, refunded if undeliverable             |
+ * | checkout.session.completed, payment delayed | pending → processing                                       |
+ * | checkout.session.async_payment_succeeded    | processing → completed, refunded if undeliverable          |
+ * | checkout.session.async_payment_failed       | processing → validated, with the error                     |
+ * | checkout.session.expired                    | pending → validated, so the user can check out again       |
+ * | charge.refunded                             | refund recorded as succeeded (reason `manual` if not ours) |
+ * | charge.dispute.created                      | dispute recorded                                           |
+ * | refund.updated, refund.failed               | refund status updated                                      |
+ * | checkout.session.completed, credit pack     | pack's credits added once paid                             |
+ * | invoice.paid, for the monthly plan          | plan's monthly credits added                               |
+ * | customer.subscription.*                     | account's plan status updated                              |
+ *
+ * Events are claimed by ID before they are handled, so a redelivered event is
+ * only acknowledged. Handlers only move a job out of the states above, and
+ * credits are added once per checkout or invoice, which keeps re-processing an
+ * event from the admin API safe as well.
+ */
+
+import type Stripe from 'stripe'
+import {
+  getJobByStripeSession,
+  getJobByPaymentIntent,
+  updatePublishJob,
+  updatePublishJobIf,
+  claimStripeWebhookEvent,
+  saveStripeWebhookEvent,
+  getStripeWebhookEvent,
+  type PublishJob,
+  type StripeWebhookEventRecord,
+} from './kv'
+import { getPaymentIntentId } from './stripe'
+import { settlePaidCheckout, recordRefundUpdate, isCheckoutForJob } from './refund-policy'
+import { settleCreditPackCheckout, settleSubscriptionInvoice, recordSubscription } from './credits'
+
+/**
+ * Handle a verified webhook event unless it was handled before
+ *
+ * @returns The event's record, or null for a redelivery of an event already handled
+ * @throws When handling fails; the record is kept as failed and Stripe's retry can claim it again
+ */
+export async function receiveStripeEvent(event: Stripe.Event): Promise<StripeWebhookEventRecord | null> {
+  const record = await claimStripeWebhookEvent({
+    eventId: event.id,
+    type: event.type,
+    payload: JSON.stringify(event),
+    createdAt: event.created * 1000,
+  })
+  if (!record) {
+    console.log(`[StripeWebhooks] ${event.type} ${event.id} already handled, skipping`)
+    return null
+  }
+  return runStripeEvent(record, event)
+}
+
+/**
+ * Handle a stored event again, whatever happened the last time
+ *
+ * @returns The updated record, or null when no event with that ID is stored
+ */
+export async function reprocessStripeEvent(eventId: string): Promise<StripeWebhookEventRecord | null> {
+  const stored = await getStripeWebhookEvent(eventId)
+  if (!stored) {
+    return null
+  }
+
+  const record = await saveStripeWebhookEvent({ ...stored, status: 'processing', attempts: stored.attempts + 1, error: undefined })
+  return runStripeEvent(record, JSON.parse(stored.payload))
+}
+
+async function runStripeEvent(record: StripeWebhookEventRecord, event: Stripe.Event): Promise<StripeWebhookEventRecord> {
+  try {
+    const outcome = await handleStripeEvent(event)
+    console.log(`[StripeWebhooks] ${event.type} ${event.id}: ${outcome}`)
+    return saveStripeWebhookEvent({ ...record, status: 'processed', outcome })
+  } catch (error) {
+    await saveStripeWebhookEvent({
+      ...record,
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+    })
+    throw error
+  }
+}
+
+/**
+ * Apply one event to its job
+ *
+ * @returns What the event did, for the admin event list
+ */
+async function handleStripeEvent(event: Stripe.Event): Promise<string> {
+  switch (event.type) {
+    case 'checkout.session.completed':
+    case 'checkout.session.async_payment_succeeded':
+      return handleCheckoutCompleted(event.data.object)
+    case 'checkout.session.async_payment_failed':
+      return returnJobToCheckout(event.data.object, 'Payment failed - please try again')
+    case 'checkout.session.expired':
+      return returnJobToCheckout(event.data.object)
+    case 'charge.refunded':
+      return handleChargeRefunded(event.data.object)
+    case 'charge.dispute.created':
+      return handleDisputeCreated(event.data.object)
+    case 'refund.updated':
+    case 'refund.failed':
+      await recordRefundUpdate(event.data.object)
+      return `refund ${event.data.object.id} is ${event.data.object.status}`
+    case 'invoice.paid': {
+      const entry = await settleSubscriptionInvoice(event.data.object)
+      return entry ? `${entry.amount} plan credits added to ${entry.accountId}` : 'no credits added'
+    }
+    case 'customer.subscription.created':
+    case 'customer.subscription.updated':
+    case 'customer.subscription.deleted': {
+      const subscription = await recordSubscription(event.data.object)
+      return subscription ? `plan of ${subscription.accountId} is ${subscription.status}` : 'no account for this subscription'
+    }
+    default:
+      return 'ignored'
+  }
+}
+
+async function handleCheckoutCompleted(session: Stripe.Checkout.Session): Promise<string> {
+  // Credit purchases have no job; a plan's credits come with its paid invoice
+  if (session.metadata?.purpose === 'credit-pack') {
+    const entry = await settleCreditPackCheckout(session)
+    return entry ? `${entry.amount} credits added to ${entry.accountId}` : 'no credits added'
+  }
+  if (session.mode === 'subscription') {
+    return 'plan checkout completed'
+  }
+
+  // Delayed payment methods complete the checkout before the money arrives
+  if (session.payment_status === 'unpaid') {
+    const job = await getCheckoutJob(session)
+    if (job?.status !== 'pending') {
+      return job ? `job ${job.jobId} already ${job.status}` : 'no job for this checkout'
+    }
+    const updated = await updatePublishJobIf(
+      job.jobId,
+      (current) => current.status === 'pending' && current.stripeSessionId === session.id,
+      { status: 'processing' }
+    )
+    return updated ? `job ${job.jobId} waiting for the payment to clear` : `job ${job.jobId} changed, left as it is`
+  }
+
+  // Paid, or nothing to pay (a 100% promotion code)
+  // Just mark the job completed - URL is already stored from validation+publish step
+  const job = await settlePaidCheckout(session)
+  if (!job) {
+    return 'no job for this checkout, not refunded'
+  }
+  return job.refundId
+    ? `job ${job.jobId} ${job.status}, refunded (${job.refundReason})`
+    : `job ${job.jobId} ${job.status}, URL: ${job.indicatorUrl}`
+}
+
+/**
+ * The job of a checkout this app created for it, or null
+ */
+async function getCheckoutJob(session: Stripe.Checkout.Session): Promise<PublishJob | null> {
+  const job = await getJobByStripeSession(session.id)
+  return job && isCheckoutForJob(session, job) ? job : null
+}
+
+async function returnJobToCheckout(session: Stripe.Checkout.Session, error?: string): Promise<string> {
+  const job = await getCheckoutJob(session)
+  if (!job) {
+    return 'no job for this checkout'
+  }
+  // A newer checkout for the same job has taken over
+  const isOpen = (current: PublishJob) =>
+    current.stripeSessionId === session.id && (current.status === 'pending' || current.status === 'processing')
+  if (!isOpen(job)) {
+    return `job ${job.jobId} already ${job.status}`
+  }
+
+  const updated = await updatePublishJobIf(job.jobId, isOpen, { status: 'validated', ...(error && { error }) })
+  return updated ? `job ${job.jobId} back to validated` : `job ${job.jobId} changed, left as it is`
+}
+
+async function handleChargeRefunded(charge: Stripe.Charge): Promise<string> {
+  const paymentIntentId = getPaymentIntentId(charge)
+  const job = paymentIntentId ? await getJobByPaymentIntent(paymentIntentId) : null
+  if (!job) {
+    return 'no job for this payment'
+  }
+
+  await updatePublishJob(job.jobId, {
+    refundId: job.refundId ?? charge.refunds?.data[0]?.id,
+    refundReason: job.refundReason ?? 'manual',
+    refundStatus: 'succeeded',
+  })
+  return `job ${job.jobId} ${charge.refunded ? 'fully' : 'partly'} refunded`
+}
+
+async function handleDisputeCreated(dispute: Stripe.Dispute): Promise<string> {
+  const paymentIntentId = getPaymentIntentId(dispute)
+  const job = paymentIntentId ? await getJobByPaymentIntent(paymentIntentId) : null
+  if (!job) {
+    return 'no job for this payment'
+  }
+
+  await updatePublishJob(job.jobId, { disputeId: dispute.id, disputeReason: dispute.reason, disputedAt: dispute.created * 1000 })
+  console.warn(`[StripeWebhooks] Job ${job.jobId} disputed (${dispute.reason})`)
+  return `job ${job.jobId} disputed (${dispute.reason})`
+}
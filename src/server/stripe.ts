@@ -1,21 +1,21 @@
-import Stripe from 'stripe'
+import type Stripe from 'stripe'
+import type { VisibilityLevel } from './tradingview'
+import { getPaymentsProvider } from './payments'
+import { attachStripeSession, canCheckOut, getPublishJob } from './kv'
+import {
+  formatPrice,
+  getPriceQuote,
+  getPricingCatalog,
+  resolveCurrency,
+  type PriceQuoteOptions,
+  type PricingProductId,
+} from './pricing'
 
-const STRIPE_SECRET_KEY = process.env.STRIPE_PROD_SECRET_KEY
 const APP_URL = process.env.APP_URL || 'http://localhost:3000'
 
-if (!STRIPE_SECRET_KEY) {
-  console.warn('STRIPE_SECRET_KEY is not set - Stripe functionality will not work')
-}
-
-const stripe = STRIPE_SECRET_KEY
-  ? new Stripe(STRIPE_SECRET_KEY)
-  : null
-
-export interface CreateCheckoutParams {
+export interface CreateCheckoutParams extends Partial<PriceQuoteOptions> {
   scriptHash: string
   userId: string
-  priceInCents?: number
-  productName?: string
 }
 
 export interface CheckoutSession {
@@ -29,39 +29,44 @@ export interface CheckoutSession {
 export async function createCheckoutSession(
   params: CreateCheckoutParams
 ): Promise<CheckoutSession> {
-  if (!stripe) {
+  const payments = getPaymentsProvider()
+  if (!payments) {
     console.error('[Stripe] Stripe is not configured - STRIPE_PROD_SECRET_KEY not set')
     throw new Error('Stripe is not configured')
   }
 
   console.log('[Stripe] Creating checkout session...')
 
-  const { scriptHash, userId, priceInCents = 100, productName = 'Pine Script Publishing' } = params
-
-  // Use existing Stripe product ID in production
-  const STRIPE_PRODUCT_ID = 'prod_TnGtj83MsKmx7s'
+  const { scriptHash, userId, publishMode = 'new', visibilityLevel = 'open', fixApplied = false, currency } = params
+  const quote = await getPriceQuote({ publishMode, visibilityLevel, fixApplied, currency })
+  // Free lines (e.g. validation by default) stay off the checkout
+  const paidLines = quote.lines.filter((line) => line.priceInCents > 0)
+  if (paidLines.length === 0) {
+    throw new Error('Nothing to pay for this publish')
+  }
 
   // Disable Link (save payment info) in dev to simplify testing
   const isDev = APP_URL.includes('localhost') || process.env.NODE_ENV === 'development'
 
   try {
-    const session = await stripe.checkout.sessions.create({
+    const session = await payments.createCheckoutSession({
       mode: 'payment',
       payment_method_types: isDev ? ['card'] : undefined, // undefined = let Stripe show all methods
       allow_promotion_codes: true, // Show promo code field in checkout
-      line_items: [
-        {
-          price_data: {
-            currency: 'usd',
-            product: STRIPE_PRODUCT_ID, // Use existing product from Stripe dashboard
-            unit_amount: priceInCents, // $1.00
-          },
-          quantity: 1,
+      line_items: paidLines.map((line) => ({
+        price_data: {
+          currency: quote.currency,
+          // Lines with a product from the Stripe dashboard show its name; the others show the catalog's
+          ...(line.stripeProductId ? { product: line.stripeProductId } : { product_data: { name: line.name } }),
+          unit_amount: line.priceInCents,
         },
-      ],
+        quantity: 1,
+      })),
       metadata: {
         scriptHash,
         userId,
+        visibilityLevel,
+        products: quote.lines.map((line) => line.productId).join(','),
       },
       success_url: `${APP_URL}/success?session_id={CHECKOUT_SESSION_ID}`,
       cancel_url: `${APP_URL}/?canceled=true`,
@@ -82,15 +87,176 @@ export async function createCheckoutSession(
   }
 }
 
+/**
+ * Send a validated and published job to checkout. A job that is pending on an
+ * earlier checkout gets a new one only once the earlier one is expired, so the
+ * two cannot both be paid; a job that was paid, by card or with credits, gets
+ * none.
+ *
+ * @throws When the job was not published, or was paid for already
+ */
+export async function createJobCheckout(jobId: string, currency?: string): Promise<CheckoutSession> {
+  const job = await getPublishJob(jobId)
+  if (!job || !job.validationResult?.isValid || !job.indicatorUrl) {
+    throw new Error('Script must be validated and published first')
+  }
+
+  let expiredSessionId: string | undefined
+  if (job.status === 'pending' && job.stripeSessionId && !job.paymentIntentId && !job.creditsSpent) {
+    const previous = await expireCheckoutSession(job.stripeSessionId)
+    if (previous.status === 'expired') expiredSessionId = previous.id
+  }
+  if (!canCheckOut(job, expiredSessionId)) {
+    throw new Error('This script has already been paid for')
+  }
+
+  // Priced from what the job actually did
+  const checkout = await createCheckoutSession({
+    scriptHash: job.scriptHash,
+    userId: job.userId,
+    publishMode: job.updateScriptId ? 'update' : 'new',
+    visibilityLevel: job.visibilityLevel,
+    fixApplied: job.fixApplied ?? false,
+    currency,
+  })
+
+  // Job moves to pending; the webhook/success page find it by checkout session
+  if (!(await attachStripeSession(job.jobId, checkout.sessionId, expiredSessionId))) {
+    // Paid some other way while the checkout was created
+    await expireCheckoutSession(checkout.sessionId).catch((error) =>
+      console.error(`[Stripe] Failed to expire unused checkout session ${checkout.sessionId}:`, error)
+    )
+    throw new Error('This script has already been paid for')
+  }
+  return checkout
+}
+
+export interface CreditCheckoutParams {
+  accountId: string
+  email: string
+}
+
+/**
+ * Create a Stripe Checkout session for a credit pack; the credits are added by
+ * the webhook, or by the history page the customer returns to
+ */
+export async function createCreditPackCheckoutSession(
+  params: CreditCheckoutParams & { packId: string; credits: number; priceInCents: number }
+): Promise<CheckoutSession> {
+  const payments = getPaymentsProvider()
+  if (!payments) {
+    throw new Error('Stripe is not configured')
+  }
+
+  const { accountId, email, packId, credits, priceInCents } = params
+  const session = await payments.createCheckoutSession({
+    mode: 'payment',
+    customer_email: email,
+    allow_promotion_codes: true,
+    line_items: [
+      {
+        price_data: {
+          currency: 'usd',
+          product_data: { name: `${credits} publishing credits` },
+          unit_amount: priceInCents,
+        },
+        quantity: 1,
+      },
+    ],
+    metadata: { purpose: 'credit-pack', accountId, packId, credits: String(credits) },
+    success_url: `${APP_URL}/history?credit_session={CHECKOUT_SESSION_ID}`,
+    cancel_url: `${APP_URL}/history`,
+  })
+
+  if (!session.url) {
+    throw new Error('Failed to create checkout session URL')
+  }
+
+  console.log(`[Stripe] Credit pack checkout session created: ${session.id} (${packId})`)
+  return { sessionId: session.id, url: session.url }
+}
+
+/**
+ * Create a Stripe Checkout session for the monthly plan. The account ID goes on
+ * the subscription, so its invoices and updates can be matched to the account.
+ */
+export async function createSubscriptionCheckoutSession(
+  params: CreditCheckoutParams & { priceId: string }
+): Promise<CheckoutSession> {
+  const payments = getPaymentsProvider()
+  if (!payments) {
+    throw new Error('Stripe is not configured')
+  }
+
+  const { accountId, email, priceId } = params
+  const session = await payments.createCheckoutSession({
+    mode: 'subscription',
+    customer_email: email,
+    allow_promotion_codes: true,
+    line_items: [{ price: priceId, quantity: 1 }],
+    subscription_data: { metadata: { accountId } },
+    metadata: { purpose: 'subscription', accountId },
+    success_url: `${APP_URL}/history?subscribed=true`,
+    cancel_url: `${APP_URL}/history`,
+  })
+
+  if (!session.url) {
+    throw new Error('Failed to create checkout session URL')
+  }
+
+  console.log(`[Stripe] Subscription checkout session created: ${session.id}`)
+  return { sessionId: session.id, url: session.url }
+}
+
+/**
+ * Create a Stripe customer portal session, where a subscriber updates their card or cancels the plan
+ */
+export async function createBillingPortalSession(customerId: string): Promise<string> {
+  const payments = getPaymentsProvider()
+  if (!payments) {
+    throw new Error('Stripe is not configured')
+  }
+
+  const session = await payments.createBillingPortalSession({
+    customer: customerId,
+    return_url: `${APP_URL}/history`,
+  })
+  return session.url
+}
+
 /**
  * Retrieve a checkout session by ID
  */
 export async function getCheckoutSession(sessionId: string): Promise<Stripe.Checkout.Session> {
-  if (!stripe) {
+  const payments = getPaymentsProvider()
+  if (!payments) {
     throw new Error('Stripe is not configured')
   }
 
-  return stripe.checkout.sessions.retrieve(sessionId)
+  return payments.retrieveCheckoutSession(sessionId)
+}
+
+/**
+ * Expire a checkout session if it is still open, so it can no longer be paid
+ *
+ * @returns The session as it stands: expired, or complete when it was paid first
+ */
+export async function expireCheckoutSession(sessionId: string): Promise<Stripe.Checkout.Session> {
+  const payments = getPaymentsProvider()
+  if (!payments) {
+    throw new Error('Stripe is not configured')
+  }
+
+  const session = await payments.retrieveCheckoutSession(sessionId)
+  return session.status === 'open' ? payments.expireCheckoutSession(sessionId) : session
+}
+
+/**
+ * The payment intent behind a checkout session, charge or dispute, whether or not it was expanded
+ */
+export function getPaymentIntentId(object: { payment_intent: string | Stripe.PaymentIntent | null }): string | null {
+  const paymentIntent = object.payment_intent
+  return typeof paymentIntent === 'string' ? paymentIntent : (paymentIntent?.id ?? null)
 }
 
 /**
@@ -100,96 +266,104 @@ export async function verifyWebhookEvent(
   payload: string | Buffer,
   signature: string
 ): Promise<Stripe.Event> {
-  if (!stripe) {
+  const payments = getPaymentsProvider()
+  if (!payments) {
     throw new Error('Stripe is not configured')
   }
 
-  const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET
-  if (!webhookSecret) {
-    throw new Error('STRIPE_WEBHOOK_SECRET is not set')
-  }
+  return payments.constructWebhookEvent(payload, signature)
+}
 
-  return stripe.webhooks.constructEvent(payload, signature, webhookSecret)
+export interface CreateRefundOptions {
+  /** Stripe returns the first refund again for a repeated key instead of refunding twice */
+  idempotencyKey?: string
+  metadata?: Record<string, string>
 }
 
 /**
  * Issue a refund for a payment
  */
-export async function createRefund(paymentIntentId: string): Promise<Stripe.Refund> {
-  if (!stripe) {
+export async function createRefund(paymentIntentId: string, options: CreateRefundOptions = {}): Promise<Stripe.Refund> {
+  const payments = getPaymentsProvider()
+  if (!payments) {
     throw new Error('Stripe is not configured')
   }
 
-  return stripe.refunds.create({
-    payment_intent: paymentIntentId,
-    reason: 'requested_by_customer',
-  })
+  return payments.createRefund(
+    {
+      payment_intent: paymentIntentId,
+      reason: 'requested_by_customer',
+      metadata: options.metadata,
+    },
+    options.idempotencyKey
+  )
 }
 
 export interface ProductDetails {
-  productId: string
   productName: string
   priceInCents: number
   priceFormatted: string
   currency: string
+  /** Currencies prices can be shown and paid in, the default first */
+  currencies: string[]
+  /** Extra charge for each visibility level, added to the base price at checkout */
+  visibilityLevelAddons: Record<VisibilityLevel, { priceInCents: number; priceFormatted: string }>
 }
 
 /**
- * Get product details from Stripe for display in the UI
+ * Get the publishing product from the pricing catalog for display in the UI;
+ * prices are list prices in the given currency, before promos
  */
-export async function getProductDetails(): Promise<ProductDetails> {
-  const STRIPE_PRODUCT_ID = 'prod_TnGtj83MsKmx7s'
-  const DEFAULT_PRICE_CENTS = 100 // $1.00
+export async function getProductDetails(currency?: string): Promise<ProductDetails> {
+  const catalog = await getPricingCatalog()
+  const priceCurrency = resolveCurrency(catalog, currency)
+  const listPrice = (productId: PricingProductId | null) => {
+    const priceInCents = productId ? catalog.products[productId].prices[priceCurrency] : 0
+    return { priceInCents, priceFormatted: formatPrice(priceInCents, priceCurrency) }
+  }
 
-  if (!stripe) {
-    // Return defaults when Stripe is not configured (dev mode)
-    return {
-      productId: STRIPE_PRODUCT_ID,
-      productName: 'Pine Script Publishing',
-      priceInCents: DEFAULT_PRICE_CENTS,
-      priceFormatted: '$1.00',
-      currency: 'usd',
-    }
+  return {
+    productName: catalog.products.publish.name,
+    ...listPrice('publish'),
+    currency: priceCurrency,
+    currencies: catalog.currencies,
+    visibilityLevelAddons: {
+      open: listPrice(null),
+      protected: listPrice('publish-protected'),
+      'invite-only': listPrice('publish-invite-only'),
+    },
   }
+}
 
-  try {
-    // Fetch product from Stripe
-    const product = await stripe.products.retrieve(STRIPE_PRODUCT_ID)
-
-    // Get the default price if available, otherwise use our configured price
-    let priceInCents = DEFAULT_PRICE_CENTS
-    let currency = 'usd'
-
-    if (product.default_price && typeof product.default_price === 'string') {
-      const price = await stripe.prices.retrieve(product.default_price)
-      if (price.unit_amount) {
-        priceInCents = price.unit_amount
-      }
-      currency = price.currency
-    }
+export interface SubscriptionPriceDetails {
+  priceInCents: number
+  priceFormatted: string
+  /** Billing interval, e.g. month */
+  interval: string
+}
 
-    // Format price for display
-    const priceFormatted = new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: currency.toUpperCase(),
-    }).format(priceInCents / 100)
+/**
+ * Get the monthly plan's price from Stripe for display in the UI, or null when it cannot be fetched
+ */
+export async function getSubscriptionPriceDetails(priceId: string): Promise<SubscriptionPriceDetails | null> {
+  const payments = getPaymentsProvider()
+  if (!payments) {
+    return null
+  }
 
-    return {
-      productId: STRIPE_PRODUCT_ID,
-      productName: product.name,
-      priceInCents,
-      priceFormatted,
-      currency,
+  try {
+    const price = await payments.retrievePrice(priceId)
+    if (price.unit_amount === null || !price.recurring) {
+      console.error(`[Stripe] Subscription price ${priceId} is not a recurring fixed price`)
+      return null
     }
-  } catch (error) {
-    console.error('[Stripe] Failed to fetch product details:', error)
-    // Return defaults on error
     return {
-      productId: STRIPE_PRODUCT_ID,
-      productName: 'Pine Script Publishing',
-      priceInCents: DEFAULT_PRICE_CENTS,
-      priceFormatted: '$1.00',
-      currency: 'usd',
+      priceInCents: price.unit_amount,
+      priceFormatted: formatPrice(price.unit_amount, price.currency),
+      interval: price.recurring.interval,
     }
+  } catch (error) {
+    console.error('[Stripe] Failed to fetch subscription price:', error)
+    return null
   }
 }
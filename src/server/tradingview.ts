@@ -9,9 +9,12 @@ import {
   type BrowserlessSession,
   type ReconnectableBrowserSession,
 } from './browserless'
+import { reportProgress } from './progress'
+import { abortableDelay, onAbort } from './cancellation'
+import { parseCompilerMessage, type CompilerError } from './pine/compiler-errors'
 
-// Helper function for delays
-const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+// Helper function for delays (pass a signal to stop waiting when the request is cancelled)
+const delay = abortableDelay
 
 /** Wrapper for page.evaluate with timeout to prevent hangs on heavy TradingView pages */
 async function timedEvaluate<T>(
@@ -35,10 +38,14 @@ async function timedEvaluate<T>(
 let browserlessLock: Promise<void> | null = null
 let browserlessLockResolve: (() => void) | null = null
 
-async function acquireBrowserlessLock(requestId: string): Promise<void> {
+async function acquireBrowserlessLock(requestId: string, signal?: AbortSignal): Promise<void> {
   while (browserlessLock) {
     console.log(`[Browserless:${requestId}] Session in use, waiting...`)
-    await browserlessLock
+    // A cancelled request stops waiting rather than taking the lock after it is gone
+    await Promise.race([
+      browserlessLock,
+      new Promise<never>((_, reject) => onAbort(signal, () => reject(signal!.reason))),
+    ])
   }
   browserlessLock = new Promise(resolve => {
     browserlessLockResolve = resolve
@@ -55,6 +62,19 @@ function releaseBrowserlessLock(requestId: string): void {
   }
 }
 
+/**
+ * Close a Browserless session as soon as `signal` aborts, so the step in
+ * progress fails straight away instead of running to completion
+ *
+ * @returns A function that removes the abort listener
+ */
+function closeSessionOnAbort(session: BrowserlessSession, signal?: AbortSignal): () => void {
+  return onAbort(signal, () => {
+    console.log('[TV] Request cancelled, closing browser session')
+    closeBrowserSession(session).catch(() => {})
+  })
+}
+
 // ============ Admin Session Cache (In-memory only, for server-level credentials) ============
 // This cache is ONLY for admin auto-login with TV_USERNAME/TV_PASSWORD environment variables.
 // It is NOT used for user sessions - those are stored per-user in Redis/KV via kv.ts.
@@ -112,7 +132,7 @@ const USE_PINE_EDITOR_PAGE = process.env.TV_USE_PINE_PAGE === 'true'
 export const SCREENSHOT_DIR = process.env.SCREENSHOT_DIR || '/tmp'
 
 // TradingView URLs
-const TV_URLS = {
+export const TV_URLS = {
   chart: 'https://www.tradingview.com/chart/',
   pine: 'https://www.tradingview.com/pine/',
   signin: 'https://www.tradingview.com/accounts/signin/',
@@ -141,7 +161,7 @@ export const TV_SELECTORS = {
   // Publish dialog (two-step workflow)
   publishDialog: {
     // Step 1: Title and description
-    titleInput: 'input[name="title"]',
+    titleInput: 'input[placeholder="Title"]',
     descriptionEditor: '[contenteditable="true"]', // Rich text editor
     continueButton: 'button', // Match by text "Continue"
     // Step 2: Privacy and visibility
@@ -153,6 +173,10 @@ export const TV_SELECTORS = {
     // Final submit
     publishPublicButton: 'button', // Match by text "Publish public script"
     publishPrivateButton: 'button', // Match by text "Publish private script"
+    // Update mode: publish a new version of an existing script
+    updateExistingTab: 'button', // Match by text "Update existing script"
+    releaseNotesEditor: '[contenteditable="true"]',
+    publishUpdateButton: 'button', // Match by text "Publish new version"
   },
   // User authentication indicators
   auth: {
@@ -191,7 +215,8 @@ export const TV_SELECTORS = {
 
 type TVPageType = 'chart' | 'pine' | 'signin' | 'unknown'
 
-const STRICT_SELECTORS = {
+// Exported for the selector health check
+export const STRICT_SELECTORS = {
   pineOpenButton: [
     TV_SELECTORS.chart.pineEditorButton,      // [data-name="open-pine-editor"] (exists after first open)
     TV_SELECTORS.chart.pineDialogButton,       // Sidebar toggle (always exists on fresh /chart/)
@@ -319,11 +344,7 @@ export interface TVCredentials {
 
 export interface ValidationResult {
   isValid: boolean
-  errors: Array<{
-    line: number
-    message: string
-    type: 'error' | 'warning'
-  }>
+  errors: CompilerError[]
   rawOutput: string
 }
 
@@ -372,6 +393,15 @@ export function extractScriptIdFromUrl(url: string): string | null {
   return match ? match[1] : null
 }
 
+/**
+ * Script ID from a bare ID (`AbC123xy`) or any TradingView URL of the script
+ */
+export function resolveScriptId(scriptIdOrUrl: string): string | null {
+  const value = scriptIdOrUrl.trim()
+  if (/^[a-zA-Z0-9]+$/.test(value)) return value
+  return extractScriptIdFromUrl(value)
+}
+
 export function canonicalizeTradingViewScriptUrl(url: string | null | undefined): string | null {
   if (!url) return null
   const scriptId = extractScriptIdFromUrl(url)
@@ -828,7 +858,8 @@ export async function verifyTVSession(credentials: TVCredentials): Promise<boole
  */
 export async function validatePineScript(
   credentials: TVCredentials,
-  script: string
+  script: string,
+  signal?: AbortSignal
 ): Promise<ValidationResult> {
   // Dev mode bypass
   if (DEV_BYPASS) {
@@ -843,15 +874,17 @@ export async function validatePineScript(
   // Use the faster /pine/ page if feature flag is enabled
   if (USE_PINE_EDITOR_PAGE) {
     console.log('[TV] Using /pine/ page for validation (TV_USE_PINE_PAGE=true)')
-    return validatePineScriptV2(credentials, script)
+    return validatePineScriptV2(credentials, script, signal)
   }
 
   // Legacy path: Use /chart/ page
   console.log('[TV] Using /chart/ page for validation (legacy)')
   let session: BrowserlessSession | null = null
+  let stopOnAbort = () => {}
 
   try {
     session = await createBrowserSession()
+    stopOnAbort = closeSessionOnAbort(session, signal)
     const { page } = session
 
     // Inject cookies
@@ -863,15 +896,17 @@ export async function validatePineScript(
     if (!navigated) {
       throw new Error('Failed to navigate to TradingView')
     }
+    reportProgress('session', 'Browser session opened')
 
     console.log('[TV] Enforcing /chart/ context and opening Pine Editor...')
-    await delay(1500)
+    await delay(1500, signal)
     await ensureChartPineEditorOpen(page, 'TV Validate')
 
     // Wait for Monaco editor to be ready
     console.log('[TV] Waiting for Monaco editor...')
     await waitForElement(page, TV_SELECTORS.pineEditor.editorArea, 10000)
     await delay(500) // Give editor time to fully initialize
+    reportProgress('editor', 'Pine Editor ready')
 
     // Insert script via clipboard paste
     console.log('[TV] Inserting script via clipboard paste...')
@@ -885,34 +920,31 @@ export async function validatePineScript(
     await page.keyboard.press('v')
     await page.keyboard.up('Control')
     console.log('[TV] Script inserted via clipboard paste')
+    reportProgress('editor', 'Script pasted, compiling')
 
     // Wait for compilation (TradingView auto-compiles)
-    await delay(3000)
+    await delay(3000, signal)
 
     // Check console panel for errors
-    const errors = await page.evaluate((selectors) => {
+    const consoleLines = await page.evaluate((selectors) => {
       const consolePanel = document.querySelector(selectors.consolePanel)
       if (!consolePanel) return []
 
       const errorLines = consolePanel.querySelectorAll(selectors.errorLine)
       const warningLines = consolePanel.querySelectorAll(selectors.warningLine)
 
-      const parseConsoleLine = (element: Element, type: 'error' | 'warning') => {
-        const text = element.textContent || ''
-        // Try to extract line number from error message
-        const lineMatch = text.match(/line (\d+)/i)
-        return {
-          line: lineMatch ? parseInt(lineMatch[1], 10) : 0,
-          message: text.trim(),
-          type,
-        }
-      }
+      // Classified by parseCompilerMessage once back in Node
+      const parseConsoleLine = (element: Element, type: 'error' | 'warning') => ({
+        text: element.textContent || '',
+        type,
+      })
 
       return [
         ...Array.from(errorLines).map((el) => parseConsoleLine(el, 'error')),
         ...Array.from(warningLines).map((el) => parseConsoleLine(el, 'warning')),
       ]
     }, TV_SELECTORS.pineEditor)
+    const errors = consoleLines.map((l) => parseCompilerMessage(l.text, l.type))
 
     // Get raw console output
     const rawOutput = await page.evaluate((selector) => {
@@ -926,6 +958,7 @@ export async function validatePineScript(
       rawOutput,
     }
   } catch (error) {
+    if (signal?.aborted) throw error
     console.error('Script validation failed:', error)
     return {
       isValid: false,
@@ -939,6 +972,7 @@ export async function validatePineScript(
       rawOutput: '',
     }
   } finally {
+    stopOnAbort()
     if (session) {
       await closeBrowserSession(session)
     }
@@ -951,12 +985,15 @@ export async function validatePineScript(
  */
 async function validatePineScriptV2(
   credentials: TVCredentials,
-  script: string
+  script: string,
+  signal?: AbortSignal
 ): Promise<ValidationResult> {
   let session: BrowserlessSession | null = null
+  let stopOnAbort = () => {}
 
   try {
     session = await createBrowserSession()
+    stopOnAbort = closeSessionOnAbort(session, signal)
     const { page } = session
 
     // Inject cookies
@@ -969,6 +1006,7 @@ async function validatePineScriptV2(
     if (!navigated) {
       throw new Error('Failed to navigate to Pine Editor page')
     }
+    reportProgress('session', 'Browser session opened')
 
     // Wait for Monaco editor to be ready (should be immediate on /pine/)
     console.log('[TV v2] Waiting for Monaco editor...')
@@ -982,6 +1020,7 @@ async function validatePineScriptV2(
 
     // Allow Monaco to fully initialize
     await delay(500)
+    reportProgress('editor', 'Pine Editor ready')
 
     // Insert script via clipboard paste (Monaco API not exposed on /pine/ page)
     console.log('[TV v2] Inserting script via clipboard paste...')
@@ -998,9 +1037,10 @@ async function validatePineScriptV2(
     await page.keyboard.press('v')
     await page.keyboard.up('Control')
     console.log('[TV v2] Script inserted via clipboard paste')
+    reportProgress('editor', 'Script pasted, compiling')
 
     // Wait for auto-compilation
-    await delay(1500)
+    await delay(1500, signal)
 
     // Check for compile button and click if present (some versions may need manual trigger)
     const compileTriggered = await page.evaluate(() => {
@@ -1041,11 +1081,11 @@ async function validatePineScriptV2(
 
     if (compileTriggered.clicked) {
       console.log(`[TV v2] Clicked compile button: ${compileTriggered.selector}`)
-      await delay(2500)
+      await delay(2500, signal)
     }
 
     // Extract errors from console panel
-    const errors = await page.evaluate((selectors) => {
+    const consoleLines = await page.evaluate((selectors) => {
       // Try primary console panel selector, then alternatives
       const consoleSelectors = [
         selectors.consolePanel,
@@ -1077,22 +1117,18 @@ async function validatePineScriptV2(
       const errorLines = findElements(errorSelectors)
       const warningLines = findElements(warningSelectors)
 
-      const parseConsoleLine = (element: Element, type: 'error' | 'warning') => {
-        const text = element.textContent || ''
-        // Try to extract line number from error message
-        const lineMatch = text.match(/line (\d+)/i)
-        return {
-          line: lineMatch ? parseInt(lineMatch[1], 10) : 0,
-          message: text.trim(),
-          type,
-        }
-      }
+      // Classified by parseCompilerMessage once back in Node
+      const parseConsoleLine = (element: Element, type: 'error' | 'warning') => ({
+        text: element.textContent || '',
+        type,
+      })
 
       return [
         ...errorLines.map((el) => parseConsoleLine(el, 'error')),
         ...warningLines.map((el) => parseConsoleLine(el, 'warning')),
       ]
     }, TV_SELECTORS.pineEditorPage)
+    const errors = consoleLines.map((l) => parseCompilerMessage(l.text, l.type))
 
     // Get raw console output
     const rawOutput = await page.evaluate(() => {
@@ -1118,6 +1154,7 @@ async function validatePineScriptV2(
       rawOutput,
     }
   } catch (error) {
+    if (signal?.aborted) throw error
     console.error('[TV v2] Script validation failed:', error)
     return {
       isValid: false,
@@ -1131,6 +1168,7 @@ async function validatePineScriptV2(
       rawOutput: '',
     }
   } finally {
+    stopOnAbort()
     if (session) {
       await closeBrowserSession(session)
     }
@@ -1139,6 +1177,13 @@ async function validatePineScriptV2(
 
 export type VisibilityLevel = 'open' | 'protected' | 'invite-only'
 
+/** Label of each visibility level's button in the publish dialog */
+export const VISIBILITY_LEVEL_LABELS: Record<VisibilityLevel, string> = {
+  open: 'Open',
+  protected: 'Protected',
+  'invite-only': 'Invite-only',
+}
+
 export interface PublishOptions {
   script: string
   title: string
@@ -1260,6 +1305,47 @@ async function clickContinueButton(
   return false
 }
 
+/**
+ * Click the Open/Protected/Invite-only button on Step 2, which TradingView
+ * shows once Public is selected. Matches the label exactly, since "Open"
+ * is a common word in other buttons.
+ */
+async function selectVisibilityLevel(
+  page: import('puppeteer-core').Page,
+  visibilityLevel: VisibilityLevel
+): Promise<boolean> {
+  const label = VISIBILITY_LEVEL_LABELS[visibilityLevel]
+  try {
+    const clicked = await Promise.race([
+      page.evaluate((expected: string) => {
+        const dialog = document.querySelector('[data-dialog-name="publish-script"], [role="dialog"]') ?? document
+        const elements = Array.from(dialog.querySelectorAll('button, [role="button"], [role="tab"], label, [role="radio"]'))
+        const levelBtn = elements.find(b => b.textContent?.trim().toLowerCase() === expected.toLowerCase())
+        if (levelBtn) {
+          (levelBtn as HTMLElement).click()
+          return true
+        }
+        return false
+      }, label),
+      new Promise<boolean>((r) => setTimeout(() => r(false), 5000)),
+    ])
+    console.log(`[TV Publish Helper] ${clicked ? 'Clicked' : 'Could not find'} ${label} visibility level`)
+    return clicked
+  } catch (e) {
+    console.log(`[TV Publish Helper] Visibility level click error: ${e instanceof Error ? e.message : e}`)
+    return false
+  }
+}
+
+/**
+ * Whether a publish must stop when the visibility level could not be set.
+ * Open is TradingView's default; publishing a protected or invite-only script
+ * as open would expose its source.
+ */
+function requiresVisibilityLevel(visibility: 'public' | 'private', visibilityLevel?: VisibilityLevel): boolean {
+  return visibility === 'public' && !!visibilityLevel && visibilityLevel !== 'open'
+}
+
 /**
  * Set privacy (Public/Private) and visibility level (Open/Protected/Invite-only) on Step 2
  */
@@ -1267,7 +1353,7 @@ async function setVisibilityOptions(
   page: import('puppeteer-core').Page,
   privacy: 'public' | 'private',
   visibilityLevel?: VisibilityLevel
-): Promise<boolean> {
+): Promise<{ privacySet: boolean; levelSet: boolean }> {
   console.log(`[TV Publish Helper] Setting visibility: ${privacy}${visibilityLevel ? ` + ${visibilityLevel}` : ''}`)
 
   // Click Public or Private button using XPath
@@ -1292,7 +1378,15 @@ async function setVisibilityOptions(
   }
 
   await delay(300)
-  return privacyClicked
+
+  // Visibility levels only exist for public scripts
+  let levelSet = true
+  if (privacy === 'public' && visibilityLevel) {
+    levelSet = await selectVisibilityLevel(page, visibilityLevel)
+    await delay(300)
+  }
+
+  return { privacySet: privacyClicked, levelSet }
 }
 
 /**
@@ -1389,13 +1483,17 @@ async function clickFinalPublishButton(
   return false
 }
 
-interface CapturePublishedScriptUrlOptions {
+export interface CapturePublishedScriptUrlOptions {
   logTag: string
   title: string
   captureWindowMs?: number
 }
 
-async function capturePublishedScriptUrl(
+/**
+ * Find the URL of the script just published from `page`: a new tab, the
+ * publish response, a redirect, a link in the page, or the scripts API by title
+ */
+export async function capturePublishedScriptUrl(
   page: import('puppeteer-core').Page,
   options: CapturePublishedScriptUrlOptions
 ): Promise<{ url?: string; source?: PublishResult['captureSource'] }> {
@@ -1571,7 +1669,8 @@ async function capturePublishedScriptUrl(
  */
 export async function publishPineScript(
   credentials: TVCredentials,
-  options: PublishOptions
+  options: PublishOptions,
+  signal?: AbortSignal
 ): Promise<PublishResult> {
   const { script, title, description } = options
 
@@ -1587,9 +1686,11 @@ export async function publishPineScript(
 
   console.log('[TV Publish] Using /chart/ page for publishing')
   let session: BrowserlessSession | null = null
+  let stopOnAbort = () => {}
 
   try {
     session = await createBrowserSession()
+    stopOnAbort = closeSessionOnAbort(session, signal)
     const { page } = session
 
     // Inject cookies
@@ -1599,10 +1700,12 @@ export async function publishPineScript(
     // Navigate to TradingView chart
     await navigateTo(page, TV_URLS.chart)
     console.log('[TV Publish] Navigated to chart, waiting for page load...')
-    await delay(1500)
+    reportProgress('publish', 'Publishing session opened')
+    await delay(1500, signal)
 
     await ensureChartPineEditorOpen(page, 'TV Publish')
     console.log('[TV Publish] Pine Editor ready on /chart/')
+    reportProgress('editor', 'Pine Editor ready for publishing')
 
     // Insert script via clipboard paste
     console.log('[TV Publish] Inserting script via clipboard paste...')
@@ -1616,6 +1719,7 @@ export async function publishPineScript(
     await page.keyboard.press('v')
     await page.keyboard.up('Control')
     console.log('[TV Publish] Script inserted via clipboard paste')
+    reportProgress('editor', 'Script pasted')
 
     // Wait for initial compilation
     await delay(1000)
@@ -1694,6 +1798,7 @@ export async function publishPineScript(
 
     // === STEP 1: Fill in title and description ===
     console.log('[TV Publish] Step 1: Filling title and description...')
+    reportProgress('publish', 'Publish dialog step 1/2: title and description')
     await delay(500)
     const { visibilityLevel } = options
 
@@ -1712,11 +1817,16 @@ export async function publishPineScript(
 
     // === STEP 2: Set visibility and final submit ===
     console.log('[TV Publish] Step 2: Setting visibility options...')
+    reportProgress('publish', 'Publish dialog step 2/2: visibility')
     await delay(200)
 
     // Set privacy and visibility level using helper function
     const visibility = options.visibility || 'public'
-    await setVisibilityOptions(page, visibility, visibilityLevel)
+    const { levelSet } = await setVisibilityOptions(page, visibility, visibilityLevel)
+    if (!levelSet && requiresVisibilityLevel(visibility, visibilityLevel)) {
+      await page.screenshot({ path: `${SCREENSHOT_DIR}/tv-publish-visibility-level-failed.png` }).catch(() => {})
+      throw new Error(`Could not set visibility level to ${visibilityLevel} - not publishing`)
+    }
 
     // Check required checkboxes (terms, etc.)
     const checkboxes = await page.$$('input[type="checkbox"]:not(:checked)')
@@ -1729,7 +1839,8 @@ export async function publishPineScript(
 
     await delay(200)
 
-    // Final submit using helper function
+    // Final submit using helper function; never publish for a request that was cancelled
+    signal?.throwIfAborted()
     console.log('[TV Publish] Clicking final Publish button...')
     const submitted = await clickFinalPublishButton(page, visibility)
 
@@ -1740,6 +1851,7 @@ export async function publishPineScript(
       throw new Error('Could not find final Publish button in step 2')
     }
 
+    reportProgress('publish', 'Published, waiting for the script URL')
     const captured = await capturePublishedScriptUrl(page, {
       logTag: 'TV Publish',
       title,
@@ -1747,6 +1859,7 @@ export async function publishPineScript(
     })
 
     if (captured.url) {
+      reportProgress('publish', `Script URL captured: ${captured.url}`)
       return {
         success: true,
         indicatorUrl: captured.url,
@@ -1757,6 +1870,7 @@ export async function publishPineScript(
     await page.screenshot({ path: `${SCREENSHOT_DIR}/tv-publish-no-url.png` }).catch(() => {})
     console.log(`[TV Publish] Screenshot saved to ${SCREENSHOT_DIR}/tv-publish-no-url.png`)
     console.log(`[TV Publish] Publish completed but script URL could not be captured within ${URL_CAPTURE_WINDOW_MS}ms`)
+    reportProgress('publish', 'Script URL could not be captured')
     return {
       success: false,
       errorCode: 'URL_CAPTURE_FAILED_AFTER_PUBLISH',
@@ -1764,6 +1878,7 @@ export async function publishPineScript(
       error: `Publish likely succeeded, but script URL could not be captured within ${Math.round(URL_CAPTURE_WINDOW_MS / 1000)} seconds. Check TradingView profile and retry.`,
     }
   } catch (error) {
+    if (signal?.aborted) throw error
     console.error('Script publishing failed:', error)
     return {
       success: false,
@@ -1771,6 +1886,192 @@ export async function publishPineScript(
       error: error instanceof Error ? error.message : 'Unknown error',
     }
   } finally {
+    stopOnAbort()
+    if (session) {
+      await closeBrowserSession(session)
+    }
+  }
+}
+
+export interface UpdateScriptOptions {
+  script: string
+  /** Script to update: its ID or any of its TradingView URLs */
+  scriptIdOrUrl: string
+  releaseNotes: string
+}
+
+/**
+ * Switch the publish dialog to "Update existing script" and pick the script,
+ * by a link to its page or, failing that, by its title
+ */
+async function selectScriptToUpdate(
+  page: import('puppeteer-core').Page,
+  scriptId: string,
+  title: string | null
+): Promise<boolean> {
+  const switched = await timedEvaluate(page, () => {
+    const elements = Array.from(document.querySelectorAll('button, [role="button"], [role="tab"], label, [role="radio"]'))
+    const tab = elements.find(el => el.textContent?.trim().toLowerCase() === 'update existing script')
+    if (!tab) return false
+    ;(tab as HTMLElement).click()
+    return true
+  }, undefined, 5000, false)
+  if (!switched) {
+    console.log('[TV Update Helper] Could not find "Update existing script"')
+    return false
+  }
+  await delay(1500)
+
+  const picked = await timedEvaluate(page, ({ id, expectedTitle }: { id: string; expectedTitle: string | null }) => {
+    const dialog = document.querySelector('[data-dialog-name="publish-script"], [role="dialog"]') ?? document
+    const link = dialog.querySelector(`a[href*="/script/${id}/"], a[href$="/script/${id}"]`)
+    let target = link?.closest('[role="option"], li, button') ?? link
+    if (!target && expectedTitle) {
+      const options = Array.from(dialog.querySelectorAll('[role="option"], li, button'))
+      target = options.find(el => el.textContent?.trim().toLowerCase() === expectedTitle.toLowerCase()) ?? null
+    }
+    if (!target) return false
+    ;(target as HTMLElement).click()
+    return true
+  }, { id: scriptId, expectedTitle: title }, 5000, false)
+  console.log(`[TV Update Helper] ${picked ? 'Selected' : 'Could not find'} script ${scriptId} in the update list`)
+  return picked
+}
+
+/**
+ * Click the dialog button that publishes the new version
+ */
+async function clickPublishUpdateButton(page: import('puppeteer-core').Page): Promise<boolean> {
+  return timedEvaluate(page, () => {
+    const labels = ['publish new version', 'update script', 'publish update']
+    const dialog = document.querySelector('[data-dialog-name="publish-script"], [role="dialog"]') ?? document
+    const button = Array.from(dialog.querySelectorAll('button, [role="button"]'))
+      .filter(el => (el as HTMLElement).getBoundingClientRect().width > 0)
+      .find(el => labels.includes(el.textContent?.trim().toLowerCase() || ''))
+    if (!button) return false
+    ;(button as HTMLElement).click()
+    return true
+  }, undefined, 5000, false)
+}
+
+/**
+ * Publish a new version of a script the service account already published
+ *
+ * Reads the script's title from its page, pastes the new version into the
+ * chart's Pine Editor and publishes it through the dialog's update mode with
+ * the release notes. TradingView keeps the script's URL, title and visibility.
+ */
+export async function updatePublishedScript(
+  credentials: TVCredentials,
+  options: UpdateScriptOptions,
+  signal?: AbortSignal
+): Promise<PublishResult> {
+  const scriptId = resolveScriptId(options.scriptIdOrUrl)
+  if (!scriptId) {
+    return { success: false, errorCode: 'PUBLISH_ACTION_FAILED', error: `Not a TradingView script URL or ID: ${options.scriptIdOrUrl}` }
+  }
+  const scriptUrl = `https://www.tradingview.com/script/${scriptId}/`
+
+  // Dev mode bypass
+  if (DEV_BYPASS) {
+    console.log('[TV] Dev bypass: Simulating script update')
+    return { success: true, indicatorUrl: scriptUrl }
+  }
+
+  console.log(`[TV Update] Updating script ${scriptId}`)
+  let session: BrowserlessSession | null = null
+  let stopOnAbort = () => {}
+
+  try {
+    session = await createBrowserSession()
+    stopOnAbort = closeSessionOnAbort(session, signal)
+    const { page } = session
+    await injectCookies(page, parseTVCookies(credentials))
+
+    // The script page confirms the script exists and gives its title for the update list
+    if (!(await navigateTo(page, scriptUrl))) throw new Error(`Could not open ${scriptUrl}`)
+    const title = await timedEvaluate(page, () => document.querySelector('h1')?.textContent?.trim() || null, undefined, 5000, null)
+    if (!title) throw new Error(`Script ${scriptId} not found`)
+    console.log(`[TV Update] Script ${scriptId} is "${title}"`)
+    reportProgress('publish', `Updating "${title}"`)
+
+    await navigateTo(page, TV_URLS.chart)
+    await delay(1500, signal)
+    await ensureChartPineEditorOpen(page, 'TV Update')
+
+    // Paste the new version and add it to the chart, as a new publish does
+    await page.click('.monaco-editor')
+    await page.keyboard.down('Control')
+    await page.keyboard.press('a')
+    await page.keyboard.up('Control')
+    await delay(100)
+    await page.evaluate((text) => navigator.clipboard.writeText(text), options.script)
+    await page.keyboard.down('Control')
+    await page.keyboard.press('v')
+    await page.keyboard.up('Control')
+    reportProgress('editor', 'New version pasted')
+    await delay(1000)
+
+    await timedEvaluate(page, () => {
+      const button = document.querySelector('[data-name="add-script-to-chart"]') as HTMLElement | null
+      button?.click()
+      return !!button
+    }, undefined, 5000, false)
+    await delay(1500)
+
+    if (!(await clickPublishButtonInChart(page, 'TV Update'))) {
+      await page.screenshot({ path: `${SCREENSHOT_DIR}/tv-update-no-button.png` }).catch(() => {})
+      throw new Error('Could not find publish button')
+    }
+    await waitForElement(page, TV_SELECTORS.publish.dialog, 10000)
+    await delay(500)
+
+    reportProgress('publish', 'Publish dialog: update existing script')
+    if (!(await selectScriptToUpdate(page, scriptId, title))) {
+      await page.screenshot({ path: `${SCREENSHOT_DIR}/tv-update-no-script.png` }).catch(() => {})
+      throw new Error(`Script ${scriptId} is not in the update list - is it published by the service account?`)
+    }
+    await fillRichTextDescription(page, options.releaseNotes)
+
+    // Never publish for a request that was cancelled
+    signal?.throwIfAborted()
+    if (!(await clickPublishUpdateButton(page))) {
+      await page.screenshot({ path: `${SCREENSHOT_DIR}/tv-update-no-submit.png` }).catch(() => {})
+      throw new Error('Could not find the button to publish the new version')
+    }
+
+    reportProgress('publish', 'Update published, confirming')
+    const captured = await capturePublishedScriptUrl(page, {
+      logTag: 'TV Update',
+      title,
+      captureWindowMs: URL_CAPTURE_WINDOW_MS,
+    })
+
+    // An update keeps the URL, so any other URL means TradingView made a new script
+    if (captured.url && captured.url !== scriptUrl) {
+      console.error(`[TV Update] Expected ${scriptUrl} but TradingView published ${captured.url}`)
+      return {
+        success: false,
+        errorCode: 'PUBLISH_ACTION_FAILED',
+        error: `TradingView published a new script (${captured.url}) instead of updating ${scriptUrl}`,
+      }
+    }
+    if (!captured.url) {
+      console.log(`[TV Update] Update not confirmed within ${URL_CAPTURE_WINDOW_MS}ms; the script URL is unchanged`)
+    }
+
+    reportProgress('publish', `Script updated: ${scriptUrl}`)
+    return { success: true, indicatorUrl: scriptUrl, captureSource: captured.source }
+  } catch (error) {
+    if (signal?.aborted) throw error
+    console.error('Script update failed:', error)
+    return {
+      success: false,
+      errorCode: 'PUBLISH_ACTION_FAILED',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }
+  } finally {
+    stopOnAbort()
     if (session) {
       await closeBrowserSession(session)
     }
@@ -1795,6 +2096,8 @@ export interface ValidateAndPublishResult {
  * @param page - Pre-loaded page with Pine Editor already open
  * @param script - Pine Script code to validate
  * @param publishOptions - Optional publish settings
+ * @param signal - Optional cancellation. The page is shared, so it is not closed on
+ *   abort: the run stops at the next step and the caller resets the editor.
  * @returns Validation and optionally publish result
  */
 export async function validateAndPublishWithWarmSession(
@@ -1805,7 +2108,8 @@ export async function validateAndPublishWithWarmSession(
     description: string
     visibility?: 'public' | 'private'
     visibilityLevel?: VisibilityLevel
-  }
+  },
+  signal?: AbortSignal
 ): Promise<ValidateAndPublishResult> {
   const startTime = Date.now()
   console.log('[Warm Validate] Starting validation with warm session...')
@@ -1831,6 +2135,7 @@ export async function validateAndPublishWithWarmSession(
     if (!editorExists) {
       throw new Error('Monaco editor not found after navigation')
     }
+    reportProgress('editor', 'Pine Editor ready')
 
     // Remove existing indicators from the chart (TradingView free tier limits to 2)
     console.log('[Warm Validate] Removing existing indicators from chart...')
@@ -1868,6 +2173,7 @@ export async function validateAndPublishWithWarmSession(
     }
 
     // Click on Monaco editor to focus
+    signal?.throwIfAborted()
     await page.click('.monaco-editor')
     await delay(100)
 
@@ -1886,9 +2192,10 @@ export async function validateAndPublishWithWarmSession(
     await page.keyboard.press('v')
     await page.keyboard.up('Control')
     console.log('[Warm Validate] Script inserted')
+    reportProgress('editor', 'Script pasted, compiling')
 
     // Wait for compilation
-    await delay(2000)
+    await delay(2000, signal)
 
     // Click "Add to chart" to trigger validation
     const startUrl = page.url()
@@ -1934,7 +2241,7 @@ export async function validateAndPublishWithWarmSession(
     console.log(`[Warm Validate] URL after Add to chart: ${page.url()}`)
 
     // Wait for validation to complete, but also handle potential navigation
-    await delay(2500)
+    await delay(2500, signal)
 
     console.log(`[Warm Validate] URL after delay: ${page.url()}`)
 
@@ -1947,7 +2254,7 @@ export async function validateAndPublishWithWarmSession(
 
     // Extract errors from console panel (with timeout to prevent hanging)
     console.log('[Warm Validate] Extracting errors from console panel...')
-    const errors = await Promise.race([
+    const consoleLines = await Promise.race([
       page.evaluate((selectors) => {
         const consolePanel = document.querySelector(selectors.consolePanel)
         if (!consolePanel) return []
@@ -1955,15 +2262,11 @@ export async function validateAndPublishWithWarmSession(
         const errorLines = consolePanel.querySelectorAll(selectors.errorLine)
         const warningLines = consolePanel.querySelectorAll(selectors.warningLine)
 
-        const parseConsoleLine = (element: Element, type: 'error' | 'warning') => {
-          const text = element.textContent || ''
-          const lineMatch = text.match(/line (\d+)/i)
-          return {
-            line: lineMatch ? parseInt(lineMatch[1], 10) : 0,
-            message: text.trim(),
-            type,
-          }
-        }
+        // Classified by parseCompilerMessage once back in Node
+        const parseConsoleLine = (element: Element, type: 'error' | 'warning') => ({
+          text: element.textContent || '',
+          type,
+        })
 
         return [
           ...Array.from(errorLines).map((el) => parseConsoleLine(el, 'error')),
@@ -1973,8 +2276,9 @@ export async function validateAndPublishWithWarmSession(
       new Promise<never>((_, reject) => setTimeout(() => reject(new Error('page.evaluate timeout after 15s')), 15000)),
     ]).catch((err) => {
       console.log(`[Warm Validate] Error extracting errors: ${err instanceof Error ? err.message : err}`)
-      return [] as Array<{ line: number; message: string; type: 'error' | 'warning' }>
+      return [] as Array<{ text: string; type: 'error' | 'warning' }>
     })
+    const errors = consoleLines.map((l) => parseCompilerMessage(l.text, l.type))
     console.log(`[Warm Validate] Extracted ${errors.length} errors`)
 
     // Get raw console output
@@ -2002,11 +2306,12 @@ export async function validateAndPublishWithWarmSession(
 
     // === PUBLISH PHASE ===
     console.log('[Warm Validate] Validation passed, proceeding to publish...')
+    reportProgress('publish', 'Preparing to publish')
     const { title, description, visibility = 'public' } = publishOptions
 
     // Wait for page to settle after Add to chart (chart page JS is very heavy)
     console.log('[Warm Validate] Waiting 8s for page to settle before publish...')
-    await delay(8000)
+    await delay(8000, signal)
 
     // Dismiss any blocking dialogs by clicking their close buttons (NOT Escape, which closes Pine Editor)
     // IMPORTANT: Skip any dialog that contains .monaco-editor (that's the Pine Editor panel)
@@ -2044,6 +2349,7 @@ export async function validateAndPublishWithWarmSession(
     }
 
     // Click publish button with strict selector allowlist.
+    signal?.throwIfAborted()
     console.log('[Warm Validate] Looking for publish button...')
     let publishClicked = await clickPublishButtonInChart(page, 'Warm Validate')
     if (publishClicked) {
@@ -2071,7 +2377,7 @@ export async function validateAndPublishWithWarmSession(
         console.log(`[Warm Validate] "Script not on chart" dialog: ${notOnChartHandled}`)
         if (notOnChartHandled === 'clicked-add-to-chart') {
           // Wait for chart to update, then re-click publish
-          await delay(5000)
+          await delay(5000, signal)
           console.log('[Warm Validate] Re-clicking publish button after adding to chart...')
           publishClicked = await clickPublishButtonInChart(page, 'Warm Validate')
           if (publishClicked) {
@@ -2204,7 +2510,9 @@ export async function validateAndPublishWithWarmSession(
     }
 
     // === STEP 1: Fill title and description (broken into small steps with timeouts) ===
+    signal?.throwIfAborted()
     console.log('[Warm Validate] Step 1: Filling title and description...')
+    reportProgress('publish', 'Publish dialog step 1/2: title and description')
     const { visibilityLevel } = publishOptions
     const descriptionText = description || title
     const fillResult: string[] = []
@@ -2342,6 +2650,7 @@ export async function validateAndPublishWithWarmSession(
 
     // Step 1e: Click Public/Private (5 second timeout)
     console.log(`[Warm Validate] Setting visibility to: ${visibility}...`)
+    reportProgress('publish', 'Publish dialog step 2/2: visibility')
     const privacySet = await evalWithTimeout(async () => {
       return await page.evaluate((privacy: string) => {
         const elements = Array.from(document.querySelectorAll('button, [role="button"], [role="tab"], label, [role="radio"]'))
@@ -2356,11 +2665,30 @@ export async function validateAndPublishWithWarmSession(
     fillResult.push(privacySet ? `privacy:${visibility}` : 'privacy:FAILED')
 
     await delay(300)
+
+    // Step 1f: Open/Protected/Invite-only (public scripts only)
+    if (visibility === 'public' && visibilityLevel) {
+      const levelSet = await selectVisibilityLevel(page, visibilityLevel)
+      fillResult.push(levelSet ? `level:${visibilityLevel}` : 'level:FAILED')
+      if (!levelSet && requiresVisibilityLevel(visibility, visibilityLevel)) {
+        console.log(`[Warm Validate] Dialog fill result: ${JSON.stringify(fillResult)}`)
+        return {
+          validation: validationResult,
+          publish: {
+            success: false,
+            errorCode: 'PUBLISH_ACTION_FAILED',
+            error: `Could not set visibility level to ${visibilityLevel}`,
+          },
+        }
+      }
+      await delay(300)
+    }
     console.log(`[Warm Validate] Dialog fill result: ${JSON.stringify(fillResult)}`)
 
     await delay(300)
 
-    // Click final publish button (Step 2)
+    // Click final publish button (Step 2); never publish for a request that was cancelled
+    signal?.throwIfAborted()
     const submitted = await clickFinalPublishButton(page, visibility)
     if (!submitted) {
       return {
@@ -2373,6 +2701,7 @@ export async function validateAndPublishWithWarmSession(
       }
     }
 
+    reportProgress('publish', 'Published, waiting for the script URL')
     const captured = await capturePublishedScriptUrl(page, {
       logTag: 'Warm Validate',
       title,
@@ -2380,6 +2709,7 @@ export async function validateAndPublishWithWarmSession(
     })
 
     if (captured.url) {
+      reportProgress('publish', `Script URL captured: ${captured.url}`)
       const totalTime = Date.now() - startTime
       console.log(`[Warm Validate] Published successfully in ${totalTime}ms via ${captured.source}: ${captured.url}`)
       return {
@@ -2394,6 +2724,7 @@ export async function validateAndPublishWithWarmSession(
 
     const totalTime = Date.now() - startTime
     console.log(`[Warm Validate] Publish completed in ${totalTime}ms (URL not captured in ${URL_CAPTURE_WINDOW_MS}ms)`)
+    reportProgress('publish', 'Script URL could not be captured')
     await page.screenshot({ path: `${SCREENSHOT_DIR}/warm-publish-no-url.png` }).catch(() => {})
     return {
       validation: validationResult,
@@ -2405,6 +2736,8 @@ export async function validateAndPublishWithWarmSession(
       },
     }
   } catch (error) {
+    // Let the caller see the cancellation so it resets the editor before releasing the session
+    if (signal?.aborted) throw error
     console.error('[Warm Validate] Error:', error)
     return {
       validation: {
@@ -0,0 +1,146 @@
+/**
+ * Validation Result Cache
+ *
+ * Remembers how a script fared so an identical submission is answered without
+ * opening TradingView. Entries are keyed by the script's SHA-256 and its
+ * `//@version`, and only runs that reached a verdict are stored: a run that
+ * errored or was cancelled says nothing about the script itself.
+ *
+ * AI fixes are cached the same way, keyed by the broken script, so the same
+ * input is always repaired to the same output.
+ *
+ * The cache is an optimisation only. Storage failures are logged and treated
+ * as a miss, never as a failed validation.
+ */
+
+import { createHash } from 'crypto'
+import { tokenize } from './pine/lexer'
+import type { PineRewrite } from './pine/migrate'
+import type { ValidationLoopResult, ValidationStopReason } from './validation-loop'
+import {
+  getCachedValidationResult,
+  saveCachedValidationResult,
+  deleteCachedValidationResult,
+  getCachedFix,
+  saveCachedFix,
+  deleteCachedFix,
+} from './kv'
+import { readIntEnv } from './env'
+
+// Seconds an entry is kept; 0 disables the cache
+export const VALIDATION_CACHE_TTL = readIntEnv('VALIDATION_CACHE_TTL', 7 * 24 * 60 * 60)
+
+// Stop reasons that describe the script rather than the run
+const CACHEABLE_STOP_REASONS: ValidationStopReason[] = [
+  'valid',
+  'max-retries',
+  'no-improvement',
+  'repeated-script',
+  'behavior-changed',
+]
+
+/**
+ * Cache key for a script: its SHA-256 plus the Pine version it declares
+ */
+export function getValidationCacheId(script: string): string {
+  const hash = createHash('sha256').update(script).digest('hex')
+  const version = tokenize(script).annotations.find(a => a.name === 'version')?.value.trim()
+  return `v${version || 'none'}:${hash}`
+}
+
+// ============ Validation Results ============
+
+/**
+ * Look up an earlier result for the script
+ *
+ * A result is only reused if a run with `maxRetries` fix attempts would have
+ * reached it: not if it took more fixes than that, and not a max-retries
+ * verdict from a run that was allowed fewer.
+ */
+export async function lookupValidationResult(
+  script: string,
+  maxRetries: number
+): Promise<ValidationLoopResult | null> {
+  if (VALIDATION_CACHE_TTL <= 0) return null
+
+  try {
+    const entry = await getCachedValidationResult(getValidationCacheId(script))
+    if (!entry) return null
+
+    const fixesApplied = entry.result.history.length - 1
+    if (fixesApplied > maxRetries) return null
+    if (entry.result.stopReason === 'max-retries' && entry.maxRetries < maxRetries) return null
+
+    return { ...entry.result, fromCache: true }
+  } catch (error) {
+    console.error('[ValidationCache] Lookup failed:', error)
+    return null
+  }
+}
+
+/**
+ * Store the result of a run, if it reached a verdict about the script
+ */
+export async function storeValidationResult(
+  script: string,
+  result: ValidationLoopResult,
+  maxRetries: number
+): Promise<void> {
+  if (VALIDATION_CACHE_TTL <= 0 || !CACHEABLE_STOP_REASONS.includes(result.stopReason)) return
+
+  // The publish belongs to the request that asked for it; a cache hit publishes again
+  const { indicatorUrl: _indicatorUrl, publishError: _publishError, fromCache: _fromCache, ...verdict } = result
+
+  try {
+    await saveCachedValidationResult(
+      getValidationCacheId(script),
+      { result: verdict, maxRetries, cachedAt: Date.now() },
+      VALIDATION_CACHE_TTL
+    )
+  } catch (error) {
+    console.error('[ValidationCache] Store failed:', error)
+  }
+}
+
+/**
+ * Forget the script's result and fix, e.g. when the cached result turns out to be stale
+ */
+export async function invalidateValidationResult(script: string): Promise<void> {
+  const cacheId = getValidationCacheId(script)
+  try {
+    await deleteCachedValidationResult(cacheId)
+    await deleteCachedFix(cacheId)
+  } catch (error) {
+    console.error('[ValidationCache] Invalidate failed:', error)
+  }
+}
+
+// ============ AI Fixes ============
+
+/**
+ * The fix produced earlier for this exact broken script, if any
+ */
+export async function lookupFix(script: string): Promise<{ script: string; migrations: PineRewrite[] } | null> {
+  if (VALIDATION_CACHE_TTL <= 0) return null
+
+  try {
+    const fix = await getCachedFix(getValidationCacheId(script))
+    return fix ? { script: fix.script, migrations: fix.migrations } : null
+  } catch (error) {
+    console.error('[ValidationCache] Fix lookup failed:', error)
+    return null
+  }
+}
+
+export async function storeFix(
+  script: string,
+  fix: { script: string; migrations: PineRewrite[] }
+): Promise<void> {
+  if (VALIDATION_CACHE_TTL <= 0) return
+
+  try {
+    await saveCachedFix(getValidationCacheId(script), { ...fix, cachedAt: Date.now() }, VALIDATION_CACHE_TTL)
+  } catch (error) {
+    console.error('[ValidationCache] Fix store failed:', error)
+  }
+}
@@ -2,11 +2,22 @@
  * Validation Loop Module
  *
  * Orchestrates the validation process with automatic error fixing:
- * 1. Validate script with service account
- * 2. If errors, attempt AI-powered fix (1 retry max)
- * 3. Re-validate with fixed script
- * 4. Optionally publish after successful validation
- * 5. Return final result with indicator URL
+ * 1. Check syntax locally, then validate the script with the service account
+ * 2. If errors, apply deterministic version migrations, then attempt AI-powered fix
+ * 3. Reject fixes that change inputs, plots, orders or alerts beyond the error lines
+ * 4. Re-validate the fixed script and repeat until it is valid, errors stop
+ *    decreasing, a script repeats, or the fix attempts run out
+ * 5. Optionally publish after successful validation
+ * 6. Return final result with indicator URL and the history of every iteration
+ *
+ * Each phase is also reported as a progress event (see progress.ts) for
+ * clients following the run live. A run can be cancelled with an AbortSignal;
+ * it then stops at the next step, releases its browser session and returns
+ * the last completed iteration with stopReason 'cancelled'.
+ *
+ * Results and AI fixes are cached by script (see validation-cache.ts): a
+ * script seen before is answered without TradingView, except that a valid
+ * one is still opened in the browser when it has to be published.
  */
 
 import { randomUUID, createHash } from 'crypto'
@@ -25,19 +36,51 @@ import {
 } from './prompts/pine-script-fix'
 import {
   publishPineScript,
+  updatePublishedScript,
   validateAndPublishWithWarmSession,
   parseTVCookies,
   ensureChartPineEditorOpen,
+  type VisibilityLevel,
 } from './tradingview'
-import { createBrowserSession, injectCookies, navigateTo } from './browserless'
+import {
+  createBrowserSession,
+  injectCookies,
+  navigateTo,
+  type ReconnectableBrowserSession,
+} from './browserless'
 import { startTimer } from './timing'
+import { reportProgress } from './progress'
+import { abortableDelay, onAbort } from './cancellation'
+import {
+  lookupValidationResult,
+  storeValidationResult,
+  invalidateValidationResult,
+  lookupFix,
+  storeFix,
+} from './validation-cache'
+import {
+  checkPineSyntax,
+  hasBlockingSyntaxErrors,
+  formatSyntaxDiagnosticsForLLM,
+} from './pine/syntax-check'
+import { migratePineScript, type PineRewrite } from './pine/migrate'
+import type { CompilerError } from './pine/compiler-errors'
+import { createUnifiedDiff } from './script-diff'
+import {
+  checkSemanticPreservation,
+  formatSemanticFindings,
+  type SemanticFinding,
+} from './pine/semantic-guard'
 import {
   isWarmLocalBrowserEnabled,
   acquireSession,
   releaseSession,
+  resetEditorState,
   getSessionStats,
   waitForPreWarm,
+  type WarmSession,
 } from './warm-session'
+import { readIntEnv } from './env'
 
 // OpenRouter client
 const openrouter = createOpenAI({
@@ -47,6 +90,12 @@ const openrouter = createOpenAI({
 
 const DEFAULT_MODEL = process.env.OPENROUTER_MODEL || 'anthropic/claude-sonnet-4'
 
+// Fix attempts per request; complex strategies often need two or three rounds
+export const DEFAULT_MAX_FIX_ATTEMPTS = readIntEnv('VALIDATION_MAX_FIX_ATTEMPTS', 3)
+
+// 'reject' stops the loop on fixes that change behavior outside the error lines; 'flag' only reports them
+const SEMANTIC_GUARD_MODE = process.env.SEMANTIC_GUARD_MODE === 'flag' ? 'flag' : 'reject'
+
 // ============ Request Deduplication ============
 // Prevents duplicate requests from being processed (e.g., browser retry on timeout)
 const inFlightRequests = new Map<string, Promise<ValidationLoopResult>>()
@@ -63,6 +112,44 @@ export interface PublishAfterValidationOptions {
   title: string
   description: string
   visibility: 'public' | 'private'
+  /** Open, protected (closed source) or invite-only; public scripts only */
+  visibilityLevel?: VisibilityLevel
+  /** Publish as a new version of this script (ID or URL) instead of as a new script */
+  updateScript?: string
+  /** Release notes for the new version, with updateScript */
+  releaseNotes?: string
+}
+
+/**
+ * Why the fix loop stopped
+ */
+export type ValidationStopReason =
+  | 'valid'
+  | 'max-retries'
+  | 'no-improvement'
+  | 'repeated-script'
+  | 'fix-failed'
+  | 'behavior-changed'
+  | 'cancelled'
+  | 'error'
+
+/**
+ * One validation pass in the fix loop
+ */
+export interface ValidationIteration {
+  /** 1-based iteration number */
+  iteration: number
+  /** Whether the errors came from the local syntax check or from TradingView */
+  source: 'local' | 'tradingview'
+  /** The script validated in this iteration */
+  script: string
+  errors: CompilerError[]
+  /** Unified diff against the previous iteration's script */
+  diff?: string
+  /** Version migrations applied to produce this iteration's script */
+  migrations?: PineRewrite[]
+  /** Behavior changes the fix that produced this iteration's script made beyond the error lines */
+  semanticFindings?: SemanticFinding[]
 }
 
 /**
@@ -73,18 +160,14 @@ export interface ValidationLoopResult {
   finalScript: string
   /** Whether the final script is valid */
   isValid: boolean
-  /** Number of validation iterations performed */
+  /** Number of validation iterations performed (local and TradingView) */
   iterations: number
   /** Whether an AI fix was attempted */
   fixAttempted: boolean
   /** Whether the AI fix was successful */
   fixSuccessful: boolean
   /** Final validation errors (if any) */
-  finalErrors: Array<{
-    line: number
-    message: string
-    type: 'error' | 'warning'
-  }>
+  finalErrors: CompilerError[]
   /** Raw console output from TradingView */
   rawOutput: string
   /** Whether script was successfully added to chart */
@@ -93,6 +176,16 @@ export interface ValidationLoopResult {
   indicatorUrl?: string
   /** Error from publish attempt (if publish failed) */
   publishError?: string
+  /** Deterministic version migrations applied before the AI fix */
+  migrations?: PineRewrite[]
+  /** Every iteration of the fix loop, in order */
+  history: ValidationIteration[]
+  /** Why the fix loop stopped */
+  stopReason: ValidationStopReason
+  /** Behavior changes found in the fixes applied to the final script, or in a rejected fix */
+  semanticFindings?: SemanticFinding[]
+  /** Whether the validation was answered from the result cache rather than a new run */
+  fromCache?: boolean
 }
 
 /**
@@ -100,15 +193,17 @@ export interface ValidationLoopResult {
  *
  * @param script - The original Pine Script with errors
  * @param errors - Formatted error messages from TradingView
+ * @param signal - Aborts the LLM request
  * @returns The fixed script (complete code)
  */
-async function fixPineScriptErrors(script: string, errors: string): Promise<string> {
+async function fixPineScriptErrors(script: string, errors: string, signal?: AbortSignal): Promise<string> {
   console.log('[ValidationLoop] Attempting AI fix for Pine Script errors...')
 
   const { text } = await generateText({
     model: openrouter(DEFAULT_MODEL),
     system: PINE_SCRIPT_FIX_SYSTEM_PROMPT,
     prompt: buildFixPrompt(script, errors),
+    abortSignal: signal,
   })
 
   const fixedScript = extractPineScript(text)
@@ -117,20 +212,83 @@ async function fixPineScriptErrors(script: string, errors: string): Promise<stri
   return fixedScript
 }
 
+/**
+ * Apply deterministic version migrations, then ask the LLM to fix whatever is left
+ *
+ * @param script - The script with errors
+ * @param describeErrors - Formats the errors still present in a candidate script,
+ *   ignoring errors on lines the migration rewrote; returns null when nothing is left
+ * @returns The fixed script (empty if neither step produced one) and the migrations applied
+ */
+async function fixWithMigrations(
+  script: string,
+  describeErrors: (candidate: string, migratedLines: Set<number>) => string | null,
+  requestId: string,
+  signal?: AbortSignal
+): Promise<{ script: string; migrations: PineRewrite[] }> {
+  const migration = migratePineScript(script)
+  const migrations = migration.rewrites
+  const migratedLines = new Set(migrations.map(rewrite => rewrite.line))
+
+  if (migrations.length > 0) {
+    console.log(`[ValidationLoop:${requestId}] Applied ${migrations.length} version migration(s) before AI fix`)
+  }
+
+  const remainingErrors = describeErrors(migration.script, migratedLines)
+  if (migrations.length > 0 && remainingErrors === null) {
+    console.log(`[ValidationLoop:${requestId}] Migrations cover every error - skipping AI fix`)
+    return { script: migration.script, migrations }
+  }
+
+  const fixedScript = await fixPineScriptErrors(migration.script, remainingErrors ?? '', signal)
+  if (fixedScript && fixedScript.length >= 10) {
+    return { script: fixedScript, migrations }
+  }
+  return { script: migrations.length > 0 ? migration.script : fixedScript, migrations }
+}
+
+/**
+ * Describe compiler errors left after migration, for fixWithMigrations
+ */
+function describeCompilerErrors(result: FullValidationResult): ErrorDescriber {
+  return (candidate, migratedLines) => {
+    if (migratedLines.size === 0) return formatErrorsForLLM(result)
+
+    const remaining = result.errors.filter(e => !migratedLines.has(e.line))
+    const localErrors = checkPineSyntax(candidate).filter(d => d.type === 'error')
+    if (!remaining.some(e => e.type === 'error') && localErrors.length === 0) return null
+
+    // Raw console output still lists the migrated errors, so leave it out
+    return formatErrorsForLLM({
+      ...result,
+      errors: [...remaining, ...localErrors.map(d => ({ line: d.line, column: d.column, message: d.message, type: d.type }))],
+      rawOutput: '',
+    })
+  }
+}
+
 /**
  * Run the validation loop with automatic error fixing
  *
  * @param script - The Pine Script to validate
- * @param maxRetries - Maximum fix attempts (default: 1)
+ * @param maxRetries - Maximum fix attempts (default: VALIDATION_MAX_FIX_ATTEMPTS)
  * @param publishOptions - Optional: publish the script after successful validation
+ * @param signal - Optional: cancels the run (browser session, AI fix and publish)
  * @returns Validation result with final script and status
  */
 export async function runValidationLoop(
   script: string,
-  maxRetries: number = 1,
-  publishOptions?: PublishAfterValidationOptions
+  maxRetries: number = DEFAULT_MAX_FIX_ATTEMPTS,
+  publishOptions?: PublishAfterValidationOptions,
+  signal?: AbortSignal
 ): Promise<ValidationLoopResult> {
   const requestId = randomUUID().slice(0, 8)
+
+  // Cancellable runs are not shared, since cancelling one caller must not stop another's run
+  if (signal) {
+    return runValidationLoopInternal(script, maxRetries, publishOptions, requestId, signal)
+  }
+
   const scriptHash = getScriptHash(script)
 
   // Check for duplicate in-flight request
@@ -156,222 +314,384 @@ async function runValidationLoopInternal(
   script: string,
   maxRetries: number,
   publishOptions: PublishAfterValidationOptions | undefined,
-  requestId: string
+  requestId: string,
+  signal?: AbortSignal
+): Promise<ValidationLoopResult> {
+  const cached = await lookupValidationResult(script, maxRetries)
+  if (!cached) {
+    return runAndCacheValidation(script, maxRetries, publishOptions, requestId, signal)
+  }
+
+  if (!publishOptions || !cached.isValid) {
+    console.log(`[ValidationLoop:${requestId}] Cached result (${cached.stopReason}) - skipping TradingView`)
+    reportProgress('compile', 'Reused the result of an earlier validation of this script')
+    return cached
+  }
+
+  // Publishing still needs a browser, but the cached final script compiles, so no fixes are needed
+  console.log(`[ValidationLoop:${requestId}] Cached result is valid - publishing the cached final script`)
+  reportProgress('compile', 'Reused the result of an earlier validation of this script, publishing')
+  const timer = startTimer('ValidationLoop', 'cached publish')
+  const published = await selectValidationPath(cached.finalScript, 0, publishOptions, timer, requestId, signal)
+  if (published.isValid) {
+    return {
+      ...cached,
+      rawOutput: published.rawOutput,
+      addedToChart: published.addedToChart,
+      indicatorUrl: published.indicatorUrl,
+      publishError: published.publishError,
+    }
+  }
+  if (published.stopReason === 'cancelled' || published.stopReason === 'error') {
+    return published
+  }
+
+  // TradingView no longer accepts the cached script, so the entry is stale
+  console.log(`[ValidationLoop:${requestId}] Cached script no longer compiles - validating from scratch`)
+  await invalidateValidationResult(script)
+  return runAndCacheValidation(script, maxRetries, publishOptions, requestId, signal)
+}
+
+async function runAndCacheValidation(
+  script: string,
+  maxRetries: number,
+  publishOptions: PublishAfterValidationOptions | undefined,
+  requestId: string,
+  signal?: AbortSignal
 ): Promise<ValidationLoopResult> {
   const timer = startTimer('ValidationLoop', 'validation loop')
-  let currentScript = script
-  let iterations = 0
-  let fixAttempted = false
-  let fixSuccessful = false
-  let lastResult: FullValidationResult | null = null
 
-  console.log(`[ValidationLoop:${requestId}] Starting validation loop...`)
+  console.log(`[ValidationLoop:${requestId}] Starting validation loop (up to ${maxRetries} fix attempt(s))...`)
 
-  // Check if warm local browser is enabled for fast validation
-  if (isWarmLocalBrowserEnabled()) {
-    console.log(`[ValidationLoop:${requestId}] Using warm local browser (USE_WARM_LOCAL_BROWSER=true)`)
-    const warmResult = await runValidationLoopWithWarmSession(
+  const result = await selectValidationPath(script, maxRetries, publishOptions, timer, requestId, signal)
+  await storeValidationResult(script, result, maxRetries)
+  return result
+}
+
+async function selectValidationPath(
+  script: string,
+  maxRetries: number,
+  publishOptions: PublishAfterValidationOptions | undefined,
+  timer: ReturnType<typeof startTimer>,
+  requestId: string,
+  signal?: AbortSignal
+): Promise<ValidationLoopResult> {
+  // Updates pick the existing script in their own publish session, so the combined
+  // validate+publish paths (which always publish a new script) are skipped
+  if (publishOptions?.updateScript) {
+    console.log(`[ValidationLoop:${requestId}] Validating, then updating ${publishOptions.updateScript}`)
+    return runFixLoop(
       script,
       maxRetries,
-      publishOptions,
       timer,
-      requestId
+      requestId,
+      (candidate) => validateThenPublish(candidate, publishOptions, timer, signal),
+      { signal }
     )
-    return warmResult
+  }
+
+  // Check if warm local browser is enabled for fast validation
+  if (isWarmLocalBrowserEnabled()) {
+    console.log(`[ValidationLoop:${requestId}] Using warm local browser (USE_WARM_LOCAL_BROWSER=true)`)
+    return runValidationLoopWithWarmSession(script, maxRetries, publishOptions, timer, requestId, signal)
   }
 
   // If publish options provided, use shared code path (single browser session for validate + publish)
   if (publishOptions) {
     console.log(`[ValidationLoop:${requestId}] Using shared validate+publish code path (single session)`)
-    try {
-      const credentials = await getServiceAccountCredentials()
-      if (!credentials) {
-        timer.end()
-        return {
-          finalScript: currentScript,
+    return runValidationLoopWithSharedSession(script, maxRetries, publishOptions, timer, requestId, signal)
+  }
+
+  return runFixLoop(
+    script,
+    maxRetries,
+    timer,
+    requestId,
+    (candidate) => validateThenPublish(candidate, undefined, timer, signal),
+    { signal }
+  )
+}
+
+// ============ Fix Loop ============
+
+/**
+ * Outcome of validating one candidate script in TradingView
+ */
+interface AttemptResult {
+  validation: FullValidationResult
+  indicatorUrl?: string
+  publishError?: string
+}
+
+type ValidationAttempt = (script: string) => Promise<AttemptResult>
+
+interface FixLoopOptions {
+  /** Log prefix, e.g. 'ValidationLoop/Warm' */
+  logPrefix?: string
+  /** Prefix for the error reported when an attempt throws */
+  failureMessage?: string
+  /** Stops the loop before the next attempt or fix; an attempt it interrupts is discarded */
+  signal?: AbortSignal
+}
+
+/**
+ * Decide whether the loop has stopped converging after the latest iteration.
+ * Error counts are only compared between iterations from the same source, since
+ * the local parser and TradingView report different kinds of errors.
+ *
+ * @returns The reason to stop and the iteration to report as final, or null to keep fixing
+ */
+function checkConvergence(
+  history: ValidationIteration[]
+): { stopReason: ValidationStopReason; finalIndex: number } | null {
+  const latestIndex = history.length - 1
+  const latest = history[latestIndex]
+  if (!latest) return null
+
+  for (let i = latestIndex - 1; i >= 0; i--) {
+    if (history[i].source !== latest.source) continue
+    if (countErrors(latest) >= countErrors(history[i])) {
+      // The previous attempt was at least as good and changed less
+      return { stopReason: 'no-improvement', finalIndex: i }
+    }
+    return null
+  }
+  return null
+}
+
+function countErrors(iteration: Pick<ValidationIteration, 'errors'>): number {
+  return iteration.errors.filter(e => e.type === 'error').length
+}
+
+function pluralize(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`
+}
+
+/**
+ * Validate, fix and re-validate until the script is valid, errors stop
+ * decreasing, the fixer repeats an earlier script, or the retries run out.
+ * Local syntax errors are fixed without spending a TradingView attempt.
+ */
+async function runFixLoop(
+  script: string,
+  maxRetries: number,
+  timer: ReturnType<typeof startTimer>,
+  requestId: string,
+  attempt: ValidationAttempt,
+  options: FixLoopOptions = {}
+): Promise<ValidationLoopResult> {
+  const logPrefix = `[${options.logPrefix ?? 'ValidationLoop'}:${requestId}]`
+  const { signal } = options
+  const history: ValidationIteration[] = []
+  const attempts: Array<AttemptResult & { describeErrors: ErrorDescriber }> = []
+  const seenScripts = new Set<string>()
+  let currentScript = script
+  let pendingFix: AppliedFix = { migrations: [], semanticFindings: [] }
+  let fixes = 0
+
+  const finish = (
+    stopReason: ValidationStopReason,
+    finalIndex: number = history.length - 1,
+    rejectedFindings: SemanticFinding[] = []
+  ): ValidationLoopResult => {
+    const final = history[finalIndex]
+    const { validation, indicatorUrl, publishError } = attempts[finalIndex]
+    const applied = history.slice(0, finalIndex + 1)
+    const migrations = applied.flatMap(iteration => iteration.migrations ?? [])
+    const semanticFindings = [...applied.flatMap(iteration => iteration.semanticFindings ?? []), ...rejectedFindings]
+
+    console.log(`${logPrefix} Validation loop stopped (${stopReason}) after ${history.length} iteration(s), ${fixes} fix attempt(s)`)
+    timer.end()
+    return {
+      finalScript: final.script,
+      isValid: validation.isValid,
+      iterations: history.length,
+      fixAttempted: fixes > 0,
+      fixSuccessful: validation.isValid && fixes > 0,
+      ...(migrations.length > 0 && { migrations }),
+      ...(semanticFindings.length > 0 && { semanticFindings }),
+      finalErrors: validation.isValid ? [] : final.errors,
+      rawOutput: validation.rawOutput,
+      addedToChart: validation.addedToChart,
+      indicatorUrl,
+      publishError,
+      history,
+      stopReason,
+    }
+  }
+
+  const cancel = (): ValidationLoopResult => {
+    console.log(`${logPrefix} Validation cancelled`)
+    if (history.length > 0) return finish('cancelled')
+    timer.end()
+    return cancelledResult(currentScript)
+  }
+
+  while (true) {
+    if (signal?.aborted) return cancel()
+    seenScripts.add(getScriptHash(currentScript))
+    const iteration = history.length + 1
+
+    let result: AttemptResult & { describeErrors: ErrorDescriber }
+    let source: ValidationIteration['source']
+    const diagnostics = checkPineSyntax(currentScript)
+
+    if (hasBlockingSyntaxErrors(diagnostics)) {
+      // Catch syntax errors locally before spending a TradingView session on them
+      console.log(`${logPrefix} Iteration ${iteration}: local syntax check found errors`)
+      source = 'local'
+      const errors = diagnostics.filter(d => d.type === 'error')
+      reportProgress('syntax-check', `Local syntax check found ${pluralize(errors.length, 'error')}`)
+      result = {
+        validation: {
           isValid: false,
-          iterations: 1,
-          fixAttempted: false,
-          fixSuccessful: false,
-          finalErrors: [{ line: 0, message: 'Service account authentication failed', type: 'error' as const }],
-          rawOutput: '',
+          errors: errors.map(d => ({ line: d.line, column: d.column, message: d.message, type: d.type })),
+          rawOutput: formatSyntaxDiagnosticsForLLM(diagnostics),
           addedToChart: false,
-          publishError: 'Service account authentication failed',
-        }
+        },
+        describeErrors: (candidate) => {
+          const remaining = checkPineSyntax(candidate)
+          return hasBlockingSyntaxErrors(remaining) ? formatSyntaxDiagnosticsForLLM(remaining) : null
+        },
       }
-
-      const session = await createBrowserSession()
+    } else {
+      console.log(`${logPrefix} Iteration ${iteration}: Validating script...`)
+      source = 'tradingview'
+      reportProgress('syntax-check', 'Local syntax check passed')
       try {
-        const cookies = parseTVCookies(credentials)
-        await injectCookies(session.page, cookies)
-        await navigateTo(session.page, 'https://www.tradingview.com/chart/')
-        timer.mark('browser setup')
-
-        // Wait for chart page to load
-        await new Promise(resolve => setTimeout(resolve, 5000))
-
-        // Open Pine Editor on /chart/ with strict selector policy.
-        console.log(`[ValidationLoop:${requestId}] Opening Pine Editor on /chart/ page...`)
-        await ensureChartPineEditorOpen(session.page, `ValidationLoop:${requestId}`)
-
-        // Wait for Monaco editor to appear
-        await session.page.waitForSelector('.monaco-editor', { timeout: 15000 })
-        console.log(`[ValidationLoop:${requestId}] Monaco editor loaded, using shared validate+publish path`)
-        timer.mark('pine editor ready')
-
-        const combinedResult = await validateAndPublishWithWarmSession(
-          session.page,
-          currentScript,
-          {
-            title: publishOptions.title,
-            description: publishOptions.description,
-            visibility: publishOptions.visibility,
-          }
+        const attemptResult = await attempt(currentScript)
+        result = { ...attemptResult, describeErrors: describeCompilerErrors(attemptResult.validation) }
+        const compileErrors = countErrors(attemptResult.validation)
+        reportProgress(
+          'compile',
+          compileErrors === 0 ? 'TradingView compiled the script' : `TradingView reported ${pluralize(compileErrors, 'error')}`
         )
-        timer.mark('validate+publish complete')
-        timer.end()
-
-        const isValid = combinedResult.validation.isValid
-        return {
-          finalScript: currentScript,
-          isValid,
-          iterations: 1,
-          fixAttempted: false,
-          fixSuccessful: false,
-          finalErrors: isValid ? [] : (combinedResult.validation.errors || []),
-          rawOutput: combinedResult.validation.rawOutput || '',
-          addedToChart: isValid,
-          indicatorUrl: combinedResult.publish?.indicatorUrl,
-          publishError: combinedResult.publish?.error,
+      } catch (error) {
+        if (signal?.aborted) return cancel()
+        console.error(`${logPrefix} Validation attempt failed:`, error)
+        const message = error instanceof Error ? error.message : 'Unknown error'
+        result = {
+          validation: {
+            isValid: false,
+            errors: [{ line: 0, message: `${options.failureMessage ?? 'Validation failed'}: ${message}`, type: 'error' }],
+            rawOutput: '',
+            addedToChart: false,
+          },
+          describeErrors: () => null,
         }
-      } finally {
-        try { await session.browser.close() } catch (_e) { /* ignore */ }
+        recordIteration(history, attempts, currentScript, 'tradingview', result, pendingFix)
+        return finish('error')
       }
-    } catch (error) {
-      console.error(`[ValidationLoop:${requestId}] Shared path failed, falling back to separate sessions:`, error)
-      // Fall through to the separate validation path below
     }
-  }
+    timer.mark(`iteration ${iteration}`)
+    recordIteration(history, attempts, currentScript, source, result, pendingFix)
 
-  // Validate script first, then publish separately if needed (fallback path)
-  iterations++
-  console.log(`[ValidationLoop:${requestId}] Iteration ${iterations}: Validating script...`)
-  lastResult = await validateWithServiceAccount(currentScript)
-  timer.mark('first validation')
-
-  if (lastResult.isValid) {
-    console.log(`[ValidationLoop:${requestId}] Script is valid on first attempt`)
-
-    // If publish options provided, publish the script (fallback: separate session)
-    if (publishOptions) {
-      const publishResult = await publishAfterValidation(currentScript, publishOptions, timer)
-      return {
-        finalScript: currentScript,
-        isValid: true,
-        iterations,
-        fixAttempted: false,
-        fixSuccessful: false,
-        finalErrors: [],
-        rawOutput: lastResult.rawOutput,
-        addedToChart: lastResult.addedToChart,
-        indicatorUrl: publishResult.indicatorUrl,
-        publishError: publishResult.error,
-      }
+    if (result.validation.isValid) {
+      console.log(`${logPrefix} Script is valid after ${iteration} iteration(s)`)
+      return finish('valid')
     }
 
-    timer.end()
-    return {
-      finalScript: currentScript,
-      isValid: true,
-      iterations,
-      fixAttempted: false,
-      fixSuccessful: false,
-      finalErrors: [],
-      rawOutput: lastResult.rawOutput,
-      addedToChart: lastResult.addedToChart,
+    const converged = checkConvergence(history)
+    if (converged) {
+      console.log(`${logPrefix} Errors stopped decreasing - keeping iteration ${converged.finalIndex + 1}`)
+      return finish(converged.stopReason, converged.finalIndex)
     }
-  }
 
-  // Script has errors - attempt AI fix if retries available
-  if (maxRetries > 0) {
-    console.log(`[ValidationLoop:${requestId}] Script has errors, attempting AI fix...`)
-    fixAttempted = true
+    if (fixes >= maxRetries) {
+      return finish('max-retries')
+    }
+    if (signal?.aborted) return cancel()
 
+    fixes++
+    console.log(`${logPrefix} Script has errors, attempting fix ${fixes}/${maxRetries}...`)
+    reportProgress('fix', `AI fix started (${fixes}/${maxRetries})`)
+    let fixedScript = ''
+    let migrations: PineRewrite[] = []
     try {
-      const errorString = formatErrorsForLLM(lastResult)
-      const fixedScript = await fixPineScriptErrors(currentScript, errorString)
-
-      // Sanity check: ensure we got a non-empty response
-      if (!fixedScript || fixedScript.length < 10) {
-        console.log(`[ValidationLoop:${requestId}] AI fix returned empty or invalid script`)
+      let fix = await lookupFix(currentScript)
+      if (fix) {
+        console.log(`${logPrefix} Reusing the cached fix for this script`)
       } else {
-        currentScript = fixedScript
-
-        // Re-validate with fixed script
-        iterations++
-        console.log(`[ValidationLoop:${requestId}] Iteration ${iterations}: Re-validating fixed script...`)
-        lastResult = await validateWithServiceAccount(currentScript)
-
-        if (lastResult.isValid) {
-          console.log(`[ValidationLoop:${requestId}] AI fix successful - script is now valid`)
-          fixSuccessful = true
-          timer.mark('AI fix successful')
-
-          // If publish options provided, publish the script
-          if (publishOptions) {
-            const publishResult = await publishAfterValidation(currentScript, publishOptions, timer)
-            return {
-              finalScript: currentScript,
-              isValid: true,
-              iterations,
-              fixAttempted: true,
-              fixSuccessful: true,
-              finalErrors: [],
-              rawOutput: lastResult.rawOutput,
-              addedToChart: lastResult.addedToChart,
-              indicatorUrl: publishResult.indicatorUrl,
-              publishError: publishResult.error,
-            }
-          }
-
-          timer.end()
-          return {
-            finalScript: currentScript,
-            isValid: true,
-            iterations,
-            fixAttempted: true,
-            fixSuccessful: true,
-            finalErrors: [],
-            rawOutput: lastResult.rawOutput,
-            addedToChart: lastResult.addedToChart,
-          }
-        } else {
-          console.log(`[ValidationLoop:${requestId}] AI fix applied but script still has errors`)
-        }
+        fix = await fixWithMigrations(currentScript, result.describeErrors, requestId, signal)
+        if (fix.script.length >= 10) await storeFix(currentScript, fix)
       }
+      fixedScript = fix.script
+      migrations = fix.migrations
     } catch (error) {
-      console.error(`[ValidationLoop:${requestId}] AI fix failed:`, error)
-      // Continue with original script's errors
+      if (signal?.aborted) return cancel()
+      console.error(`${logPrefix} AI fix failed:`, error)
     }
-  }
+    timer.mark(`fix ${fixes}`)
 
-  // Return final result (script is still invalid)
-  console.log(`[ValidationLoop:${requestId}] Validation complete after ${iterations} iterations - script is invalid`)
-  timer.end()
-  return {
-    finalScript: currentScript,
-    isValid: false,
-    iterations,
-    fixAttempted,
-    fixSuccessful,
-    finalErrors: lastResult?.errors || [],
-    rawOutput: lastResult?.rawOutput || '',
-    addedToChart: lastResult?.addedToChart || false,
+    if (!fixedScript || fixedScript.length < 10) {
+      console.log(`${logPrefix} AI fix returned empty or invalid script`)
+      reportProgress('fix', 'AI fix did not return a script')
+      return finish('fix-failed')
+    }
+    if (seenScripts.has(getScriptHash(fixedScript))) {
+      console.log(`${logPrefix} AI fix repeated an earlier script`)
+      reportProgress('fix', 'AI fix repeated an earlier version of the script')
+      return finish('repeated-script')
+    }
+
+    // Make sure the fix only changed what the errors asked for
+    const errors = result.validation.errors.filter(e => e.type === 'error')
+    const guard = checkSemanticPreservation(currentScript, fixedScript, [
+      ...errors.map(e => e.line),
+      ...migrations.map(rewrite => rewrite.line),
+    ])
+    if (guard.findings.length > 0) {
+      console.log(`${logPrefix} Fix changes script behavior:\n${formatSemanticFindings(guard.findings)}`)
+    }
+    // Errors without a line number give no way to tell expected changes apart, so only flag
+    const errorsLocated = errors.every(e => e.line > 0)
+    if (guard.changesBehavior && errorsLocated && SEMANTIC_GUARD_MODE === 'reject') {
+      console.log(`${logPrefix} Rejecting fix that changes behavior beyond the reported errors`)
+      reportProgress('fix', 'AI fix rejected: it changed behavior beyond the reported errors')
+      return finish('behavior-changed', history.length - 1, guard.findings)
+    }
+
+    reportProgress('fix', `AI fix applied (${fixes}/${maxRetries}), re-validating`)
+    pendingFix = { migrations, semanticFindings: guard.findings }
+    currentScript = fixedScript
   }
 }
 
+type ErrorDescriber = (candidate: string, migratedLines: Set<number>) => string | null
+
 /**
- * Run validation loop using warm local browser session
+ * What the fix that produced the next iteration's script did
+ */
+interface AppliedFix {
+  migrations: PineRewrite[]
+  semanticFindings: SemanticFinding[]
+}
+
+function recordIteration(
+  history: ValidationIteration[],
+  attempts: Array<AttemptResult & { describeErrors: ErrorDescriber }>,
+  script: string,
+  source: ValidationIteration['source'],
+  result: AttemptResult & { describeErrors: ErrorDescriber },
+  fix: AppliedFix
+): void {
+  const previous = history[history.length - 1]
+  history.push({
+    iteration: history.length + 1,
+    source,
+    script,
+    errors: result.validation.errors,
+    ...(previous && { diff: createUnifiedDiff(previous.script, script) }),
+    ...(previous && fix.migrations.length > 0 && { migrations: fix.migrations }),
+    ...(previous && fix.semanticFindings.length > 0 && { semanticFindings: fix.semanticFindings }),
+  })
+  attempts.push(result)
+}
+
+// ============ Validation Paths ============
+
+/**
+ * Run the fix loop using warm local browser session
  * This is the fast path (~8s) vs Browserless (~70s)
  */
 async function runValidationLoopWithWarmSession(
@@ -379,14 +699,9 @@ async function runValidationLoopWithWarmSession(
   maxRetries: number,
   publishOptions: PublishAfterValidationOptions | undefined,
   timer: ReturnType<typeof startTimer>,
-  requestId: string
+  requestId: string,
+  signal?: AbortSignal
 ): Promise<ValidationLoopResult> {
-  let currentScript = script
-  let iterations = 0
-  let fixAttempted = false
-  let fixSuccessful = false
-  let lastResult: FullValidationResult | null = null
-
   // Wait for pre-warm to complete (if running)
   await waitForPreWarm()
   timer.mark('pre-warm complete')
@@ -395,209 +710,234 @@ async function runValidationLoopWithWarmSession(
   const credentials = await getServiceAccountCredentials()
   if (!credentials) {
     timer.end()
-    return {
-      finalScript: currentScript,
-      isValid: false,
-      iterations: 0,
-      fixAttempted: false,
-      fixSuccessful: false,
-      finalErrors: [{
-        line: 0,
-        message: 'Service account authentication failed',
-        type: 'error',
-      }],
-      rawOutput: '',
-      addedToChart: false,
-      publishError: 'Service account authentication failed',
-    }
+    return authenticationFailedResult(script)
   }
 
-  // Acquire warm session
-  let sessionAcquired = false
-  try {
+  return runFixLoop(script, maxRetries, timer, requestId, async (candidate) => {
     console.log(`[ValidationLoop/Warm:${requestId}] Acquiring warm session...`)
     const stats = getSessionStats()
     console.log(`[ValidationLoop/Warm:${requestId}] Session stats: ${JSON.stringify(stats)}`)
 
-    const session = await acquireSession(credentials)
-    sessionAcquired = true
+    // Acquire per attempt so other requests can use the session while the AI fix runs
+    reportProgress('session', 'Waiting for a warm TradingView session')
+    const session = await acquireSession(credentials, signal)
     timer.mark('warm session acquired')
+    reportProgress('session', 'Warm session acquired')
 
-    // First validation attempt
-    iterations++
-    console.log(`[ValidationLoop/Warm:${requestId}] Iteration ${iterations}: Validating script...`)
-
-    const combinedResult = await validateAndPublishWithWarmSession(
-      session.page,
-      currentScript,
-      publishOptions ? {
-        title: publishOptions.title,
-        description: publishOptions.description,
-        visibility: publishOptions.visibility,
-      } : undefined
-    )
-
-    timer.mark('warm validation complete')
-
-    if (combinedResult.validation.isValid) {
-      console.log(`[ValidationLoop/Warm:${requestId}] Script is valid on first attempt`)
-
-      // Release session with success
-      await releaseSession(true)
-      sessionAcquired = false
-
-      if (combinedResult.publish) {
-        timer.mark('publish complete')
-        if (combinedResult.publish.success) {
-          console.log(`[ValidationLoop/Warm:${requestId}] Script published: ${combinedResult.publish.indicatorUrl}`)
-        } else {
-          console.log(`[ValidationLoop/Warm:${requestId}] Publish error: ${combinedResult.publish.error}`)
-        }
+    let combinedResult: Awaited<ReturnType<typeof validateAndPublishWithWarmSession>>
+    try {
+      combinedResult = await validateAndPublishWithWarmSession(
+        session.page,
+        candidate,
+        publishOptions ? {
+          title: publishOptions.title,
+          description: publishOptions.description,
+          visibility: publishOptions.visibility,
+          visibilityLevel: publishOptions.visibilityLevel,
+        } : undefined,
+        signal
+      )
+    } catch (error) {
+      if (signal?.aborted) {
+        await releaseCancelledSession(session, requestId)
+      } else {
+        await releaseSession(session, false)
       }
+      throw error
+    }
+    await releaseSession(session, true)
+    timer.mark('warm validation complete')
 
-      timer.end()
-      return {
-        finalScript: currentScript,
-        isValid: true,
-        iterations,
-        fixAttempted: false,
-        fixSuccessful: false,
-        finalErrors: [],
-        rawOutput: combinedResult.validation.rawOutput,
-        addedToChart: true,
-        indicatorUrl: combinedResult.publish?.indicatorUrl,
-        publishError: combinedResult.publish?.success === false ? combinedResult.publish.error : undefined,
+    if (combinedResult.publish) {
+      if (combinedResult.publish.success) {
+        console.log(`[ValidationLoop/Warm:${requestId}] Script published: ${combinedResult.publish.indicatorUrl}`)
+      } else {
+        console.log(`[ValidationLoop/Warm:${requestId}] Publish error: ${combinedResult.publish.error}`)
       }
     }
 
-    // Validation failed - store result for AI fix attempt
-    lastResult = {
-      ...combinedResult.validation,
-      addedToChart: false,
+    return {
+      validation: { ...combinedResult.validation, addedToChart: combinedResult.validation.isValid },
+      indicatorUrl: combinedResult.publish?.indicatorUrl,
+      publishError: combinedResult.publish?.success === false ? combinedResult.publish.error : undefined,
     }
+  }, { logPrefix: 'ValidationLoop/Warm', failureMessage: 'Warm session validation failed', signal })
+}
 
-    // Release session before AI fix (don't block other requests)
-    await releaseSession(true)
-    sessionAcquired = false
+/**
+ * Hand back a warm session whose run was cancelled mid-step. The editor may
+ * still hold the script or an open publish dialog, so reset it for the next
+ * request; if that fails the session is marked for recreation instead.
+ */
+async function releaseCancelledSession(
+  session: WarmSession,
+  requestId: string
+): Promise<void> {
+  try {
+    await resetEditorState(session.page)
+    await releaseSession(session, true)
+    console.log(`[ValidationLoop/Warm:${requestId}] Cancelled run cleaned up, session released`)
+  } catch (error) {
+    console.error(`[ValidationLoop/Warm:${requestId}] Could not reset editor after cancel:`, error)
+    await releaseSession(session, false)
+  }
+}
 
-    // Attempt AI fix if retries available
-    if (maxRetries > 0) {
-      console.log(`[ValidationLoop/Warm:${requestId}] Script has errors, attempting AI fix...`)
-      fixAttempted = true
+/**
+ * Run the fix loop in one Browserless session that validates and publishes.
+ * The session is opened on the first TradingView attempt and reused for retries;
+ * if it fails, the remaining attempts use separate validate/publish sessions.
+ */
+async function runValidationLoopWithSharedSession(
+  script: string,
+  maxRetries: number,
+  publishOptions: PublishAfterValidationOptions,
+  timer: ReturnType<typeof startTimer>,
+  requestId: string,
+  signal?: AbortSignal
+): Promise<ValidationLoopResult> {
+  const credentials = await getServiceAccountCredentials()
+  if (!credentials) {
+    timer.end()
+    return authenticationFailedResult(script)
+  }
 
-      try {
-        const errorString = formatErrorsForLLM(lastResult)
-        const fixedScript = await fixPineScriptErrors(currentScript, errorString)
-
-        if (!fixedScript || fixedScript.length < 10) {
-          console.log(`[ValidationLoop/Warm:${requestId}] AI fix returned empty or invalid script`)
-        } else {
-          currentScript = fixedScript
-          timer.mark('AI fix generated')
-
-          // Re-acquire session for second validation
-          console.log(`[ValidationLoop/Warm:${requestId}] Re-acquiring warm session for fixed script...`)
-          const retrySession = await acquireSession(credentials)
-          sessionAcquired = true
-
-          // Re-validate fixed script
-          iterations++
-          console.log(`[ValidationLoop/Warm:${requestId}] Iteration ${iterations}: Re-validating fixed script...`)
-
-          const retryResult = await validateAndPublishWithWarmSession(
-            retrySession.page,
-            currentScript,
-            publishOptions ? {
-              title: publishOptions.title,
-              description: publishOptions.description,
-              visibility: publishOptions.visibility,
-            } : undefined
-          )
-
-          await releaseSession(true)
-          sessionAcquired = false
-
-          if (retryResult.validation.isValid) {
-            console.log(`[ValidationLoop/Warm:${requestId}] AI fix successful - script is now valid`)
-            fixSuccessful = true
-            timer.mark('AI fix successful')
-
-            if (retryResult.publish) {
-              timer.mark('publish complete')
-              if (retryResult.publish.success) {
-                console.log(`[ValidationLoop/Warm:${requestId}] Script published: ${retryResult.publish.indicatorUrl}`)
-              } else {
-                console.log(`[ValidationLoop/Warm:${requestId}] Publish error: ${retryResult.publish.error}`)
-              }
-            }
-
-            timer.end()
-            return {
-              finalScript: currentScript,
-              isValid: true,
-              iterations,
-              fixAttempted: true,
-              fixSuccessful: true,
-              finalErrors: [],
-              rawOutput: retryResult.validation.rawOutput,
-              addedToChart: true,
-              indicatorUrl: retryResult.publish?.indicatorUrl,
-              publishError: retryResult.publish?.success === false ? retryResult.publish.error : undefined,
-            }
-          } else {
-            console.log(`[ValidationLoop/Warm:${requestId}] AI fix applied but script still has errors`)
-            lastResult = {
-              ...retryResult.validation,
-              addedToChart: false,
-            }
+  let session = null as ReconnectableBrowserSession | null
+  let sharedSessionFailed = false
+  // Closing the browser makes whatever step is running fail straight away
+  const stopOnAbort = onAbort(signal, () => {
+    session?.browser.close().catch(() => {})
+  })
+
+  try {
+    return await runFixLoop(script, maxRetries, timer, requestId, async (candidate) => {
+      if (!sharedSessionFailed) {
+        try {
+          session ??= await openChartPineEditor(credentials, timer, requestId, signal)
+          const combinedResult = await validateAndPublishWithWarmSession(session.page, candidate, {
+            title: publishOptions.title,
+            description: publishOptions.description,
+            visibility: publishOptions.visibility,
+            visibilityLevel: publishOptions.visibilityLevel,
+          }, signal)
+          timer.mark('validate+publish complete')
+
+          const isValid = combinedResult.validation.isValid
+          return {
+            validation: { ...combinedResult.validation, addedToChart: isValid },
+            indicatorUrl: combinedResult.publish?.indicatorUrl,
+            publishError: combinedResult.publish?.error,
           }
-        }
-      } catch (error) {
-        console.error(`[ValidationLoop/Warm:${requestId}] AI fix failed:`, error)
-        // Release session if acquired during AI fix retry to prevent deadlock
-        if (sessionAcquired) {
-          await releaseSession(false)
-          sessionAcquired = false
+        } catch (error) {
+          if (signal?.aborted) throw error
+          console.error(`[ValidationLoop:${requestId}] Shared path failed, falling back to separate sessions:`, error)
+          sharedSessionFailed = true
         }
       }
-    }
 
-    // Return final result (script is still invalid)
-    console.log(`[ValidationLoop/Warm:${requestId}] Validation complete after ${iterations} iterations - script is invalid`)
-    timer.end()
-    return {
-      finalScript: currentScript,
-      isValid: false,
-      iterations,
-      fixAttempted,
-      fixSuccessful,
-      finalErrors: lastResult?.errors || [],
-      rawOutput: lastResult?.rawOutput || '',
-      addedToChart: lastResult?.addedToChart || false,
+      // Validate script first, then publish separately (fallback path)
+      return validateThenPublish(candidate, publishOptions, timer, signal)
+    }, { signal })
+  } finally {
+    stopOnAbort()
+    if (session) {
+      try { await session.browser.close() } catch (_e) { /* ignore */ }
     }
+  }
+}
+
+/**
+ * Open TradingView's chart page with the Pine Editor ready for validate+publish
+ */
+async function openChartPineEditor(
+  credentials: NonNullable<Awaited<ReturnType<typeof getServiceAccountCredentials>>>,
+  timer: ReturnType<typeof startTimer>,
+  requestId: string,
+  signal?: AbortSignal
+): Promise<ReconnectableBrowserSession> {
+  reportProgress('session', 'Opening a TradingView browser session')
+  const session = await createBrowserSession()
+  try {
+    signal?.throwIfAborted()
+    const cookies = parseTVCookies(credentials)
+    await injectCookies(session.page, cookies)
+    await navigateTo(session.page, 'https://www.tradingview.com/chart/')
+    timer.mark('browser setup')
+    reportProgress('session', 'Browser session opened')
+
+    // Wait for chart page to load
+    await abortableDelay(5000, signal)
+
+    // Open Pine Editor on /chart/ with strict selector policy.
+    console.log(`[ValidationLoop:${requestId}] Opening Pine Editor on /chart/ page...`)
+    await ensureChartPineEditorOpen(session.page, `ValidationLoop:${requestId}`)
+
+    // Wait for Monaco editor to appear
+    await session.page.waitForSelector('.monaco-editor', { timeout: 15000 })
+    console.log(`[ValidationLoop:${requestId}] Monaco editor loaded, using shared validate+publish path`)
+    timer.mark('pine editor ready')
+    reportProgress('editor', 'Pine Editor ready')
+
+    return session
   } catch (error) {
-    console.error(`[ValidationLoop/Warm:${requestId}] Error:`, error)
+    try { await session.browser.close() } catch (_e) { /* ignore */ }
+    throw error
+  }
+}
 
-    // Release session on error
-    if (sessionAcquired) {
-      await releaseSession(false)
-    }
+/**
+ * Validate with the service account, then publish in a separate session if valid
+ */
+async function validateThenPublish(
+  script: string,
+  publishOptions: PublishAfterValidationOptions | undefined,
+  timer: ReturnType<typeof startTimer>,
+  signal?: AbortSignal
+): Promise<AttemptResult> {
+  const validation = await validateWithServiceAccount(script, signal)
+  timer.mark('validation complete')
 
-    timer.end()
-    return {
-      finalScript: currentScript,
-      isValid: false,
-      iterations,
-      fixAttempted,
-      fixSuccessful,
-      finalErrors: [{
-        line: 0,
-        message: `Warm session validation failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        type: 'error',
-      }],
-      rawOutput: '',
-      addedToChart: false,
-    }
+  if (!validation.isValid || !publishOptions) {
+    return { validation }
+  }
+
+  signal?.throwIfAborted()
+  const publishResult = await publishAfterValidation(script, publishOptions, timer, signal)
+  return {
+    validation,
+    indicatorUrl: publishResult.indicatorUrl,
+    publishError: publishResult.error,
+  }
+}
+
+function cancelledResult(script: string): ValidationLoopResult {
+  return {
+    finalScript: script,
+    isValid: false,
+    iterations: 0,
+    fixAttempted: false,
+    fixSuccessful: false,
+    finalErrors: [],
+    rawOutput: '',
+    addedToChart: false,
+    history: [],
+    stopReason: 'cancelled',
+  }
+}
+
+function authenticationFailedResult(script: string): ValidationLoopResult {
+  return {
+    finalScript: script,
+    isValid: false,
+    iterations: 0,
+    fixAttempted: false,
+    fixSuccessful: false,
+    finalErrors: [{ line: 0, message: 'Service account authentication failed', type: 'error' }],
+    rawOutput: '',
+    addedToChart: false,
+    publishError: 'Service account authentication failed',
+    history: [],
+    stopReason: 'error',
   }
 }
 
@@ -607,7 +947,8 @@ async function runValidationLoopWithWarmSession(
 async function publishAfterValidation(
   script: string,
   options: PublishAfterValidationOptions,
-  timer: ReturnType<typeof startTimer>
+  timer: ReturnType<typeof startTimer>,
+  signal?: AbortSignal
 ): Promise<{ indicatorUrl?: string; error?: string }> {
   console.log('[ValidationLoop] Publishing script after successful validation...')
   timer.mark('starting publish')
@@ -619,27 +960,32 @@ async function publishAfterValidation(
       return { error: 'Service account authentication failed' }
     }
 
-    const publishResult = await publishPineScript(credentials, {
-      script,
-      title: options.title,
-      description: options.description,
-      visibility: options.visibility,
-    })
+    const publishResult = options.updateScript
+      ? await updatePublishedScript(credentials, {
+          script,
+          scriptIdOrUrl: options.updateScript,
+          releaseNotes: options.releaseNotes || options.description,
+        }, signal)
+      : await publishPineScript(credentials, {
+          script,
+          title: options.title,
+          description: options.description,
+          visibility: options.visibility,
+          visibilityLevel: options.visibilityLevel,
+        }, signal)
 
     timer.mark('publish complete')
 
     if (publishResult.success) {
       console.log(`[ValidationLoop] Script published successfully: ${publishResult.indicatorUrl}`)
-      timer.end()
       return { indicatorUrl: publishResult.indicatorUrl }
     } else {
       console.error(`[ValidationLoop] Publish failed: ${publishResult.error}`)
-      timer.end()
       return { error: publishResult.error }
     }
   } catch (error) {
+    if (signal?.aborted) throw error
     console.error('[ValidationLoop] Publish error:', error)
-    timer.end()
     return { error: error instanceof Error ? error.message : 'Unknown publish error' }
   }
 }
@@ -1,15 +1,19 @@
 /**
  * Warm Session Manager
  *
- * Manages a persistent browser session with TradingView pre-loaded for fast validation.
- * Session stays warm between requests to avoid cold start latency (~70s -> ~8s).
+ * Manages a pool of persistent browser sessions with TradingView pre-loaded for fast validation.
+ * Sessions stay warm between requests to avoid cold start latency (~70s -> ~8s).
+ *
+ * All sessions share one Chrome process; each has its own browser context and
+ * chart page, so concurrent validations do not see each other's editor. Requests
+ * take an idle session, open a new one while the pool has room, or wait in a
+ * first-come, first-served queue.
  *
  * Feature flag: USE_WARM_LOCAL_BROWSER=true enables this path
  */
 
-import puppeteer, { Browser, Page } from 'puppeteer-core'
-import fs from 'fs'
-import { injectCookies } from './browserless'
+import type { Browser, BrowserContext, Page } from 'puppeteer-core'
+import { injectCookies, launchHeadlessBrowser, navigateTo } from './browserless'
 import {
   parseTVCookies,
   TV_SELECTORS,
@@ -18,10 +22,10 @@ import {
   ensureChartPineEditorOpen,
   type TVCredentials,
 } from './tradingview'
+import { readIntEnv } from './env'
 
 // Environment configuration
 const USE_WARM_LOCAL_BROWSER = process.env.USE_WARM_LOCAL_BROWSER === 'true'
-const PUPPETEER_EXECUTABLE_PATH = process.env.PUPPETEER_EXECUTABLE_PATH
 
 // Helper for retrying operations with exponential backoff
 async function withRetry<T>(
@@ -50,13 +54,19 @@ async function withRetry<T>(
 }
 
 // Warm session configuration (configurable via env)
-const IDLE_TIMEOUT = parseInt(process.env.WARM_SESSION_IDLE_TIMEOUT || '1800000') // 30 min default
-const MAX_AGE = parseInt(process.env.WARM_SESSION_MAX_AGE || '7200000') // 2 hours default
-const MAX_REQUESTS = parseInt(process.env.WARM_SESSION_MAX_REQUESTS || '500') // 500 requests default
-const ACQUIRE_TIMEOUT = 30000 // 30 seconds to wait for busy session
+// Each session holds a TradingView chart (~300-500MB), so 2 fit a 2GB machine next to the app
+const POOL_SIZE = readIntEnv('WARM_SESSION_POOL_SIZE', 1, 1)
+const IDLE_TIMEOUT = readIntEnv('WARM_SESSION_IDLE_TIMEOUT', 1800000) // 30 min default
+const MAX_AGE = readIntEnv('WARM_SESSION_MAX_AGE', 7200000) // 2 hours default
+const MAX_REQUESTS = readIntEnv('WARM_SESSION_MAX_REQUESTS', 500) // 500 requests default
+const ACQUIRE_TIMEOUT = readIntEnv('WARM_SESSION_ACQUIRE_TIMEOUT', 30000) // 30 seconds to wait for a free session
 
 export interface WarmSession {
+  /** Identifies the session in logs */
+  id: number
   browser: Browser
+  /** Browser context of this session; closing it closes the page */
+  context: BrowserContext
   page: Page
   state: 'idle' | 'busy' | 'error'
   createdAt: number
@@ -64,16 +74,28 @@ export interface WarmSession {
   requestsServed: number
 }
 
-// Singleton warm session
-let warmSession: WarmSession | null = null
-let idleTimer: NodeJS.Timeout | null = null
-let acquireQueue: Array<{
-  resolve: (session: WarmSession) => void
+/**
+ * A request waiting for a session
+ */
+interface Waiter {
+  credentials: TVCredentials
+  /** Hand the waiter a session; false if it already gave up, leaving the session free */
+  resolve: (session: WarmSession) => boolean
   reject: (error: Error) => void
-}> = []
+  /** Stop the acquire timeout once a session is being opened for this waiter */
+  stopTimeout: () => void
+}
 
-// Lock to prevent race condition when creating session
-let sessionCreationPromise: Promise<WarmSession> | null = null
+// ============ Pool State ============
+
+let browser: Browser | null = null
+let browserLaunchPromise: Promise<Browser> | null = null
+const pool: WarmSession[] = []
+const idleTimers = new Map<WarmSession, NodeJS.Timeout>()
+// Sessions being opened count against POOL_SIZE
+let sessionsCreating = 0
+let nextSessionId = 1
+let acquireQueue: Waiter[] = []
 
 // Pre-warm tracking
 let preWarmPromise: Promise<void> | null = null
@@ -88,7 +110,7 @@ export function isWarmLocalBrowserEnabled(): boolean {
 
 /**
  * Start pre-warming the browser session at app startup.
- * This initializes Chrome and navigates to TradingView before any requests arrive.
+ * This initializes Chrome and opens every pool session before any requests arrive.
  * Call this early in server startup with service account credentials.
  */
 export function startPreWarm(credentials: TVCredentials): void {
@@ -103,14 +125,24 @@ export function startPreWarm(credentials: TVCredentials): void {
     console.log('[Pre-warm] Starting Chrome initialization...')
     const startTime = Date.now()
 
-    try {
-      const session = await acquireSession(credentials)
-      await releaseSession(true)
-      console.log(`[Pre-warm] Chrome ready for requests in ${Date.now() - startTime}ms`)
-    } catch (error) {
-      console.error('[Pre-warm] Failed to initialize:', error)
+    // Open every session at once; acquiring one at a time would keep reusing the first
+    const acquired = await Promise.allSettled(
+      Array.from({ length: POOL_SIZE }, () => acquireSession(credentials))
+    )
+    for (const result of acquired) {
+      if (result.status === 'fulfilled') await releaseSession(result.value, true)
+    }
+
+    const failed = acquired.filter(result => result.status === 'rejected')
+    if (failed.length === acquired.length) {
+      console.error('[Pre-warm] Failed to initialize:', failed[0].reason)
       preWarmPromise = null // Allow retry
+      return
+    }
+    if (failed.length > 0) {
+      console.error(`[Pre-warm] ${failed.length} of ${POOL_SIZE} session(s) failed to open:`, failed[0].reason)
     }
+    console.log(`[Pre-warm] ${POOL_SIZE - failed.length} session(s) ready for requests in ${Date.now() - startTime}ms`)
   })()
 }
 
@@ -124,98 +156,73 @@ export async function waitForPreWarm(): Promise<void> {
 }
 
 /**
- * Get Chrome executable path
+ * Launch the Chrome process shared by every session, or return the running one
  */
-function getChromePath(): string {
-  // Production: Use Dockerfile-configured path
-  if (PUPPETEER_EXECUTABLE_PATH) {
-    if (fs.existsSync(PUPPETEER_EXECUTABLE_PATH)) {
-      return PUPPETEER_EXECUTABLE_PATH
-    }
-    throw new Error(`PUPPETEER_EXECUTABLE_PATH set to ${PUPPETEER_EXECUTABLE_PATH} but file does not exist`)
-  }
-
-  // Development: Auto-detect Chrome
-  const paths: Record<string, string[]> = {
-    linux: [
-      '/usr/bin/google-chrome',
-      '/usr/bin/google-chrome-stable',
-      '/usr/bin/chromium-browser',
-      '/usr/bin/chromium',
-    ],
-    darwin: [
-      '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome',
-      '/Applications/Chromium.app/Contents/MacOS/Chromium',
-    ],
-    win32: [
-      'C:\\Program Files\\Google\\Chrome\\Application\\chrome.exe',
-      'C:\\Program Files (x86)\\Google\\Chrome\\Application\\chrome.exe',
-    ],
-  }
-
-  const osPaths = paths[process.platform] || []
-  for (const p of osPaths) {
-    if (fs.existsSync(p)) {
-      return p
-    }
+async function getBrowser(): Promise<Browser> {
+  if (browser?.isConnected()) return browser
+  if (!browserLaunchPromise) {
+    browserLaunchPromise = launchBrowser().finally(() => {
+      browserLaunchPromise = null
+    })
   }
-
-  throw new Error(`Chrome not found. Set PUPPETEER_EXECUTABLE_PATH env var. Searched: ${osPaths.join(', ')}`)
+  return browserLaunchPromise
 }
 
-/**
- * Reset idle timer - called when session is released back to pool
- */
-function resetIdleTimer(): void {
-  if (idleTimer) {
-    clearTimeout(idleTimer)
-  }
+async function launchBrowser(): Promise<Browser> {
+  console.log('[Warm Session] Launching Chrome...')
+  const launched = await launchHeadlessBrowser()
+
+  launched.on('disconnected', () => {
+    if (browser !== launched) return
+    // Chrome crashed or was killed: every session went with it
+    console.log('[Warm Session] Browser disconnected, dropping all sessions')
+    browser = null
+    for (const session of [...pool]) {
+      session.state = 'error'
+      retireSession(session)
+    }
+    dispatchWaiters()
+  })
 
-  idleTimer = setTimeout(async () => {
-    console.log(`[Warm Session] Idle timeout reached (${IDLE_TIMEOUT}ms), closing browser...`)
-    await shutdownSession()
-  }, IDLE_TIMEOUT)
+  browser = launched
+  return launched
 }
 
 /**
  * Create a new warm session with TradingView + Pine Editor pre-loaded
  */
 async function createWarmSession(credentials: TVCredentials): Promise<WarmSession> {
-  console.log('[Warm Session] Creating new warm session...')
+  const id = nextSessionId++
+  console.log(`[Warm Session #${id}] Creating new warm session...`)
   const startTime = Date.now()
 
-  const chromePath = getChromePath()
-  console.log(`[Warm Session] Launching Chrome: ${chromePath}`)
-
-  const args = [
-    '--no-sandbox',
-    '--disable-setuid-sandbox',
-    '--disable-dev-shm-usage',
-    '--disable-gpu',
-    '--disable-software-rasterizer',
-    '--disable-extensions',
-    '--disable-background-networking',
-    '--disable-default-apps',
-    '--disable-sync',
-    '--no-first-run',
-    '--disable-accelerated-2d-canvas',
-    '--disable-canvas-aa',
-    '--disable-2d-canvas-clip-aa',
-    '--disable-gl-drawing-for-tests',
-  ]
-
-  const browser = await puppeteer.launch({
-    headless: true,
-    executablePath: chromePath,
-    args,
-    defaultViewport: { width: 1920, height: 1080 },
-  })
+  const sharedBrowser = await getBrowser()
+  const context = await sharedBrowser.createBrowserContext()
+
+  try {
+    return await openSessionPage(sharedBrowser, context, id, credentials, startTime)
+  } catch (error) {
+    await context.close().catch(() => {})
+    throw error
+  }
+}
 
-  const page = await browser.newPage()
+/**
+ * Load TradingView with the Pine Editor open in a new session's context
+ */
+async function openSessionPage(
+  sharedBrowser: Browser,
+  context: BrowserContext,
+  id: number,
+  credentials: TVCredentials,
+  startTime: number
+): Promise<WarmSession> {
+  const tag = `[Warm Session #${id}]`
+  const page = await context.newPage()
 
   // Auto-accept all dialogs
   page.on('dialog', async (dialog) => {
-    console.log(`[Warm Session] Auto-accepting dialog: ${dialog.type()} - "${dialog.message()}"`)
+    console.log(`${tag} Auto-accepting dialog: ${dialog.type()} - "${dialog.message()}"`)
     await dialog.accept()
   })
 
@@ -227,14 +234,17 @@ async function createWarmSession(credentials: TVCredentials): Promise<WarmSessio
   // Inject credentials
   const cookies = parseTVCookies(credentials)
   await injectCookies(page, cookies)
-  console.log('[Warm Session] Credentials injected')
+  console.log(`${tag} Credentials injected`)
 
   // Navigate to TradingView chart page
-  console.log('[Warm Session] Navigating to TradingView...')
-  await page.goto('https://www.tradingview.com/chart/', {
+  console.log(`${tag} Navigating to TradingView...`)
+  const navigated = await navigateTo(page, 'https://www.tradingview.com/chart/', {
     waitUntil: 'domcontentloaded',
     timeout: 90000,
   })
+  if (!navigated) {
+    throw new Error('Failed to load the TradingView chart page')
+  }
 
   // Wait for page to stabilize and check if we're logged in
   await delay(3000)
@@ -246,20 +256,20 @@ async function createWarmSession(credentials: TVCredentials): Promise<WarmSessio
   }, TV_SELECTORS.auth.userMenu)
 
   if (!isLoggedIn) {
-    console.log('[Warm Session] WARNING: May not be logged in to TradingView')
+    console.log(`${tag} WARNING: May not be logged in to TradingView`)
     // Take screenshot for debugging
     try {
       await page.screenshot({ path: `${SCREENSHOT_DIR}/warm-session-not-logged-in.png` })
-      console.log(`[Warm Session] Screenshot saved to ${SCREENSHOT_DIR}/warm-session-not-logged-in.png`)
+      console.log(`${tag} Screenshot saved to ${SCREENSHOT_DIR}/warm-session-not-logged-in.png`)
     } catch (e) {
-      console.log('[Warm Session] Could not take screenshot')
+      console.log(`${tag} Could not take screenshot`)
     }
   } else {
-    console.log('[Warm Session] Confirmed logged in to TradingView')
+    console.log(`${tag} Confirmed logged in to TradingView`)
   }
 
   // Open Pine Editor on chart with strict selectors only.
-  console.log('[Warm Session] Opening Pine Editor...')
+  console.log(`${tag} Opening Pine Editor...`)
   await ensureChartPineEditorOpen(page, 'Warm Session')
   const editorFound = await page.$(TV_SELECTORS.pineEditor.editorArea)
 
@@ -267,14 +277,14 @@ async function createWarmSession(credentials: TVCredentials): Promise<WarmSessio
     // Take screenshot for debugging
     try {
       await page.screenshot({ path: `${SCREENSHOT_DIR}/warm-session-editor-not-found.png` })
-      console.log(`[Warm Session] Screenshot saved to ${SCREENSHOT_DIR}/warm-session-editor-not-found.png`)
+      console.log(`${tag} Screenshot saved to ${SCREENSHOT_DIR}/warm-session-editor-not-found.png`)
     } catch (e) {
-      console.log('[Warm Session] Could not take screenshot:', e)
+      console.log(`${tag} Could not take screenshot:`, e)
     }
 
     // Check current URL - might have been redirected to login
     const currentUrl = page.url()
-    console.log(`[Warm Session] Current URL: ${currentUrl}`)
+    console.log(`${tag} Current URL: ${currentUrl}`)
 
     // Check for login page indicators
     const isLoginPage = await page.evaluate(() => {
@@ -293,7 +303,7 @@ async function createWarmSession(credentials: TVCredentials): Promise<WarmSessio
   await delay(500)
 
   // Remove any existing indicators from the chart (TradingView free tier limits to 2)
-  console.log('[Warm Session] Cleaning up existing indicators...')
+  console.log(`${tag} Cleaning up existing indicators...`)
   const removedCount = await page.evaluate(() => {
     let removed = 0
     // Find all indicator close/remove buttons
@@ -316,14 +326,16 @@ async function createWarmSession(credentials: TVCredentials): Promise<WarmSessio
   })
 
   if (removedCount > 0) {
-    console.log(`[Warm Session] Removed ${removedCount} existing indicators`)
+    console.log(`${tag} Removed ${removedCount} existing indicators`)
     await delay(500)
   } else {
-    console.log('[Warm Session] No existing indicators to remove')
+    console.log(`${tag} No existing indicators to remove`)
   }
 
   const session: WarmSession = {
-    browser,
+    id,
+    browser: sharedBrowser,
+    context,
     page,
     state: 'idle',
     createdAt: Date.now(),
@@ -332,7 +344,7 @@ async function createWarmSession(credentials: TVCredentials): Promise<WarmSessio
   }
 
   const elapsed = Date.now() - startTime
-  console.log(`[Warm Session] Session created in ${elapsed}ms`)
+  console.log(`${tag} Session created in ${elapsed}ms`)
 
   return session
 }
@@ -343,156 +355,248 @@ async function createWarmSession(credentials: TVCredentials): Promise<WarmSessio
 function sessionNeedsRefresh(session: WarmSession): boolean {
   const age = Date.now() - session.createdAt
   if (age > MAX_AGE) {
-    console.log(`[Warm Session] Session exceeded max age (${age}ms > ${MAX_AGE}ms)`)
+    console.log(`[Warm Session #${session.id}] Session exceeded max age (${age}ms > ${MAX_AGE}ms)`)
     return true
   }
   if (session.requestsServed >= MAX_REQUESTS) {
-    console.log(`[Warm Session] Session exceeded max requests (${session.requestsServed} >= ${MAX_REQUESTS})`)
+    console.log(`[Warm Session #${session.id}] Session exceeded max requests (${session.requestsServed} >= ${MAX_REQUESTS})`)
     return true
   }
   return false
 }
 
 /**
- * Acquire a warm session for use
- * - Creates a new session if none exists
- * - Waits if session is busy
- * - Refreshes session if needed
+ * Whether the pool may open another session
  */
-export async function acquireSession(credentials: TVCredentials): Promise<WarmSession> {
-  const startTime = Date.now()
+function hasCapacity(): boolean {
+  return pool.length + sessionsCreating < POOL_SIZE
+}
 
-  // If no session exists, create one (with lock to prevent race condition)
-  if (!warmSession) {
-    // Check if another request is already creating a session
-    if (sessionCreationPromise) {
-      console.log('[Warm Session] Session creation in progress, waiting...')
-      await sessionCreationPromise
-      // After waiting, the session should exist - recursively try to acquire
-      return acquireSession(credentials)
+/**
+ * Take the first idle session that is still usable, retiring worn-out ones on the way
+ */
+function takeIdleSession(): WarmSession | null {
+  for (const session of [...pool]) {
+    if (session.state !== 'idle') continue
+    if (sessionNeedsRefresh(session) || !isSessionConnected(session)) {
+      console.log(`[Warm Session #${session.id}] Refreshing session due to limits...`)
+      retireSession(session)
+      continue
     }
+    return session
+  }
+  return null
+}
 
-    console.log('[Warm Session] No warm session exists, creating...')
+/**
+ * Open a session and add it to the pool already busy, so no other request can
+ * take it before the caller checks it out (or hands it back with releaseIdle)
+ */
+async function createPooledSession(credentials: TVCredentials): Promise<WarmSession> {
+  sessionsCreating++
+  let session: WarmSession
+  try {
+    session = await createWarmSession(credentials)
+  } catch (error) {
+    sessionsCreating--
+    // Free the slot so waiters can try opening a session themselves
+    dispatchWaiters()
+    throw error
+  }
+  sessionsCreating--
+  session.state = 'busy'
+  pool.push(session)
+  return session
+}
+
+function checkOut(session: WarmSession, how: string, startTime: number): WarmSession {
+  clearIdleTimer(session)
+  session.state = 'busy'
+  session.lastUsedAt = Date.now()
+  session.requestsServed++
+  console.log(`[Warm Session #${session.id}] Acquired (${how}) in ${Date.now() - startTime}ms`)
+  return session
+}
 
-    // Set the lock before starting creation
-    sessionCreationPromise = createWarmSession(credentials)
+/**
+ * Remove a session from the pool and close it in the background
+ */
+function retireSession(session: WarmSession): void {
+  clearIdleTimer(session)
+  const index = pool.indexOf(session)
+  if (index === -1) return
+  pool.splice(index, 1)
+
+  if (!session.browser.isConnected()) return
+  session.context.close()
+    .then(() => console.log(`[Warm Session #${session.id}] Closed (${session.requestsServed} requests served)`))
+    .catch((error) => console.error(`[Warm Session #${session.id}] Error closing session:`, error))
+    .finally(closeBrowserIfUnused)
+}
 
-    try {
-      warmSession = await sessionCreationPromise
-      warmSession.state = 'busy'
-      warmSession.lastUsedAt = Date.now()
-      warmSession.requestsServed++
-      resetIdleTimer()
-      console.log(`[Warm Session] Acquired (cold start) in ${Date.now() - startTime}ms`)
-      return warmSession
-    } finally {
-      // Clear the lock
-      sessionCreationPromise = null
+/**
+ * Close Chrome once the last session is gone, so an idle machine frees its memory
+ */
+async function closeBrowserIfUnused(): Promise<void> {
+  if (!browser || pool.length > 0 || sessionsCreating > 0) return
+
+  const closing = browser
+  browser = null
+  try {
+    console.log('[Warm Session] No sessions left, closing browser...')
+    await closing.close()
+    console.log('[Warm Session] Browser closed')
+  } catch (error) {
+    console.error('[Warm Session] Error closing browser:', error)
+  }
+}
+
+/**
+ * Serve waiting requests in order: with idle sessions first, then by opening
+ * new ones while the pool has room
+ */
+function dispatchWaiters(): void {
+  while (acquireQueue.length > 0) {
+    const idle = takeIdleSession()
+    if (idle) {
+      const waiter = acquireQueue.shift()!
+      waiter.resolve(idle)
+      continue
     }
+    if (!hasCapacity()) break
+
+    const waiter = acquireQueue.shift()!
+    waiter.stopTimeout()
+    createPooledSession(waiter.credentials).then(
+      (session) => {
+        if (!waiter.resolve(session)) releaseIdle(session)
+      },
+      (error) => waiter.reject(error instanceof Error ? error : new Error(String(error)))
+    )
   }
 
-  // If session exists but needs refresh
-  if (sessionNeedsRefresh(warmSession)) {
-    console.log('[Warm Session] Refreshing session due to limits...')
-    await shutdownSession()
-    warmSession = await createWarmSession(credentials)
-    warmSession.state = 'busy'
-    warmSession.lastUsedAt = Date.now()
-    warmSession.requestsServed++
-    resetIdleTimer()
-    console.log(`[Warm Session] Acquired (refreshed) in ${Date.now() - startTime}ms`)
-    return warmSession
+  for (const session of pool) {
+    if (session.state === 'idle' && !idleTimers.has(session)) startIdleTimer(session)
   }
+}
 
-  // If session is idle, acquire it
-  if (warmSession.state === 'idle') {
-    warmSession.state = 'busy'
-    warmSession.lastUsedAt = Date.now()
-    warmSession.requestsServed++
+/**
+ * Return a healthy session to the pool, for the next waiter or the idle timer
+ */
+function releaseIdle(session: WarmSession): void {
+  session.state = 'idle'
+  dispatchWaiters()
+}
 
-    // Clear idle timer while session is in use
-    if (idleTimer) {
-      clearTimeout(idleTimer)
-      idleTimer = null
-    }
+function startIdleTimer(session: WarmSession): void {
+  clearIdleTimer(session)
+  idleTimers.set(session, setTimeout(() => {
+    idleTimers.delete(session)
+    console.log(`[Warm Session #${session.id}] Idle timeout reached (${IDLE_TIMEOUT}ms), closing...`)
+    retireSession(session)
+  }, IDLE_TIMEOUT))
+}
 
-    console.log(`[Warm Session] Acquired (warm) in ${Date.now() - startTime}ms`)
-    return warmSession
+function clearIdleTimer(session: WarmSession): void {
+  const timer = idleTimers.get(session)
+  if (timer) {
+    clearTimeout(timer)
+    idleTimers.delete(session)
   }
+}
 
-  // If session is busy, wait in queue
-  if (warmSession.state === 'busy') {
-    console.log('[Warm Session] Session busy, waiting in queue...')
-
-    return new Promise((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        // Remove from queue
-        acquireQueue = acquireQueue.filter(item => item.resolve !== resolve)
-        reject(new Error(`Timeout waiting for warm session (${ACQUIRE_TIMEOUT}ms)`))
-      }, ACQUIRE_TIMEOUT)
-
-      acquireQueue.push({
-        resolve: (session: WarmSession) => {
-          clearTimeout(timeout)
-          session.lastUsedAt = Date.now()
-          session.requestsServed++
-          console.log(`[Warm Session] Acquired (from queue) in ${Date.now() - startTime}ms`)
-          resolve(session)
-        },
-        reject: (error: Error) => {
-          clearTimeout(timeout)
-          reject(error)
-        },
-      })
-    })
+function isSessionConnected(session: WarmSession): boolean {
+  return session.browser.isConnected() && !session.page.isClosed()
+}
+
+/**
+ * Acquire a warm session for use
+ * - Takes an idle session, refreshing it first if it hit its age or request limit
+ * - Opens a new session while the pool is below WARM_SESSION_POOL_SIZE
+ * - Otherwise waits in line behind earlier requests
+ * - Leaves the queue if `signal` aborts while waiting
+ */
+export async function acquireSession(credentials: TVCredentials, signal?: AbortSignal): Promise<WarmSession> {
+  const startTime = Date.now()
+  signal?.throwIfAborted()
+
+  // Requests already waiting go first, so a newcomer cannot take the session they are waiting for
+  if (acquireQueue.length === 0) {
+    const idle = takeIdleSession()
+    if (idle) return checkOut(idle, 'warm', startTime)
+
+    if (hasCapacity()) {
+      console.log(`[Warm Session] Opening session ${pool.length + sessionsCreating + 1}/${POOL_SIZE}...`)
+      const session = await createPooledSession(credentials)
+      return checkOut(session, 'cold start', startTime)
+    }
   }
 
-  // Session is in error state, recreate
-  console.log('[Warm Session] Session in error state, recreating...')
-  await shutdownSession()
-  warmSession = await createWarmSession(credentials)
-  warmSession.state = 'busy'
-  warmSession.lastUsedAt = Date.now()
-  warmSession.requestsServed++
-  resetIdleTimer()
-  console.log(`[Warm Session] Acquired (recovered from error) in ${Date.now() - startTime}ms`)
-  return warmSession
+  console.log(`[Warm Session] All ${POOL_SIZE} session(s) busy, waiting in queue (${acquireQueue.length} ahead)...`)
+
+  return new Promise((resolve, reject) => {
+    let settled = false
+    const settle = () => {
+      settled = true
+      clearTimeout(timeout)
+      signal?.removeEventListener('abort', onAbort)
+    }
+    const waiter: Waiter = {
+      credentials,
+      resolve: (session) => {
+        if (settled) return false
+        settle()
+        resolve(checkOut(session, 'from queue', startTime))
+        return true
+      },
+      reject: (error) => {
+        if (settled) return
+        settle()
+        reject(error)
+      },
+      stopTimeout: () => clearTimeout(timeout),
+    }
+    const leaveQueue = (error: unknown) => {
+      acquireQueue = acquireQueue.filter(item => item !== waiter)
+      settle()
+      reject(error)
+    }
+    const onAbort = () => {
+      console.log('[Warm Session] Request cancelled while waiting in queue')
+      leaveQueue(signal!.reason)
+    }
+    const timeout = setTimeout(() => {
+      leaveQueue(new Error(`Timeout waiting for warm session (${ACQUIRE_TIMEOUT}ms)`))
+    }, ACQUIRE_TIMEOUT)
+
+    signal?.addEventListener('abort', onAbort, { once: true })
+    acquireQueue.push(waiter)
+  })
 }
 
 /**
- * Release session back to pool after use
+ * Release a session back to the pool after use
+ * A failed session is closed and replaced, so the requests waiting behind it still get one
  */
-export async function releaseSession(success: boolean): Promise<void> {
-  if (!warmSession) {
-    console.log('[Warm Session] No session to release')
+export async function releaseSession(session: WarmSession, success: boolean): Promise<void> {
+  if (!pool.includes(session)) {
+    // Dropped while in use, e.g. the browser disconnected
+    console.log(`[Warm Session #${session.id}] Released after leaving the pool`)
+    dispatchWaiters()
     return
   }
 
   if (success) {
-    warmSession.state = 'idle'
-    console.log(`[Warm Session] Released (${warmSession.requestsServed} requests served)`)
-
-    // Process waiting queue
-    if (acquireQueue.length > 0) {
-      const next = acquireQueue.shift()!
-      warmSession.state = 'busy'
-      next.resolve(warmSession)
-      return
-    }
-
-    // Start idle timer
-    resetIdleTimer()
-  } else {
-    // Mark as error - will be recreated on next acquire
-    warmSession.state = 'error'
-    console.log('[Warm Session] Released with error, will recreate on next acquire')
-
-    // Reject all waiting requests
-    for (const waiter of acquireQueue) {
-      waiter.reject(new Error('Session failed, please retry'))
-    }
-    acquireQueue = []
+    console.log(`[Warm Session #${session.id}] Released (${session.requestsServed} requests served)`)
+    releaseIdle(session)
+    return
   }
+
+  // Mark as error - replaced by a new session when one is next needed
+  session.state = 'error'
+  console.log(`[Warm Session #${session.id}] Released with error, closing it`)
+  retireSession(session)
+  dispatchWaiters()
 }
 
 /**
@@ -517,10 +621,13 @@ export async function resetEditorState(page: Page): Promise<void> {
     console.log(`[Warm Session] Current URL: ${currentUrl}`)
 
     // Navigate back to chart page
-    await page.goto('https://www.tradingview.com/chart/', {
+    const navigated = await navigateTo(page, 'https://www.tradingview.com/chart/', {
       waitUntil: 'domcontentloaded',
       timeout: 90000,
     })
+    if (!navigated) {
+      throw new Error('Failed to navigate back to the TradingView chart page')
+    }
     await delay(2000)
 
     await ensureChartContext(page, 'Warm Session')
@@ -551,83 +658,86 @@ export async function resetEditorState(page: Page): Promise<void> {
 }
 
 /**
- * Check if session is healthy (browser connected, page responsive)
+ * Check if a session is healthy (browser connected, page responsive)
  */
-export async function checkSessionHealth(): Promise<boolean> {
-  if (!warmSession) return false
-
+export async function checkSessionHealth(session: WarmSession): Promise<boolean> {
   try {
     // Check if browser is still connected
-    if (!warmSession.browser.isConnected()) {
-      console.log('[Warm Session] Health check failed: browser disconnected')
+    if (!isSessionConnected(session)) {
+      console.log(`[Warm Session #${session.id}] Health check failed: browser or page closed`)
       return false
     }
 
     // Check if page is responsive
-    await warmSession.page.evaluate(() => true)
+    await session.page.evaluate(() => true)
     return true
   } catch (error) {
-    console.log('[Warm Session] Health check failed:', error)
+    console.log(`[Warm Session #${session.id}] Health check failed:`, error)
     return false
   }
 }
 
 /**
- * Shutdown warm session (for graceful server stop or idle timeout)
+ * Shut down every session and the browser (for graceful server stop)
  */
-export async function shutdownSession(): Promise<void> {
-  if (idleTimer) {
-    clearTimeout(idleTimer)
-    idleTimer = null
+export async function shutdownPool(): Promise<void> {
+  // Reject all waiting requests
+  for (const waiter of acquireQueue) {
+    waiter.reject(new Error('Session pool shutdown'))
   }
+  acquireQueue = []
 
-  // Clear creation lock if it exists
-  sessionCreationPromise = null
+  for (const session of [...pool]) {
+    retireSession(session)
+  }
 
-  if (!warmSession) {
-    console.log('[Warm Session] No session to shutdown')
+  const closing = browser
+  browser = null
+  if (!closing) {
+    console.log('[Warm Session] No browser to shutdown')
     return
   }
 
   try {
     console.log('[Warm Session] Shutting down...')
-    await warmSession.browser.close()
+    await closing.close()
     console.log('[Warm Session] Browser closed')
   } catch (error) {
     console.error('[Warm Session] Error closing browser:', error)
   }
-
-  // Reject all waiting requests
-  for (const waiter of acquireQueue) {
-    waiter.reject(new Error('Session shutdown'))
-  }
-  acquireQueue = []
-
-  warmSession = null
 }
 
 /**
- * Get warm session stats (for monitoring/debugging)
+ * Get warm session pool stats (for monitoring/debugging)
  */
 export function getSessionStats(): {
-  hasSession: boolean
-  state?: string
-  requestsServed?: number
-  ageMs?: number
-  idleSinceMs?: number
+  poolSize: number
+  idle: number
+  busy: number
+  creating: number
   queueLength: number
+  sessions: Array<{
+    id: number
+    state: WarmSession['state']
+    requestsServed: number
+    ageMs: number
+    idleSinceMs?: number
+  }>
 } {
-  if (!warmSession) {
-    return { hasSession: false, queueLength: acquireQueue.length }
-  }
-
+  const now = Date.now()
   return {
-    hasSession: true,
-    state: warmSession.state,
-    requestsServed: warmSession.requestsServed,
-    ageMs: Date.now() - warmSession.createdAt,
-    idleSinceMs: warmSession.state === 'idle' ? Date.now() - warmSession.lastUsedAt : undefined,
+    poolSize: POOL_SIZE,
+    idle: pool.filter(session => session.state === 'idle').length,
+    busy: pool.filter(session => session.state === 'busy').length,
+    creating: sessionsCreating,
     queueLength: acquireQueue.length,
+    sessions: pool.map(session => ({
+      id: session.id,
+      state: session.state,
+      requestsServed: session.requestsServed,
+      ageMs: now - session.createdAt,
+      idleSinceMs: session.state === 'idle' ? now - session.lastUsedAt : undefined,
+    })),
   }
 }
 
@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { requestSignInLink, signInWithToken, getSessionAccount, endSession, normalizeEmail } from '../src/server/accounts'
+import { setMailer, createFileMailer, type MailMessage } from '../src/server/mailer'
+import { createPublishJob, updatePublishJob, getScriptHistory, getScriptHistoryEntry } from '../src/server/kv'
+
+const sent: MailMessage[] = []
+
+function tokenFromLastMail(): string {
+  const link = sent.at(-1)!.text.match(/\/api\/auth\/verify\?token=(\S+)/)
+  return decodeURIComponent(link![1])
+}
+
+// REDIS_URL is unset in tests, so accounts and history live in the in-memory store
+describe('sign-in links', () => {
+  beforeEach(() => {
+    sent.length = 0
+    setMailer({ send: async (message) => { sent.push(message) } })
+  })
+
+  afterAll(() => setMailer(null))
+
+  it('should normalize emails and reject malformed ones', () => {
+    expect(normalizeEmail('  Trader@Example.COM ')).toBe('trader@example.com')
+    expect(normalizeEmail('not-an-email')).toBeNull()
+  })
+
+  it('should create an account from a link and reuse it on the next sign-in', async () => {
+    await requestSignInLink('Trader@Example.com')
+    expect(sent[0].to).toBe('trader@example.com')
+
+    const first = await signInWithToken(tokenFromLastMail())
+    expect(first?.account.email).toBe('trader@example.com')
+    expect((await getSessionAccount(first!.sessionToken))?.userId).toBe(first!.account.userId)
+
+    await requestSignInLink('trader@example.com')
+    const second = await signInWithToken(tokenFromLastMail())
+    expect(second?.account.userId).toBe(first!.account.userId)
+    expect(second?.sessionToken).not.toBe(first!.sessionToken)
+  })
+
+  it('should accept each link once', async () => {
+    await requestSignInLink('once@example.com')
+    const token = tokenFromLastMail()
+
+    expect(await signInWithToken(token)).not.toBeNull()
+    expect(await signInWithToken(token)).toBeNull()
+    expect(await signInWithToken('made-up-token')).toBeNull()
+  })
+
+  it('should accept a link once when it is followed twice at the same time', async () => {
+    await requestSignInLink('twice@example.com')
+    const token = tokenFromLastMail()
+
+    const results = await Promise.all([signInWithToken(token), signInWithToken(token)])
+    expect(results.filter((result) => result !== null)).toHaveLength(1)
+  })
+
+  it('should end a session', async () => {
+    await requestSignInLink('leaving@example.com')
+    const { sessionToken } = (await signInWithToken(tokenFromLastMail()))!
+
+    await endSession(sessionToken)
+    expect(await getSessionAccount(sessionToken)).toBeNull()
+    expect(await getSessionAccount(undefined)).toBeNull()
+  })
+
+  it('should refuse to send a link to a malformed email', async () => {
+    await expect(requestSignInLink('nope')).rejects.toThrow('valid email')
+    expect(sent).toEqual([])
+  })
+
+  it('should not fall back to logging links in production', async () => {
+    vi.stubEnv('NODE_ENV', 'production')
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    try {
+      setMailer(null)
+      await expect(requestSignInLink('prod@example.com')).rejects.toThrow('Email is not set up')
+      expect(log.mock.calls.flat().join('\n')).not.toContain('/api/auth/verify')
+    } finally {
+      setMailer(null)
+      vi.unstubAllEnvs()
+      vi.restoreAllMocks()
+    }
+  })
+})
+
+describe('file mailer', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mailer-test-'))
+
+  afterAll(() => fs.rmSync(dir, { recursive: true, force: true }))
+
+  it('should write each message as an .eml file', async () => {
+    await createFileMailer(dir).send({ to: 'a@example.com', subject: 'Hello', text: 'Body text' })
+
+    const files = fs.readdirSync(dir)
+    expect(files).toHaveLength(1)
+    expect(files[0]).toMatch(/a@example\.com\.eml$/)
+    const content = fs.readFileSync(path.join(dir, files[0]), 'utf8')
+    expect(content).toContain('To: a@example.com\r\nSubject: Hello')
+    expect(content).toMatch(/\r\n\r\nBody text$/)
+  })
+})
+
+describe('script history', () => {
+  const baseJob = {
+    userId: 'user_1',
+    scriptHash: 'abc',
+    script: '//@version=5\nindicator("A")',
+    title: 'A',
+    description: 'First',
+    visibility: 'public' as const,
+  }
+
+  it('should record a signed-in user\'s jobs, newest first, and follow their updates', async () => {
+    const first = await createPublishJob({ ...baseJob, accountId: 'account_1' })
+    const second = await createPublishJob({ ...baseJob, title: 'B', accountId: 'account_1' })
+    await updatePublishJob(first.jobId, {
+      status: 'completed',
+      script: '//@version=5\nindicator("A fixed")',
+      indicatorUrl: 'https://www.tradingview.com/script/AbC123xy/',
+    })
+
+    const history = await getScriptHistory('account_1')
+    expect(history.map(entry => entry.jobId)).toEqual([second.jobId, first.jobId])
+    expect(history[1]).toMatchObject({
+      status: 'completed',
+      script: '//@version=5\nindicator("A fixed")',
+      indicatorUrl: 'https://www.tradingview.com/script/AbC123xy/',
+    })
+  })
+
+  it('should leave anonymous jobs out and keep entries private to their user', async () => {
+    await createPublishJob(baseJob)
+    const job = await createPublishJob({ ...baseJob, accountId: 'account_2' })
+
+    expect(await getScriptHistory('user_1')).toEqual([])
+    expect(await getScriptHistoryEntry('account_2', job.jobId)).not.toBeNull()
+    expect(await getScriptHistoryEntry('account_1', job.jobId)).toBeNull()
+  })
+})
@@ -0,0 +1,52 @@
+import { describe, it, expect, vi } from 'vitest'
+import { abortableDelay, onAbort } from '../src/server/cancellation'
+
+describe('abortableDelay', () => {
+  it('should resolve after the delay when not aborted', async () => {
+    const controller = new AbortController()
+    await expect(abortableDelay(5, controller.signal)).resolves.toBeUndefined()
+  })
+
+  it('should reject as soon as the signal aborts', async () => {
+    const controller = new AbortController()
+    const started = Date.now()
+    const waiting = abortableDelay(10_000, controller.signal)
+    controller.abort()
+
+    await expect(waiting).rejects.toMatchObject({ name: 'AbortError' })
+    expect(Date.now() - started).toBeLessThan(1000)
+  })
+
+  it('should reject immediately for an already aborted signal', async () => {
+    await expect(abortableDelay(10_000, AbortSignal.abort())).rejects.toMatchObject({ name: 'AbortError' })
+  })
+})
+
+describe('onAbort', () => {
+  it('should run the listener once on abort', () => {
+    const controller = new AbortController()
+    const listener = vi.fn()
+    onAbort(controller.signal, listener)
+
+    controller.abort()
+    controller.abort()
+    expect(listener).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not run the listener after it is removed', () => {
+    const controller = new AbortController()
+    const listener = vi.fn()
+    const dispose = onAbort(controller.signal, listener)
+
+    dispose()
+    controller.abort()
+    expect(listener).not.toHaveBeenCalled()
+  })
+
+  it('should run the listener immediately for an aborted signal and ignore a missing one', () => {
+    const listener = vi.fn()
+    onAbort(AbortSignal.abort(), listener)
+    onAbort(undefined, listener)
+    expect(listener).toHaveBeenCalledTimes(1)
+  })
+})
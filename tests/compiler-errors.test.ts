@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest'
+import { parseCompilerMessage, getCompilerErrorHints } from '../src/server/pine/compiler-errors'
+import { formatErrorsForLLM } from '../src/server/service-validation'
+
+describe('parseCompilerMessage', () => {
+  it('should read line and column from the position formats TradingView uses', () => {
+    expect(parseCompilerMessage('line 3: Undeclared identifier', 'error')).toMatchObject({ line: 3 })
+    expect(parseCompilerMessage('line 3: Undeclared identifier', 'error').column).toBeUndefined()
+    expect(parseCompilerMessage('Line 12:5: Syntax error', 'error')).toMatchObject({ line: 12, column: 5 })
+    expect(parseCompilerMessage('10:42:17 Error at 7:14 Undeclared identifier `foo`', 'error')).toMatchObject({
+      line: 7,
+      column: 14,
+    })
+    expect(parseCompilerMessage('Script could not be translated', 'error')).toMatchObject({ line: 0 })
+  })
+
+  it('should classify undeclared identifiers and name the symbol', () => {
+    expect(parseCompilerMessage("line 4: Undeclared identifier 'fastMa'", 'error')).toEqual({
+      line: 4,
+      message: "line 4: Undeclared identifier 'fastMa'",
+      type: 'error',
+      category: 'undeclared-identifier',
+      code: 'undeclared-identifier',
+      symbol: 'fastMa',
+    })
+    expect(
+      parseCompilerMessage("line 6: Could not find function or function reference 'ta.smaa'", 'error')
+    ).toMatchObject({ category: 'undeclared-identifier', code: 'could-not-find-function', symbol: 'ta.smaa' })
+  })
+
+  it('should classify syntax errors with the offending token', () => {
+    expect(
+      parseCompilerMessage("line 2:10: Mismatched input 'plot' expecting 'end of line without line continuation'", 'error')
+    ).toMatchObject({ category: 'syntax', code: 'mismatched-input', symbol: 'plot', line: 2, column: 10 })
+    expect(parseCompilerMessage("line 5: no viable alternative at input ')'", 'error')).toMatchObject({
+      category: 'syntax',
+      code: 'no-viable-alternative',
+      symbol: ')',
+    })
+  })
+
+  it('should tell qualifier mismatches from type mismatches', () => {
+    const qualifier = parseCompilerMessage(
+      "line 8: Cannot call 'ta.ema' with argument 'length'='len'. An argument of 'series int' type was used but a 'simple int' is expected.",
+      'error'
+    )
+    expect(qualifier).toMatchObject({ category: 'qualifier-mismatch', code: 'cannot-call-with-argument', symbol: 'ta.ema' })
+
+    const type = parseCompilerMessage(
+      "line 9: Cannot call 'plot' with argument 'series'='label'. An argument of 'series string' type was used but a 'series float' is expected.",
+      'error'
+    )
+    expect(type).toMatchObject({ category: 'type-mismatch', symbol: 'plot' })
+
+    expect(
+      parseCompilerMessage('line 3: Cannot use a mutable variable as an argument of the security function.', 'error')
+    ).toMatchObject({ category: 'qualifier-mismatch', code: 'mutable-variable' })
+  })
+
+  it('should classify deprecations, limits and timeouts', () => {
+    expect(parseCompilerMessage("line 2: The 'study' function is deprecated, use 'indicator' instead", 'warning')).toMatchObject({
+      category: 'deprecated',
+      code: 'deprecated-function',
+      symbol: 'study',
+      type: 'warning',
+    })
+    expect(parseCompilerMessage('Script requests too many securities. The limit is 40.', 'error')).toMatchObject({
+      category: 'too-many-securities',
+    })
+    expect(parseCompilerMessage('line 14: Loop is too long (> 500 ms)', 'error')).toMatchObject({
+      category: 'loop-limit',
+      line: 14,
+    })
+    expect(parseCompilerMessage('Calculation takes too long to execute (> 40000 ms)', 'error')).toMatchObject({
+      category: 'timeout',
+    })
+    expect(parseCompilerMessage('Pine cannot determine the referencing length of a series. Try using max_bars_back', 'error')).toMatchObject({
+      category: 'resource-limit',
+      code: 'max-bars-back',
+    })
+  })
+
+  it('should keep unrecognised messages as unknown', () => {
+    expect(parseCompilerMessage('line 1: Something odd happened', 'error')).toEqual({
+      line: 1,
+      message: 'line 1: Something odd happened',
+      type: 'error',
+      category: 'unknown',
+    })
+  })
+})
+
+describe('getCompilerErrorHints', () => {
+  it('should give one hint per category, naming its symbols', () => {
+    const hints = getCompilerErrorHints([
+      parseCompilerMessage("line 4: Undeclared identifier 'fastMa'", 'error'),
+      parseCompilerMessage("line 5: Undeclared identifier 'slowMa'", 'error'),
+      parseCompilerMessage("line 7: Mismatched input 'plot' expecting ')'", 'error'),
+      parseCompilerMessage('line 9: Something odd happened', 'error'),
+    ])
+
+    expect(hints).toHaveLength(2)
+    expect(hints[0]).toContain("'fastMa', 'slowMa'")
+    expect(hints[1]).toMatch(/^Syntax:/)
+  })
+})
+
+describe('formatErrorsForLLM', () => {
+  it('should tag errors with their position and category and append fix hints', () => {
+    const output = formatErrorsForLLM({
+      isValid: false,
+      errors: [
+        parseCompilerMessage('10:42:17 Error at 7:14 Undeclared identifier `foo`', 'error'),
+        parseCompilerMessage('line 2: Something odd happened', 'warning'),
+      ],
+      rawOutput: '',
+      addedToChart: false,
+    })
+
+    expect(output).toContain('ERRORS:\nLine 7, column 14 [undeclared-identifier]: 10:42:17 Error at 7:14 Undeclared identifier `foo`')
+    expect(output).toContain('WARNINGS:\nLine 2: line 2: Something odd happened')
+    expect(output).toMatch(/HOW TO FIX:\n- Undeclared identifier \('foo'\)/)
+  })
+})
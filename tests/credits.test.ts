@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest'
+import type Stripe from 'stripe'
+import { applyCreditEntry, createPublishJob, getCreditBalance, getPublishJob, type PublishJob } from '../src/server/kv'
+import {
+  getCreditPacks,
+  getCreditSummary,
+  publishWithCredits,
+  recordSubscription,
+  settleCreditPackCheckout,
+  settleSubscriptionInvoice,
+} from '../src/server/credits'
+
+const INDICATOR_URL = 'https://www.tradingview.com/script/AbC123xy/'
+
+function packCheckout(sessionId: string, accountId: string, credits: number, paymentStatus = 'paid'): Stripe.Checkout.Session {
+  return {
+    id: sessionId,
+    payment_status: paymentStatus,
+    metadata: { purpose: 'credit-pack', accountId, packId: `pack-${credits}`, credits: String(credits) },
+  } as unknown as Stripe.Checkout.Session
+}
+
+function subscriptionInvoice(invoiceId: string, subscriptionId: string, accountId?: string): Stripe.Invoice {
+  return {
+    id: invoiceId,
+    parent: {
+      type: 'subscription_details',
+      subscription_details: { subscription: subscriptionId, metadata: accountId ? { accountId } : {} },
+    },
+  } as unknown as Stripe.Invoice
+}
+
+async function createPublishedJob(accountId: string, updates: Partial<PublishJob> = {}): Promise<PublishJob> {
+  return createPublishJob({
+    userId: 'user_1',
+    scriptHash: 'hash',
+    script: 'plot(close)',
+    title: 'Test',
+    description: 'Test',
+    visibility: 'public',
+    status: 'validated',
+    accountId,
+    indicatorUrl: INDICATOR_URL,
+    validationResult: { isValid: true } as PublishJob['validationResult'],
+    ...updates,
+  })
+}
+
+// REDIS_URL is unset in tests, so the ledger lives in the in-memory store
+describe('credits', () => {
+  it('should read the packs on sale', () => {
+    expect(getCreditPacks()).toEqual([
+      { packId: 'pack-10', credits: 10, priceInCents: 900 },
+      { packId: 'pack-50', credits: 50, priceInCents: 4000 },
+    ])
+  })
+
+  it('should apply each ledger reference once and never spend below zero', async () => {
+    expect(await applyCreditEntry('acct_ledger', 2, 'pack', 'test:grant')).toMatchObject({ balance: 2 })
+    expect(await applyCreditEntry('acct_ledger', 2, 'pack', 'test:grant')).toBeNull()
+
+    expect(await applyCreditEntry('acct_ledger', -3, 'publish', 'test:spend')).toBeNull()
+    expect(await getCreditBalance('acct_ledger')).toBe(2)
+
+    // A refused spend does not use up its reference
+    await applyCreditEntry('acct_ledger', 1, 'pack', 'test:top-up')
+    expect(await applyCreditEntry('acct_ledger', -3, 'publish', 'test:spend')).toMatchObject({ balance: 0 })
+
+    const { ledger } = await getCreditSummary('acct_ledger')
+    expect(ledger.map(entry => entry.amount)).toEqual([-3, 1, 2])
+  })
+
+  it('should apply an entry once when the same reference arrives concurrently', async () => {
+    const results = await Promise.all([
+      applyCreditEntry('acct_race', 5, 'pack', 'test:race'),
+      applyCreditEntry('acct_race', 5, 'pack', 'test:race'),
+      applyCreditEntry('acct_race', -4, 'publish', 'test:race-spend-1'),
+      applyCreditEntry('acct_race', -4, 'publish', 'test:race-spend-2'),
+    ])
+
+    expect(results.filter(Boolean)).toHaveLength(2)
+    expect(await getCreditBalance('acct_race')).toBe(1)
+    const { ledger } = await getCreditSummary('acct_race')
+    expect(ledger.map(entry => entry.balance)).toEqual([1, 5])
+  })
+
+  it('should add a paid pack once, however often the checkout is settled', async () => {
+    expect(await settleCreditPackCheckout(packCheckout('cs_pack_unpaid', 'acct_pack', 10, 'unpaid'))).toBeNull()
+
+    const session = packCheckout('cs_pack', 'acct_pack', 10)
+    await settleCreditPackCheckout(session)
+    await settleCreditPackCheckout(session)
+
+    expect(await getCreditBalance('acct_pack')).toBe(10)
+  })
+
+  it('should add the plan credits for every paid invoice of a known subscription', async () => {
+    await settleSubscriptionInvoice(subscriptionInvoice('in_1', 'sub_1', 'acct_plan'))
+    await settleSubscriptionInvoice(subscriptionInvoice('in_1', 'sub_1', 'acct_plan'))
+    expect(await getCreditBalance('acct_plan')).toBe(30)
+
+    // Renewal invoices are matched through the subscription recorded from its webhooks
+    await recordSubscription({
+      id: 'sub_1',
+      customer: 'cus_1',
+      status: 'active',
+      cancel_at_period_end: false,
+      metadata: { accountId: 'acct_plan' },
+      items: { data: [{ current_period_end: 1_700_000_000 }] },
+    } as unknown as Stripe.Subscription)
+    await settleSubscriptionInvoice(subscriptionInvoice('in_2', 'sub_1'))
+    expect(await settleSubscriptionInvoice(subscriptionInvoice('in_3', 'sub_unknown'))).toBeNull()
+
+    const summary = await getCreditSummary('acct_plan')
+    expect(summary.balance).toBe(60)
+    expect(summary.subscription).toMatchObject({ status: 'active', customerId: 'cus_1', currentPeriodEnd: 1_700_000_000_000 })
+  })
+
+  it('should complete a published job for one credit, once', async () => {
+    await applyCreditEntry('acct_publish', 1, 'pack', 'test:publish-grant')
+    const job = await createPublishedJob('acct_publish')
+
+    await expect(publishWithCredits(job.jobId, 'acct_other')).rejects.toThrow('Job not found')
+    expect(await publishWithCredits(job.jobId, 'acct_publish')).toMatchObject({ status: 'completed', creditsSpent: 1 })
+    expect((await publishWithCredits(job.jobId, 'acct_publish')).creditsSpent).toBe(1)
+
+    expect(await getCreditBalance('acct_publish')).toBe(0)
+  })
+
+  it('should not spend credits on a job that was not published or without enough credits', async () => {
+    const unpublished = await createPublishedJob('acct_broke', { indicatorUrl: undefined })
+    const published = await createPublishedJob('acct_broke')
+
+    await expect(publishWithCredits(unpublished.jobId, 'acct_broke')).rejects.toThrow('validated and published first')
+    await expect(publishWithCredits(published.jobId, 'acct_broke')).rejects.toThrow('Not enough credits')
+    expect((await getPublishJob(published.jobId))?.status).toBe('validated')
+  })
+})
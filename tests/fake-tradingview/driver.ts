@@ -0,0 +1,80 @@
+// Browser driver that sends every tradingview.com request to a fake TradingView
+
+import puppeteer, { type HTTPRequest, type Page } from 'puppeteer-core'
+import type { BrowserDriver } from '../../src/server/browserless'
+
+const routedPages = new WeakSet<Page>()
+
+async function forwardRequest(request: HTTPRequest, fakeUrl: string): Promise<void> {
+  const url = new URL(request.url())
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    await request.continue()
+    return
+  }
+  // Nothing leaves the machine: other hosts (CDNs, analytics) are refused
+  if (!/(^|\.)tradingview\.com$/.test(url.hostname)) {
+    await request.abort()
+    return
+  }
+
+  const response = await fetch(`${fakeUrl}${url.pathname}${url.search}`, {
+    method: request.method(),
+    headers: { 'content-type': request.headers()['content-type'] || 'text/plain' },
+    body: request.postData(),
+  })
+  await request.respond({
+    status: response.status,
+    contentType: response.headers.get('content-type') || undefined,
+    body: Buffer.from(await response.arrayBuffer()),
+  })
+}
+
+async function routeToFake(page: Page, fakeUrl: string): Promise<void> {
+  if (routedPages.has(page)) return
+  routedPages.add(page)
+
+  await page.setRequestInterception(true)
+  page.on('request', (request) => {
+    forwardRequest(request, fakeUrl).catch(() => request.abort('failed').catch(() => {}))
+  })
+}
+
+/**
+ * Driver for tests: headless Chrome at `executablePath`, with pages served by the fake at `fakeUrl`
+ */
+export function createFakeTradingViewDriver(fakeUrl: string, executablePath: string): BrowserDriver {
+  const launchBrowser = () => puppeteer.launch({
+    headless: true,
+    executablePath,
+    args: ['--no-sandbox', '--disable-dev-shm-usage'],
+    defaultViewport: { width: 1280, height: 1000 },
+  })
+
+  return {
+    async createSession() {
+      const browser = await launchBrowser()
+      const page = await browser.newPage()
+      page.on('dialog', dialog => dialog.accept())
+      await routeToFake(page, fakeUrl)
+      return { browser, page, isBrowserless: false }
+    },
+
+    launchBrowser,
+
+    async injectCookies(page, cookies) {
+      await page.setCookie(...cookies)
+    },
+
+    async navigateTo(page, url, options) {
+      // Warm session pages come from launchBrowser, so route them on first use
+      await routeToFake(page, fakeUrl)
+      try {
+        await page.goto(url, { waitUntil: options?.waitUntil || 'domcontentloaded', timeout: options?.timeout || 15000 })
+        return true
+      } catch (error) {
+        console.error(`[Fake Driver] Navigation to ${url} failed:`, error)
+        return false
+      }
+    },
+  }
+}
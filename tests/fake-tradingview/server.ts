@@ -0,0 +1,158 @@
+// In-process fake of the TradingView pages and endpoints tradingview.ts talks to
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'http'
+import { readFileSync } from 'fs'
+import { randomBytes } from 'crypto'
+import type { AddressInfo } from 'net'
+
+const CHART_PAGE = readFileSync(new URL('./chart.html', import.meta.url), 'utf8')
+const SIGNIN_PAGE = readFileSync(new URL('./signin.html', import.meta.url), 'utf8')
+
+export interface FakeConsoleMessage {
+  line: number
+  message: string
+  type: 'error' | 'warning'
+}
+
+export interface FakePublishedScript {
+  id: string
+  title: string
+  description: string
+  visibility: string
+  /** Open, protected or invite-only; public scripts only */
+  visibilityLevel?: string
+  source: string
+  /** Release notes of each update published since, oldest first */
+  releaseNotes?: string[]
+}
+
+export interface FakeTradingViewOptions {
+  /** Console messages for a compiled script; none by default, so every script compiles */
+  compile?: (source: string) => FakeConsoleMessage[]
+  /** IDs given to published scripts in order, random once used up */
+  scriptIds?: string[]
+  /** Whether the publish response carries the new script's ID (default: true) */
+  publishReturnsId?: boolean
+}
+
+export interface FakeTradingView {
+  /** Base URL of the server, e.g. http://127.0.0.1:43210 */
+  url: string
+  /** Every script sent to the compiler, in order */
+  compiled: string[]
+  /** Scripts published so far; push to seed the scripts API */
+  published: FakePublishedScript[]
+  close(): Promise<void>
+}
+
+async function readJson(req: IncomingMessage): Promise<any> {
+  let body = ''
+  for await (const chunk of req) body += chunk
+  return body ? JSON.parse(body) : {}
+}
+
+function sendJson(res: ServerResponse, body: unknown): void {
+  res.writeHead(200, { 'content-type': 'application/json' })
+  res.end(JSON.stringify(body))
+}
+
+/**
+ * Start a fake TradingView on a free local port
+ */
+export async function startFakeTradingView(options: FakeTradingViewOptions = {}): Promise<FakeTradingView> {
+  const { compile = () => [], publishReturnsId = true } = options
+  const scriptIds = [...(options.scriptIds || [])]
+  const compiled: string[] = []
+  const published: FakePublishedScript[] = []
+
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost')
+
+    try {
+      if (req.method === 'GET' && url.pathname === '/chart/') {
+        res.writeHead(200, { 'content-type': 'text/html' })
+        res.end(CHART_PAGE)
+        return
+      }
+
+      if (req.method === 'GET' && url.pathname === '/accounts/signin/') {
+        res.writeHead(200, { 'content-type': 'text/html' })
+        res.end(SIGNIN_PAGE)
+        return
+      }
+
+      if (req.method === 'POST' && url.pathname === '/pine-facade/translate_light/') {
+        const { source = '' } = await readJson(req)
+        compiled.push(source)
+        sendJson(res, { messages: compile(source) })
+        return
+      }
+
+      if (req.method === 'POST' && url.pathname === '/pine-facade/publish/') {
+        const draft = await readJson(req)
+        if (draft.updateOf) {
+          const existing = published.find(script => script.id === draft.updateOf)
+          if (!existing) {
+            sendJson(res, { success: false })
+            return
+          }
+          existing.source = draft.source
+          existing.releaseNotes = [...(existing.releaseNotes || []), draft.releaseNotes]
+          sendJson(res, publishReturnsId ? { success: true, scriptIdPart: existing.id } : { success: true })
+          return
+        }
+
+        const script: FakePublishedScript = {
+          id: scriptIds.shift() || randomBytes(5).toString('hex'),
+          title: draft.title,
+          description: draft.description,
+          visibility: draft.visibility,
+          visibilityLevel: draft.visibility === 'public' ? draft.visibilityLevel : undefined,
+          source: draft.source,
+        }
+        published.push(script)
+        sendJson(res, publishReturnsId ? { success: true, scriptIdPart: script.id } : { success: true })
+        return
+      }
+
+      if (req.method === 'GET' && url.pathname === '/api/v1/scripts/') {
+        const query = (url.searchParams.get('q') || '').toLowerCase()
+        const results = published
+          .filter(script => script.title.toLowerCase().includes(query))
+          .map(script => ({
+            name: script.title,
+            chart_url: `https://www.tradingview.com/script/${script.id}/`,
+          }))
+        sendJson(res, { results })
+        return
+      }
+
+      const scriptPage = url.pathname.match(/^\/script\/([a-zA-Z0-9]+)\/$/)
+      const pageScript = scriptPage && published.find(script => script.id === scriptPage[1])
+      if (req.method === 'GET' && pageScript) {
+        res.writeHead(200, { 'content-type': 'text/html' })
+        res.end(`<!doctype html><title>${pageScript.title}</title><h1>${pageScript.title}</h1>`)
+        return
+      }
+
+      res.writeHead(404)
+      res.end()
+    } catch (error) {
+      res.writeHead(500)
+      res.end(error instanceof Error ? error.message : String(error))
+    }
+  })
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    compiled,
+    published,
+    close: () => new Promise<void>((resolve, reject) => {
+      server.close(error => (error ? reject(error) : resolve()))
+      server.closeAllConnections()
+    }),
+  }
+}
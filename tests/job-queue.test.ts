@@ -0,0 +1,231 @@
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest'
+import {
+  submitValidationJob,
+  getValidationQueueStats,
+  cancelValidationJob,
+  clearAbandonedCancellation,
+} from '../src/server/job-queue'
+import { runValidationLoop, type ValidationLoopResult } from '../src/server/validation-loop'
+import {
+  createPublishJob,
+  getPublishJob,
+  getJobEvents,
+  enqueueValidationJob,
+  claimValidationJob,
+  recordJobHeartbeat,
+  type PublishJob,
+  type PublishJobStatus,
+} from '../src/server/kv'
+
+// Queue settings are read when the module loads: two runs per job, 5s before the first retry
+const RETRY_BACKOFF_MS = 5_000
+const STALE_JOB_MS = 90_000
+const RECOVERY_INTERVAL_MS = 60_000
+const ABANDON_GRACE_MS = 10_000
+const CANCEL_CHECK_INTERVAL_MS = 2_000
+vi.hoisted(() => {
+  process.env.VALIDATION_JOB_MAX_ATTEMPTS = '2'
+  process.env.VALIDATION_JOB_RETRY_BACKOFF_MS = '5000'
+  process.env.VALIDATION_JOB_STALE_MS = '90000'
+})
+
+// The handler the worker runs for each job; every test decides what it does
+vi.mock('../src/server/validation-loop', () => ({
+  runValidationLoop: vi.fn(),
+  DEFAULT_MAX_FIX_ATTEMPTS: 3,
+}))
+
+const SCRIPT = '//@version=6\nindicator("Test")\nplot(close)'
+
+function loopResult(overrides: Partial<ValidationLoopResult> = {}): ValidationLoopResult {
+  return {
+    finalScript: SCRIPT,
+    isValid: true,
+    iterations: 1,
+    fixAttempted: false,
+    fixSuccessful: false,
+    finalErrors: [],
+    rawOutput: '',
+    addedToChart: true,
+    history: [],
+    stopReason: 'valid',
+    ...overrides,
+  }
+}
+
+// Lets the worker loop run, a few ms of fake time at a step, until the job reaches the status
+async function waitForStatus(jobId: string, status: PublishJobStatus): Promise<void> {
+  await waitForJob(jobId, (job) => job.status === status)
+}
+
+async function waitForJob(jobId: string, check: (job: PublishJob) => boolean): Promise<void> {
+  for (let step = 0; step < 100; step++) {
+    const job = await getPublishJob(jobId)
+    if (job && check(job)) return
+    await vi.advanceTimersByTimeAsync(10)
+  }
+  throw new Error(`Job ${jobId} did not get there: ${JSON.stringify(await getPublishJob(jobId))}`)
+}
+
+// Waits until the job's first run failed and it is queued for a retry
+async function waitForRetry(jobId: string): Promise<void> {
+  await waitForJob(jobId, (job) => job.status === 'queued' && job.attempts === 1)
+}
+
+// A run that lasts until the test finishes it, or until the job's signal aborts it
+function holdRun(): (result: ValidationLoopResult) => void {
+  let finish: (result: ValidationLoopResult) => void = () => {}
+  vi.mocked(runValidationLoop).mockImplementationOnce((_script, _maxFixAttempts, _publish, signal) =>
+    new Promise((resolve) => {
+      finish = resolve
+      signal?.addEventListener('abort', () => resolve(loopResult({ stopReason: 'cancelled', isValid: false })))
+    })
+  )
+  return (result) => finish(result)
+}
+
+// REDIS_URL is unset in tests, so the queue lives in the in-memory store
+describe('validation job queue', () => {
+  beforeAll(() => {
+    // The worker loop polls on timers for the whole file
+    vi.useFakeTimers()
+  })
+
+  beforeEach(() => {
+    vi.mocked(runValidationLoop).mockReset()
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  it('should claim a queued job, run it and record the result', async () => {
+    vi.mocked(runValidationLoop).mockResolvedValueOnce(loopResult({ indicatorUrl: 'https://www.tradingview.com/script/AbC123xy/' }))
+
+    const job = await submitValidationJob(SCRIPT, { title: 'Test', description: 'Test', visibility: 'public' })
+    await waitForStatus(job.jobId, 'validated')
+
+    expect(runValidationLoop).toHaveBeenCalledTimes(1)
+    expect(await getPublishJob(job.jobId)).toMatchObject({
+      attempts: 1,
+      indicatorUrl: 'https://www.tradingview.com/script/AbC123xy/',
+      validationResult: { isValid: true },
+    })
+    expect(await getValidationQueueStats()).toMatchObject({ queued: 0, processing: 0, activeJobs: 0 })
+  })
+
+  it('should retry a failed run once its backoff has passed', async () => {
+    vi.mocked(runValidationLoop)
+      .mockRejectedValueOnce(new Error('Browser crashed'))
+      .mockResolvedValueOnce(loopResult())
+
+    const job = await submitValidationJob(SCRIPT, null)
+    await waitForRetry(job.jobId)
+    expect(await getPublishJob(job.jobId)).toMatchObject({ attempts: 1, error: 'Browser crashed' })
+
+    // Not started again before the backoff is up
+    await vi.advanceTimersByTimeAsync(RETRY_BACKOFF_MS - 1_000)
+    expect(runValidationLoop).toHaveBeenCalledTimes(1)
+
+    await vi.advanceTimersByTimeAsync(2_000)
+    await waitForStatus(job.jobId, 'validated')
+    expect(runValidationLoop).toHaveBeenCalledTimes(2)
+    expect((await getPublishJob(job.jobId))?.attempts).toBe(2)
+    expect((await getJobEvents(job.jobId)).map((event) => event.message)).toContain(
+      'Attempt 1 failed (Browser crashed), retrying in 5s'
+    )
+  })
+
+  it('should fail a job once its attempts run out', async () => {
+    vi.mocked(runValidationLoop)
+      .mockRejectedValueOnce(new Error('Browser crashed'))
+      .mockResolvedValueOnce(loopResult({ stopReason: 'error', isValid: false, finalErrors: [{ message: 'Login expired' }] as ValidationLoopResult['finalErrors'] }))
+
+    const job = await submitValidationJob(SCRIPT, null)
+    await waitForRetry(job.jobId)
+    await vi.advanceTimersByTimeAsync(RETRY_BACKOFF_MS)
+    await waitForStatus(job.jobId, 'failed')
+
+    expect(runValidationLoop).toHaveBeenCalledTimes(2)
+    expect(await getPublishJob(job.jobId)).toMatchObject({ attempts: 2, error: 'Login expired' })
+    expect((await getJobEvents(job.jobId)).at(-1)).toMatchObject({ stage: 'failed', message: 'Login expired' })
+    expect(await getValidationQueueStats()).toMatchObject({ queued: 0, processing: 0 })
+  })
+
+  it('should requeue a claimed job whose worker stopped heartbeating', async () => {
+    vi.mocked(runValidationLoop).mockResolvedValueOnce(loopResult())
+    const claimedBy = async (workerId: string) => {
+      const job = await createPublishJob({
+        userId: 'user',
+        scriptHash: 'hash',
+        script: SCRIPT,
+        title: 'Test',
+        description: 'Test',
+        visibility: 'public',
+        validateOnly: true,
+        status: 'validating',
+        attempts: 1,
+        workerId,
+      })
+      await enqueueValidationJob(job.jobId)
+      expect(await claimValidationJob()).toBe(job.jobId)
+      return job
+    }
+    const orphaned = await claimedBy('worker_gone')
+    await recordJobHeartbeat(orphaned.jobId, Date.now() - STALE_JOB_MS - 1)
+    const alive = await claimedBy('worker_busy')
+    await recordJobHeartbeat(alive.jobId)
+
+    // Recovery runs once a minute; the orphaned job is retried after its backoff
+    await vi.advanceTimersByTimeAsync(RECOVERY_INTERVAL_MS + RETRY_BACKOFF_MS)
+    await waitForStatus(orphaned.jobId, 'validated')
+
+    expect(await getPublishJob(orphaned.jobId)).toMatchObject({ attempts: 2 })
+    expect(runValidationLoop).toHaveBeenCalledTimes(1)
+    // A heartbeat younger than the stale limit keeps the job with its worker
+    expect(await getPublishJob(alive.jobId)).toMatchObject({ status: 'validating', workerId: 'worker_busy' })
+    expect(await getValidationQueueStats()).toMatchObject({ queued: 0, processing: 1 })
+  })
+
+  describe('abandoned jobs', () => {
+    it('should cancel the job of a page that stays gone past the grace period', async () => {
+      holdRun()
+      const job = await submitValidationJob(SCRIPT, null)
+      await waitForStatus(job.jobId, 'validating')
+
+      expect(await cancelValidationJob(job.jobId, { abandoned: true })).toMatchObject({ cancelReason: 'abandoned' })
+      await vi.advanceTimersByTimeAsync(ABANDON_GRACE_MS - 1_000)
+      expect((await getPublishJob(job.jobId))?.status).toBe('validating')
+
+      // The running worker notices on its next cancel check
+      await vi.advanceTimersByTimeAsync(1_000 + CANCEL_CHECK_INTERVAL_MS)
+      await waitForStatus(job.jobId, 'cancelled')
+      expect((await getJobEvents(job.jobId)).at(-1)).toMatchObject({ stage: 'cancelled' })
+    })
+
+    it('should keep the job of a page that reconnects in time', async () => {
+      const finish = holdRun()
+      const job = await submitValidationJob(SCRIPT, null)
+      await waitForStatus(job.jobId, 'validating')
+
+      await cancelValidationJob(job.jobId, { abandoned: true })
+      await vi.advanceTimersByTimeAsync(ABANDON_GRACE_MS / 2)
+      await clearAbandonedCancellation(job.jobId)
+      expect(await getPublishJob(job.jobId)).not.toHaveProperty('cancelAt')
+
+      await vi.advanceTimersByTimeAsync(ABANDON_GRACE_MS * 2)
+      expect((await getPublishJob(job.jobId))?.status).toBe('validating')
+
+      finish(loopResult())
+      await waitForStatus(job.jobId, 'validated')
+    })
+
+    it('should not withdraw a cancel the user asked for', async () => {
+      holdRun()
+      const job = await submitValidationJob(SCRIPT, null)
+      await waitForStatus(job.jobId, 'validating')
+
+      await cancelValidationJob(job.jobId)
+      await clearAbandonedCancellation(job.jobId)
+      await waitForStatus(job.jobId, 'cancelled')
+    })
+  })
+})
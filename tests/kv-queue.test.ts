@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createPublishJob,
+  getJobByStripeSession,
+  attachStripeSession,
+  updatePublishJob,
+  enqueueValidationJob,
+  claimValidationJob,
+  finishValidationJob,
+  requeueValidationJob,
+  getQueuedValidationJobs,
+  getProcessingValidationJobs,
+  removeQueuedValidationJob,
+  appendJobEvent,
+  getJobEvents,
+} from '../src/server/kv'
+
+// REDIS_URL is unset in tests, so these exercise the in-memory fallback
+describe('validation job queue', () => {
+  it('should claim jobs in submission order', async () => {
+    await enqueueValidationJob('job_a')
+    await enqueueValidationJob('job_b')
+
+    expect(await claimValidationJob()).toBe('job_a')
+    expect(await getProcessingValidationJobs()).toEqual(['job_a'])
+    expect(await claimValidationJob()).toBe('job_b')
+    expect(await claimValidationJob()).toBeNull()
+
+    await finishValidationJob('job_a')
+    await finishValidationJob('job_b')
+    expect(await getProcessingValidationJobs()).toEqual([])
+  })
+
+  it('should requeue a claimed job only once', async () => {
+    await enqueueValidationJob('job_c')
+    await claimValidationJob()
+
+    expect(await requeueValidationJob('job_c')).toBe(true)
+    expect(await requeueValidationJob('job_c')).toBe(false)
+    expect(await getQueuedValidationJobs()).toEqual(['job_c'])
+    expect(await getProcessingValidationJobs()).toEqual([])
+
+    await claimValidationJob()
+    await finishValidationJob('job_c')
+  })
+
+  it('should remove a job that is still waiting', async () => {
+    await enqueueValidationJob('job_d')
+
+    expect(await removeQueuedValidationJob('job_d')).toBe(true)
+    expect(await removeQueuedValidationJob('job_d')).toBe(false)
+    expect(await claimValidationJob()).toBeNull()
+  })
+})
+
+describe('publish jobs', () => {
+  it('should index a validated job by checkout session once checkout starts', async () => {
+    const job = await createPublishJob({
+      userId: 'user',
+      scriptHash: 'hash',
+      script: '//@version=5\nindicator("Test")\nplot(close)',
+      title: 'Test',
+      description: 'Test script',
+      visibility: 'public',
+      status: 'queued',
+    })
+    expect(job.status).toBe('queued')
+    expect(await attachStripeSession(job.jobId, 'cs_test_queue')).toBeNull()
+    expect(await getJobByStripeSession('cs_test_queue')).toBeNull()
+
+    await updatePublishJob(job.jobId, { status: 'validated' })
+    const attached = await attachStripeSession(job.jobId, 'cs_test_queue')
+    expect(attached?.status).toBe('pending')
+    expect((await getJobByStripeSession('cs_test_queue'))?.jobId).toBe(job.jobId)
+
+    // A new checkout only replaces one that expired
+    expect(await attachStripeSession(job.jobId, 'cs_test_other')).toBeNull()
+    expect(await attachStripeSession(job.jobId, 'cs_test_other', 'cs_test_queue')).toMatchObject({ stripeSessionId: 'cs_test_other' })
+  })
+})
+
+describe('job progress events', () => {
+  it('should return events in order from the requested index', async () => {
+    await appendJobEvent('job_events', { stage: 'queued', message: 'Queued', at: 1 })
+    await appendJobEvent('job_events', { stage: 'started', message: 'Started', at: 2 })
+    await appendJobEvent('job_events', { stage: 'compile', message: 'Compiled', at: 3 })
+
+    expect((await getJobEvents('job_events')).map((e) => e.stage)).toEqual(['queued', 'started', 'compile'])
+    expect((await getJobEvents('job_events', 2)).map((e) => e.message)).toEqual(['Compiled'])
+    expect(await getJobEvents('job_events', 3)).toEqual([])
+    expect(await getJobEvents('job_missing')).toEqual([])
+  })
+})
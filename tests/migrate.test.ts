@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest'
+import { migratePineScript } from '../src/server/pine/migrate'
+import { checkPineSyntax } from '../src/server/pine/syntax-check'
+import { ALL_SCRIPTS } from './sample-scripts'
+
+const V4_SCRIPT = `//@version=4
+study("Old", overlay=true)
+len = input(14, title="Length", type=input.integer)
+fast = sma(close, len)
+slow = ema(close, len * 2)
+dir = iff(crossover(fast, slow), 1, -1)
+plot(fast, color=red, transp=50)
+plot(slow, "Slow", blue, transp=20, linewidth=2)
+plot(security(syminfo.tickerid, "D", obv))
+`
+
+describe('migratePineScript', () => {
+  it('should upgrade a v4 script to v5', () => {
+    const result = migratePineScript(V4_SCRIPT)
+
+    expect(result.fromVersion).toBe(4)
+    expect(result.toVersion).toBe(5)
+    expect(result.script).toBe(`//@version=5
+indicator("Old", overlay=true)
+len = input.int(14, title="Length")
+fast = ta.sma(close, len)
+slow = ta.ema(close, len * 2)
+dir = (ta.crossover(fast, slow) ? 1 : -1)
+plot(fast, color=color.new(color.red, 50))
+plot(slow, "Slow", color.new(color.blue, 20), linewidth=2)
+plot(request.security(syminfo.tickerid, "D", ta.obv))
+`)
+    expect(checkPineSyntax(result.script)).toEqual([])
+  })
+
+  it('should report each rewrite with its line number', () => {
+    const { rewrites } = migratePineScript(V4_SCRIPT)
+
+    expect(rewrites[0]).toEqual({ rule: 'update-version', line: 1, description: '//@version=4 → //@version=5' })
+    expect(rewrites).toContainEqual({ rule: 'rename-function', line: 2, description: 'study() → indicator()' })
+    expect(rewrites).toContainEqual(expect.objectContaining({ rule: 'input-type', line: 3 }))
+    expect(rewrites).toContainEqual(expect.objectContaining({ rule: 'iff-to-ternary', line: 6 }))
+    expect(rewrites).toContainEqual(expect.objectContaining({ rule: 'transp-to-color-new', line: 7 }))
+    expect(rewrites).toContainEqual({ rule: 'rename-variable', line: 9, description: 'obv → ta.obv' })
+    expect(rewrites.map(r => r.line)).toEqual([...rewrites.map(r => r.line)].sort((a, b) => a - b))
+  })
+
+  it('should fix v4 built-ins in a script already marked v5', () => {
+    const result = migratePineScript(ALL_SCRIPTS.invalid.warnings)
+    expect(result.rewrites).toEqual([{ rule: 'rename-function', line: 5, description: 'sma() → ta.sma()' }])
+    expect(result.script).toContain('sma_val = ta.sma(close, 20)')
+  })
+
+  it('should leave valid v5 scripts untouched', () => {
+    for (const script of Object.values(ALL_SCRIPTS.valid)) {
+      const result = migratePineScript(script)
+      expect(result.rewrites).toEqual([])
+      expect(result.script).toBe(script)
+    }
+  })
+
+  it('should not rename user-defined functions and variables', () => {
+    const script = `//@version=5
+indicator("Shadow")
+sma(x, n) => x * n
+red = 1
+plot(sma(close, red))
+`
+    expect(migratePineScript(script).rewrites).toEqual([])
+  })
+
+  it('should convert the v4 long argument of strategy.entry', () => {
+    const script = `//@version=4
+strategy("S")
+strategy.entry("L", true)
+strategy.entry("S", long=close < open)
+`
+    const result = migratePineScript(script)
+    expect(result.script).toContain('strategy.entry("L", strategy.long)')
+    expect(result.script).toContain('strategy.entry("S", direction=(close < open ? strategy.long : strategy.short))')
+  })
+
+  it('should move strategy when conditions into if blocks for v6', () => {
+    const script = `//@version=5
+strategy("S")
+strategy.entry("L", strategy.long, when=close > open)
+if barstate.islast
+    strategy.close("L", when=true)
+`
+    const result = migratePineScript(script, 6)
+    expect(result.script).toBe(`//@version=6
+strategy("S")
+if close > open
+    strategy.entry("L", strategy.long)
+if barstate.islast
+    strategy.close("L")
+`)
+    expect(result.rewrites.map(r => r.rule)).toEqual(['update-version', 'strategy-when', 'strategy-when'])
+    expect(checkPineSyntax(result.script)).toEqual([])
+  })
+
+  it('should add a version annotation when it is missing', () => {
+    const result = migratePineScript('indicator("No version")\nplot(close)\n')
+    expect(result.fromVersion).toBeNull()
+    expect(result.script.startsWith('//@version=5\n')).toBe(true)
+  })
+})
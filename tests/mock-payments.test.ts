@@ -0,0 +1,175 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest'
+import {
+  attachStripeSession,
+  createPublishJob,
+  getCreditBalance,
+  getJobByStripeSession,
+  getPublishJob,
+  getAccountSubscription,
+  type PublishJob,
+} from '../src/server/kv'
+import { getPaymentsProvider, setPaymentsProvider } from '../src/server/payments'
+import { createMockPaymentsProvider } from '../src/server/mock-payments'
+import {
+  createCheckoutSession,
+  createJobCheckout,
+  createSubscriptionCheckoutSession,
+  getCheckoutSession,
+  getProductDetails,
+  verifyWebhookEvent,
+} from '../src/server/stripe'
+import { receiveStripeEvent } from '../src/server/stripe-webhooks'
+
+const INDICATOR_URL = 'https://www.tradingview.com/script/AbC123xy/'
+
+// Webhook events go through the same verification and handling as /api/stripe/webhook, minus the HTTP
+const delivered: string[] = []
+const payments = createMockPaymentsProvider({
+  deliver: async (payload, signature) => {
+    const event = await verifyWebhookEvent(payload, signature)
+    delivered.push(event.type)
+    await receiveStripeEvent(event)
+  },
+})
+
+async function createValidatedJob(updates: Partial<PublishJob> = {}): Promise<PublishJob> {
+  return createPublishJob({
+    userId: 'user_1',
+    scriptHash: 'hash',
+    script: 'plot(close)',
+    title: 'Test',
+    description: 'Test',
+    visibility: 'public',
+    status: 'validated',
+    indicatorUrl: INDICATOR_URL,
+    ...updates,
+  })
+}
+
+// Checks out a validated job the way the validate page does
+async function checkOut(job: PublishJob): Promise<string> {
+  const checkout = await createCheckoutSession({ scriptHash: job.scriptHash, userId: job.userId })
+  await attachStripeSession(job.jobId, checkout.sessionId)
+  return checkout.sessionId
+}
+
+describe('mock payments', () => {
+  beforeAll(() => {
+    setPaymentsProvider(payments)
+  })
+
+  afterAll(() => {
+    setPaymentsProvider(undefined)
+  })
+
+  it('should stand in for Stripe only when asked for by name', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    try {
+      // No secret key in tests: payments are unavailable rather than mocked
+      setPaymentsProvider(undefined)
+      expect(getPaymentsProvider()).toBeNull()
+
+      vi.stubEnv('PAYMENTS_PROVIDER', 'mock')
+      setPaymentsProvider(undefined)
+      expect(getPaymentsProvider()?.name).toBe('mock')
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('NO MONEY MOVES'))
+    } finally {
+      vi.unstubAllEnvs()
+      vi.restoreAllMocks()
+      setPaymentsProvider(payments)
+    }
+  })
+
+  it('should take a validated job through checkout to its indicator URL', async () => {
+    const job = await createValidatedJob()
+    const sessionId = await checkOut(job)
+    expect((await getCheckoutSession(sessionId)).url).toContain(`/api/mock-payments/checkout/${sessionId}`)
+
+    const paid = await payments.payCheckout(sessionId)
+
+    expect(paid).toMatchObject({ payment_status: 'paid', success_url: expect.stringContaining(`session_id=${sessionId}`) })
+    expect(await getJobByStripeSession(sessionId)).toMatchObject({
+      status: 'completed',
+      indicatorUrl: INDICATOR_URL,
+      paymentIntentId: paid.payment_intent,
+    })
+  })
+
+  it('should refund a paid job without an indicator URL through the mock', async () => {
+    const sessionId = await checkOut(await createValidatedJob({ indicatorUrl: undefined }))
+
+    await payments.payCheckout(sessionId)
+
+    expect(await getJobByStripeSession(sessionId)).toMatchObject({
+      refundReason: 'indicator-url-missing',
+      refundStatus: 'succeeded',
+    })
+  })
+
+  it('should return the job to validated when the checkout expires', async () => {
+    const sessionId = await checkOut(await createValidatedJob())
+
+    await payments.expireCheckoutSession(sessionId)
+    await payments.payCheckout(sessionId)
+
+    expect((await getJobByStripeSession(sessionId))?.status).toBe('validated')
+    expect(delivered.at(-1)).toBe('checkout.session.expired')
+  })
+
+  it('should not check out a job that was paid already, by card or with credits', async () => {
+    const job = await createValidatedJob({ validationResult: { isValid: true } as PublishJob['validationResult'] })
+    const checkout = await createJobCheckout(job.jobId)
+    await payments.payCheckout(checkout.sessionId)
+    expect((await getPublishJob(job.jobId))?.status).toBe('completed')
+
+    await expect(createJobCheckout(job.jobId)).rejects.toThrow('This script has already been paid for')
+    expect(await getPublishJob(job.jobId)).toMatchObject({ status: 'completed', stripeSessionId: checkout.sessionId })
+
+    const paidWithCredits = await createValidatedJob({
+      status: 'completed',
+      creditsSpent: 1,
+      validationResult: { isValid: true } as PublishJob['validationResult'],
+    })
+    await expect(createJobCheckout(paidWithCredits.jobId)).rejects.toThrow('This script has already been paid for')
+  })
+
+  it('should expire an open checkout before starting another for the same job', async () => {
+    const job = await createValidatedJob({ validationResult: { isValid: true } as PublishJob['validationResult'] })
+    const first = await createJobCheckout(job.jobId)
+    const second = await createJobCheckout(job.jobId)
+
+    expect((await getCheckoutSession(first.sessionId)).status).toBe('expired')
+    expect((await payments.payCheckout(first.sessionId)).payment_status).toBe('unpaid')
+    expect(await getPublishJob(job.jobId)).toMatchObject({ status: 'pending', stripeSessionId: second.sessionId })
+  })
+
+  it('should start a monthly plan and add its credits', async () => {
+    const checkout = await createSubscriptionCheckoutSession({ accountId: 'acct_mock', email: 'a@example.com', priceId: 'price_plan' })
+    delivered.length = 0
+
+    await payments.payCheckout(checkout.sessionId)
+
+    expect(delivered).toEqual(['customer.subscription.created', 'invoice.paid', 'checkout.session.completed'])
+    expect((await getAccountSubscription('acct_mock'))?.status).toBe('active')
+    expect(await getCreditBalance('acct_mock')).toBe(30)
+  })
+
+  it('should reject events that were not signed with the webhook secret', async () => {
+    const rejected: unknown[] = []
+    const other = createMockPaymentsProvider({
+      webhookSecret: 'whsec_other',
+      deliver: async (payload, signature) => {
+        await verifyWebhookEvent(payload, signature).catch((error) => rejected.push(error))
+      },
+    })
+    const checkout = await other.createCheckoutSession({ mode: 'payment', line_items: [] })
+
+    await other.payCheckout(checkout.id)
+
+    expect(rejected).toHaveLength(1)
+  })
+
+  it('should serve product details without Stripe', async () => {
+    expect(await getProductDetails()).toMatchObject({ productName: 'Pine Script Publishing', priceInCents: 100 })
+  })
+})
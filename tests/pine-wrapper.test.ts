@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { runPineWrapper, collectPineFiles, type CliIo } from '../src/cli/pine-wrapper'
+import { createApiBackend, type ValidationBackend } from '../src/cli/backends'
+import type { ApiValidationResult } from '../src/server/public-api'
+
+const VALID_SCRIPT = '//@version=6\nindicator("Valid")\nplot(close)\n'
+const BROKEN_SCRIPT = '//@version=6\nindicator("Broken")\nplot(closee)\n'
+const FIXED_SCRIPT = '//@version=6\nindicator("Broken")\nplot(close)\n'
+
+// Stands in for TradingView: scripts containing "closee" fail, and the "AI" fixes the typo
+const fakeBackend: ValidationBackend = {
+  async validate(script, { fix }) {
+    const broken = script.includes('closee')
+    const fixed = broken && fix
+    const result: ApiValidationResult = {
+      isValid: !broken || fixed,
+      finalScript: fixed ? script.replace('closee', 'close') : script,
+      fixApplied: fixed,
+      stopReason: !broken || fixed ? 'valid' : 'max-retries',
+      errors: broken && !fixed
+        ? [{ line: 3, column: 6, message: "line 3:6: Undeclared identifier 'closee'", type: 'error', category: 'undeclared-identifier', symbol: 'closee' }]
+        : [],
+    }
+    return result
+  },
+}
+
+describe('pine-wrapper', () => {
+  let dir: string
+  let stdout: string[]
+  let io: CliIo
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pine-wrapper-'))
+    fs.writeFileSync(path.join(dir, 'valid.pine'), VALID_SCRIPT)
+    fs.writeFileSync(path.join(dir, 'broken.pine'), BROKEN_SCRIPT)
+    stdout = []
+    io = { stdout: text => stdout.push(text), stderr: () => {}, env: {}, backend: fakeBackend }
+  })
+
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }))
+
+  it('should find .pine files in directories and skip fixed copies', () => {
+    fs.writeFileSync(path.join(dir, 'broken.fixed.pine'), FIXED_SCRIPT)
+    fs.writeFileSync(path.join(dir, 'notes.txt'), '')
+    expect(collectPineFiles([dir]).map(file => path.basename(file)).sort()).toEqual(['broken.pine', 'valid.pine'])
+  })
+
+  it('should report errors in human format and exit 1 when a file is invalid', async () => {
+    const code = await runPineWrapper([path.join(dir, 'valid.pine'), path.join(dir, 'broken.pine')], io)
+
+    expect(code).toBe(1)
+    const output = stdout.join('\n')
+    expect(output).toContain(`${path.join(dir, 'valid.pine')}: valid`)
+    expect(output).toContain(`${path.join(dir, 'broken.pine')}: invalid (1 error)`)
+    expect(output).toContain(`${path.join(dir, 'broken.pine')}:3:6 error [undeclared-identifier] line 3:6: Undeclared identifier 'closee'`)
+    expect(output).toContain('1 of 2 files valid')
+  })
+
+  it('should write fixes next to the file, or over it with --in-place', async () => {
+    const broken = path.join(dir, 'broken.pine')
+
+    expect(await runPineWrapper(['--fix', broken], io)).toBe(0)
+    expect(fs.readFileSync(path.join(dir, 'broken.fixed.pine'), 'utf8')).toBe(FIXED_SCRIPT)
+    expect(fs.readFileSync(broken, 'utf8')).toBe(BROKEN_SCRIPT)
+    expect(stdout.join('\n')).toContain(`AI fix written to ${path.join(dir, 'broken.fixed.pine')}`)
+
+    expect(await runPineWrapper(['--fix', '--in-place', broken], io)).toBe(0)
+    expect(fs.readFileSync(broken, 'utf8')).toBe(FIXED_SCRIPT)
+  })
+
+  it('should print SARIF with a rule per category and the error position', async () => {
+    await runPineWrapper(['--format', 'sarif', dir], io)
+
+    const sarif = JSON.parse(stdout.join('\n'))
+    expect(sarif.version).toBe('2.1.0')
+    expect(sarif.runs[0].tool.driver.rules.map((rule: { id: string }) => rule.id)).toEqual(['undeclared-identifier'])
+    expect(sarif.runs[0].results).toEqual([{
+      ruleId: 'undeclared-identifier',
+      level: 'error',
+      message: { text: "line 3:6: Undeclared identifier 'closee'" },
+      locations: [{
+        physicalLocation: {
+          artifactLocation: { uri: path.join(dir, 'broken.pine') },
+          region: { startLine: 3, startColumn: 6 },
+        },
+      }],
+    }])
+  })
+
+  it('should print JSON and report files it could not read', async () => {
+    const code = await runPineWrapper(['--format', 'json', path.join(dir, 'valid.pine'), path.join(dir, 'missing.pine')], io)
+
+    expect(code).toBe(1)
+    const report = JSON.parse(stdout.join('\n'))
+    expect(report.valid).toBe(false)
+    expect(report.files[0].result.isValid).toBe(true)
+    expect(report.files[1].error).toMatch(/ENOENT/)
+  })
+
+  it('should exit 2 on bad usage', async () => {
+    expect(await runPineWrapper([], io)).toBe(2)
+    expect(await runPineWrapper(['--format', 'xml', dir], io)).toBe(2)
+    expect(await runPineWrapper(['--in-place', dir], io)).toBe(2)
+    expect(await runPineWrapper(['--api', 'http://localhost:3000', dir], io)).toBe(2)
+  })
+})
+
+describe('API backend', () => {
+  it('should queue a validation and poll the job until it is validated', async () => {
+    const requests: Array<{ url: string; init?: RequestInit }> = []
+    const responses = [
+      Response.json({ jobId: 'job_1', status: 'queued', result: null }, { status: 202 }),
+      Response.json({ jobId: 'job_1', status: 'validating', result: null }),
+      Response.json({
+        jobId: 'job_1',
+        status: 'validated',
+        result: { isValid: true, finalScript: VALID_SCRIPT, fixApplied: false, stopReason: 'valid', errors: [] },
+      }),
+    ]
+    const backend = createApiBackend({
+      baseUrl: 'https://pine.example.com/',
+      apiKey: 'pk_test',
+      timeoutMs: 10_000,
+      pollIntervalMs: 1,
+      fetch: async (url, init) => {
+        requests.push({ url: String(url), init })
+        return responses.shift()!
+      },
+    })
+
+    const result = await backend.validate(VALID_SCRIPT, { fix: false })
+
+    expect(result.isValid).toBe(true)
+    expect(requests.map(r => r.url)).toEqual([
+      'https://pine.example.com/api/v1/validate',
+      'https://pine.example.com/api/v1/jobs/job_1',
+      'https://pine.example.com/api/v1/jobs/job_1',
+    ])
+    expect(JSON.parse(String(requests[0].init?.body))).toEqual({ script: VALID_SCRIPT, fix: false })
+    expect((requests[0].init?.headers as Record<string, string>).Authorization).toBe('Bearer pk_test')
+  })
+
+  it('should surface API errors and quota resets', async () => {
+    const backend = createApiBackend({
+      baseUrl: 'https://pine.example.com',
+      apiKey: 'pk_test',
+      timeoutMs: 10_000,
+      fetch: async () => Response.json(
+        { error: 'Daily validation quota used up' },
+        { status: 429, headers: { 'X-RateLimit-Reset': String(Date.parse('2026-03-02T00:00:00Z') / 1000) } }
+      ),
+    })
+
+    await expect(backend.validate(VALID_SCRIPT, { fix: true })).rejects.toThrow(
+      'Daily validation quota used up (quota resets 2026-03-02T00:00:00.000Z)'
+    )
+  })
+})
@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest'
+import { deletePricingCatalog, savePricingCatalog } from '../src/server/kv'
+import {
+  getDefaultPricingCatalog,
+  getPricingCatalog,
+  PricingCatalogSchema,
+  quotePrice,
+  type PricingCatalog,
+} from '../src/server/pricing'
+import { setPaymentsProvider } from '../src/server/payments'
+import { createMockPaymentsProvider } from '../src/server/mock-payments'
+import { createCheckoutSession, getCheckoutSession, getProductDetails } from '../src/server/stripe'
+
+const NEW_OPEN = { publishMode: 'new', visibilityLevel: 'open', fixApplied: false } as const
+
+// The defaults with a second currency and the given promos
+function catalogWith(promos: PricingCatalog['promos'] = []): PricingCatalog {
+  const catalog = getDefaultPricingCatalog()
+  catalog.currencies = ['usd', 'eur']
+  for (const product of Object.values(catalog.products)) {
+    product.prices.eur = product.prices.usd * 2
+  }
+  catalog.promos = promos
+  return catalog
+}
+
+describe('pricing', () => {
+  it('should price a publish from the default catalog', () => {
+    const catalog = getDefaultPricingCatalog()
+
+    expect(quotePrice(catalog, NEW_OPEN)).toMatchObject({ currency: 'usd', totalInCents: 100, totalFormatted: '$1.00' })
+    expect(quotePrice(catalog, { ...NEW_OPEN, visibilityLevel: 'protected', fixApplied: true }).lines.map(line => [line.productId, line.priceInCents]))
+      .toEqual([['validate-fix', 0], ['publish', 100], ['publish-protected', 500]])
+    // An update keeps the script's visibility, so no add-on
+    expect(quotePrice(catalog, { ...NEW_OPEN, publishMode: 'update', visibilityLevel: 'invite-only' }).lines.map(line => line.productId))
+      .toEqual(['validate-only', 'update-existing'])
+  })
+
+  it('should quote in an offered currency and fall back to the default otherwise', () => {
+    const catalog = catalogWith()
+
+    expect(quotePrice(catalog, { ...NEW_OPEN, currency: 'eur' })).toMatchObject({ currency: 'eur', totalInCents: 200 })
+    expect(quotePrice(catalog, { ...NEW_OPEN, currency: 'gbp' })).toMatchObject({ currency: 'usd', totalInCents: 100 })
+  })
+
+  it('should apply the biggest active promo to each line it covers', () => {
+    const now = Date.parse('2026-06-15T00:00:00Z')
+    const catalog = catalogWith([
+      { promoId: 'half', description: 'Half off add-ons', percentOff: 50, products: ['publish-protected'] },
+      { promoId: 'flat', description: '$4 off', amountOff: { usd: 400 }, products: ['publish-protected', 'publish'] },
+      { promoId: 'over', description: 'Ended', percentOff: 90, endsAt: '2026-06-01T00:00:00Z' },
+      { promoId: 'soon', description: 'Not yet', percentOff: 90, startsAt: '2026-07-01T00:00:00Z' },
+    ])
+
+    const quote = quotePrice(catalog, { ...NEW_OPEN, visibilityLevel: 'protected' }, now)
+
+    expect(quote.lines.map(line => [line.productId, line.priceInCents, line.promo])).toEqual([
+      ['validate-only', 0, undefined],
+      // Never below zero
+      ['publish', 0, '$4 off'],
+      ['publish-protected', 100, '$4 off'],
+    ])
+    expect(quote.totalInCents).toBe(100)
+    // A fixed amount only applies in the currencies it names
+    expect(quotePrice(catalog, { ...NEW_OPEN, currency: 'eur', visibilityLevel: 'protected' }, now).totalInCents).toBe(200 + 500)
+  })
+
+  it('should reject a catalog that misses a price or has an unclear promo', () => {
+    const missingPrice = catalogWith()
+    delete missingPrice.products['update-existing'].prices.eur
+    const unclearPromo = catalogWith([{ promoId: 'both', description: 'Both', percentOff: 10, amountOff: { usd: 10 } }])
+
+    expect(PricingCatalogSchema.safeParse(catalogWith()).success).toBe(true)
+    expect(PricingCatalogSchema.safeParse(missingPrice).error?.issues[0].message).toBe('update-existing has no eur price')
+    expect(PricingCatalogSchema.safeParse(unclearPromo).success).toBe(false)
+  })
+
+  it('should reject a catalog under which a publish can cost nothing', () => {
+    const allFree = catalogWith([{ promoId: 'free', description: 'Free', percentOff: 100 }])
+    // Each promo alone leaves something to pay, but an open update is free while both run
+    const overlapping = catalogWith([
+      { promoId: 'updates', description: '$1 off updates', amountOff: { usd: 100 }, products: ['update-existing'], endsAt: '2026-07-01T00:00:00Z' },
+      { promoId: 'rounded', description: '99% off', percentOff: 99, startsAt: '2026-06-01T00:00:00Z' },
+    ])
+    overlapping.products['update-existing'].prices.usd = 1
+
+    expect(PricingCatalogSchema.safeParse(allFree).success).toBe(false)
+    expect(PricingCatalogSchema.safeParse(overlapping).error?.issues.map(issue => issue.message)).toEqual(expect.arrayContaining([
+      'validate-fix + update-existing can cost nothing in usd',
+      'validate-only + update-existing can cost nothing in usd',
+    ]))
+    expect(PricingCatalogSchema.safeParse(catalogWith([{ promoId: 'half', description: '50% off', percentOff: 50 }])).success).toBe(true)
+  })
+
+  it('should reject a catalog under which a publish can cost less than Stripe charges', () => {
+    const cheapUpdates = catalogWith()
+    cheapUpdates.products['update-existing'].prices = { usd: 49, eur: 50 }
+    const deepDiscount = catalogWith([{ promoId: 'most', description: '99% off', percentOff: 99, products: ['publish'] }])
+
+    expect(PricingCatalogSchema.safeParse(cheapUpdates).error?.issues.map(issue => issue.message)).toEqual([
+      "validate-fix + update-existing can cost $0.49, below Stripe's $0.50 minimum charge",
+      "validate-only + update-existing can cost $0.49, below Stripe's $0.50 minimum charge",
+    ])
+    expect(PricingCatalogSchema.safeParse(deepDiscount).error?.issues.map(issue => issue.message))
+      .toContain("validate-only + publish can cost $0.01, below Stripe's $0.50 minimum charge")
+  })
+
+  it('should only accept currencies with two decimals', () => {
+    const yen = catalogWith()
+    yen.currencies = ['usd', 'jpy']
+    for (const product of Object.values(yen.products)) {
+      product.prices.jpy = product.prices.usd
+    }
+
+    expect(PricingCatalogSchema.safeParse(yen).error?.issues[0].message).toBe('Currency must have two decimals, e.g. usd or eur')
+  })
+
+  it('should only accept currencies with a known Stripe minimum charge', () => {
+    const pesos = catalogWith()
+    pesos.currencies = ['usd', 'cop']
+    for (const product of Object.values(pesos.products)) {
+      product.prices.cop = product.prices.usd * 4000
+    }
+
+    expect(PricingCatalogSchema.safeParse(pesos).error?.issues[0].message).toBe('Currency must be one Stripe settles in, e.g. usd or eur')
+  })
+
+  describe('saved catalog', () => {
+    beforeAll(() => {
+      setPaymentsProvider(createMockPaymentsProvider({ deliver: async () => {} }))
+    })
+
+    afterAll(() => {
+      setPaymentsProvider(undefined)
+    })
+
+    afterEach(async () => {
+      await deletePricingCatalog()
+    })
+
+    it('should charge checkouts and show product details from the saved catalog', async () => {
+      const catalog = catalogWith()
+      catalog.products['validate-fix'].prices = { usd: 250, eur: 300 }
+      await savePricingCatalog(catalog)
+
+      const checkout = await createCheckoutSession({
+        scriptHash: 'hash',
+        userId: 'user_1',
+        visibilityLevel: 'invite-only',
+        fixApplied: true,
+        currency: 'eur',
+      })
+
+      expect(await getCheckoutSession(checkout.sessionId)).toMatchObject({
+        currency: 'eur',
+        amount_total: 300 + 200 + 2000,
+        metadata: { products: 'validate-fix,publish,publish-invite-only' },
+      })
+      expect(await getProductDetails('eur')).toMatchObject({
+        priceFormatted: '€2.00',
+        currencies: ['usd', 'eur'],
+        visibilityLevelAddons: { protected: { priceInCents: 1000 } },
+      })
+    })
+
+    it('should fall back to the defaults when the saved catalog is invalid', async () => {
+      await savePricingCatalog({ ...catalogWith(), currencies: [] })
+
+      expect(await getPricingCatalog()).toEqual(getDefaultPricingCatalog())
+    })
+  })
+})
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest'
+import { runWithProgress, reportProgress, type ProgressEvent } from '../src/server/progress'
+
+describe('progress reporting', () => {
+  it('should deliver events reported across awaits to the surrounding run', async () => {
+    const events: ProgressEvent[] = []
+    const result = await runWithProgress((event) => events.push(event), async () => {
+      reportProgress('session', 'Session acquired')
+      await new Promise((resolve) => setTimeout(resolve, 5))
+      reportProgress('compile', 'Compiled')
+      return 'ok'
+    })
+
+    expect(result).toBe('ok')
+    expect(events.map((e) => [e.stage, e.message])).toEqual([
+      ['session', 'Session acquired'],
+      ['compile', 'Compiled'],
+    ])
+  })
+
+  it('should keep concurrent runs apart', async () => {
+    const first: string[] = []
+    const second: string[] = []
+    const run = (sink: string[], name: string) =>
+      runWithProgress((event) => sink.push(event.message), async () => {
+        await new Promise((resolve) => setTimeout(resolve, 1))
+        reportProgress('editor', name)
+      })
+
+    await Promise.all([run(first, 'first'), run(second, 'second')])
+    expect(first).toEqual(['first'])
+    expect(second).toEqual(['second'])
+  })
+
+  it('should ignore reports outside a run and reporter failures', async () => {
+    expect(() => reportProgress('fix', 'Nobody listening')).not.toThrow()
+
+    await expect(
+      runWithProgress(() => { throw new Error('listener broke') }, async () => {
+        reportProgress('fix', 'Still running')
+        return 'done'
+      })
+    ).resolves.toBe('done')
+  })
+})
@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest'
+import { createApiKey, revokeApiKey, authenticateApiKey, consumeApiQuota, consumeApiQuotas, refundApiQuota } from '../src/server/api-keys'
+import {
+  ValidateRequestSchema,
+  PublishRequestSchema,
+  readApiRequest,
+  toApiJob,
+  buildOpenApiDocument,
+} from '../src/server/public-api'
+import { createPublishJob } from '../src/server/kv'
+
+function requestWith(headers: Record<string, string>, body?: unknown): Request {
+  return new Request('http://localhost/api/v1/validate', {
+    method: 'POST',
+    headers,
+    body: body === undefined ? undefined : typeof body === 'string' ? body : JSON.stringify(body),
+  })
+}
+
+// REDIS_URL is unset in tests, so keys and usage counters live in the in-memory store
+describe('API keys', () => {
+  it('should authenticate with a bearer or x-api-key header until revoked', async () => {
+    const { apiKey, key } = await createApiKey('CI')
+    expect(key.startsWith(apiKey.prefix)).toBe(true)
+
+    expect((await authenticateApiKey(requestWith({ authorization: `Bearer ${key}` })))?.keyId).toBe(apiKey.keyId)
+    expect((await authenticateApiKey(requestWith({ 'x-api-key': key })))?.keyId).toBe(apiKey.keyId)
+    expect(await authenticateApiKey(requestWith({ authorization: 'Bearer pk_unknown' }))).toBeNull()
+    expect(await authenticateApiKey(requestWith({}))).toBeNull()
+
+    await revokeApiKey(apiKey.keyId)
+    expect(await authenticateApiKey(requestWith({ authorization: `Bearer ${key}` }))).toBeNull()
+  })
+
+  it('should count quotas per day and not count refused requests', async () => {
+    const { apiKey } = await createApiKey('Tools', { publishesPerDay: 2 })
+    const day1 = Date.parse('2026-03-01T10:00:00Z')
+
+    expect(await consumeApiQuota(apiKey, 'publishes', day1)).toMatchObject({ allowed: true, remaining: 1 })
+    expect(await consumeApiQuota(apiKey, 'publishes', day1)).toMatchObject({ allowed: true, remaining: 0 })
+    expect(await consumeApiQuota(apiKey, 'publishes', day1)).toEqual({
+      allowed: false,
+      limit: 2,
+      remaining: 0,
+      resetAt: Date.parse('2026-03-02T00:00:00Z'),
+    })
+    // Validations have their own quota
+    expect(await consumeApiQuota(apiKey, 'validations', day1)).toMatchObject({ allowed: true })
+
+    const day2 = Date.parse('2026-03-02T00:00:01Z')
+    expect(await consumeApiQuota(apiKey, 'publishes', day2)).toMatchObject({ allowed: true, remaining: 1 })
+  })
+
+  it('should count a publish against both quotas, or against neither', async () => {
+    const { apiKey } = await createApiKey('Publisher', { validationsPerDay: 3, publishesPerDay: 1 })
+    const now = Date.parse('2026-03-01T10:00:00Z')
+
+    expect(await consumeApiQuotas(apiKey, ['validations', 'publishes'], now)).toMatchObject({
+      allowed: true,
+      kind: 'publishes',
+      remaining: 0,
+    })
+    expect(await consumeApiQuotas(apiKey, ['validations', 'publishes'], now)).toMatchObject({
+      allowed: false,
+      kind: 'publishes',
+    })
+    // The refused publish gave its validation back, and a failed one can give both back
+    await refundApiQuota(apiKey, 'publishes', now)
+    expect(await consumeApiQuota(apiKey, 'validations', now)).toMatchObject({ allowed: true, remaining: 1 })
+    expect(await consumeApiQuota(apiKey, 'publishes', now)).toMatchObject({ allowed: true, remaining: 0 })
+  })
+})
+
+describe('readApiRequest', () => {
+  it('should apply schema defaults', async () => {
+    const body = await readApiRequest(requestWith({}, { script: 'plot(close)' }), ValidateRequestSchema)
+    expect(body.data).toEqual({ script: 'plot(close)', fix: true })
+  })
+
+  it('should answer 400 with the failing fields', async () => {
+    const body = await readApiRequest(
+      requestWith({}, { script: 'plot(close)', title: 'T', description: 'D', updateScript: 'not a url!' }),
+      PublishRequestSchema
+    )
+    expect(body.response?.status).toBe(400)
+    const json = await body.response!.json()
+    expect(json.issues.map((issue: { path: string }) => issue.path)).toEqual(['updateScript', 'releaseNotes'])
+  })
+
+  it('should reject a body that is not JSON', async () => {
+    const body = await readApiRequest(requestWith({}, 'script=plot(close)'), ValidateRequestSchema)
+    expect(await body.response?.json()).toEqual({ error: 'Request body must be JSON' })
+  })
+})
+
+describe('toApiJob', () => {
+  it('should expose the job and its validation result', async () => {
+    const job = await createPublishJob({
+      userId: 'user_1',
+      scriptHash: 'abc',
+      script: 'plot(close)',
+      title: '',
+      description: '',
+      visibility: 'public',
+      validateOnly: true,
+      status: 'validated',
+      validationResult: {
+        finalScript: 'plot(close)',
+        isValid: false,
+        iterations: 1,
+        fixAttempted: false,
+        fixSuccessful: false,
+        finalErrors: [{ line: 1, message: 'line 1: oops', type: 'error', category: 'unknown' }],
+        rawOutput: 'line 1: oops',
+        addedToChart: false,
+        history: [],
+        stopReason: 'max-retries',
+      },
+    })
+
+    expect(toApiJob(job, null)).toMatchObject({
+      jobId: job.jobId,
+      mode: 'validate',
+      status: 'validated',
+      result: {
+        isValid: false,
+        stopReason: 'max-retries',
+        errors: [{ line: 1, message: 'line 1: oops', type: 'error', category: 'unknown' }],
+      },
+      error: null,
+      eventsUrl: `/api/jobs/${job.jobId}/events`,
+    })
+  })
+})
+
+describe('buildOpenApiDocument', () => {
+  it('should describe every route with component schemas from the zod schemas', () => {
+    const document = buildOpenApiDocument('https://example.com')
+
+    expect(Object.keys(document.paths)).toEqual(['/api/v1/validate', '/api/v1/publish', '/api/v1/jobs/{jobId}'])
+    expect(Object.keys(document.components.schemas).sort()).toEqual(
+      ['CompilerError', 'Error', 'Job', 'PublishRequest', 'ValidateRequest']
+    )
+    const validateRequest = document.components.schemas.ValidateRequest as Record<string, any>
+    expect(validateRequest.required).toEqual(['script'])
+    expect(validateRequest.properties.fix.default).toBe(true)
+    expect(validateRequest).not.toHaveProperty('$id')
+    expect(JSON.stringify(document.components.schemas.Job)).toContain('"$ref":"#/components/schemas/CompilerError"')
+  })
+})
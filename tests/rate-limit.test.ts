@@ -0,0 +1,114 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  consumeRateLimit,
+  rateLimitRequest,
+  rateLimitAdminRequest,
+  getClientIp,
+  getRateLimits,
+} from '../src/server/rate-limit'
+import { getThrottledClients } from '../src/server/kv'
+
+const ADMIN_KEY = vi.hoisted(() => {
+  process.env.ADMIN_API_KEY = 'test-admin-key'
+  return 'test-admin-key'
+})
+
+// REDIS_URL is unset in tests, so buckets live in the in-memory store
+describe('consumeRateLimit', () => {
+  it('should allow a burst, then refill at the hourly rate', async () => {
+    const { burst, perHour } = getRateLimits().validation
+    const start = Date.now()
+
+    for (let i = 0; i < burst; i++) {
+      expect((await consumeRateLimit('validation', 'ip-burst', start)).allowed).toBe(true)
+    }
+    const refused = await consumeRateLimit('validation', 'ip-burst', start)
+    expect(refused.allowed).toBe(false)
+    expect(refused.retryAfterSeconds).toBe(Math.ceil(3600 / perHour))
+
+    // One token back after one refill interval
+    const later = start + (3600 / perHour) * 1000
+    expect(await consumeRateLimit('validation', 'ip-burst', later)).toMatchObject({ allowed: true, remaining: 0 })
+  })
+
+  it('should keep clients and limiters apart', async () => {
+    const { burst } = getRateLimits().checkout
+    const now = Date.now()
+    for (let i = 0; i < burst; i++) await consumeRateLimit('checkout', 'ip-a', now)
+
+    expect((await consumeRateLimit('checkout', 'ip-a', now)).allowed).toBe(false)
+    expect((await consumeRateLimit('checkout', 'ip-b', now)).allowed).toBe(true)
+    expect((await consumeRateLimit('validation', 'ip-a', now)).allowed).toBe(true)
+  })
+
+  it('should not hand out more than a burst to concurrent requests', async () => {
+    const { burst } = getRateLimits().validation
+    const now = Date.now()
+
+    const results = await Promise.all(
+      Array.from({ length: burst * 2 }, () => consumeRateLimit('validation', 'ip-concurrent', now))
+    )
+    expect(results.filter((result) => result.allowed)).toHaveLength(burst)
+  })
+
+  it('should list throttled clients with their refusal count', async () => {
+    const { burst } = getRateLimits().admin
+    const now = Date.now()
+    for (let i = 0; i < burst + 2; i++) await consumeRateLimit('admin', 'ip-noisy', now)
+
+    const throttled = (await getThrottledClients(now)).find(client => client.clientId === 'ip-noisy')
+    expect(throttled).toMatchObject({ limiter: 'admin', count: 2, lastThrottledAt: now })
+  })
+})
+
+describe('rateLimitRequest', () => {
+  it('should answer 429 with Retry-After once the bucket is empty', async () => {
+    const request = new Request('http://localhost/api/v1/validate')
+    const { burst } = getRateLimits().api
+
+    for (let i = 0; i < burst; i++) {
+      expect(await rateLimitRequest('api', request, 'key-429')).toBeNull()
+    }
+    const response = await rateLimitRequest('api', request, 'key-429')
+    expect(response?.status).toBe(429)
+    expect(Number(response?.headers.get('Retry-After'))).toBeGreaterThan(0)
+  })
+})
+
+describe('rateLimitAdminRequest', () => {
+  it('should not let requests without the admin key use up the admin bucket', async () => {
+    const request = (headers: Record<string, string>) =>
+      new Request('http://localhost/api/admin/selector-health', { headers })
+    const { burst } = getRateLimits().admin
+
+    for (let i = 0; i < burst; i++) await rateLimitAdminRequest(request({ 'x-admin-key': 'wrong' }))
+    expect((await rateLimitAdminRequest(request({ 'x-admin-key': 'wrong' })))?.status).toBe(429)
+
+    expect(await rateLimitAdminRequest(request({ 'x-admin-key': ADMIN_KEY }))).toBeNull()
+  })
+})
+
+describe('getClientIp', () => {
+  const ip = (headers: Record<string, string>, trustedProxy: Parameters<typeof getClientIp>[1]) =>
+    getClientIp(new Request('http://localhost/', { headers }), trustedProxy)
+
+  it('should ignore forwarding headers without a trusted proxy', () => {
+    const headers = { 'fly-client-ip': '203.0.113.1', 'x-forwarded-for': '198.51.100.1' }
+    expect(ip(headers, null)).toBe('unknown')
+
+    const request = Object.assign(new Request('http://localhost/', { headers }), { ip: '192.0.2.10' })
+    expect(getClientIp(request, null)).toBe('192.0.2.10')
+  })
+
+  it('should read the Fly header only behind Fly', () => {
+    expect(ip({ 'fly-client-ip': '203.0.113.1', 'x-forwarded-for': '198.51.100.1' }, 'fly')).toBe('203.0.113.1')
+    expect(ip({ 'x-forwarded-for': '198.51.100.1' }, 'fly')).toBe('unknown')
+  })
+
+  it('should take the hop written by the outermost trusted proxy', () => {
+    // The client made up the first entry; the one proxy appended the real address
+    expect(ip({ 'x-forwarded-for': '1.2.3.4, 198.51.100.1' }, 1)).toBe('198.51.100.1')
+    expect(ip({ 'x-forwarded-for': '1.2.3.4, 198.51.100.1, 10.0.0.1' }, 2)).toBe('198.51.100.1')
+    expect(ip({ 'x-forwarded-for': '198.51.100.1' }, 2)).toBe('unknown')
+  })
+})
@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { createPublishJob, getPublishJob, updatePublishJob, type PublishJob } from '../src/server/kv'
+import { settlePaidCheckout, recordRefundUpdate, getRefundReason, type PaidCheckout } from '../src/server/refund-policy'
+import { createRefund } from '../src/server/stripe'
+
+// Stands in for Stripe: an idempotency key seen before returns the same refund
+vi.mock('../src/server/stripe', async (importOriginal) => {
+  const refunds = new Map<string, { id: string; status: string }>()
+  return {
+    ...(await importOriginal<typeof import('../src/server/stripe')>()),
+    createRefund: vi.fn(async (_paymentIntentId: string, options: { idempotencyKey: string }) => {
+      if (!refunds.has(options.idempotencyKey)) {
+        refunds.set(options.idempotencyKey, { id: `re_${refunds.size + 1}`, status: 'pending' })
+      }
+      return refunds.get(options.idempotencyKey)
+    }),
+  }
+})
+
+const baseJob = {
+  userId: 'user_1',
+  scriptHash: 'hash',
+  script: 'plot(close)',
+  title: 'Test',
+  description: 'Test',
+  visibility: 'public' as const,
+}
+
+// A checkout as this app creates it for baseJob
+function checkout(sessionId: string, paymentIntentId: string | null): PaidCheckout {
+  return { id: sessionId, payment_intent: paymentIntentId, metadata: { scriptHash: 'hash', userId: 'user_1' } }
+}
+
+async function createPaidJob(sessionId: string, updates: Partial<PublishJob>): Promise<PublishJob> {
+  return createPublishJob({ ...baseJob, status: 'pending', stripeSessionId: sessionId, ...updates })
+}
+
+// REDIS_URL is unset in tests, so jobs live in the in-memory store
+describe('refund policy', () => {
+  beforeEach(() => {
+    vi.mocked(createRefund).mockClear()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should refund only jobs that failed or have no indicator URL', () => {
+    const job = { ...baseJob, jobId: 'job_1', status: 'completed', createdAt: 0, updatedAt: 0 } as const
+    expect(getRefundReason({ ...job, indicatorUrl: 'https://www.tradingview.com/script/AbC123xy/' })).toBeNull()
+    expect(getRefundReason(job)).toBe('indicator-url-missing')
+    expect(getRefundReason({ ...job, status: 'failed' })).toBe('publish-failed')
+  })
+
+  it('should complete a delivered job without refunding it', async () => {
+    await createPaidJob('cs_delivered', { indicatorUrl: 'https://www.tradingview.com/script/AbC123xy/' })
+
+    const job = await settlePaidCheckout(checkout('cs_delivered', 'pi_delivered'))
+
+    expect(job).toMatchObject({ status: 'completed', paymentIntentId: 'pi_delivered' })
+    expect(job?.refundId).toBeUndefined()
+    expect(createRefund).not.toHaveBeenCalled()
+  })
+
+  it('should refund a paid job without an indicator URL once, however often the payment is confirmed', async () => {
+    await createPaidJob('cs_no_url', {})
+
+    const first = await settlePaidCheckout(checkout('cs_no_url', 'pi_no_url'))
+    const second = await settlePaidCheckout(checkout('cs_no_url', 'pi_no_url'))
+
+    expect(first).toMatchObject({ refundId: 're_1', refundReason: 'indicator-url-missing', refundStatus: 'pending' })
+    expect(second?.refundId).toBe('re_1')
+    expect(createRefund).toHaveBeenCalledTimes(1)
+    expect(createRefund).toHaveBeenCalledWith('pi_no_url', {
+      idempotencyKey: 'refund:pi_no_url',
+      metadata: { jobId: first!.jobId, reason: 'indicator-url-missing' },
+    })
+  })
+
+  it('should refund a failed job and keep it failed', async () => {
+    await createPaidJob('cs_failed', { status: 'failed', error: 'Publish button not found' })
+
+    const job = await settlePaidCheckout(checkout('cs_failed', 'pi_failed'))
+
+    expect(job).toMatchObject({ status: 'failed', refundReason: 'publish-failed' })
+  })
+
+  it('should not refund a paid checkout without a job', async () => {
+    const job = await settlePaidCheckout(checkout('cs_unknown', 'pi_unknown'))
+
+    expect(job).toBeNull()
+    expect(createRefund).not.toHaveBeenCalled()
+  })
+
+  it('should not touch a job whose checkout metadata names another script or user', async () => {
+    const created = await createPaidJob('cs_foreign', { status: 'failed' })
+
+    const foreign = { ...checkout('cs_foreign', 'pi_foreign'), metadata: { scriptHash: 'other', userId: 'user_1' } }
+    expect(await settlePaidCheckout(foreign)).toBeNull()
+
+    const job = await getPublishJob(created.jobId)
+    expect(job?.status).toBe('failed')
+    expect(job?.paymentIntentId).toBeUndefined()
+    expect(createRefund).not.toHaveBeenCalled()
+  })
+
+  it('should still find a delivered job when the success page is opened hours later', async () => {
+    vi.useFakeTimers()
+    await createPaidJob('cs_late', { indicatorUrl: 'https://www.tradingview.com/script/AbC123xy/' })
+    await settlePaidCheckout(checkout('cs_late', 'pi_late'))
+
+    vi.setSystemTime(Date.now() + 25 * 60 * 60 * 1000)
+    const job = await settlePaidCheckout(checkout('cs_late', 'pi_late'))
+
+    expect(job).toMatchObject({ status: 'completed', paymentIntentId: 'pi_late' })
+    expect(createRefund).not.toHaveBeenCalled()
+  })
+
+  it('should record refund status updates for the refund on the job only', async () => {
+    const created = await createPaidJob('cs_update', {})
+    const job = await settlePaidCheckout(checkout('cs_update', 'pi_update'))
+
+    await recordRefundUpdate({ id: 're_other', status: 'failed', metadata: { jobId: created.jobId } })
+    expect((await getPublishJob(created.jobId))?.refundStatus).toBe('pending')
+
+    await recordRefundUpdate({ id: job!.refundId!, status: 'succeeded', metadata: { jobId: created.jobId } })
+    expect((await getPublishJob(created.jobId))?.refundStatus).toBe('succeeded')
+  })
+
+  it('should leave unpaid jobs alone', async () => {
+    const created = await createPaidJob('cs_unpaid', {})
+    await updatePublishJob(created.jobId, { status: 'failed' })
+
+    const job = await settlePaidCheckout(checkout('cs_unpaid', null))
+
+    expect(job?.refundId).toBeUndefined()
+    expect(createRefund).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest'
+import { applyHunks, createUnifiedDiff, diffHunks, diffLines, diffWords, hunkErrors } from '../src/server/script-diff'
+import type { CompilerError } from '../src/server/pine/compiler-errors'
+
+const BEFORE = `//@version=5
+indicator("Test")
+len = input.int(14)
+value = ta.sma(close, len)
+plot(value)
+`
+
+describe('diffLines', () => {
+  it('should report no changes for identical scripts', () => {
+    expect(diffLines(BEFORE, BEFORE).every(line => line.type === 'equal')).toBe(true)
+  })
+
+  it('should mark a changed line as a remove followed by an add', () => {
+    const after = BEFORE.replace('ta.sma', 'ta.ema')
+    const changes = diffLines(BEFORE, after).filter(line => line.type !== 'equal')
+    expect(changes).toEqual([
+      { type: 'remove', text: 'value = ta.sma(close, len)', oldLine: 4 },
+      { type: 'add', text: 'value = ta.ema(close, len)', newLine: 4 },
+    ])
+  })
+
+  it('should keep line numbers aligned after an insertion', () => {
+    const after = BEFORE.replace('plot(value)', 'smoothed = ta.ema(value, 3)\nplot(value)')
+    const lines = diffLines(BEFORE, after)
+    const added = lines.find(line => line.type === 'add')
+    const plot = lines.find(line => line.text === 'plot(value)')
+    expect(added?.newLine).toBe(5)
+    expect(plot).toMatchObject({ oldLine: 5, newLine: 6 })
+  })
+})
+
+describe('createUnifiedDiff', () => {
+  it('should return an empty string when nothing changed', () => {
+    expect(createUnifiedDiff(BEFORE, BEFORE)).toBe('')
+  })
+
+  it('should render a hunk with context lines', () => {
+    const after = BEFORE.replace('ta.sma', 'ta.ema')
+    expect(createUnifiedDiff(BEFORE, after, 1)).toBe([
+      '@@ -3,3 +3,3 @@',
+      ' len = input.int(14)',
+      '-value = ta.sma(close, len)',
+      '+value = ta.ema(close, len)',
+      ' plot(value)',
+    ].join('\n'))
+  })
+
+  it('should split distant changes into separate hunks', () => {
+    const before = Array.from({ length: 20 }, (_, i) => `a${i} = ${i}`).join('\n')
+    const after = before.replace('a1 = 1', 'a1 = 100').replace('a18 = 18', 'a18 = 180')
+    const hunks = createUnifiedDiff(before, after).split('\n').filter(line => line.startsWith('@@'))
+    expect(hunks).toEqual(['@@ -1,5 +1,5 @@', '@@ -16,5 +16,5 @@'])
+  })
+})
+
+describe('diffWords', () => {
+  it('should mark only the changed words of a line', () => {
+    expect(diffWords('value = ta.sma(close, len)', 'value = ta.ema(close, len)')).toEqual([
+      { type: 'equal', text: 'value = ta.' },
+      { type: 'remove', text: 'sma' },
+      { type: 'add', text: 'ema' },
+      { type: 'equal', text: '(close, len)' },
+    ])
+  })
+})
+
+describe('applyHunks', () => {
+  const before = Array.from({ length: 20 }, (_, i) => `a${i} = ${i}`).join('\n')
+  const after = before.replace('a1 = 1', 'a1 = 100').replace('a18 = 18', 'a18 = 180')
+
+  it('should apply every hunk when none are rejected', () => {
+    expect(applyHunks(before, after, [])).toBe(after)
+  })
+
+  it('should keep the old lines of rejected hunks', () => {
+    expect(applyHunks(before, after, [0])).toBe(before.replace('a18 = 18', 'a18 = 180'))
+    expect(applyHunks(before, after, [0, 1])).toBe(before)
+  })
+
+  it('should handle hunks that only add lines', () => {
+    const added = BEFORE.replace('plot(value)', 'smoothed = ta.ema(value, 3)\nplot(smoothed)')
+    expect(applyHunks(BEFORE, added, [0])).toBe(BEFORE)
+  })
+})
+
+describe('hunkErrors', () => {
+  const error = (line: number, message: string): CompilerError => ({ line, message, type: 'error' })
+
+  it('should tie each error to the hunk covering its line', () => {
+    const before = Array.from({ length: 20 }, (_, i) => `a${i} = ${i}`).join('\n')
+    const after = before.replace('a1 = 1', 'a1 = 100').replace('a18 = 18', 'a18 = 180')
+    const hunks = diffHunks(before, after)
+
+    const errors = hunkErrors(before, hunks, [{ script: before, errors: [error(19, 'Bad a18'), error(0, 'No line')] }])
+    expect(errors).toEqual([[], [error(19, 'Bad a18')]])
+  })
+
+  it('should map lines of later iterations back to the original script', () => {
+    // The first fix inserted a line, so the second iteration reports plot one line lower
+    const iteration2 = BEFORE.replace('plot(value)', 'smoothed = ta.ema(value, 3)\nplot(valu)')
+    const after = BEFORE.replace('plot(value)', 'smoothed = ta.ema(value, 3)\nplot(smoothed)')
+    const hunks = diffHunks(BEFORE, after, 0)
+
+    const errors = hunkErrors(BEFORE, hunks, [
+      { script: iteration2, errors: [error(6, "Undeclared identifier 'valu'")] },
+      { script: iteration2, errors: [error(6, "Undeclared identifier 'valu'")] },
+    ])
+    expect(errors).toEqual([[error(6, "Undeclared identifier 'valu'")]])
+  })
+})
@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { setBrowserDriver } from '../src/server/browserless'
+import {
+  selectorKeywords,
+  findFailingSelectors,
+  runSelectorHealthCheck,
+  type SelectorProbeResult,
+} from '../src/server/selector-health'
+import { startFakeTradingView, type FakeTradingView } from './fake-tradingview/server'
+import { createFakeTradingViewDriver } from './fake-tradingview/driver'
+
+const CHROME_PATH = process.env.CHROME_PATH || process.env.PUPPETEER_EXECUTABLE_PATH
+
+function result(group: string, name: string, found: boolean): SelectorProbeResult {
+  return { stage: 'editor', group, name, selector: `[data-name="${name}"]`, matches: found ? 1 : 0, found }
+}
+
+describe('selectorKeywords', () => {
+  it('should take words from the name and selector values', () => {
+    expect(selectorKeywords({ name: 'userMenu', selector: '[data-name="header-user-menu-button"]' })).toEqual([
+      'user',
+      'menu',
+      'header',
+    ])
+    expect(selectorKeywords({ name: 'errorLine', selector: '.console-line.error' })).toEqual([
+      'error',
+      'line',
+      'console',
+    ])
+  })
+
+  it('should use the label of buttons matched by text', () => {
+    expect(selectorKeywords({ name: 'inviteOnlyButton', selector: 'button', text: 'Invite-only' })).toEqual([
+      'invite',
+      'only',
+    ])
+  })
+})
+
+describe('findFailingSelectors', () => {
+  it('should pass a selector when any of its alternatives resolved', () => {
+    const failing = findFailingSelectors([
+      result('strict', 'publishButtons', false),
+      result('strict', 'publishButtons', true),
+      result('pineEditor', 'consolePanel', false),
+    ])
+    expect(failing).toEqual(['pineEditor.consolePanel'])
+  })
+})
+
+describe.skipIf(!CHROME_PATH)('selector health check against the fake', () => {
+  let fake: FakeTradingView
+
+  beforeAll(async () => {
+    fake = await startFakeTradingView({
+      compile: source => (source.includes('Undefined') ? [{ line: 3, message: 'Undeclared identifier', type: 'error' }] : []),
+    })
+    setBrowserDriver(createFakeTradingViewDriver(fake.url, CHROME_PATH!))
+  })
+
+  afterAll(async () => {
+    setBrowserDriver(null)
+    await fake?.close()
+  })
+
+  it('should resolve what the fake renders and suggest replacements for the rest', async () => {
+    const report = await runSelectorHealthCheck({ sessionId: 'fake', signature: 'fake', userId: 'test' })
+
+    expect(report.error).toBeUndefined()
+    expect(report.healthy).toBe(false)
+    for (const key of ['pineEditor.errorLine', 'publishDialog.titleInput', 'publishDialog.inviteOnlyButton', 'publishDialog.publishPrivateButton', 'auth.emailInput']) {
+      expect(report.failing).not.toContain(key)
+    }
+    // The fake's signed-out chart still shows the user menu
+    expect(report.failing).toEqual(expect.arrayContaining(['auth.loginButton']))
+    expect(report.failing).not.toContain('publishDialog.protectedButton')
+
+    const loginButton = report.results.find(r => r.name === 'loginButton')
+    expect(loginButton?.suggestions).toContain('[data-name="header-user-menu-button"]')
+    expect(report.screenshots.length).toBeGreaterThan(0)
+    expect(fake.published).toEqual([])
+  }, 120000)
+})
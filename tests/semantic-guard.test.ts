@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest'
+import { checkSemanticPreservation } from '../src/server/pine/semantic-guard'
+import { ALL_SCRIPTS } from './sample-scripts'
+
+const STRATEGY = `//@version=5
+strategy("Cross", overlay=true)
+len = input.int(14, "Length")
+fast = ta.sma(close, len)
+slow = ta.sma(close, len * 2)
+plot(fast, "Fast", color.red)
+plot(slow, title="Slow", color=color.blue)
+if ta.crossover(fast, slow)
+    strategy.entry("Long", strategy.long)
+else
+    strategy.close("Long")
+alertcondition(ta.crossover(fast, slow), "Cross", "Fast crossed slow")
+`
+
+describe('checkSemanticPreservation', () => {
+  it('should find nothing when only formatting changes', () => {
+    const fixed = STRATEGY
+      .replace('len * 2', 'len*2')
+      .replace('plot(fast, "Fast", color.red)', 'plot(fast, title = "Fast", color = color.red)')
+    const result = checkSemanticPreservation(STRATEGY, fixed, [])
+    expect(result.findings).toEqual([])
+    expect(result.changesBehavior).toBe(false)
+  })
+
+  it('should not report changes on the reported error lines', () => {
+    const fixed = STRATEGY.replace('plot(fast, "Fast", color.red)', 'plot(fast, "Fast", color.orange)')
+    expect(checkSemanticPreservation(STRATEGY, fixed, [6]).findings).toEqual([])
+  })
+
+  it('should reject a removed plot outside the error lines', () => {
+    const fixed = STRATEGY.replace('plot(slow, title="Slow", color=color.blue)\n', '')
+    const result = checkSemanticPreservation(STRATEGY, fixed, [3])
+    expect(result.changesBehavior).toBe(true)
+    expect(result.findings).toMatchObject([{ kind: 'plot', change: 'removed', line: 7, severity: 'error' }])
+  })
+
+  it('should reject changed strategy entry logic', () => {
+    const fixed = STRATEGY.replace('if ta.crossover(fast, slow)', 'if ta.crossunder(fast, slow)')
+    const result = checkSemanticPreservation(STRATEGY, fixed, [12])
+    expect(result.changesBehavior).toBe(true)
+    expect(result.findings.map(f => f.message)).toEqual([
+      'Fix changed the condition of strategy.entry "Long" (line 9): ta.crossover(fast, slow) → ta.crossunder(fast, slow)',
+      'Fix changed the condition of strategy.close "Long" (line 11): not(ta.crossover(fast, slow)) → not(ta.crossunder(fast, slow))',
+    ])
+  })
+
+  it('should report changed declaration and input arguments', () => {
+    const fixed = STRATEGY
+      .replace('strategy("Cross", overlay=true)', 'strategy("Cross", overlay=false)')
+      .replace('input.int(14, "Length")', 'input.int(20, "Length")')
+    const result = checkSemanticPreservation(STRATEGY, fixed, [])
+    expect(result.findings).toMatchObject([
+      { kind: 'declaration', change: 'changed', line: 2 },
+      { kind: 'input', change: 'changed', line: 3 },
+    ])
+  })
+
+  it('should match features by identity when the fix shifts lines', () => {
+    const fixed = STRATEGY.replace('len = input.int', 'src = close\nlen = input.int')
+    expect(checkSemanticPreservation(STRATEGY, fixed, [3]).findings).toEqual([])
+  })
+
+  it('should only flag features the fix added', () => {
+    const fixed = `${STRATEGY}plot(ta.ema(close, 50), "Trend")\n`
+    const result = checkSemanticPreservation(STRATEGY, fixed, [])
+    expect(result.changesBehavior).toBe(false)
+    expect(result.findings).toMatchObject([{ kind: 'plot', change: 'added', severity: 'warning' }])
+  })
+
+  it('should treat a v4 to v5 migration as behavior-preserving', () => {
+    const v4 = `//@version=4
+study("Old", overlay=true)
+fast = sma(close, 10)
+plot(fast, color=red)
+`
+    const v5 = `//@version=5
+indicator("Old", overlay=true)
+fast = ta.sma(close, 10)
+plot(fast, color=color.red)
+`
+    expect(checkSemanticPreservation(v4, v5, []).findings).toEqual([])
+  })
+
+  it('should find nothing when comparing a script with itself', () => {
+    for (const script of Object.values(ALL_SCRIPTS.valid)) {
+      expect(checkSemanticPreservation(script, script, []).findings).toEqual([])
+    }
+  })
+})
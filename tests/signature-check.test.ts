@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest'
+import { parsePineScript } from '../src/server/pine/parser'
+import { checkBuiltinCalls } from '../src/server/pine/signature-check'
+import { getBuiltinFunction } from '../src/server/pine/builtins'
+import { ALL_SCRIPTS } from './sample-scripts'
+
+function check(script: string) {
+  const { program } = parsePineScript(script)
+  return checkBuiltinCalls(program, script)
+}
+
+function v5(body: string): string {
+  return `//@version=5\nindicator("Test")\n${body}\n`
+}
+
+describe('checkBuiltinCalls', () => {
+  it('should accept the valid sample scripts', () => {
+    for (const script of Object.values(ALL_SCRIPTS.valid)) {
+      expect(check(script)).toEqual([])
+    }
+  })
+
+  it('should report unknown functions in catalogued namespaces with a suggestion', () => {
+    const diagnostics = check(v5('ma = ta.smaa(close, 20)'))
+    expect(diagnostics).toHaveLength(1)
+    expect(diagnostics[0]).toMatchObject({ line: 3, column: 6, type: 'error', code: 'unknown-function' })
+    expect(diagnostics[0].message).toContain("did you mean 'ta.sma'?")
+  })
+
+  it('should not report unknown members of namespaces it does not fully cover', () => {
+    expect(check(v5('a = array.new_float(0)\narray.push(a, close)'))).toEqual([])
+  })
+
+  it('should report missing and extra arguments', () => {
+    expect(check(v5('x = ta.sma(close)'))).toEqual([
+      expect.objectContaining({ code: 'missing-argument', message: "Missing required argument 'length' in call to 'ta.sma'" }),
+    ])
+    expect(check(v5('x = ta.sma(close, 14, 2)'))).toEqual([
+      expect.objectContaining({ code: 'too-many-arguments' }),
+    ])
+  })
+
+  it('should pick a matching overload', () => {
+    expect(check(v5('h = ta.highest(10)\nl = ta.lowest(low, 10)'))).toEqual([])
+  })
+
+  it('should accept fill between two plots', () => {
+    const plots = 'p1 = plot(high)\np2 = plot(low)\n'
+    expect(check(v5(`${plots}fill(p1, p2)`))).toEqual([])
+    expect(check(v5(`${plots}fill(p1, p2, color=color.new(color.blue, 90), title="Range")`))).toEqual([])
+    expect(check(v5(`${plots}fill(p1, p2, high, low, color.green, color.red)`))).toEqual([])
+  })
+
+  it('should accept fill between two hlines', () => {
+    const hlines = 'h1 = hline(70)\nh2 = hline(30)\n'
+    expect(check(v5(`${hlines}fill(h1, h2)`))).toEqual([])
+    expect(check(v5(`${hlines}fill(h1, h2, color=color.new(color.purple, 90))`))).toEqual([])
+  })
+
+  it('should report unknown, duplicate and out-of-order named arguments', () => {
+    const codes = check(v5('plot(close, colour=color.red)\nplot(close, color=color.red, color=color.blue)\nplot(title="x", close)'))
+      .map(d => d.code)
+    expect(codes).toEqual(['unknown-argument', 'duplicate-argument', 'positional-after-named'])
+  })
+
+  it('should point v4 transp arguments at color.new', () => {
+    const [diagnostic] = check(v5('plot(close, color=color.red, transp=50)'))
+    expect(diagnostic.message).toContain('color.new')
+  })
+
+  it('should report series values passed to simple parameters', () => {
+    const diagnostics = check(v5('len = ta.barssince(close > open)\ne = ta.ema(close, len)'))
+    expect(diagnostics).toEqual([
+      expect.objectContaining({
+        line: 4,
+        code: 'argument-qualifier',
+        message: "Cannot call 'ta.ema' with argument 'length'='len'. An argument of 'series int' type was used but a 'simple int' is expected.",
+      }),
+    ])
+  })
+
+  it('should accept inputs passed to simple parameters', () => {
+    expect(check(v5('len = input.int(14, "Length")\nr = ta.rsi(close, len)\nplot(r)'))).toEqual([])
+  })
+
+  it('should not guess the qualifier of reassigned variables', () => {
+    expect(check(v5('len = 10\nif close > open\n    len := 20\ne = ta.ema(close, len)'))).toEqual([])
+  })
+
+  it('should report a non-const plot title', () => {
+    const diagnostics = check(v5('plot(close, title=str.tostring(close))'))
+    expect(diagnostics[0].code).toBe('argument-qualifier')
+  })
+
+  it('should report primitive type mismatches', () => {
+    const diagnostics = check(v5('x = ta.sma(close, "14")'))
+    expect(diagnostics).toEqual([expect.objectContaining({ code: 'argument-type' })])
+  })
+
+  it('should only cast numbers to bool before v6', () => {
+    const body = 'indicator("Test")\nplotshape(close)\n'
+    expect(check(`//@version=5\n${body}`)).toEqual([])
+    expect(check(`//@version=6\n${body}`)).toEqual([expect.objectContaining({ code: 'argument-type' })])
+  })
+
+  it('should reject the strategy when parameter in v6 only', () => {
+    const body = 'strategy("Test")\nstrategy.entry("Long", strategy.long, when=close > open)\n'
+    expect(check(`//@version=5\n${body}`)).toEqual([])
+    const [diagnostic] = check(`//@version=6\n${body}`)
+    expect(diagnostic.message).toContain("removed in v6")
+  })
+
+  it('should skip v4 scripts and user functions that shadow built-ins', () => {
+    expect(check('//@version=4\nstudy("Old")\nplot(sma(close))\n')).toEqual([])
+    expect(check(v5('plot(x) =>\n    x\nplot(1, 2, 3)'))).toEqual([])
+  })
+})
+
+describe('getBuiltinFunction', () => {
+  it('should respect the version a built-in was added in', () => {
+    expect(getBuiltinFunction('request.footprint', 5)).toBeUndefined()
+    expect(getBuiltinFunction('request.footprint', 6)).toBeDefined()
+  })
+})
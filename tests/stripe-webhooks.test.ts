@@ -0,0 +1,189 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type Stripe from 'stripe'
+import {
+  createPublishJob,
+  getPublishJob,
+  getCreditBalance,
+  getStripeWebhookEvent,
+  listStripeWebhookEvents,
+  type PublishJob,
+} from '../src/server/kv'
+import { receiveStripeEvent, reprocessStripeEvent } from '../src/server/stripe-webhooks'
+import { createRefund } from '../src/server/stripe'
+
+vi.mock(import('../src/server/stripe'), async (importOriginal) => ({
+  ...(await importOriginal()),
+  createRefund: vi.fn(async () => ({ id: 're_1', status: 'pending' }) as Stripe.Refund),
+}))
+
+const INDICATOR_URL = 'https://www.tradingview.com/script/AbC123xy/'
+
+let eventCount = 0
+
+function stripeEvent(type: string, object: Record<string, unknown>): Stripe.Event {
+  eventCount++
+  return { id: `evt_${eventCount}`, type, created: 1_700_000_000 + eventCount, data: { object } } as unknown as Stripe.Event
+}
+
+function checkoutEvent(type: string, sessionId: string, paymentStatus: string): Stripe.Event {
+  return stripeEvent(type, {
+    id: sessionId,
+    payment_status: paymentStatus,
+    payment_intent: `pi_${sessionId}`,
+    metadata: { scriptHash: 'hash', userId: 'user_1' },
+  })
+}
+
+async function createCheckedOutJob(sessionId: string, updates: Partial<PublishJob> = {}): Promise<PublishJob> {
+  return createPublishJob({
+    userId: 'user_1',
+    scriptHash: 'hash',
+    script: 'plot(close)',
+    title: 'Test',
+    description: 'Test',
+    visibility: 'public',
+    status: 'pending',
+    stripeSessionId: sessionId,
+    indicatorUrl: INDICATOR_URL,
+    ...updates,
+  })
+}
+
+// REDIS_URL is unset in tests, so jobs and events live in the in-memory store
+describe('Stripe webhook events', () => {
+  beforeEach(() => {
+    vi.mocked(createRefund).mockClear()
+  })
+
+  it('should complete a paid job once, however often the event is delivered', async () => {
+    const job = await createCheckedOutJob('cs_paid')
+    const event = checkoutEvent('checkout.session.completed', 'cs_paid', 'paid')
+
+    const first = await receiveStripeEvent(event)
+    expect(first).toMatchObject({ status: 'processed', attempts: 1 })
+    expect(await getPublishJob(job.jobId)).toMatchObject({ status: 'completed', paymentIntentId: 'pi_cs_paid' })
+
+    expect(await receiveStripeEvent(event)).toBeNull()
+    expect((await getStripeWebhookEvent(event.id))?.attempts).toBe(1)
+  })
+
+  it('should hold a delayed payment in processing until it clears', async () => {
+    const job = await createCheckedOutJob('cs_async')
+
+    await receiveStripeEvent(checkoutEvent('checkout.session.completed', 'cs_async', 'unpaid'))
+    expect((await getPublishJob(job.jobId))?.status).toBe('processing')
+
+    await receiveStripeEvent(checkoutEvent('checkout.session.async_payment_succeeded', 'cs_async', 'paid'))
+    expect((await getPublishJob(job.jobId))?.status).toBe('completed')
+  })
+
+  it('should return the job to checkout when the payment fails or the checkout expires', async () => {
+    const failed = await createCheckedOutJob('cs_async_failed', { status: 'processing' })
+    const expired = await createCheckedOutJob('cs_expired')
+
+    await receiveStripeEvent(checkoutEvent('checkout.session.async_payment_failed', 'cs_async_failed', 'unpaid'))
+    await receiveStripeEvent(checkoutEvent('checkout.session.expired', 'cs_expired', 'unpaid'))
+
+    expect(await getPublishJob(failed.jobId)).toMatchObject({ status: 'validated', error: 'Payment failed - please try again' })
+    expect((await getPublishJob(expired.jobId))?.status).toBe('validated')
+  })
+
+  it('should not reopen a job that moved on to a newer checkout', async () => {
+    const job = await createCheckedOutJob('cs_old')
+    await receiveStripeEvent(checkoutEvent('checkout.session.completed', 'cs_old', 'paid'))
+
+    const record = await receiveStripeEvent(checkoutEvent('checkout.session.expired', 'cs_old', 'unpaid'))
+
+    expect(record?.outcome).toBe(`job ${job.jobId} already completed`)
+    expect((await getPublishJob(job.jobId))?.status).toBe('completed')
+  })
+
+  it('should leave a job alone for a checkout this app did not create for it', async () => {
+    const job = await createCheckedOutJob('cs_foreign')
+    const foreign = (type: string) => stripeEvent(type, {
+      id: 'cs_foreign',
+      payment_status: 'unpaid',
+      metadata: { scriptHash: 'other-hash', userId: 'user_1' },
+    })
+
+    expect((await receiveStripeEvent(foreign('checkout.session.completed')))?.outcome).toBe('no job for this checkout')
+    expect((await receiveStripeEvent(foreign('checkout.session.expired')))?.outcome).toBe('no job for this checkout')
+    expect((await getPublishJob(job.jobId))?.status).toBe('pending')
+  })
+
+  it('should leave a paid checkout without a job for a person to check', async () => {
+    const record = await receiveStripeEvent(checkoutEvent('checkout.session.completed', 'cs_no_job', 'paid'))
+
+    expect(record?.outcome).toBe('no job for this checkout, not refunded')
+    expect(createRefund).not.toHaveBeenCalled()
+  })
+
+  it('should record refunds made outside the policy and disputes', async () => {
+    const job = await createCheckedOutJob('cs_charged')
+    await receiveStripeEvent(checkoutEvent('checkout.session.completed', 'cs_charged', 'paid'))
+
+    await receiveStripeEvent(stripeEvent('charge.refunded', {
+      payment_intent: 'pi_cs_charged',
+      refunded: true,
+      refunds: { data: [{ id: 're_dashboard' }] },
+    }))
+    await receiveStripeEvent(stripeEvent('charge.dispute.created', {
+      id: 'dp_1',
+      payment_intent: 'pi_cs_charged',
+      reason: 'fraudulent',
+      created: 1_700_000_000,
+    }))
+
+    expect(await getPublishJob(job.jobId)).toMatchObject({
+      refundId: 're_dashboard',
+      refundReason: 'manual',
+      refundStatus: 'succeeded',
+      disputeId: 'dp_1',
+      disputeReason: 'fraudulent',
+    })
+  })
+
+  it('should let a failed event be retried and re-processed', async () => {
+    const job = await createCheckedOutJob('cs_retry', { indicatorUrl: undefined })
+    const event = checkoutEvent('checkout.session.completed', 'cs_retry', 'paid')
+    vi.mocked(createRefund).mockRejectedValueOnce(new Error('Stripe unavailable'))
+
+    await expect(receiveStripeEvent(event)).rejects.toThrow('Stripe unavailable')
+    expect(await getStripeWebhookEvent(event.id)).toMatchObject({ status: 'failed', error: 'Stripe unavailable' })
+
+    // Stripe's retry claims the failed event again
+    expect(await receiveStripeEvent(event)).toMatchObject({ status: 'processed', attempts: 2 })
+    expect((await getPublishJob(job.jobId))?.refundId).toBe('re_1')
+
+    // An admin can run it once more; the job is refunded already, so nothing changes
+    expect(await reprocessStripeEvent(event.id)).toMatchObject({ status: 'processed', attempts: 3 })
+    expect(createRefund).toHaveBeenCalledTimes(2)
+    expect(await reprocessStripeEvent('evt_missing')).toBeNull()
+  })
+
+  it('should add credits for a paid pack and plan invoice without touching jobs', async () => {
+    await receiveStripeEvent(stripeEvent('checkout.session.completed', {
+      id: 'cs_pack',
+      mode: 'payment',
+      payment_status: 'paid',
+      metadata: { purpose: 'credit-pack', accountId: 'acct_webhook', packId: 'pack-10', credits: '10' },
+    }))
+    const invoice = await receiveStripeEvent(stripeEvent('invoice.paid', {
+      id: 'in_webhook',
+      parent: { subscription_details: { subscription: 'sub_webhook', metadata: { accountId: 'acct_webhook' } } },
+    }))
+
+    expect(invoice?.outcome).toBe('30 plan credits added to acct_webhook')
+    expect(await getCreditBalance('acct_webhook')).toBe(40)
+    expect(createRefund).not.toHaveBeenCalled()
+  })
+
+  it('should list events newest first', async () => {
+    const older = await receiveStripeEvent(stripeEvent('customer.created', {}))
+    const newer = await receiveStripeEvent(stripeEvent('customer.updated', {}))
+
+    const events = await listStripeWebhookEvents(2)
+    expect(events.map(event => event.eventId)).toEqual([newer!.eventId, older!.eventId])
+    expect(events[0].outcome).toBe('ignored')
+  })
+})
@@ -1,4 +1,8 @@
 import { describe, it, expect } from 'vitest'
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import { quickSyntaxCheck, checkPineSyntax } from '../src/server/pine/syntax-check'
+import { parsePineScript } from '../src/server/pine/parser'
 import {
   VALID_SIMPLE_INDICATOR,
   VALID_RSI_STRATEGY,
@@ -7,44 +11,6 @@ import {
   SCRIPT_WITH_WARNINGS,
 } from './sample-scripts'
 
-// Copy of quickSyntaxCheck to avoid AI SDK import issues in tests
-function quickSyntaxCheck(script: string): string[] {
-  const issues: string[] = []
-
-  if (!script.includes('//@version=')) {
-    issues.push('Missing version declaration. Add //@version=5 at the top.')
-  }
-
-  const openParens = (script.match(/\(/g) || []).length
-  const closeParens = (script.match(/\)/g) || []).length
-  if (openParens !== closeParens) {
-    issues.push(`Mismatched parentheses: ${openParens} open, ${closeParens} close`)
-  }
-
-  const openBrackets = (script.match(/\[/g) || []).length
-  const closeBrackets = (script.match(/\]/g) || []).length
-  if (openBrackets !== closeBrackets) {
-    issues.push(`Mismatched square brackets: ${openBrackets} open, ${closeBrackets} close`)
-  }
-
-  if (script.includes('//@version=5')) {
-    if (script.includes('study(')) {
-      issues.push('In v5, use indicator() instead of study()')
-    }
-    if (script.includes('security(')) {
-      issues.push('In v5, use request.security() instead of security()')
-    }
-  }
-
-  if (!script.includes('indicator(') && !script.includes('strategy(') && !script.includes('library(')) {
-    if (!script.includes('study(')) {
-      issues.push('Missing indicator(), strategy(), or library() declaration')
-    }
-  }
-
-  return issues
-}
-
 describe('quickSyntaxCheck', () => {
   it('should pass valid simple indicator', () => {
     const issues = quickSyntaxCheck(VALID_SIMPLE_INDICATOR)
@@ -69,8 +35,8 @@ describe('quickSyntaxCheck', () => {
 
   it('should detect deprecated v4 functions in v5 script', () => {
     const issues = quickSyntaxCheck(SCRIPT_WITH_WARNINGS)
-    const hasSecurityIssue = issues.some(issue => issue.includes('request.security'))
-    expect(hasSecurityIssue).toBe(true)
+    const hasSmaIssue = issues.some(issue => issue.includes('ta.sma()'))
+    expect(hasSmaIssue).toBe(true)
   })
 
   it('should detect missing version declaration', () => {
@@ -88,4 +54,136 @@ plot(close)`
     const hasDeclIssue = issues.some(issue => issue.includes('indicator()') || issue.includes('strategy()'))
     expect(hasDeclIssue).toBe(true)
   })
+
+  it('should ignore brackets inside strings and comments', () => {
+    const script = `//@version=5
+indicator("Brackets (in a title")
+// plot(close
+plot(close, title="[unbalanced")
+`
+    expect(quickSyntaxCheck(script)).toHaveLength(0)
+  })
+
+  it('should not flag request.security() as deprecated', () => {
+    const script = `//@version=5
+indicator("Security")
+daily = request.security(syminfo.tickerid, "D", close)
+plot(daily)
+`
+    expect(quickSyntaxCheck(script)).toHaveLength(0)
+  })
+})
+
+const TEST_SCRIPTS_DIR = join(__dirname, '../src/test-scripts')
+
+describe('checkPineSyntax', () => {
+  it('should parse the complex valid test script without errors', () => {
+    const script = readFileSync(join(TEST_SCRIPTS_DIR, 'complex-valid.pine'), 'utf-8')
+    expect(checkPineSyntax(script)).toEqual([])
+  })
+
+  it('should report the line where an unclosed parenthesis was opened', () => {
+    const diagnostics = checkPineSyntax(SCRIPT_WITH_ERRORS)
+    expect(diagnostics).toContainEqual(expect.objectContaining({
+      line: 12,
+      type: 'error',
+      code: 'unclosed-bracket',
+    }))
+  })
+
+  it('should find every syntax error in the syntax-errors test script', () => {
+    const script = readFileSync(join(TEST_SCRIPTS_DIR, 'syntax-errors.pine'), 'utf-8')
+    const errors = checkPineSyntax(script).filter(d => d.type === 'error')
+
+    expect(errors.map(d => d.line)).toEqual([6, 10, 18, 21, 28])
+    expect(errors[0].message).toContain("did you mean 'ta.sma'?")
+    expect(errors[3].message).toContain("Expected ',' or ')'")
+    expect(errors[4].code).toBe('redeclared-variable')
+  })
+
+  it('should report a missing block after if', () => {
+    const script = `//@version=5
+indicator("Missing block")
+if close > open
+plot(close)
+`
+    const diagnostics = checkPineSyntax(script)
+    expect(diagnostics).toContainEqual(expect.objectContaining({ line: 3, code: 'missing-block' }))
+  })
+
+  it('should flag bare v4 color names in v5 scripts', () => {
+    const script = `//@version=5
+indicator("Colors")
+plot(close, color=red)
+`
+    const diagnostics = checkPineSyntax(script)
+    expect(diagnostics).toContainEqual(expect.objectContaining({ line: 3, code: 'deprecated-v4-color' }))
+  })
+})
+
+describe('parsePineScript', () => {
+  it('should read the version annotation', () => {
+    const { program } = parsePineScript(MINIMAL_VALID)
+    expect(program.version).toBe(5)
+  })
+
+  it('should parse functions, switch and typed declarations', () => {
+    const script = `//@version=5
+indicator("Constructs")
+f(x, len = 14) =>
+    sum = 0.0
+    for i = 0 to len - 1
+        sum += x[i]
+    sum / len
+mode = input.string("fast", "Mode")
+float value = switch mode
+    "fast" => f(close, 5)
+    => f(close, 20)
+plot(value)
+`
+    const { program, diagnostics } = parsePineScript(script)
+    expect(diagnostics).toEqual([])
+    expect(program.body.map(s => s.kind)).toEqual([
+      'ExpressionStatement',
+      'FunctionDeclaration',
+      'VariableDeclaration',
+      'VariableDeclaration',
+      'ExpressionStatement',
+    ])
+  })
+
+  it('should parse enum declarations with and without titles', () => {
+    const script = `//@version=6
+indicator("Enums")
+export enum Signal
+    buy = "Buy signal"
+    sell = "Sell signal"
+    neutral
+choice = input.enum(Signal.buy, "Signal")
+plot(choice == Signal.sell ? 1 : 0)
+`
+    const { program, diagnostics } = parsePineScript(script)
+    expect(diagnostics).toEqual([])
+    const declaration = program.body[1]
+    expect(declaration.kind).toBe('EnumDeclaration')
+    if (declaration.kind !== 'EnumDeclaration') return
+    expect(declaration.isExport).toBe(true)
+    expect(declaration.fields.map(f => [f.name.name, f.title?.kind])).toEqual([
+      ['buy', 'String'],
+      ['sell', 'String'],
+      ['neutral', undefined],
+    ])
+  })
+
+  it('should warn instead of failing on declaration forms it does not know', () => {
+    const script = `//@version=6
+indicator("Future syntax")
+interface Shape
+    area
+plot(close)
+`
+    const { program, diagnostics } = parsePineScript(script)
+    expect(diagnostics).toEqual([expect.objectContaining({ line: 3, type: 'warning', code: 'unsupported-syntax' })])
+    expect(program.body.map(s => s.kind)).toEqual(['ExpressionStatement', 'ExpressionStatement'])
+  })
 })
@@ -0,0 +1,264 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest'
+import type { Browser, Page } from 'puppeteer-core'
+import {
+  setBrowserDriver,
+  getBrowserDriver,
+  createBrowserSession,
+  closeBrowserSession,
+  navigateTo,
+  type BrowserDriver,
+  type ReconnectableBrowserSession,
+} from '../src/server/browserless'
+import {
+  capturePublishedScriptUrl,
+  ensureChartPineEditorOpen,
+  publishPineScript,
+  updatePublishedScript,
+  validateAndPublishWithWarmSession,
+} from '../src/server/tradingview'
+import { startFakeTradingView, type FakeTradingView } from './fake-tradingview/server'
+import { createFakeTradingViewDriver } from './fake-tradingview/driver'
+import { VALID_SIMPLE_INDICATOR } from './sample-scripts'
+
+// The flows need a real Chrome; they run when one is configured and skip otherwise
+const CHROME_PATH = process.env.CHROME_PATH || process.env.PUPPETEER_EXECUTABLE_PATH
+
+const credentials = { sessionId: 'fake-session', signature: 'fake-signature', userId: 'test' }
+
+const BROKEN_SCRIPT = '//@version=5\nindicator("Broken")\nplot(undefinedSeries)'
+
+describe('browser driver', () => {
+  it('should route sessions and navigation through the active driver', async () => {
+    const session = { browser: {} as Browser, page: {} as Page, isBrowserless: false } as ReconnectableBrowserSession
+    const driver: BrowserDriver = {
+      createSession: vi.fn(async () => session),
+      launchBrowser: vi.fn(),
+      injectCookies: vi.fn(),
+      navigateTo: vi.fn(async () => true),
+    }
+
+    setBrowserDriver(driver)
+    try {
+      expect(await createBrowserSession()).toBe(session)
+      expect(await navigateTo(session.page, 'https://www.tradingview.com/chart/')).toBe(true)
+      expect(driver.navigateTo).toHaveBeenCalledWith(session.page, 'https://www.tradingview.com/chart/', undefined)
+    } finally {
+      setBrowserDriver(null)
+    }
+    expect(getBrowserDriver()).not.toBe(driver)
+  })
+})
+
+describe('fake TradingView', () => {
+  it('should compile with scripted errors and publish with scripted IDs', async () => {
+    const fake = await startFakeTradingView({
+      compile: source => (source.includes('undefinedSeries') ? [{ line: 3, message: 'Undeclared identifier', type: 'error' }] : []),
+      scriptIds: ['Fake123'],
+    })
+    try {
+      const compile = await fetch(`${fake.url}/pine-facade/translate_light/`, {
+        method: 'POST',
+        body: JSON.stringify({ source: BROKEN_SCRIPT }),
+      })
+      expect((await compile.json()).messages).toEqual([{ line: 3, message: 'Undeclared identifier', type: 'error' }])
+
+      const publish = await fetch(`${fake.url}/pine-facade/publish/`, {
+        method: 'POST',
+        body: JSON.stringify({ title: 'Fake Script', description: '', visibility: 'private', source: VALID_SIMPLE_INDICATOR }),
+      })
+      expect(await publish.json()).toEqual({ success: true, scriptIdPart: 'Fake123' })
+
+      const scripts = await fetch(`${fake.url}/api/v1/scripts/?page=1&per_page=10&by=fake&q=Fake%20Script`)
+      expect((await scripts.json()).results).toEqual([
+        { name: 'Fake Script', chart_url: 'https://www.tradingview.com/script/Fake123/' },
+      ])
+    } finally {
+      await fake.close()
+    }
+  })
+})
+
+describe.skipIf(!CHROME_PATH)('TradingView flows against the fake', () => {
+  let fake: FakeTradingView
+
+  beforeAll(async () => {
+    fake = await startFakeTradingView({
+      compile: source => (source.includes('undefinedSeries') ? [{ line: 3, message: 'Undeclared identifier', type: 'error' }] : []),
+      scriptIds: ['WarmPub1', 'ColdPub1'],
+    })
+    setBrowserDriver(createFakeTradingViewDriver(fake.url, CHROME_PATH!))
+    vi.stubEnv('TV_SERVICE_ACCOUNT_USERNAME', 'fake-author')
+  })
+
+  afterAll(async () => {
+    vi.unstubAllEnvs()
+    setBrowserDriver(null)
+    await fake?.close()
+  })
+
+  // A chart page with the Pine Editor open, as the warm session pool keeps it
+  async function openChart(): Promise<ReconnectableBrowserSession> {
+    const session = await createBrowserSession()
+    await navigateTo(session.page, 'https://www.tradingview.com/chart/')
+    await ensureChartPineEditorOpen(session.page, 'Test')
+    return session
+  }
+
+  it('should report compile errors from the console panel', async () => {
+    const session = await openChart()
+    try {
+      const result = await validateAndPublishWithWarmSession(session.page, BROKEN_SCRIPT)
+
+      expect(result.validation.isValid).toBe(false)
+      expect(result.validation.errors).toEqual([
+        {
+          line: 3,
+          message: 'line 3: Undeclared identifier',
+          type: 'error',
+          category: 'undeclared-identifier',
+          code: 'undeclared-identifier',
+        },
+      ])
+      expect(fake.compiled.at(-1)).toBe(BROKEN_SCRIPT)
+      expect(result.publish).toBeUndefined()
+    } finally {
+      await closeBrowserSession(session)
+    }
+  }, 60000)
+
+  it('should validate and publish through a warm page', async () => {
+    const session = await openChart()
+    try {
+      const result = await validateAndPublishWithWarmSession(session.page, VALID_SIMPLE_INDICATOR, {
+        title: 'Warm Fake Publish',
+        description: 'Published by the flow tests',
+        visibility: 'private',
+      })
+
+      expect(result.validation.isValid).toBe(true)
+      expect(result.publish).toMatchObject({
+        success: true,
+        indicatorUrl: 'https://www.tradingview.com/script/WarmPub1/',
+        captureSource: 'network-id',
+      })
+      expect(fake.published.at(-1)).toMatchObject({
+        title: 'Warm Fake Publish',
+        visibility: 'private',
+        source: VALID_SIMPLE_INDICATOR,
+      })
+    } finally {
+      await closeBrowserSession(session)
+    }
+  }, 90000)
+
+  it('should publish in a fresh session', async () => {
+    const result = await publishPineScript(credentials, {
+      script: VALID_SIMPLE_INDICATOR,
+      title: 'Cold Fake Publish',
+      description: 'Published by the flow tests',
+      visibility: 'private',
+    })
+
+    expect(result).toMatchObject({
+      success: true,
+      indicatorUrl: 'https://www.tradingview.com/script/ColdPub1/',
+    })
+    expect(fake.published.at(-1)).toMatchObject({ title: 'Cold Fake Publish', visibility: 'private' })
+  }, 90000)
+
+  it('should publish a protected script through a warm page', async () => {
+    const session = await openChart()
+    try {
+      const result = await validateAndPublishWithWarmSession(session.page, VALID_SIMPLE_INDICATOR, {
+        title: 'Protected Fake Publish',
+        description: 'Published by the flow tests',
+        visibility: 'public',
+        visibilityLevel: 'protected',
+      })
+
+      expect(result.publish?.success).toBe(true)
+      expect(fake.published.at(-1)).toMatchObject({
+        title: 'Protected Fake Publish',
+        visibility: 'public',
+        visibilityLevel: 'protected',
+      })
+    } finally {
+      await closeBrowserSession(session)
+    }
+  }, 90000)
+
+  it('should publish an invite-only script in a fresh session', async () => {
+    const result = await publishPineScript(credentials, {
+      script: VALID_SIMPLE_INDICATOR,
+      title: 'Invite-only Fake Publish',
+      description: 'Published by the flow tests',
+      visibility: 'public',
+      visibilityLevel: 'invite-only',
+    })
+
+    expect(result.success).toBe(true)
+    expect(fake.published.at(-1)).toMatchObject({ title: 'Invite-only Fake Publish', visibilityLevel: 'invite-only' })
+  }, 90000)
+
+  it('should publish a new version of an existing script', async () => {
+    fake.published.push({ id: 'UpdPub1', title: 'Update Fake Publish', description: '', visibility: 'public', source: '' })
+    const result = await updatePublishedScript(credentials, {
+      script: VALID_SIMPLE_INDICATOR,
+      scriptIdOrUrl: 'https://www.tradingview.com/script/UpdPub1/Update-Fake-Publish/',
+      releaseNotes: 'Fixed the moving average length',
+    })
+
+    expect(result).toMatchObject({ success: true, indicatorUrl: 'https://www.tradingview.com/script/UpdPub1/' })
+    expect(fake.published.find(script => script.id === 'UpdPub1')).toMatchObject({
+      source: VALID_SIMPLE_INDICATOR,
+      releaseNotes: ['Fixed the moving average length'],
+    })
+  }, 90000)
+
+  it('should not update a script the account has not published', async () => {
+    const result = await updatePublishedScript(credentials, {
+      script: VALID_SIMPLE_INDICATOR,
+      scriptIdOrUrl: 'Missing1',
+      releaseNotes: 'Never published',
+    })
+
+    expect(result.success).toBe(false)
+  }, 90000)
+
+  it('should capture a script URL from the scripts API by exact title', async () => {
+    fake.published.push({ id: 'ApiPub1', title: 'Api Fake Publish', description: '', visibility: 'public', source: '' })
+    const session = await openChart()
+    try {
+      const captured = await capturePublishedScriptUrl(session.page, {
+        logTag: 'Test',
+        title: 'Api Fake Publish',
+        captureWindowMs: 5000,
+      })
+
+      expect(captured).toEqual({ url: 'https://www.tradingview.com/script/ApiPub1/', source: 'scripts-api' })
+    } finally {
+      await closeBrowserSession(session)
+    }
+  }, 60000)
+
+  it('should capture a script URL linked from the page', async () => {
+    const session = await openChart()
+    try {
+      await session.page.evaluate(() => {
+        const link = document.createElement('a')
+        link.href = 'https://www.tradingview.com/script/DomPub1/Linked/'
+        link.textContent = 'View script'
+        document.body.append(link)
+      })
+      const captured = await capturePublishedScriptUrl(session.page, {
+        logTag: 'Test',
+        title: 'Not In The API',
+        captureWindowMs: 5000,
+      })
+
+      expect(captured).toEqual({ url: 'https://www.tradingview.com/script/DomPub1/', source: 'dom' })
+    } finally {
+      await closeBrowserSession(session)
+    }
+  }, 60000)
+})
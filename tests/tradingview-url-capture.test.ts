@@ -3,6 +3,7 @@ import {
   canonicalizeTradingViewScriptUrl,
   extractScriptIdFromText,
   extractScriptIdFromUrl,
+  resolveScriptId,
   resolveScriptsApiUsername,
   selectExactTitleMatchScriptUrl,
 } from '../src/server/tradingview'
@@ -23,6 +24,13 @@ describe('tradingview URL capture helpers', () => {
     expect(result).toBe('LMN456')
   })
 
+  it('resolves a script to update from a bare id or any of its URLs', () => {
+    expect(resolveScriptId(' AbC123 ')).toBe('AbC123')
+    expect(resolveScriptId('https://www.tradingview.com/script/AbC123/My-Indicator/')).toBe('AbC123')
+    expect(resolveScriptId('https://www.tradingview.com/chart/')).toBeNull()
+    expect(resolveScriptId('not a script')).toBeNull()
+  })
+
   it('selects exact title match only from scripts API results', () => {
     const result = selectExactTitleMatchScriptUrl('My Exact Script', [
       { name: 'My Exact Script', chart_url: 'https://www.tradingview.com/script/AbC111/' },
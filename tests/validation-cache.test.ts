@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getValidationCacheId,
+  lookupValidationResult,
+  storeValidationResult,
+  invalidateValidationResult,
+  lookupFix,
+  storeFix,
+} from '../src/server/validation-cache'
+import { purgeValidationCache } from '../src/server/kv'
+import type { ValidationLoopResult } from '../src/server/validation-loop'
+
+function makeResult(script: string, overrides: Partial<ValidationLoopResult> = {}): ValidationLoopResult {
+  return {
+    finalScript: script,
+    isValid: true,
+    iterations: 1,
+    fixAttempted: false,
+    fixSuccessful: false,
+    finalErrors: [],
+    rawOutput: '',
+    addedToChart: true,
+    history: [{ iteration: 1, source: 'tradingview', script, errors: [] }],
+    stopReason: 'valid',
+    ...overrides,
+  }
+}
+
+// REDIS_URL is unset in tests, so these exercise the in-memory fallback
+describe('getValidationCacheId', () => {
+  it('should key scripts by declared version and content', () => {
+    expect(getValidationCacheId('//@version=5\nindicator("A")')).toMatch(/^v5:[0-9a-f]{64}$/)
+    expect(getValidationCacheId('indicator("A")')).toMatch(/^vnone:/)
+    expect(getValidationCacheId('//@version=5\nindicator("A")')).not.toBe(
+      getValidationCacheId('//@version=6\nindicator("A")')
+    )
+  })
+})
+
+describe('validation result cache', () => {
+  it('should return a stored result without its publish outcome', async () => {
+    const script = '//@version=5\nindicator("Cached")\nplot(close)'
+    await storeValidationResult(
+      script,
+      makeResult(script, { indicatorUrl: 'https://www.tradingview.com/script/abc/', publishError: 'late' }),
+      3
+    )
+
+    const cached = await lookupValidationResult(script, 3)
+    expect(cached?.isValid).toBe(true)
+    expect(cached?.fromCache).toBe(true)
+    expect(cached?.indicatorUrl).toBeUndefined()
+    expect(cached?.publishError).toBeUndefined()
+  })
+
+  it('should not store runs that ended without a verdict', async () => {
+    const script = '//@version=5\nindicator("Errored")'
+    await storeValidationResult(script, makeResult(script, { isValid: false, stopReason: 'error' }), 3)
+    await storeValidationResult(script, makeResult(script, { isValid: false, stopReason: 'cancelled' }), 3)
+
+    expect(await lookupValidationResult(script, 3)).toBeNull()
+  })
+
+  it('should only reuse results a run with the requested retries would reach', async () => {
+    const script = '//@version=5\nindicator("Retries")\nplot(close'
+    const history = [
+      { iteration: 1, source: 'local' as const, script, errors: [{ line: 3, message: 'x', type: 'error' as const }] },
+      { iteration: 2, source: 'local' as const, script, errors: [{ line: 3, message: 'x', type: 'error' as const }] },
+    ]
+    await storeValidationResult(script, makeResult(script, { isValid: false, history, stopReason: 'max-retries' }), 1)
+
+    expect(await lookupValidationResult(script, 1)).not.toBeNull()
+    // Took one fix, so a run without fixes would have stopped earlier
+    expect(await lookupValidationResult(script, 0)).toBeNull()
+    // A run allowed more fixes might have got further
+    expect(await lookupValidationResult(script, 3)).toBeNull()
+  })
+
+  it('should forget a script once invalidated', async () => {
+    const script = '//@version=5\nindicator("Stale")'
+    await storeValidationResult(script, makeResult(script), 3)
+    await storeFix(script, { script: `${script}\nplot(close)`, migrations: [] })
+
+    await invalidateValidationResult(script)
+    expect(await lookupValidationResult(script, 3)).toBeNull()
+    expect(await lookupFix(script)).toBeNull()
+  })
+
+  it('should drop every entry on purge', async () => {
+    const script = '//@version=5\nindicator("Purged")'
+    await storeValidationResult(script, makeResult(script), 3)
+    await storeFix(script, { script: `${script}\nplot(close)`, migrations: [] })
+
+    await purgeValidationCache()
+    expect(await lookupValidationResult(script, 3)).toBeNull()
+    expect(await lookupFix(script)).toBeNull()
+  })
+})
+
+describe('fix cache', () => {
+  it('should map the same broken script to the same fix', async () => {
+    const broken = '//@version=4\nstudy("Old")\nplot(sma(close, 14))'
+    const fix = {
+      script: '//@version=5\nindicator("Old")\nplot(ta.sma(close, 14))',
+      migrations: [{ rule: 'update-version', line: 1, description: 'Updated //@version=4 to //@version=5' }],
+    }
+    expect(await lookupFix(broken)).toBeNull()
+
+    await storeFix(broken, fix)
+    expect(await lookupFix(broken)).toEqual(fix)
+  })
+})
@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { generateText } from 'ai'
+import { runValidationLoop } from '../src/server/validation-loop'
+import { validateWithServiceAccount, type FullValidationResult } from '../src/server/service-validation'
+
+// The TradingView attempt: every test decides what each script compiles to
+vi.mock('../src/server/service-validation', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/server/service-validation')>()),
+  validateWithServiceAccount: vi.fn(),
+}))
+
+// The AI fixer: every test queues the scripts it answers with
+vi.mock('ai', () => ({ generateText: vi.fn() }))
+
+// Every run starts from scratch rather than from an earlier test's result or fix
+vi.mock('../src/server/validation-cache', () => ({
+  lookupValidationResult: async () => null,
+  storeValidationResult: async () => {},
+  invalidateValidationResult: async () => {},
+  lookupFix: async () => null,
+  storeFix: async () => {},
+}))
+
+// Errors are reported on line 4, so fixes may change it and nothing else
+function script(fastLength: string): string {
+  return [
+    '//@version=6',
+    'indicator("Cross", overlay=true)',
+    'len = input.int(14, "Length")',
+    `fast = ta.sma(close, ${fastLength})`,
+    'plot(fast, "Fast", color.red)',
+    'plot(ta.sma(close, len * 2), "Slow", color.blue)',
+  ].join('\n')
+}
+
+const ORIGINAL = script('len')
+
+function compiled(errorCount: number): FullValidationResult {
+  return {
+    isValid: errorCount === 0,
+    errors: Array.from({ length: errorCount }, (_, i) => ({
+      line: 4,
+      column: 1,
+      message: `Error ${i + 1}`,
+      type: 'error' as const,
+    })),
+    rawOutput: '',
+    addedToChart: errorCount === 0,
+  }
+}
+
+// Compiles each script to its error count and answers each fix with the next script
+function stubRun(errorCounts: Map<string, number>, fixes: string[]): void {
+  vi.mocked(validateWithServiceAccount).mockImplementation(async (candidate) => compiled(errorCounts.get(candidate) ?? 0))
+  for (const fix of fixes) {
+    vi.mocked(generateText).mockResolvedValueOnce({ text: fix } as Awaited<ReturnType<typeof generateText>>)
+  }
+}
+
+describe('runValidationLoop', () => {
+  beforeEach(() => {
+    vi.mocked(validateWithServiceAccount).mockReset()
+    vi.mocked(generateText).mockReset()
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  it('should fix a script until it is valid and keep every iteration', async () => {
+    const fixed = script('len + 1')
+    stubRun(new Map([[ORIGINAL, 2], [fixed, 0]]), [fixed])
+
+    const result = await runValidationLoop(ORIGINAL, 3)
+
+    expect(result).toMatchObject({
+      stopReason: 'valid',
+      isValid: true,
+      finalScript: fixed,
+      iterations: 2,
+      fixAttempted: true,
+      fixSuccessful: true,
+      finalErrors: [],
+    })
+    expect(result.history.map((iteration) => [iteration.iteration, iteration.source, iteration.script, iteration.errors.length]))
+      .toEqual([[1, 'tradingview', ORIGINAL, 2], [2, 'tradingview', fixed, 0]])
+    expect(result.history[0].diff).toBeUndefined()
+    expect(result.history[1].diff).toContain('+fast = ta.sma(close, len + 1)')
+  })
+
+  it('should keep the earlier script when a fix does not reduce the errors', async () => {
+    const noBetter = script('len + 1')
+    stubRun(new Map([[ORIGINAL, 2], [noBetter, 2]]), [noBetter])
+
+    const result = await runValidationLoop(ORIGINAL, 3)
+
+    expect(result).toMatchObject({ stopReason: 'no-improvement', isValid: false, finalScript: ORIGINAL, iterations: 2 })
+    expect(result.finalErrors).toEqual(compiled(2).errors)
+    expect(result.history.map((iteration) => iteration.script)).toEqual([ORIGINAL, noBetter])
+    expect(generateText).toHaveBeenCalledTimes(1)
+  })
+
+  it('should stop when a fix repeats an earlier script', async () => {
+    const better = script('len + 1')
+    stubRun(new Map([[ORIGINAL, 2], [better, 1]]), [better, ORIGINAL])
+
+    const result = await runValidationLoop(ORIGINAL, 3)
+
+    expect(result).toMatchObject({ stopReason: 'repeated-script', finalScript: better, iterations: 2 })
+    expect(result.finalErrors).toHaveLength(1)
+    expect(generateText).toHaveBeenCalledTimes(2)
+  })
+
+  it('should stop once the fix attempts run out', async () => {
+    const better = script('len + 1')
+    const best = script('len + 2')
+    stubRun(new Map([[ORIGINAL, 3], [better, 2], [best, 1]]), [better, best])
+
+    const result = await runValidationLoop(ORIGINAL, 1)
+
+    expect(result).toMatchObject({ stopReason: 'max-retries', finalScript: better, iterations: 2, fixAttempted: true })
+    expect(result.history.map((iteration) => iteration.errors.length)).toEqual([3, 2])
+    expect(generateText).toHaveBeenCalledTimes(1)
+    expect(validateWithServiceAccount).toHaveBeenCalledTimes(2)
+  })
+
+  it('should reject a fix that changes behavior beyond the error lines', async () => {
+    const withoutSlowPlot = script('len + 1').replace('\nplot(ta.sma(close, len * 2), "Slow", color.blue)', '')
+    stubRun(new Map([[ORIGINAL, 2]]), [withoutSlowPlot])
+
+    const result = await runValidationLoop(ORIGINAL, 3)
+
+    // The rejected script is never validated; the last validated one is reported with the findings
+    expect(result).toMatchObject({ stopReason: 'behavior-changed', finalScript: ORIGINAL, iterations: 1 })
+    expect(result.semanticFindings).toMatchObject([{ kind: 'plot', change: 'removed', line: 6, severity: 'error' }])
+    expect(result.history).toHaveLength(1)
+    expect(validateWithServiceAccount).toHaveBeenCalledTimes(1)
+  })
+
+  it('should stop when the fixer returns no script', async () => {
+    stubRun(new Map([[ORIGINAL, 1]]), [''])
+
+    const result = await runValidationLoop(ORIGINAL, 3)
+
+    expect(result).toMatchObject({ stopReason: 'fix-failed', finalScript: ORIGINAL, iterations: 1, fixAttempted: true })
+  })
+})
@@ -0,0 +1,225 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { acquireSession, releaseSession, shutdownPool, getSessionStats, type WarmSession } from '../src/server/warm-session'
+import { navigateTo } from '../src/server/browserless'
+
+// Pool settings are read when the module loads: one session, retired after 2 requests or a minute
+const MAX_AGE = 60_000
+const ACQUIRE_TIMEOUT = 300_000
+vi.hoisted(() => {
+  process.env.WARM_SESSION_POOL_SIZE = '1'
+  process.env.WARM_SESSION_MAX_REQUESTS = '2'
+  process.env.WARM_SESSION_MAX_AGE = '60000'
+  process.env.WARM_SESSION_ACQUIRE_TIMEOUT = '300000'
+})
+
+// Stands in for Chrome: every context gets a page that loads instantly and is always logged in
+vi.mock('../src/server/browserless', () => {
+  const fakePage = () => ({
+    on: vi.fn(),
+    setUserAgent: vi.fn(async () => {}),
+    evaluate: vi.fn(async (_fn: unknown, ...args: unknown[]) => (args.length > 0 ? true : 0)),
+    $: vi.fn(async () => ({})),
+    url: () => 'https://www.tradingview.com/chart/',
+    isClosed: () => false,
+    screenshot: vi.fn(async () => {}),
+  })
+  const fakeBrowser = () => {
+    let connected = true
+    return {
+      on: vi.fn(),
+      isConnected: () => connected,
+      createBrowserContext: vi.fn(async () => ({
+        newPage: vi.fn(async () => fakePage()),
+        close: vi.fn(async () => {}),
+      })),
+      close: vi.fn(async () => {
+        connected = false
+      }),
+    }
+  }
+  return {
+    launchHeadlessBrowser: vi.fn(async () => fakeBrowser()),
+    injectCookies: vi.fn(async () => {}),
+    navigateTo: vi.fn(async () => true),
+  }
+})
+
+vi.mock('../src/server/tradingview', () => ({
+  parseTVCookies: () => [],
+  TV_SELECTORS: { auth: { userMenu: '.user-menu' }, pineEditor: { editorArea: '.monaco-editor' } },
+  SCREENSHOT_DIR: '/tmp',
+  ensureChartContext: vi.fn(async () => {}),
+  ensureChartPineEditorOpen: vi.fn(async () => {}),
+}))
+
+const CREDENTIALS = { sessionId: 'session', signature: 'signature', userId: 'user' }
+
+// Opening a session waits out the page-settle delays in openSessionPage
+const OPEN_MS = 5_000
+
+async function opened<T>(promise: Promise<T>): Promise<T> {
+  await vi.advanceTimersByTimeAsync(OPEN_MS)
+  return promise
+}
+
+// Acts as a request arriving on each microtask while a new session is handed to the request it
+// was opened for: the moment the session shows up idle, it tries to acquire one too
+function raceForNewSession(): WarmSession[] {
+  const acquired: WarmSession[] = []
+  vi.mocked(console.log).mockImplementation((message?: unknown) => {
+    if (!String(message).includes('Session created')) return
+    let hops = 0
+    const race = () => {
+      if (getSessionStats().idle > 0) {
+        acquireSession(CREDENTIALS).then((session) => acquired.push(session), () => {})
+      } else if (++hops < 50) {
+        queueMicrotask(race)
+      }
+    }
+    queueMicrotask(race)
+  })
+  return acquired
+}
+
+describe('warm session pool', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterEach(async () => {
+    await shutdownPool()
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('should reuse an idle session instead of opening another', async () => {
+    const first = await opened(acquireSession(CREDENTIALS))
+    await releaseSession(first, true)
+
+    const second = await acquireSession(CREDENTIALS)
+    expect(second).toBe(first)
+    expect(second.requestsServed).toBe(2)
+  })
+
+  it('should hand the session to waiters in the order they arrived', async () => {
+    const session = await opened(acquireSession(CREDENTIALS))
+    const served: string[] = []
+    const waiters = ['a', 'b', 'c'].map((name) =>
+      acquireSession(CREDENTIALS).then((s) => {
+        served.push(name)
+        return s
+      })
+    )
+    expect(getSessionStats().queueLength).toBe(3)
+
+    // The session hits its request limit after 'a', so 'b' and 'c' share a fresh one
+    await releaseSession(session, true)
+    const a = await waiters[0]
+    expect(a).toBe(session)
+    await releaseSession(a, true)
+    const b = await opened(waiters[1])
+    await releaseSession(b, true)
+    const c = await waiters[2]
+
+    expect(served).toEqual(['a', 'b', 'c'])
+    expect(c).toBe(b)
+    expect(getSessionStats().queueLength).toBe(0)
+  })
+
+  it('should not let a concurrent request take a session opened for another', async () => {
+    const acquired = raceForNewSession()
+    const first = await opened(acquireSession(CREDENTIALS))
+    await vi.advanceTimersByTimeAsync(0)
+
+    expect(first.state).toBe('busy')
+    expect(acquired).toEqual([])
+  })
+
+  it('should not let a concurrent request take a session opened for a waiter', async () => {
+    const first = await opened(acquireSession(CREDENTIALS))
+    const waiting = acquireSession(CREDENTIALS)
+    const acquired = raceForNewSession()
+
+    // The failed session is replaced by one opened for the waiter
+    await releaseSession(first, false)
+    const replacement = await opened(waiting)
+    await vi.advanceTimersByTimeAsync(0)
+
+    expect(replacement).not.toBe(first)
+    expect(acquired).toEqual([])
+    expect(getSessionStats()).toMatchObject({ busy: 1, idle: 0, queueLength: 0 })
+  })
+
+  it('should free the slot of a failed open for the next waiter', async () => {
+    vi.mocked(navigateTo).mockResolvedValueOnce(false)
+    const failing = acquireSession(CREDENTIALS)
+    const waiting = acquireSession(CREDENTIALS)
+    const failed = expect(failing).rejects.toThrow('Failed to load the TradingView chart page')
+    expect(getSessionStats()).toMatchObject({ creating: 1, queueLength: 1 })
+
+    await vi.advanceTimersByTimeAsync(OPEN_MS)
+    await failed
+    const session = await opened(waiting)
+
+    expect(session.state).toBe('busy')
+    expect(getSessionStats()).toMatchObject({ creating: 0, queueLength: 0, busy: 1 })
+  })
+
+  it('should remove an aborted waiter from the queue', async () => {
+    const session = await opened(acquireSession(CREDENTIALS))
+    const controller = new AbortController()
+    const waiting = acquireSession(CREDENTIALS, controller.signal)
+    expect(getSessionStats().queueLength).toBe(1)
+
+    controller.abort(new Error('Cancelled by user'))
+    await expect(waiting).rejects.toThrow('Cancelled by user')
+    expect(getSessionStats().queueLength).toBe(0)
+
+    // Nobody is left to take it, so the session goes back to idle
+    await releaseSession(session, true)
+    expect(getSessionStats()).toMatchObject({ idle: 1, busy: 0 })
+  })
+
+  it('should remove a waiter from the queue when it times out', async () => {
+    await opened(acquireSession(CREDENTIALS))
+    const waiting = acquireSession(CREDENTIALS)
+    const timedOut = expect(waiting).rejects.toThrow(`Timeout waiting for warm session (${ACQUIRE_TIMEOUT}ms)`)
+
+    await vi.advanceTimersByTimeAsync(ACQUIRE_TIMEOUT)
+    await timedOut
+    expect(getSessionStats().queueLength).toBe(0)
+  })
+
+  it('should retire a session at its request limit instead of handing it out', async () => {
+    const first = await opened(acquireSession(CREDENTIALS))
+    await releaseSession(first, true)
+    expect(await acquireSession(CREDENTIALS)).toBe(first)
+    await releaseSession(first, true)
+
+    const replacement = await opened(acquireSession(CREDENTIALS))
+    expect(replacement).not.toBe(first)
+    expect(first.context.close).toHaveBeenCalled()
+    expect(getSessionStats().sessions.map((s) => s.id)).toEqual([replacement.id])
+  })
+
+  it('should retire a session past its max age before a queued waiter gets it', async () => {
+    const first = await opened(acquireSession(CREDENTIALS))
+    const waiting = acquireSession(CREDENTIALS)
+
+    vi.setSystemTime(Date.now() + MAX_AGE + 1)
+    await releaseSession(first, true)
+    const replacement = await opened(waiting)
+
+    expect(replacement).not.toBe(first)
+    expect(first.context.close).toHaveBeenCalled()
+  })
+
+  it('should close a session released with an error', async () => {
+    const session = await opened(acquireSession(CREDENTIALS))
+    await releaseSession(session, false)
+
+    expect(session.context.close).toHaveBeenCalled()
+    expect(getSessionStats().sessions).toEqual([])
+  })
+})
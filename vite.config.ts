@@ -16,7 +16,7 @@ const config = defineConfig({
     devtools(),
     nitro({
       preset: 'node-server',
-      plugins: ['./server/plugins/pre-warm.ts'],
+      plugins: ['./server/plugins/pre-warm.ts', './server/plugins/job-queue.ts', './server/plugins/selector-health.ts'],
       rollupConfig: {
         external: ['ws', 'bufferutil', 'utf-8-validate'],
       },